@@ -0,0 +1,36 @@
+/**
+ * API Key Utility Test Suite
+ *
+ * Tests key generation, lookup prefixes and salted hashing
+ */
+
+import { ApiKeys } from '../utils/apiKey';
+
+describe('API Key Utility Tests', () => {
+  test('should generate unique keys with a lookup prefix', () => {
+    const key = ApiKeys.generate();
+    expect(key).toMatch(/^lk_[0-9a-f]{8}_[A-Za-z0-9_-]{43}$/);
+    expect(ApiKeys.generate()).not.toBe(key);
+    expect(ApiKeys.prefixOf(key)).toBe(key.slice(0, 11));
+  });
+
+  test('should use the first characters as prefix of other keys', () => {
+    expect(ApiKeys.prefixOf('dev-key-1')).toBe('dev-key-');
+    expect(ApiKeys.prefixOf('short')).toBe('short');
+  });
+
+  test('should verify a key against its salted hash', () => {
+    const key = ApiKeys.generate();
+    const salt = ApiKeys.generateSalt();
+    const hash = ApiKeys.hash(key, salt);
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(ApiKeys.verify(key, salt, hash)).toBe(true);
+    expect(ApiKeys.verify(key + 'x', salt, hash)).toBe(false);
+    expect(ApiKeys.verify(key, ApiKeys.generateSalt(), hash)).toBe(false);
+  });
+
+  test('should hash the same key differently with different salts', () => {
+    expect(ApiKeys.hash('dev-key-1', 'a')).not.toBe(ApiKeys.hash('dev-key-1', 'b'));
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Balance Service Test Suite
+ *
+ * Tests the balance reports built from repository balances, including consolidation
+ * across ledgers, with the repositories mocked
+ */
+
+import { Database } from '../config/database';
+import { BalanceService } from '../services/BalanceService';
+import { BalanceRepository } from '../repositories/BalanceRepository';
+import { AccountRepository } from '../repositories/AccountRepository';
+import { LedgerRepository } from '../repositories/LedgerRepository';
+import { Account, AccountBalance, AccountType, Ledger, LedgerLine, ValidationError } from '../models/types';
+
+const LEDGER_ID = 'ledger-1';
+
+const balance = (code: string, type: AccountType, debits: number, credits: number): AccountBalance => ({
+  account_code: code,
+  account_name: `Account ${code}`,
+  account_type: type,
+  parent_code: null,
+  debits,
+  credits,
+  balance: debits - credits,
+});
+
+const account = (code: string, type: AccountType): Account => ({
+  id: `account-${code}`,
+  ledger_id: LEDGER_ID,
+  code,
+  name: `Account ${code}`,
+  type,
+  currency: 'INR',
+  parent_id: null,
+  is_active: true,
+  deactivated_at: null,
+  created_at: new Date('2025-01-01'),
+  updated_at: new Date('2025-01-01'),
+});
+
+const ledgerLine = (lineId: string, debit: number, credit: number, runningBalance: number): LedgerLine => ({
+  entry_id: `entry-${lineId}`,
+  line_id: lineId,
+  date: new Date('2025-01-15'),
+  narration: 'Posting',
+  line_index: 0,
+  counter_accounts: ['1001'],
+  debit_cents: debit,
+  credit_cents: credit,
+  running_balance: runningBalance,
+});
+
+const ledger = (id: string): Ledger => ({
+  id,
+  code: id.toUpperCase(),
+  name: `Ledger ${id}`,
+  created_at: new Date('2025-01-01'),
+  updated_at: new Date('2025-01-01'),
+});
+
+describe('Balance Service Tests', () => {
+  let balanceService: BalanceService;
+  let getAllAccountBalances: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(Database, 'getInstance').mockReturnValue({ query: jest.fn(), transaction: jest.fn() } as unknown as Database);
+    getAllAccountBalances = jest.spyOn(BalanceRepository.prototype, 'getAllAccountBalances');
+    balanceService = new BalanceService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Balance Sheet', () => {
+    test('should report unclosed profit as current earnings in equity', async () => {
+      getAllAccountBalances.mockResolvedValue([
+        balance('1001', 'Asset', 150000, 30000),
+        balance('2001', 'Liability', 0, 20000),
+        balance('3001', 'Equity', 0, 50000),
+        balance('4001', 'Revenue', 0, 80000),
+        balance('5001', 'Expense', 30000, 0),
+      ]);
+
+      const sheet = await balanceService.getBalanceSheet(LEDGER_ID, '2025-01-31');
+
+      expect(sheet.current_earnings).toBe(50000);
+      expect(sheet.equity.lines).toEqual([
+        { account_code: '3001', account_name: 'Account 3001', parent_code: null, amount: 50000, is_synthetic: false },
+        { account_code: null, account_name: 'Current earnings', parent_code: null, amount: 50000, is_synthetic: true },
+      ]);
+      expect(sheet.assets.total).toBe(120000);
+      expect(sheet.total_liabilities_and_equity).toBe(120000);
+      expect(sheet.is_balanced).toBe(true);
+      expect(getAllAccountBalances).toHaveBeenCalledWith(LEDGER_ID, new Date('2025-01-31'), false);
+    });
+
+    test('should report a loss as negative current earnings', async () => {
+      getAllAccountBalances.mockResolvedValue([
+        balance('1001', 'Asset', 50000, 10000),
+        balance('3001', 'Equity', 0, 50000),
+        balance('5001', 'Expense', 10000, 0),
+      ]);
+
+      const sheet = await balanceService.getBalanceSheet(LEDGER_ID);
+
+      expect(sheet.as_of).toBeNull();
+      expect(sheet.current_earnings).toBe(-10000);
+      expect(sheet.equity.total).toBe(40000);
+      expect(sheet.is_balanced).toBe(true);
+    });
+
+    test('should leave out current earnings once income is closed to retained earnings', async () => {
+      getAllAccountBalances.mockResolvedValue([
+        balance('1001', 'Asset', 100000, 0),
+        balance('3100', 'Equity', 0, 100000),
+        balance('4001', 'Revenue', 40000, 40000),
+      ]);
+
+      const sheet = await balanceService.getBalanceSheet(LEDGER_ID);
+
+      expect(sheet.current_earnings).toBe(0);
+      expect(sheet.equity.lines.map(line => line.account_code)).toEqual(['3100']);
+      expect(sheet.is_balanced).toBe(true);
+    });
+
+    test('should flag a balance sheet that does not balance', async () => {
+      getAllAccountBalances.mockResolvedValue([
+        balance('1001', 'Asset', 100000, 0),
+        balance('3001', 'Equity', 0, 90000),
+      ]);
+
+      const sheet = await balanceService.getBalanceSheet(LEDGER_ID);
+
+      expect(sheet.is_balanced).toBe(false);
+    });
+
+    test('should reject an invalid as_of date', async () => {
+      await expect(balanceService.getBalanceSheet(LEDGER_ID, '31/01/2025')).rejects.toThrow(ValidationError);
+      expect(getAllAccountBalances).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('General Ledger', () => {
+    // Net debit figures, as the repository computes them: 50.00 before the range,
+    // then one posting of 30.00 on the credit side and one of 10.00 on the debit side
+    const netDebitLedger = {
+      opening: -5000,
+      debits: 1000,
+      credits: 3000,
+      count: 2,
+      lines: [ledgerLine('l1', 0, 3000, -8000), ledgerLine('l2', 1000, 0, -7000)],
+    };
+
+    test('should show credit-normal accounts with credit balances as positive', async () => {
+      jest.spyOn(AccountRepository.prototype, 'findByCode').mockResolvedValue(account('4001', 'Revenue'));
+      jest.spyOn(BalanceRepository.prototype, 'getAccountLedger').mockResolvedValue(netDebitLedger);
+
+      const report = await balanceService.getAccountLedger(LEDGER_ID, '4001', '2025-01-01', '2025-01-31');
+
+      expect(report.opening_balance).toBe(5000);
+      expect(report.lines.map(line => line.running_balance)).toEqual([8000, 7000]);
+      expect(report.closing_balance).toBe(7000);
+      expect(report.totals).toEqual({ debits: 1000, credits: 3000 });
+    });
+
+    test('should show debit-normal accounts as net debit balances', async () => {
+      jest.spyOn(AccountRepository.prototype, 'findByCode').mockResolvedValue(account('1001', 'Asset'));
+      jest.spyOn(BalanceRepository.prototype, 'getAccountLedger').mockResolvedValue(netDebitLedger);
+
+      const report = await balanceService.getAccountLedger(LEDGER_ID, '1001', '2025-01-01', '2025-01-31');
+
+      expect(report.opening_balance).toBe(-5000);
+      expect(report.lines.map(line => line.running_balance)).toEqual([-8000, -7000]);
+      expect(report.closing_balance).toBe(-7000);
+    });
+  });
+
+  describe('Consolidation', () => {
+    const GROUP = ['ledger-a', 'ledger-b'];
+    let getCombinedAccountTotals: jest.SpyInstance;
+
+    beforeEach(() => {
+      jest.spyOn(LedgerRepository.prototype, 'findByIds').mockResolvedValue(GROUP.map(ledger));
+      getCombinedAccountTotals = jest.spyOn(BalanceRepository.prototype, 'getCombinedAccountTotals');
+    });
+
+    test('should eliminate the intercompany balances left after a settlement', async () => {
+      // A lent 1,000.00 to B, and B has repaid 400.00 of it
+      getAllAccountBalances.mockImplementation(async (ledgerId: string) => ledgerId === 'ledger-a'
+        ? [balance('1001', 'Asset', 40000, 100000), balance('1300', 'Asset', 100000, 40000)]
+        : [balance('1001', 'Asset', 100000, 40000), balance('2300', 'Liability', 40000, 100000)]);
+      getCombinedAccountTotals.mockResolvedValue([
+        balance('1300', 'Asset', 100000, 40000),
+        balance('2300', 'Liability', 40000, 100000),
+      ]);
+
+      const sheet = await balanceService.getConsolidatedBalanceSheet(GROUP, '2025-01-31');
+
+      expect(getCombinedAccountTotals).toHaveBeenCalledWith(GROUP, ['1300', '2300'], null, new Date('2025-01-31'));
+      expect(sheet.eliminations.map(row => [row.account_code, row.debits, row.credits])).toEqual([
+        ['1300', 0, 60000],
+        ['2300', 60000, 0],
+      ]);
+      expect(sheet.assets.total).toBe(0);
+      expect(sheet.liabilities.total).toBe(0);
+      expect(sheet.is_balanced).toBe(true);
+    });
+
+    test('should leave a settlement booked by one side only visible', async () => {
+      getAllAccountBalances.mockImplementation(async (ledgerId: string) => ledgerId === 'ledger-a'
+        ? [balance('1001', 'Asset', 40000, 100000), balance('1300', 'Asset', 100000, 40000)]
+        : [balance('1001', 'Asset', 100000, 0), balance('2300', 'Liability', 0, 100000)]);
+      getCombinedAccountTotals.mockResolvedValue([
+        balance('1300', 'Asset', 100000, 40000),
+        balance('2300', 'Liability', 0, 100000),
+      ]);
+
+      const sheet = await balanceService.getConsolidatedBalanceSheet(GROUP);
+
+      expect(sheet.eliminations.map(row => [row.account_code, row.debits, row.credits])).toEqual([
+        ['1300', 0, 60000],
+        ['2300', 60000, 0],
+      ]);
+      expect(sheet.liabilities.total).toBe(40000);
+      expect(sheet.is_balanced).toBe(true);
+    });
+
+    test('should eliminate a settlement within the trial balance range', async () => {
+      const trialBalance = (accounts: AccountBalance[]) => ({
+        from: '2025-02-01',
+        to: '2025-02-28',
+        accounts,
+        totals: {
+          debits: accounts.reduce((total, account) => total + account.debits, 0),
+          credits: accounts.reduce((total, account) => total + account.credits, 0),
+        },
+      });
+      jest.spyOn(BalanceRepository.prototype, 'getTrialBalance').mockImplementation(async ledgerId =>
+        ledgerId === 'ledger-a'
+          ? trialBalance([balance('1001', 'Asset', 30000, 0), balance('1300', 'Asset', 0, 30000)])
+          : trialBalance([balance('1001', 'Asset', 0, 30000), balance('2300', 'Liability', 30000, 0)]));
+      getCombinedAccountTotals.mockResolvedValue([
+        balance('1300', 'Asset', 0, 30000),
+        balance('2300', 'Liability', 30000, 0),
+      ]);
+
+      const report = await balanceService.getConsolidatedTrialBalance(GROUP, '2025-02-01', '2025-02-28');
+
+      expect(report.eliminations.map(row => [row.account_code, row.debits, row.credits])).toEqual([
+        ['1300', 30000, 0],
+        ['2300', 0, 30000],
+      ]);
+      expect(report.accounts.map(account => [account.account_code, account.debits, account.credits, account.balance]))
+        .toEqual([
+          ['1001', 30000, 30000, 0],
+          ['1300', 30000, 30000, 0],
+          ['2300', 30000, 30000, 0],
+        ]);
+      expect(report.totals.debits).toBe(report.totals.credits);
+    });
+
+    test('should not eliminate anything without an intercompany balance on both sides', async () => {
+      getAllAccountBalances
+        .mockResolvedValue([balance('1300', 'Asset', 100000, 0), balance('3001', 'Equity', 0, 100000)]);
+      getCombinedAccountTotals.mockResolvedValue([balance('1300', 'Asset', 100000, 0)]);
+
+      const sheet = await balanceService.getConsolidatedBalanceSheet(GROUP);
+
+      expect(sheet.eliminations).toEqual([]);
+      expect(sheet.assets.total).toBe(200000);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Bank Matching Test Suite
+ *
+ * Tests proposing matches between bank statement lines and journal lines
+ */
+
+import { BankMatcher } from '../utils/bankMatching';
+
+const statementLine = (
+  id: string,
+  date: string,
+  amount: number,
+  description: string | null = null,
+  reference: string | null = null
+) => ({
+  id,
+  booking_date: new Date(date),
+  amount_cents: amount,
+  description,
+  reference,
+});
+
+const bookLine = (id: string, date: string, amount: number, narration = 'Payment') => ({
+  journal_line_id: id,
+  date: new Date(date),
+  amount_cents: amount,
+  narration,
+});
+
+describe('Bank Matching Tests', () => {
+  describe('Reference Rule', () => {
+    test('should match the line sharing a reference among lines of the same amount', () => {
+      const matches = BankMatcher.propose(
+        [statementLine('s1', '2024-01-10', 50000, 'NEFT ACME CORP INV-0042')],
+        [
+          bookLine('j1', '2024-01-09', 50000, 'Receipt from Beta Ltd for INV-0041'),
+          bookLine('j2', '2024-01-08', 50000, 'Receipt from Acme Corp for INV0042'),
+        ],
+        3
+      );
+
+      expect(matches).toEqual([{ rule: 'reference', statement_line_ids: ['s1'], journal_line_ids: ['j2'] }]);
+    });
+
+    test('should not match outside the date window', () => {
+      const matches = BankMatcher.propose(
+        [statementLine('s1', '2024-01-10', 50000, null, 'INV-0042')],
+        [bookLine('j1', '2024-01-01', 50000, 'Invoice INV-0042')],
+        3
+      );
+
+      expect(matches).toEqual([]);
+    });
+  });
+
+  describe('Amount Rule', () => {
+    test('should match a unique amount within the date window', () => {
+      const matches = BankMatcher.propose(
+        [statementLine('s1', '2024-01-10', -25050, 'Service charge')],
+        [bookLine('j1', '2024-01-12', -25050), bookLine('j2', '2024-01-12', 25050)],
+        3
+      );
+
+      expect(matches).toEqual([{ rule: 'amount', statement_line_ids: ['s1'], journal_line_ids: ['j1'] }]);
+    });
+
+    test('should leave equal recurring amounts unmatched', () => {
+      const matches = BankMatcher.propose(
+        [statementLine('s1', '2024-01-10', -10000), statementLine('s2', '2024-01-11', -10000)],
+        [bookLine('j1', '2024-01-10', -10000), bookLine('j2', '2024-01-11', -10000)],
+        3
+      );
+
+      expect(matches).toEqual([]);
+    });
+
+    test('should leave a journal line that fits several statement lines unmatched', () => {
+      const matches = BankMatcher.propose(
+        [statementLine('s1', '2024-01-08', -10000), statementLine('s2', '2024-01-14', -10000)],
+        [bookLine('j1', '2024-01-11', -10000)],
+        3
+      );
+
+      expect(matches).toEqual([]);
+    });
+  });
+
+  describe('Group Rules', () => {
+    test('should match one deposit to the journal lines adding up to it', () => {
+      const matches = BankMatcher.propose(
+        [statementLine('s1', '2024-01-10', 60000, 'Cheque deposit')],
+        [bookLine('j1', '2024-01-09', 10000), bookLine('j2', '2024-01-09', 20000), bookLine('j3', '2024-01-10', 30000)],
+        3
+      );
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0]!.rule).toBe('one_to_many');
+      expect(matches[0]!.statement_line_ids).toEqual(['s1']);
+      expect([...matches[0]!.journal_line_ids].sort()).toEqual(['j1', 'j2', 'j3']);
+    });
+
+    test('should match several statement lines to one journal line', () => {
+      const matches = BankMatcher.propose(
+        [statementLine('s1', '2024-01-10', -40000), statementLine('s2', '2024-01-11', -35000)],
+        [bookLine('j1', '2024-01-10', -75000, 'Supplier payment')],
+        3
+      );
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0]!.rule).toBe('many_to_one');
+      expect([...matches[0]!.statement_line_ids].sort()).toEqual(['s1', 's2']);
+      expect(matches[0]!.journal_line_ids).toEqual(['j1']);
+    });
+
+    test('should not match when several combinations add up to the amount', () => {
+      const matches = BankMatcher.propose(
+        [statementLine('s1', '2024-01-10', 30000)],
+        [bookLine('j1', '2024-01-10', 10000), bookLine('j2', '2024-01-10', 20000), bookLine('j3', '2024-01-10', 20000)],
+        3
+      );
+
+      expect(matches).toEqual([]);
+    });
+
+    test('should not combine lines of opposite signs', () => {
+      const matches = BankMatcher.propose(
+        [statementLine('s1', '2024-01-10', 10000)],
+        [bookLine('j1', '2024-01-10', 15000), bookLine('j2', '2024-01-10', -5000)],
+        3
+      );
+
+      expect(matches).toEqual([]);
+    });
+
+    test('should apply the single-line rules before the group rules', () => {
+      const matches = BankMatcher.propose(
+        [statementLine('s1', '2024-01-10', 30000), statementLine('s2', '2024-01-10', 10000)],
+        [bookLine('j1', '2024-01-10', 10000), bookLine('j2', '2024-01-10', 20000), bookLine('j3', '2024-01-10', 30000)],
+        3
+      );
+
+      expect(matches.map(match => match.rule)).toEqual(['amount', 'amount']);
+      expect(matches.map(match => match.journal_line_ids)).toEqual([['j3'], ['j1']]);
+    });
+  });
+
+  describe('References', () => {
+    test('should compare references without punctuation and case', () => {
+      expect(BankMatcher.sharesReference({ description: null, reference: 'INV-0042' }, 'Invoice inv0042 paid')).toBe(true);
+      expect(BankMatcher.sharesReference({ description: 'NEFT ACME PO-7781', reference: null }, 'Order po7781')).toBe(true);
+      expect(BankMatcher.sharesReference({ description: 'NEFT ACME PO-7781', reference: null }, 'Order PO-7782')).toBe(false);
+    });
+
+    test('should ignore short and purely alphabetic words', () => {
+      expect(BankMatcher.sharesReference({ description: 'Payment ACME', reference: null }, 'Payment ACME')).toBe(false);
+      expect(BankMatcher.sharesReference({ description: 'Ref 42', reference: '42' }, 'Invoice 42')).toBe(false);
+    });
+  });
+});
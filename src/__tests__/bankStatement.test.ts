@@ -0,0 +1,278 @@
+/**
+ * Bank Statement Parser Test Suite
+ *
+ * Tests reading CSV, OFX and CAMT.053 bank statements into statement lines
+ */
+
+import { BankStatements } from '../utils/bankStatement';
+import { ValidationError } from '../models/types';
+
+const OFX_SGML = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<STMTRS>
+<CURDEF>INR
+<BANKACCTFROM>
+<BANKID>HDFC0001
+<ACCTID>50100012345
+<ACCTTYPE>CHECKING
+</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20240101000000[+5.5:IST]
+<DTEND>20240131235959[+5.5:IST]
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240105
+<TRNAMT>15000.00
+<FITID>TXN-1001
+<NAME>Acme Corp
+<MEMO>Invoice INV-42
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>FEE
+<DTPOSTED>20240131120000
+<TRNAMT>-250.50
+<FITID>TXN-1002
+<NAME>Service charge &amp; GST
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL>
+<BALAMT>24749.50
+<DTASOF>20240131
+</LEDGERBAL>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>
+`;
+
+const CAMT_053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <GrpHdr><MsgId>MSG-1</MsgId><CreDtTm>2024-02-01T06:00:00</CreDtTm></GrpHdr>
+    <Stmt>
+      <Id>STMT-2024-01</Id>
+      <CreDtTm>2024-02-01T06:00:00</CreDtTm>
+      <FrToDt><FrDtTm>2024-01-01T00:00:00</FrDtTm><ToDtTm>2024-01-31T23:59:59</ToDtTm></FrToDt>
+      <Acct><Id><IBAN>DE89370400440532013000</IBAN></Id><Ccy>EUR</Ccy></Acct>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">1000.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Dt><Dt>2024-01-01</Dt></Dt>
+      </Bal>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">1180.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Dt><Dt>2024-01-31</Dt></Dt>
+      </Bal>
+      <Ntry>
+        <Amt Ccy="EUR">200.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2024-01-10</Dt></BookgDt>
+        <ValDt><Dt>2024-01-11</Dt></ValDt>
+        <AcctSvcrRef>BANKREF-1</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>E2E-42</EndToEndId></Refs>
+          <RmtInf><Ustrd>Invoice INV-42</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">20.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><DtTm>2024-01-31T10:00:00</DtTm></BookgDt>
+        <NtryDtls><TxDtls><Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs></TxDtls></NtryDtls>
+        <AddtlNtryInf>Account maintenance fee</AddtlNtryInf>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">99.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>PDNG</Sts>
+        <BookgDt><Dt>2024-01-31</Dt></BookgDt>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>
+`;
+
+describe('Bank Statement Parser Tests', () => {
+  describe('Format Detection', () => {
+    test('should detect OFX, CAMT.053 and fall back to CSV', () => {
+      expect(BankStatements.detectFormat(OFX_SGML)).toBe('ofx');
+      expect(BankStatements.detectFormat(CAMT_053)).toBe('camt053');
+      expect(BankStatements.detectFormat('date,amount\n2024-01-01,10.00\n')).toBe('csv');
+    });
+  });
+
+  describe('Amounts and Dates', () => {
+    test('should parse signed amounts in minor units', () => {
+      expect(BankStatements.parseAmount('1,234.50', 'INR')).toBe(123450);
+      expect(BankStatements.parseAmount('-12.5', 'INR')).toBe(-1250);
+      expect(BankStatements.parseAmount('12.00-', 'INR')).toBe(-1200);
+      expect(BankStatements.parseAmount('(7.25)', 'INR')).toBe(-725);
+      expect(BankStatements.parseAmount('1.234,50', 'EUR', ',')).toBe(123450);
+      expect(BankStatements.parseAmount('1500', 'JPY')).toBe(1500);
+    });
+
+    test('should reject amounts that are not valid in the currency', () => {
+      expect(() => BankStatements.parseAmount('abc', 'INR')).toThrow(ValidationError);
+      expect(() => BankStatements.parseAmount('1.005', 'INR')).toThrow(ValidationError);
+      expect(() => BankStatements.parseAmount('', 'INR')).toThrow(ValidationError);
+    });
+
+    test('should parse dates in the configured format', () => {
+      expect(BankStatements.parseDate('2024-01-05', 'YYYY-MM-DD')).toBe('2024-01-05');
+      expect(BankStatements.parseDate('05/01/2024', 'DD/MM/YYYY')).toBe('2024-01-05');
+      expect(BankStatements.parseDate('01/05/2024', 'MM/DD/YYYY')).toBe('2024-01-05');
+      expect(BankStatements.parseDate('5.1.2024', 'DD.MM.YYYY')).toBe('2024-01-05');
+      expect(BankStatements.parseDate('20240105', 'YYYYMMDD')).toBe('2024-01-05');
+    });
+
+    test('should reject impossible dates and other formats', () => {
+      expect(() => BankStatements.parseDate('2024-02-30', 'YYYY-MM-DD')).toThrow(ValidationError);
+      expect(() => BankStatements.parseDate('05/01/2024', 'YYYY-MM-DD')).toThrow(ValidationError);
+    });
+  });
+
+  describe('CSV Statements', () => {
+    test('should read lines with the default mapping', () => {
+      const statement = BankStatements.parseCsv(
+        'Date,Amount,Description,Transaction_ID\n2024-01-05,1500.00,Deposit,T1\n2024-01-06,-20.00,Fee,T2\n',
+        'INR'
+      );
+
+      expect(statement.period_start).toBe('2024-01-05');
+      expect(statement.period_end).toBe('2024-01-06');
+      expect(statement.opening_balance_cents).toBeNull();
+      expect(statement.lines).toEqual([
+        { bank_transaction_id: 'T1', booking_date: '2024-01-05', value_date: null, amount_cents: 150000, description: 'Deposit', reference: null },
+        { bank_transaction_id: 'T2', booking_date: '2024-01-06', value_date: null, amount_cents: -2000, description: 'Fee', reference: null },
+      ]);
+    });
+
+    test('should apply a column mapping with debit and credit columns', () => {
+      const statement = BankStatements.parseCsv(
+        'Txn Date;Narration;Withdrawal;Deposit;Closing Balance\n' +
+        '06/01/2024;Bank charges;20,00;;1.480,00\n' +
+        '05/01/2024;Salary;;1.500,00;1.500,00\n',
+        'INR',
+        {
+          date: 'Txn Date',
+          description: 'Narration',
+          debit: 'Withdrawal',
+          credit: 'Deposit',
+          balance: 'Closing Balance',
+          date_format: 'DD/MM/YYYY',
+          decimal_separator: ',',
+          delimiter: ';',
+        }
+      );
+
+      // Newest-first files are read in date order
+      expect(statement.lines.map(line => line.amount_cents)).toEqual([150000, -2000]);
+      expect(statement.opening_balance_cents).toBe(0);
+      expect(statement.closing_balance_cents).toBe(148000);
+    });
+
+    test('should derive stable transaction IDs for lines without one', () => {
+      const csv = 'date,amount,description\n2024-01-05,-4.50,Coffee\n2024-01-05,-4.50,Coffee\n';
+      const first = BankStatements.parseCsv(csv, 'INR').lines.map(line => line.bank_transaction_id);
+      const second = BankStatements.parseCsv(csv, 'INR').lines.map(line => line.bank_transaction_id);
+
+      expect(first[0]).toMatch(/^gen_[0-9a-f]{32}$/);
+      expect(first[0]).not.toBe(first[1]);
+      expect(second).toEqual(first);
+    });
+
+    test('should reject mapped columns that are missing', () => {
+      expect(() => BankStatements.parseCsv('date,amount\n2024-01-05,1.00\n', 'INR', { id: 'Ref No' }))
+        .toThrow("CSV statement has no column named 'Ref No'");
+    });
+  });
+
+  describe('OFX Statements', () => {
+    test('should read an SGML statement and derive the opening balance', () => {
+      const statement = BankStatements.parseOfx(OFX_SGML, 'USD');
+
+      expect(statement.currency).toBe('INR');
+      expect(statement.period_start).toBe('2024-01-01');
+      expect(statement.period_end).toBe('2024-01-31');
+      expect(statement.closing_balance_cents).toBe(2474950);
+      expect(statement.opening_balance_cents).toBe(1000000);
+      expect(statement.lines).toEqual([
+        {
+          bank_transaction_id: 'TXN-1001',
+          booking_date: '2024-01-05',
+          value_date: null,
+          amount_cents: 1500000,
+          description: 'Acme Corp - Invoice INV-42',
+          reference: null,
+        },
+        {
+          bank_transaction_id: 'TXN-1002',
+          booking_date: '2024-01-31',
+          value_date: null,
+          amount_cents: -25050,
+          description: 'Service charge & GST',
+          reference: null,
+        },
+      ]);
+    });
+
+    test('should read an XML statement', () => {
+      const xml = '<?xml version="1.0"?><?OFX OFXHEADER="200" VERSION="220"?><OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>' +
+        '<CURDEF>INR</CURDEF><BANKTRANLIST><STMTTRN><DTPOSTED>20240105</DTPOSTED><TRNAMT>10.00</TRNAMT>' +
+        '<FITID>X1</FITID><NAME>Interest</NAME></STMTTRN></BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>';
+      const statement = BankStatements.parseOfx(xml, 'INR');
+
+      expect(statement.lines).toHaveLength(1);
+      expect(statement.lines[0]).toMatchObject({ bank_transaction_id: 'X1', amount_cents: 1000, description: 'Interest' });
+      expect(statement.closing_balance_cents).toBeNull();
+    });
+
+    test('should reject files without a statement', () => {
+      expect(() => BankStatements.parseOfx('<OFX></OFX>', 'INR')).toThrow('OFX file contains no bank statement');
+    });
+  });
+
+  describe('CAMT.053 Statements', () => {
+    test('should read booked entries and balances', () => {
+      const statement = BankStatements.parseCamt053(CAMT_053, 'INR');
+
+      expect(statement.statement_ref).toBe('STMT-2024-01');
+      expect(statement.currency).toBe('EUR');
+      expect(statement.period_start).toBe('2024-01-01');
+      expect(statement.period_end).toBe('2024-01-31');
+      expect(statement.opening_balance_cents).toBe(100000);
+      expect(statement.closing_balance_cents).toBe(118000);
+      expect(statement.lines).toHaveLength(2);
+      expect(statement.lines[0]).toEqual({
+        bank_transaction_id: 'BANKREF-1',
+        booking_date: '2024-01-10',
+        value_date: '2024-01-11',
+        amount_cents: 20000,
+        description: 'Invoice INV-42',
+        reference: 'E2E-42',
+      });
+      expect(statement.lines[1]).toMatchObject({
+        booking_date: '2024-01-31',
+        amount_cents: -2000,
+        description: 'Account maintenance fee',
+        reference: null,
+      });
+      expect(statement.lines[1]!.bank_transaction_id).toMatch(/^gen_/);
+    });
+
+    test('should reject files with more than one statement', () => {
+      const twice = CAMT_053.replace(/(<Stmt>[\s\S]*<\/Stmt>)/, '$1$1');
+      expect(() => BankStatements.parseCamt053(twice, 'EUR')).toThrow('import them one at a time');
+    });
+  });
+});
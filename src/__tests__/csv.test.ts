@@ -0,0 +1,77 @@
+/**
+ * CSV Utility Test Suite
+ *
+ * Tests the CSV helpers used for chart-of-accounts import and export
+ */
+
+import { Csv } from '../utils/csv';
+
+describe('CSV Utility Tests', () => {
+  describe('Parsing', () => {
+    test('should parse simple rows', () => {
+      expect(Csv.parse('code,name,type\n1001,Cash,Asset\n')).toEqual([
+        ['code', 'name', 'type'],
+        ['1001', 'Cash', 'Asset'],
+      ]);
+    });
+
+    test('should handle quoted fields with commas, quotes and newlines', () => {
+      const text = 'code,name\n1001,"Cash, ""petty""\nand float"\n';
+      expect(Csv.parse(text)).toEqual([
+        ['code', 'name'],
+        ['1001', 'Cash, "petty"\nand float'],
+      ]);
+    });
+
+    test('should handle CRLF line endings, blank lines and a missing final newline', () => {
+      expect(Csv.parse('a,b\r\n\r\n1,2')).toEqual([
+        ['a', 'b'],
+        ['1', '2'],
+      ]);
+    });
+
+    test('should keep empty fields', () => {
+      expect(Csv.parse('1001,Cash,Asset,\n')).toEqual([['1001', 'Cash', 'Asset', '']]);
+    });
+
+    test('should support a custom delimiter', () => {
+      expect(Csv.parse('a;b\n1;2\n', ';')).toEqual([
+        ['a', 'b'],
+        ['1', '2'],
+      ]);
+    });
+
+    test('should reject unterminated quotes', () => {
+      expect(() => Csv.parse('a,"b\n')).toThrow(/Unterminated/);
+    });
+  });
+
+  describe('Records', () => {
+    test('should key records by normalized header names', () => {
+      const records = Csv.parseRecords('\uFEFFCode, Name ,TYPE,parent_code\n1001, Cash ,Asset,1000\n1000,Current Assets,Asset\n');
+      expect(records).toEqual([
+        { code: '1001', name: 'Cash', type: 'Asset', parent_code: '1000' },
+        { code: '1000', name: 'Current Assets', type: 'Asset', parent_code: '' },
+      ]);
+    });
+
+    test('should return no records for empty input', () => {
+      expect(Csv.parseRecords('')).toEqual([]);
+    });
+  });
+
+  describe('Stringify', () => {
+    test('should quote only fields that need it', () => {
+      expect(Csv.stringify([
+        ['code', 'name', 'is_active'],
+        ['1001', 'Cash, "petty"', true],
+        ['1002', null, false],
+      ])).toBe('code,name,is_active\n1001,"Cash, ""petty""",true\n1002,,false\n');
+    });
+
+    test('should round-trip through parse', () => {
+      const rows = [['a', 'b,c', 'd"e'], ['1', '', 'line\nbreak']];
+      expect(Csv.parse(Csv.stringify(rows))).toEqual(rows);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Idempotency Middleware Test Suite
+ *
+ * Tests which responses are stored for replay, with the idempotency service mocked
+ */
+
+import { EventEmitter } from 'events';
+import { Response } from 'express';
+import { IdempotencyMiddleware } from '../middleware/idempotency';
+import { AuthMiddleware, AuthenticatedRequest } from '../middleware/auth';
+import { IdempotencyService } from '../services/IdempotencyService';
+import { IdempotencyRecord } from '../models/types';
+
+const reservation: IdempotencyRecord = {
+  api_key_id: 'key-1',
+  key: 'retry-1',
+  ledger_id: null,
+  endpoint: 'POST /journal-entries',
+  request_hash: 'hash',
+  status: 'in_progress',
+  lock_token: 'lock-1',
+  locked_until: new Date(),
+  entry_ids: null,
+  status_code: null,
+  content_type: null,
+  response_body: null,
+  created_at: new Date(),
+};
+
+// Just enough of an Express response for the middleware: send, headers and the finish event
+class FakeResponse extends EventEmitter {
+  statusCode = 200;
+  writableFinished = false;
+  body: string | undefined;
+  private headers: Record<string, string> = {};
+
+  status(code: number): this {
+    this.statusCode = code;
+    return this;
+  }
+
+  setHeader(name: string, value: string): this {
+    this.headers[name.toLowerCase()] = value;
+    return this;
+  }
+
+  getHeader(name: string): string | undefined {
+    return this.headers[name.toLowerCase()];
+  }
+
+  json(body: unknown): this {
+    this.setHeader('Content-Type', 'application/json; charset=utf-8');
+    return this.send(JSON.stringify(body));
+  }
+
+  send(body?: string): this {
+    this.body = body;
+    this.writableFinished = true;
+    this.emit('finish');
+    return this;
+  }
+}
+
+const request = (overrides: Partial<AuthenticatedRequest> = {}): AuthenticatedRequest => ({
+  method: 'POST',
+  path: '/journal-entries',
+  query: {},
+  body: {},
+  apiKeyId: 'key-1',
+  idempotencyKey: 'retry-1',
+  scopes: ['reports:read'],
+  ...overrides,
+}) as unknown as AuthenticatedRequest;
+
+// Run the request through the idempotency middleware and then the given handler
+async function run(
+  req: AuthenticatedRequest,
+  handler: (req: AuthenticatedRequest, res: Response) => void
+): Promise<FakeResponse> {
+  const res = new FakeResponse();
+  let nextCalled = false;
+  await IdempotencyMiddleware.replayOrRecord(req, res as unknown as Response, () => {
+    nextCalled = true;
+  });
+  if (nextCalled) {
+    handler(req, res as unknown as Response);
+  }
+  return res;
+}
+
+describe('Idempotency Middleware Tests', () => {
+  let recordResponse: jest.SpyInstance;
+  let releaseReservation: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(IdempotencyService.prototype, 'reserve').mockResolvedValue({ outcome: 'reserved', reservation });
+    recordResponse = jest.spyOn(IdempotencyService.prototype, 'recordResponse').mockResolvedValue(reservation);
+    releaseReservation = jest.spyOn(IdempotencyService.prototype, 'releaseReservation').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should store responses of requests that ran', async () => {
+    const res = await run(request(), (_req, res) => {
+      res.status(400).json({ success: false, code: 'VALIDATION_ERROR' });
+    });
+
+    expect(res.statusCode).toBe(400);
+    expect(recordResponse).toHaveBeenCalledWith(reservation, expect.objectContaining({
+      statusCode: 400,
+      body: '{"success":false,"code":"VALIDATION_ERROR"}',
+    }));
+    expect(releaseReservation).not.toHaveBeenCalled();
+  });
+
+  test('should release the key when a scope guard rejects the request', async () => {
+    const res = await run(request(), (req, res) => {
+      AuthMiddleware.requireScope('journal:post')(req, res, () => undefined);
+    });
+
+    expect(res.statusCode).toBe(403);
+    expect(releaseReservation).toHaveBeenCalledWith(reservation);
+    expect(recordResponse).not.toHaveBeenCalled();
+  });
+
+  test('should release the key when no ledger was resolved', async () => {
+    const res = await run(request({ ledgerIds: ['ledger-1', 'ledger-2'] }), (req, res) => {
+      AuthMiddleware.requireLedger(req, res, () => undefined);
+    });
+
+    expect(res.statusCode).toBe(400);
+    expect(releaseReservation).toHaveBeenCalledWith(reservation);
+    expect(recordResponse).not.toHaveBeenCalled();
+  });
+
+  test('should store responses carrying a credential without it', async () => {
+    await run(request({ path: '/api-keys', scopes: ['admin'] }), (_req, res) => {
+      res.status(201).json({ success: true, data: { id: 'key-2', key: 'lk_live_secret' }, message: 'API key created' });
+    });
+    await run(request({ path: '/webhooks', scopes: ['admin'] }), (_req, res) => {
+      res.status(201).json({ success: true, data: { id: 'hook-1', secret: 'whsec_live_secret' } });
+    });
+
+    const stored = recordResponse.mock.calls.map(call => call[1].body as string);
+    expect(stored).toEqual([
+      '{"success":true,"data":{"id":"key-2","key":"[REDACTED]"},"message":"API key created"}',
+      '{"success":true,"data":{"id":"hook-1","secret":"[REDACTED]"}}',
+    ]);
+  });
+
+  test('should replay stored responses byte-for-byte', async () => {
+    const body = '{"success":true,"data":{"id":"entry-1"}}';
+    jest.spyOn(IdempotencyService.prototype, 'reserve').mockResolvedValue({
+      outcome: 'completed',
+      record: { ...reservation, status: 'completed', status_code: 201, content_type: 'application/json', response_body: body },
+    });
+
+    const res = await run(request(), () => undefined);
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body).toBe(body);
+    expect(res.getHeader('Idempotent-Replayed')).toBe('true');
+  });
+
+  test('should not replay responses carrying a credential', async () => {
+    jest.spyOn(IdempotencyService.prototype, 'reserve').mockResolvedValue({
+      outcome: 'completed',
+      record: {
+        ...reservation,
+        endpoint: 'POST /api-keys/key-2/rotate',
+        status: 'completed',
+        status_code: 201,
+        content_type: 'application/json',
+        response_body: '{"success":true,"data":{"id":"key-3","key":"[REDACTED]"}}',
+      },
+    });
+
+    const res = await run(request({ path: '/api-keys/key-2/rotate', scopes: ['admin'] }), () => undefined);
+
+    expect(res.statusCode).toBe(410);
+    expect(JSON.parse(res.body!)).toMatchObject({
+      code: 'IDEMPOTENT_RESPONSE_NOT_STORED',
+      data: { id: 'key-3', key: '[REDACTED]' },
+    });
+  });
+
+  test('should release the key on server errors', async () => {
+    await run(request(), (_req, res) => {
+      res.status(500).json({ success: false, code: 'INTERNAL_ERROR' });
+    });
+
+    expect(releaseReservation).toHaveBeenCalledWith(reservation);
+    expect(recordResponse).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,757 @@
+/**
+ * Journal Service Test Suite
+ *
+ * Tests posting rules of the journal service with the database mocked;
+ * rows are shaped the way pg returns them (json_agg columns already parsed)
+ */
+
+import { types } from 'pg';
+import { Database } from '../config/database';
+import { JournalService } from '../services/JournalService';
+import { JournalRepository } from '../repositories/JournalRepository';
+import { AccountRepository } from '../repositories/AccountRepository';
+import { FiscalPeriodRepository } from '../repositories/FiscalPeriodRepository';
+import { IdempotencyService } from '../services/IdempotencyService';
+import { ENV } from '../config/env';
+import {
+  Account,
+  AccountType,
+  BatchValidationError,
+  ConflictError,
+  FiscalPeriod,
+  FiscalPeriodStatus,
+  ForbiddenError,
+  IdempotencyReservation,
+  IntercompanyTransaction,
+  JournalEntry,
+  JournalLine,
+  ValidationError
+} from '../models/types';
+
+const LEDGER_ID = 'ledger-1';
+
+const line = (overrides: Partial<JournalLine>): JournalLine => ({
+  id: 'line-1',
+  entry_id: 'entry-1',
+  account_id: 'account-1001',
+  account_code: '1001',
+  debit_cents: 0,
+  credit_cents: 0,
+  currency: 'INR',
+  transaction_amount_cents: 0,
+  exchange_rate: 1,
+  line_index: 0,
+  ...overrides,
+});
+
+const entry = (overrides: Partial<JournalEntry> = {}): JournalEntry => ({
+  id: 'entry-1',
+  ledger_id: LEDGER_ID,
+  date: new Date('2025-01-15'),
+  narration: 'Seed capital',
+  status: 'posted',
+  posted_at: new Date('2025-01-15T10:00:00Z'),
+  is_adjusting: false,
+  created_by: 'key-1',
+  submitted_by: 'key-1',
+  submitted_at: new Date('2025-01-15T10:00:00Z'),
+  reviewed_by: null,
+  reviewed_at: null,
+  rejection_reason: null,
+  lines: [
+    line({ id: 'line-1', debit_cents: 10000, transaction_amount_cents: 10000 }),
+    line({
+      id: 'line-2',
+      account_id: 'account-3001',
+      account_code: '3001',
+      credit_cents: 10000,
+      transaction_amount_cents: 10000,
+      line_index: 1,
+    }),
+  ],
+  ...overrides,
+});
+
+const account = (code: string, type: AccountType, overrides: Partial<Account> = {}): Account => ({
+  id: `account-${code}`,
+  ledger_id: LEDGER_ID,
+  code,
+  name: `Account ${code}`,
+  type,
+  currency: 'INR',
+  parent_id: null,
+  is_active: true,
+  deactivated_at: null,
+  created_at: new Date('2025-01-01'),
+  updated_at: new Date('2025-01-01'),
+  ...overrides,
+});
+
+// A journal_entries row with its lines aggregated by json_agg, as pg hands it over
+const aggregatedRow = (journalEntry: JournalEntry): Record<string, unknown> => ({
+  ...journalEntry,
+  lines: types.getTypeParser(types.builtins.JSON)(JSON.stringify(journalEntry.lines)),
+});
+
+const seedCapital = {
+  date: '2025-01-15',
+  narration: 'Seed capital',
+  lines: [{ account_code: '1001', debit: 100 }, { account_code: '3001', credit: 100 }],
+};
+
+// Client of a posting transaction; the reservation claim updates claimedRows reservations
+const postingClient = (claimedRows: number = 1): { query: jest.Mock } => ({
+  query: jest.fn(async (sql: string, params: unknown[]) => {
+    if (sql.includes('INSERT INTO journal_entries')) {
+      return {
+        rows: [{ ...entry({ lines: [] }), id: params[0], is_adjusting: params[5], status: params[6], sequence: null }],
+      };
+    }
+    if (sql.includes('INSERT INTO journal_lines')) {
+      return {
+        rows: [line({ id: params[0] as string, entry_id: params[1] as string, account_id: params[2] as string })],
+      };
+    }
+    if (sql.includes('UPDATE journal_entries') && sql.includes('RETURNING')) {
+      return { rows: [{ ...entry({ lines: [] }), id: params[0], status: params[3], sequence: null }] };
+    }
+    if (sql.includes('UPDATE ledgers')) {
+      return { rows: [{ feed_sequence: 7 }] };
+    }
+    if (sql.includes('UPDATE idempotency_keys')) {
+      return { rows: [], rowCount: claimedRows };
+    }
+    return { rows: [], rowCount: 1 };
+  }),
+});
+
+describe('Journal Service Tests', () => {
+  let query: jest.Mock;
+  let transaction: jest.Mock;
+  let journalService: JournalService;
+
+  beforeEach(() => {
+    query = jest.fn().mockResolvedValue([]);
+    transaction = jest.fn();
+    jest.spyOn(Database, 'getInstance').mockReturnValue({ query, transaction } as unknown as Database);
+    journalService = new JournalService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Repositories behind the posting rules: the ledger's accounts, its fiscal period on the
+  // entry date and the journal repository writes, which return what they were given
+  const mockPosting = (accounts: Account[], period: FiscalPeriod | null = null): {
+    create: jest.SpyInstance;
+    transitionStatus: jest.SpyInstance;
+  } => {
+    const byCodes = async (_ledgerId: string, codes: string[]): Promise<Account[]> =>
+      accounts.filter(candidate => codes.includes(candidate.code));
+    jest.spyOn(AccountRepository.prototype, 'findByCodes').mockImplementation(byCodes);
+    jest.spyOn(AccountRepository.prototype, 'getAccountsByCodesWithValidation').mockImplementation(byCodes);
+    jest.spyOn(FiscalPeriodRepository.prototype, 'findByDate').mockResolvedValue(period);
+
+    return {
+      create: jest.spyOn(JournalRepository.prototype, 'create')
+        .mockImplementation(async (_ledgerId, _data, _accounts, status) => entry({ status })),
+      transitionStatus: jest.spyOn(JournalRepository.prototype, 'transitionStatus')
+        .mockImplementation(async (_ledgerId, id, _from, status) => entry({ id, status })),
+    };
+  };
+
+  describe('Inactive Accounts', () => {
+    test('should post to active accounts', async () => {
+      const { create } = mockPosting([account('1001', 'Asset'), account('3001', 'Equity')]);
+
+      const created = await journalService.createJournalEntry(LEDGER_ID, seedCapital, 'key-1');
+
+      expect(created.status).toBe('posted');
+      expect(create).toHaveBeenCalledTimes(1);
+    });
+
+    test('should reject entries posting to an inactive account', async () => {
+      const { create } = mockPosting([
+        account('1001', 'Asset'),
+        account('3001', 'Equity', { is_active: false, deactivated_at: new Date('2025-01-10') }),
+      ]);
+
+      await expect(journalService.createJournalEntry(LEDGER_ID, seedCapital, 'key-1'))
+        .rejects.toThrow(new ValidationError('Cannot post to inactive accounts: 3001. Reactivate them first.'));
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    test('should report batch entries posting to an inactive account by index', async () => {
+      const { create } = mockPosting([
+        account('1001', 'Asset'),
+        account('3001', 'Equity'),
+        account('5001', 'Expense', { is_active: false }),
+      ]);
+      const rent = {
+        date: '2025-01-16',
+        narration: 'Rent',
+        lines: [{ account_code: '5001', debit: 40 }, { account_code: '1001', credit: 40 }],
+      };
+
+      const batch = journalService.createJournalEntryBatch(LEDGER_ID, { entries: [seedCapital, rent] }, 'key-1');
+
+      await expect(batch).rejects.toThrow(BatchValidationError);
+      await expect(batch).rejects.toMatchObject({ errors: [{ index: 1, message: expect.stringMatching(/5001/) }] });
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    test('should not post an approved entry once one of its accounts was deactivated', async () => {
+      const { transitionStatus } = mockPosting([
+        account('1001', 'Asset', { is_active: false }),
+        account('3001', 'Equity'),
+      ]);
+      jest.spyOn(JournalRepository.prototype, 'findById').mockResolvedValue(entry({ status: 'approved' }));
+
+      await expect(journalService.postJournalEntry(LEDGER_ID, 'entry-1')).rejects.toThrow(/inactive accounts: 1001/);
+      expect(transitionStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Approval Workflow', () => {
+    const accounts = [account('1001', 'Asset'), account('3001', 'Equity')];
+
+    test('should post entries up to the approval threshold right away', async () => {
+      jest.replaceProperty(ENV, 'JOURNAL_APPROVAL_THRESHOLD', 100);
+      const { create } = mockPosting(accounts);
+
+      const created = await journalService.createJournalEntry(LEDGER_ID, seedCapital, 'key-1');
+
+      expect(created.status).toBe('posted');
+      expect(create.mock.calls[0]!.slice(3, 5)).toEqual(['posted', 'key-1']);
+    });
+
+    test('should submit entries above the approval threshold for approval', async () => {
+      jest.replaceProperty(ENV, 'JOURNAL_APPROVAL_THRESHOLD', 99.99);
+      const { create } = mockPosting(accounts);
+
+      const created = await journalService.createJournalEntry(LEDGER_ID, seedCapital, 'key-1');
+
+      expect(created.status).toBe('submitted');
+      expect(create.mock.calls[0]!.slice(3, 5)).toEqual(['submitted', 'key-1']);
+    });
+
+    test('should submit drafts above the approval threshold instead of posting them', async () => {
+      jest.replaceProperty(ENV, 'JOURNAL_APPROVAL_THRESHOLD', 50);
+      const { transitionStatus } = mockPosting(accounts);
+      jest.spyOn(JournalRepository.prototype, 'findById')
+        .mockResolvedValue(entry({ status: 'draft', submitted_by: null }));
+
+      await journalService.submitJournalEntry(LEDGER_ID, 'entry-1', 'key-1');
+
+      expect(transitionStatus)
+        .toHaveBeenCalledWith(LEDGER_ID, 'entry-1', 'draft', 'submitted', { submitted_by: 'key-1' });
+    });
+
+    test('should let another API key approve a submitted entry', async () => {
+      const { transitionStatus } = mockPosting(accounts);
+      jest.spyOn(JournalRepository.prototype, 'findById').mockResolvedValue(entry({ status: 'submitted' }));
+
+      const approved = await journalService.approveJournalEntry(LEDGER_ID, 'entry-1', 'key-2');
+
+      expect(approved.status).toBe('approved');
+      expect(transitionStatus)
+        .toHaveBeenCalledWith(LEDGER_ID, 'entry-1', 'submitted', 'approved', { reviewed_by: 'key-2' });
+    });
+
+    test('should not let the submitter approve or reject their own entry', async () => {
+      const { transitionStatus } = mockPosting(accounts);
+      jest.spyOn(JournalRepository.prototype, 'findById').mockResolvedValue(entry({ status: 'submitted' }));
+
+      await expect(journalService.approveJournalEntry(LEDGER_ID, 'entry-1', 'key-1')).rejects.toThrow(ForbiddenError);
+      await expect(journalService.rejectJournalEntry(LEDGER_ID, 'entry-1', { reason: 'Wrong amount' }, 'key-1'))
+        .rejects.toThrow(/Segregation of duties/);
+      expect(transitionStatus).not.toHaveBeenCalled();
+    });
+
+    test('should only approve submitted entries', async () => {
+      mockPosting(accounts);
+      jest.spyOn(JournalRepository.prototype, 'findById').mockResolvedValue(entry({ status: 'draft' }));
+
+      await expect(journalService.approveJournalEntry(LEDGER_ID, 'entry-1', 'key-2')).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('Intercompany Entries', () => {
+    const COUNTERPARTY_ID = '6f1c0b6e-2d0a-4f3e-9a57-0c2f5b9e8d11';
+    const GROUP = [LEDGER_ID, COUNTERPARTY_ID];
+    const accounts = [account('1001', 'Asset'), account('1300', 'Asset'), account('2300', 'Liability')];
+    const funding = {
+      date: '2025-01-20',
+      narration: 'Funding',
+      counterparty_ledger_id: COUNTERPARTY_ID,
+      amount: 500,
+      lines: [{ account_code: '1001', credit: 500 }],
+      counterparty_lines: [{ account_code: '1001', debit: 500 }],
+    };
+    const intercompany: IntercompanyTransaction = {
+      id: 'intercompany-1',
+      ledger_id: LEDGER_ID,
+      counterparty_ledger_id: COUNTERPARTY_ID,
+      entry_id: 'entry-1',
+      counterparty_entry_id: 'entry-2',
+      receivable_account_id: 'account-1300',
+      payable_account_id: 'account-2300',
+      amount_cents: 50000,
+      date: new Date('2025-01-20'),
+      created_by: 'key-1',
+      created_at: new Date('2025-01-20'),
+    };
+
+    // Both sides of the intercompany entry, in the given status
+    const mockPair = (status: JournalEntry['status']): { transitionStatusTogether: jest.SpyInstance } => {
+      mockPosting(accounts);
+      const sides = [entry({ status }), entry({ id: 'entry-2', ledger_id: COUNTERPARTY_ID, status })];
+      jest.spyOn(JournalRepository.prototype, 'findById')
+        .mockImplementation(async (_ledgerId, id) => sides.find(side => side.id === id) ?? null);
+      jest.spyOn(JournalRepository.prototype, 'findIntercompanyByEntry').mockResolvedValue(intercompany);
+
+      return {
+        transitionStatusTogether: jest.spyOn(JournalRepository.prototype, 'transitionStatusTogether')
+          .mockImplementation(async (pair, _from, to) => pair.map(({ id }) => entry({ id, status: to }))),
+      };
+    };
+
+    test('should post both sides right away up to the approval threshold', async () => {
+      jest.replaceProperty(ENV, 'JOURNAL_APPROVAL_THRESHOLD', 500);
+      mockPosting(accounts);
+      const createIntercompany = jest.spyOn(JournalRepository.prototype, 'createIntercompany').mockResolvedValue({
+        intercompany,
+        entry: entry(),
+        counterpartyEntry: entry({ id: 'entry-2', ledger_id: COUNTERPARTY_ID }),
+      });
+
+      await journalService.createIntercompanyEntry(LEDGER_ID, funding, GROUP, 'key-1');
+
+      expect(createIntercompany.mock.calls[0]!.slice(2)).toEqual([50000, 'posted', 'key-1']);
+    });
+
+    test('should submit both sides for approval above the approval threshold', async () => {
+      jest.replaceProperty(ENV, 'JOURNAL_APPROVAL_THRESHOLD', 499.99);
+      mockPosting(accounts);
+      const createIntercompany = jest.spyOn(JournalRepository.prototype, 'createIntercompany').mockResolvedValue({
+        intercompany,
+        entry: entry({ status: 'submitted' }),
+        counterpartyEntry: entry({ id: 'entry-2', ledger_id: COUNTERPARTY_ID, status: 'submitted' }),
+      });
+
+      const result = await journalService.createIntercompanyEntry(LEDGER_ID, funding, GROUP, 'key-1');
+
+      expect(createIntercompany.mock.calls[0]!.slice(2)).toEqual([50000, 'submitted', 'key-1']);
+      expect([result.entry.status, result.counterparty_entry.status]).toEqual(['submitted', 'submitted']);
+    });
+
+    test('should approve and post both sides together from either ledger', async () => {
+      const { transitionStatusTogether } = mockPair('submitted');
+      const pair = [{ ledgerId: LEDGER_ID, id: 'entry-1' }, { ledgerId: COUNTERPARTY_ID, id: 'entry-2' }];
+
+      const approved = await journalService.approveJournalEntry(LEDGER_ID, 'entry-1', 'key-2', GROUP);
+
+      expect(approved.status).toBe('approved');
+      expect(transitionStatusTogether)
+        .toHaveBeenCalledWith(pair, 'submitted', 'approved', { reviewed_by: 'key-2' });
+
+      mockPair('approved');
+      await journalService.postJournalEntry(COUNTERPARTY_ID, 'entry-2', GROUP);
+
+      expect(transitionStatusTogether)
+        .toHaveBeenLastCalledWith([...pair].reverse(), 'approved', 'posted', {});
+    });
+
+    test('should not move either side without access to the other ledger', async () => {
+      const { transitionStatusTogether } = mockPair('submitted');
+      const transitionStatus = jest.spyOn(JournalRepository.prototype, 'transitionStatus');
+
+      await expect(journalService.approveJournalEntry(LEDGER_ID, 'entry-1', 'key-2', [LEDGER_ID]))
+        .rejects.toThrow(ForbiddenError);
+      await expect(journalService.rejectJournalEntry(LEDGER_ID, 'entry-1', { reason: 'Wrong amount' }, 'key-2'))
+        .rejects.toThrow(`access to the other side in ledger '${COUNTERPARTY_ID}'`);
+      expect(transitionStatusTogether).not.toHaveBeenCalled();
+      expect(transitionStatus).not.toHaveBeenCalled();
+    });
+
+    test('should move neither side when the other side is no longer in the expected status', async () => {
+      const client = postingClient();
+      client.query.mockImplementation(async (sql: string, params: unknown[]) =>
+        sql.includes('UPDATE journal_entries') && params[0] === 'entry-2'
+          ? { rows: [] }
+          : { rows: [{ ...entry({ lines: [] }), id: params[0], status: 'approved' }] });
+      transaction.mockImplementation(async (callback: (client: unknown) => Promise<unknown>) => callback(client));
+
+      await expect(new JournalRepository().transitionStatusTogether(
+        [{ ledgerId: LEDGER_ID, id: 'entry-1' }, { ledgerId: COUNTERPARTY_ID, id: 'entry-2' }],
+        'submitted',
+        'approved',
+        { reviewed_by: 'key-2' }
+      )).rejects.toThrow(new ConflictError("Journal entry 'entry-2' is no longer in status 'submitted'"));
+    });
+
+    test('should link both sides to the idempotency reservation in the posting transaction', async () => {
+      const posting = postingClient(1);
+      const client = {
+        query: jest.fn(async (sql: string, params: unknown[]) => sql.includes('INSERT INTO intercompany_transactions')
+          ? { rows: [intercompany] }
+          : posting.query(sql, params)),
+      };
+      transaction.mockImplementation(async (callback: (client: unknown) => Promise<unknown>) => callback(client));
+      const reservation = { api_key_id: 'key-1', key: 'retry-1', lock_token: 'lock-1', entry_ids: null };
+      const side = (ledgerId: string, accountId: string) => ({
+        ledgerId,
+        data: seedCapital,
+        accounts: [account('1001', 'Asset'), account('3001', 'Equity')],
+        receivableAccountId: accountId,
+        payableAccountId: accountId,
+      });
+
+      const created = await new JournalRepository().createIntercompany(
+        side(LEDGER_ID, 'account-1300'), side(COUNTERPARTY_ID, 'account-2300'), 50000, 'posted', 'key-1', reservation
+      );
+
+      const claim = client.query.mock.calls.find(call => (call[0] as string).includes('UPDATE idempotency_keys'))!;
+      expect(transaction).toHaveBeenCalledTimes(1);
+      expect(claim[1]).toEqual(['key-1', 'retry-1', 'lock-1', [created.entry.id, created.counterpartyEntry.id]]);
+    });
+
+    test('should return both sides an interrupted request already created', async () => {
+      const createIntercompany = jest.spyOn(JournalRepository.prototype, 'createIntercompany');
+      mockPair('posted');
+      const reservation = {
+        api_key_id: 'key-1', key: 'retry-1', lock_token: 'lock-2', entry_ids: ['entry-1', 'entry-2'],
+      };
+
+      const recovered = await journalService.createIntercompanyEntry(LEDGER_ID, funding, GROUP, 'key-1', reservation);
+
+      expect([recovered.entry.id, recovered.counterparty_entry.id]).toEqual(['entry-1', 'entry-2']);
+      expect(recovered.intercompany.id).toBe('intercompany-1');
+      expect(createIntercompany).not.toHaveBeenCalled();
+    });
+
+    test('should not reverse one side of an intercompany entry', async () => {
+      const { create } = mockPosting(accounts);
+      jest.spyOn(JournalRepository.prototype, 'findById').mockResolvedValue(entry());
+      jest.spyOn(JournalRepository.prototype, 'findIntercompanyByEntry').mockResolvedValue(intercompany);
+
+      await expect(journalService.createReversalEntry(LEDGER_ID, 'entry-1', 'Undo funding', '2025-01-21', 'key-1'))
+        .rejects.toThrow(/one side of an intercompany entry/);
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Fiscal Period Locks', () => {
+    const accounts = [account('1001', 'Asset'), account('3001', 'Equity')];
+    const january = (status: FiscalPeriodStatus): FiscalPeriod => ({
+      id: 'period-1',
+      ledger_id: LEDGER_ID,
+      name: 'January 2025',
+      start_date: new Date('2025-01-01'),
+      end_date: new Date('2025-01-31'),
+      status,
+      created_at: new Date('2025-01-01'),
+      updated_at: new Date('2025-01-01'),
+    });
+
+    test('should post into open periods and dates outside any period', async () => {
+      const { create } = mockPosting(accounts, january('open'));
+      await journalService.createJournalEntry(LEDGER_ID, seedCapital, 'key-1');
+
+      mockPosting(accounts, null);
+      await journalService.createJournalEntry(LEDGER_ID, seedCapital, 'key-1');
+
+      expect(create).toHaveBeenCalledTimes(2);
+    });
+
+    test('should reject entries dated in a closed period, adjusting or not', async () => {
+      const { create } = mockPosting(accounts, january('closed'));
+
+      await expect(journalService.createJournalEntry(LEDGER_ID, seedCapital, 'key-1'))
+        .rejects.toThrow(
+          new ValidationError("Entry date 2025-01-15 falls in fiscal period 'January 2025', which is closed")
+        );
+      await expect(journalService.createJournalEntry(LEDGER_ID, { ...seedCapital, adjusting: true }, 'key-1'))
+        .rejects.toThrow(/which is closed/);
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    test('should only accept adjusting entries in a soft-closed period', async () => {
+      const { create } = mockPosting(accounts, january('soft_closed'));
+
+      await expect(journalService.createJournalEntry(LEDGER_ID, seedCapital, 'key-1'))
+        .rejects.toThrow(/soft-closed. Only adjusting entries/);
+      expect(create).not.toHaveBeenCalled();
+
+      await journalService.createJournalEntry(LEDGER_ID, { ...seedCapital, adjusting: true }, 'key-1');
+      expect(create).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not post an approved entry once its period was closed', async () => {
+      const { transitionStatus } = mockPosting(accounts, january('closed'));
+      jest.spyOn(JournalRepository.prototype, 'findById').mockResolvedValue(entry({ status: 'approved' }));
+
+      await expect(journalService.postJournalEntry(LEDGER_ID, 'entry-1')).rejects.toThrow(/which is closed/);
+      expect(transitionStatus).not.toHaveBeenCalled();
+    });
+
+    test('should re-check the period inside the posting transaction', async () => {
+      const client = postingClient();
+      transaction.mockImplementation(async (callback: (client: unknown) => Promise<unknown>) => callback(client));
+      const lockForEntry = jest.spyOn(FiscalPeriodRepository.prototype, 'lockForEntry')
+        .mockResolvedValue(january('open'));
+
+      await new JournalRepository().create(LEDGER_ID, seedCapital, accounts, 'posted', 'key-1', 'key-1');
+
+      const sequenceUpdate = client.query.mock.calls.findIndex(call => (call[0] as string).includes('UPDATE ledgers'));
+      expect(lockForEntry).toHaveBeenCalledWith(client, expect.any(String));
+      expect(lockForEntry.mock.invocationCallOrder[0])
+        .toBeLessThan(client.query.mock.invocationCallOrder[sequenceUpdate]!);
+    });
+
+    test('should roll back entries whose period was closed while they were being posted', async () => {
+      transaction.mockImplementation(async (callback: (client: unknown) => Promise<unknown>) =>
+        callback(postingClient()));
+      jest.spyOn(FiscalPeriodRepository.prototype, 'lockForEntry').mockResolvedValue(january('closed'));
+
+      await expect(
+        new JournalRepository().create(LEDGER_ID, seedCapital, accounts, 'posted', 'key-1', 'key-1')
+      ).rejects.toThrow(ConflictError);
+      await expect(new JournalRepository().transitionStatus(LEDGER_ID, 'entry-1', 'approved', 'posted'))
+        .rejects.toThrow(/was closed while journal entry 'entry-1' was being posted/);
+    });
+
+    test('should only let adjusting entries through a period soft-closed while they were being posted', async () => {
+      transaction.mockImplementation(async (callback: (client: unknown) => Promise<unknown>) =>
+        callback(postingClient()));
+      jest.spyOn(FiscalPeriodRepository.prototype, 'lockForEntry').mockResolvedValue(january('soft_closed'));
+      const repository = new JournalRepository();
+
+      await expect(repository.create(LEDGER_ID, seedCapital, accounts, 'posted', 'key-1', 'key-1'))
+        .rejects.toThrow(/was soft-closed/);
+      await expect(
+        repository.create(LEDGER_ID, { ...seedCapital, adjusting: true }, accounts, 'posted', 'key-1', 'key-1')
+      ).resolves.toMatchObject({ is_adjusting: true, sequence: 7 });
+      await expect(repository.create(LEDGER_ID, seedCapital, accounts, 'draft', null, 'key-1'))
+        .resolves.toMatchObject({ status: 'draft' });
+    });
+  });
+
+  describe('Change Feed', () => {
+    test('should return posted entries after the cursor with their lines', async () => {
+      query
+        .mockResolvedValueOnce([{ id: 'entry-2' }])
+        .mockResolvedValueOnce([aggregatedRow(entry({ id: 'entry-2', sequence: 2 }))]);
+
+      const { entries, query: feedQuery } = await journalService.getFeed(LEDGER_ID, { after: '1' });
+
+      expect(feedQuery.after).toBe(1);
+      expect(entries).toHaveLength(1);
+      expect(entries[0]!.sequence).toBe(2);
+      expect(entries[0]!.lines.map(feedLine => feedLine.debit_cents)).toEqual([10000, 0]);
+      expect(query.mock.calls[0]![1]).toEqual([LEDGER_ID, 1, feedQuery.limit]);
+    });
+
+    test('should hold a long poll open until an entry is posted', async () => {
+      jest.useFakeTimers();
+      try {
+        query
+          .mockResolvedValueOnce([])
+          .mockResolvedValueOnce([{ id: 'entry-1' }])
+          .mockResolvedValueOnce([aggregatedRow(entry())]);
+
+        const feed = journalService.getFeed(LEDGER_ID, { after: '0', wait: '10' });
+        await jest.advanceTimersByTimeAsync(1000);
+        const { entries } = await feed;
+
+        expect(entries.map(feedEntry => feedEntry.id)).toEqual(['entry-1']);
+        expect(entries[0]!.lines).toHaveLength(2);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('Entry Lists', () => {
+    test('should return listed entries with their lines', async () => {
+      query.mockResolvedValueOnce([aggregatedRow(entry())]);
+
+      const entries = await journalService.getAllJournalEntries(LEDGER_ID, 10);
+      expect(entries[0]!.lines.map(listed => listed.account_code)).toEqual(['1001', '3001']);
+    });
+
+    test('should return entries of a date range with their lines', async () => {
+      query.mockResolvedValueOnce([aggregatedRow(entry())]);
+
+      const entries = await journalService.getJournalEntriesByDateRange(
+        LEDGER_ID,
+        new Date('2025-01-01'),
+        new Date('2025-01-31')
+      );
+      expect(entries[0]!.lines).toHaveLength(2);
+    });
+  });
+
+  describe('Idempotent Recovery', () => {
+    const reservation: IdempotencyReservation = {
+      api_key_id: 'key-1',
+      key: 'retry-1',
+      lock_token: 'lock-2',
+      entry_ids: ['entry-2', 'entry-1'],
+    };
+
+    test('should return the entries an interrupted batch already posted', async () => {
+      query.mockResolvedValueOnce([
+        aggregatedRow(entry()),
+        aggregatedRow(entry({ id: 'entry-2' })),
+      ]);
+
+      const entries = await journalService.createJournalEntryBatch(LEDGER_ID, { entries: [] }, 'key-1', reservation);
+
+      expect(entries.map(recovered => recovered.id)).toEqual(['entry-2', 'entry-1']);
+      expect(entries[1]!.lines.map(recovered => recovered.account_code)).toEqual(['1001', '3001']);
+      expect(query).toHaveBeenCalledTimes(1);
+      expect(transaction).not.toHaveBeenCalled();
+    });
+
+    test('should recover the entry after taking over the reservation of a crashed request', async () => {
+      const idempotencyService = new IdempotencyService();
+      const request = {
+        apiKeyId: 'key-1',
+        key: 'retry-1',
+        ledgerId: LEDGER_ID,
+        endpoint: 'POST /journal-entries',
+        query: {},
+        body: { date: '2025-01-15', narration: 'Seed capital', lines: [] },
+      };
+      // The crashed request committed entry-1 and its link, but never stored its response
+      const abandoned = {
+        api_key_id: 'key-1',
+        key: 'retry-1',
+        ledger_id: LEDGER_ID,
+        endpoint: 'POST /journal-entries',
+        request_hash: idempotencyService.hashRequest(request),
+        status: 'in_progress',
+        lock_token: 'lock-1',
+        locked_until: new Date(Date.now() - 1000),
+        entry_ids: ['entry-1'],
+      };
+      query
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([abandoned])
+        .mockResolvedValueOnce([{ ...abandoned, lock_token: 'lock-2', locked_until: new Date(Date.now() + 60000) }])
+        .mockResolvedValueOnce([aggregatedRow(entry())]);
+
+      const result = await idempotencyService.reserve(request);
+      expect(result.outcome).toBe('reserved');
+      const takenOver = (result as { reservation: IdempotencyReservation }).reservation;
+      expect(takenOver.lock_token).toBe('lock-2');
+
+      const recovered = await journalService.createJournalEntry(LEDGER_ID, request.body, 'key-1', takenOver);
+
+      expect(recovered.id).toBe('entry-1');
+      expect(recovered.lines).toHaveLength(2);
+      expect(query.mock.calls[3]![1]).toEqual([['entry-1'], LEDGER_ID]);
+      expect(transaction).not.toHaveBeenCalled();
+    });
+
+    test('should return the entry of a key recorded before responses were stored', async () => {
+      const idempotencyService = new IdempotencyService();
+      const request = {
+        apiKeyId: 'key-1',
+        key: 'retry-1',
+        ledgerId: LEDGER_ID,
+        endpoint: 'POST /journal-entries',
+        query: {},
+        body: { date: '2025-01-15', narration: 'Seed capital', lines: [] },
+      };
+      // Kept by migration 022: a hash of the validated body, and the entry but no response
+      const kept = {
+        api_key_id: 'key-1',
+        key: 'retry-1',
+        ledger_id: LEDGER_ID,
+        endpoint: 'POST /journal-entries',
+        request_hash: 'hash-of-the-validated-body',
+        status: 'completed',
+        lock_token: null,
+        locked_until: null,
+        entry_ids: ['entry-1'],
+        status_code: null,
+        content_type: null,
+        response_body: null,
+      };
+      query
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([kept])
+        .mockResolvedValueOnce([{ ...kept, status: 'in_progress', lock_token: 'lock-2' }])
+        .mockResolvedValueOnce([aggregatedRow(entry())]);
+
+      const result = await idempotencyService.reserve(request);
+      expect(result.outcome).toBe('reserved');
+      expect(query.mock.calls[2]![1]).toEqual([
+        'key-1', 'retry-1', idempotencyService.hashRequest(request), expect.any(String), ENV.IDEMPOTENCY_LOCK_SECONDS,
+      ]);
+
+      const recovered = await journalService.createJournalEntry(
+        LEDGER_ID,
+        request.body,
+        'key-1',
+        (result as { reservation: IdempotencyReservation }).reservation
+      );
+
+      expect(recovered.id).toBe('entry-1');
+      expect(transaction).not.toHaveBeenCalled();
+    });
+
+    test('should return the entry an interrupted post already posted', async () => {
+      query.mockResolvedValueOnce([aggregatedRow(entry())]);
+
+      const recovered = await journalService.createJournalEntry(
+        LEDGER_ID,
+        { date: '2025-01-15', narration: 'Seed capital', lines: [] },
+        'key-1',
+        { ...reservation, entry_ids: ['entry-1'] }
+      );
+
+      expect(recovered.id).toBe('entry-1');
+      expect(recovered.lines).toHaveLength(2);
+      expect(transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Reservation Claim', () => {
+    const reservation: IdempotencyReservation = {
+      api_key_id: 'key-1',
+      key: 'retry-1',
+      lock_token: 'lock-1',
+      entry_ids: null,
+    };
+    const accounts = [account('1001', 'Asset'), account('3001', 'Equity')];
+    const entryData = seedCapital;
+
+    test('should link the posted entry to the reservation in the posting transaction', async () => {
+      const client = postingClient(1);
+      transaction.mockImplementation(async (callback: (client: unknown) => Promise<unknown>) => callback(client));
+
+      const created = await new JournalRepository()
+        .create(LEDGER_ID, entryData, accounts, 'posted', 'key-1', 'key-1', reservation);
+
+      const statements = client.query.mock.calls.map(call => call[0] as string);
+      const claim = client.query.mock.calls.find(call => (call[0] as string).includes('UPDATE idempotency_keys'))!;
+      expect(transaction).toHaveBeenCalledTimes(1);
+      expect(statements.findIndex(sql => sql.includes('INSERT INTO journal_entries')))
+        .toBeLessThan(statements.findIndex(sql => sql.includes('UPDATE idempotency_keys')));
+      expect(claim[1]).toEqual(['key-1', 'retry-1', 'lock-1', [created.id]]);
+      expect(created.sequence).toBe(7);
+    });
+
+    test('should fail, rolling the entry back, when a retry took the reservation over', async () => {
+      transaction.mockImplementation(async (callback: (client: unknown) => Promise<unknown>) => callback(postingClient(0)));
+
+      await expect(
+        new JournalRepository().create(LEDGER_ID, entryData, accounts, 'posted', 'key-1', 'key-1', reservation)
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+});
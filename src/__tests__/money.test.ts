@@ -36,6 +36,56 @@ describe('Money Utility Tests', () => {
         expect(backToDecimal).toBe(amount);
       }
     });
+
+    test('should convert between currencies at a rate, rounding to the nearest cent', () => {
+      expect(Money.convert(100000, 83.125)).toBe(8312500); // USD 1,000.00 at 83.125
+      expect(Money.convert(12345, 1)).toBe(12345);
+      expect(Money.convert(1, 0.5)).toBe(1); // Half a cent rounds up
+      expect(Money.convert(3, 0.1)).toBe(0);
+    });
+
+    test('should use the ISO 4217 minor unit of each currency', () => {
+      expect(Money.getExponent('USD')).toBe(2);
+      expect(Money.toCents(1500, 'JPY')).toBe(1500);
+      expect(Money.toCents(1.234, 'KWD')).toBe(1234);
+      expect(Money.fromCents(1234, 'BHD')).toBe(1.234);
+      expect(Money.fromCents(1500, 'JPY')).toBe(1500);
+    });
+
+    test('should convert between currencies with different minor units', () => {
+      expect(Money.convert(1000, 0.56, 'JPY', 'INR')).toBe(56000); // JPY 1,000 at 0.56
+      expect(Money.convert(100000, 270.5, 'KWD', 'INR')).toBe(2705000); // KWD 100.000 at 270.5
+      expect(Money.convert(10000, 150, 'USD', 'JPY')).toBe(15000); // USD 100.00 at 150
+    });
+
+    test('should parse decimal strings exactly without floats', () => {
+      expect(Money.toCents('12345678.90')).toBe(1234567890);
+      expect(Money.toCents('90071992547409.91')).toBe(9007199254740991); // Largest safe amount
+      expect(Money.toCents('100.500', 'INR')).toBe(10050); // Trailing zeros are allowed
+      expect(Money.toCents('1500', 'JPY')).toBe(1500);
+      expect(() => Money.toCents('1.005')).toThrow(RangeError);
+      expect(() => Money.toCents('90071992547409.92')).toThrow(/too large/);
+      expect(() => Money.toCents('1e5')).toThrow(/not a valid decimal/);
+    });
+
+    test('should format minor units as exact decimal strings', () => {
+      expect(Money.toDecimalString(1234567890)).toBe('12345678.90');
+      expect(Money.toDecimalString(5)).toBe('0.05');
+      expect(Money.toDecimalString(-150)).toBe('-1.50');
+      expect(Money.toDecimalString(1500, 'JPY')).toBe('1500');
+      expect(Money.toDecimalString(1234, 'KWD')).toBe('1.234');
+      expect(Money.toAmount(1234567890, true)).toBe('12345678.90');
+      expect(Money.toAmount(1234567890)).toBe(12345678.9);
+    });
+
+    test('should detect amounts more precise than the currency allows', () => {
+      expect(Money.hasValidPrecision(100.5, 'INR')).toBe(true);
+      expect(Money.hasValidPrecision(100.505, 'INR')).toBe(false);
+      expect(Money.hasValidPrecision(100.5, 'JPY')).toBe(false);
+      expect(Money.hasValidPrecision(1.234, 'KWD')).toBe(true);
+      expect(Money.hasValidPrecision('100.50', 'INR')).toBe(true);
+      expect(Money.hasValidPrecision('100.505', 'INR')).toBe(false);
+    });
   });
 
   describe('Arithmetic Operations', () => {
@@ -0,0 +1,41 @@
+/**
+ * Webhook Utility Test Suite
+ *
+ * Tests signing secrets, HMAC signatures and the retry backoff
+ */
+
+import { Webhooks } from '../utils/webhook';
+
+describe('Webhook Utility Tests', () => {
+  test('should generate unique signing secrets', () => {
+    const secret = Webhooks.generateSecret();
+    expect(secret).toMatch(/^whsec_[A-Za-z0-9_-]{43}$/);
+    expect(Webhooks.generateSecret()).not.toBe(secret);
+  });
+
+  test('should sign the timestamp and body with HMAC-SHA256', () => {
+    const signature = Webhooks.sign('whsec_test', 1735689600, '{"id":"1"}');
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(Webhooks.sign('whsec_test', 1735689600, '{"id":"1"}')).toBe(signature);
+    expect(Webhooks.sign('whsec_test', 1735689601, '{"id":"1"}')).not.toBe(signature);
+    expect(Webhooks.sign('whsec_other', 1735689600, '{"id":"1"}')).not.toBe(signature);
+  });
+
+  test('should verify signatures', () => {
+    const body = '{"type":"journal_entry.posted"}';
+    const signature = Webhooks.sign('whsec_test', 1735689600, body);
+
+    expect(Webhooks.verify('whsec_test', 1735689600, body, signature)).toBe(true);
+    expect(Webhooks.verify('whsec_test', 1735689600, body + ' ', signature)).toBe(false);
+    expect(Webhooks.verify('whsec_other', 1735689600, body, signature)).toBe(false);
+    expect(Webhooks.verify('whsec_test', 1735689600, body, 'sha256=abc')).toBe(false);
+  });
+
+  test('should back off exponentially up to six hours', () => {
+    expect(Webhooks.retryDelaySeconds(1)).toBe(30);
+    expect(Webhooks.retryDelaySeconds(2)).toBe(60);
+    expect(Webhooks.retryDelaySeconds(5)).toBe(480);
+    expect(Webhooks.retryDelaySeconds(20)).toBe(6 * 60 * 60);
+  });
+});
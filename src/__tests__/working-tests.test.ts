@@ -6,7 +6,7 @@
  */
 
 import { Money } from '../utils/money';
-import { validateInput, accountSchema, journalEntrySchema } from '../utils/validation';
+import { validateInput, accountSchema, accountImportSchema, journalEntrySchema, journalEntryBatchSchema, fiscalYearSchema, incomeStatementQuerySchema, accountLedgerQuerySchema, fxRateSchema, fxRevaluationSchema, ledgerSchema, intercompanyEntrySchema, apiKeySchema, apiKeyRotationSchema, auditEventQuerySchema, webhookEndpointSchema, feedQuerySchema, bankStatementImportSchema, autoMatchSchema, bankMatchSchema } from '../utils/validation';
 
 describe('Money Utility Tests (Unit Tests)', () => {
   describe('Conversion Functions', () => {
@@ -101,6 +101,36 @@ describe('Validation Schema Tests (Unit Tests)', () => {
       expect(() => validateInput(accountSchema, invalidAccount)).toThrow();
     });
 
+    test('should accept an optional parent account code', () => {
+      const childAccount = {
+        code: '1001',
+        name: 'Cash',
+        type: 'Asset',
+        parent_code: '1000'
+      };
+
+      expect(validateInput(accountSchema, childAccount).parent_code).toBe('1000');
+      expect(() => validateInput(accountSchema, { ...childAccount, parent_code: '10-00' })).toThrow();
+    });
+
+    test('should only allow foreign currencies on Asset and Liability accounts', () => {
+      const account = { code: '1201', name: 'Receivables USD', type: 'Asset', currency: 'USD' };
+
+      expect(validateInput(accountSchema, account).currency).toBe('USD');
+      expect(() => validateInput(accountSchema, { ...account, currency: 'usd' })).toThrow(/ISO 4217/);
+      expect(() => validateInput(accountSchema, { ...account, type: 'Revenue' })).toThrow(/Only Asset and Liability/);
+      expect(() => validateInput(accountSchema, { ...account, type: 'Revenue', currency: 'INR' })).not.toThrow();
+    });
+
+    test('should keep the active flag of imported accounts', () => {
+      const account = { code: '4900', name: 'Old revenue', type: 'Revenue' };
+
+      expect(validateInput(accountImportSchema, account).is_active).toBe(true);
+      expect(validateInput(accountImportSchema, { ...account, is_active: 'false' }).is_active).toBe(false);
+      expect(validateInput(accountImportSchema, { ...account, is_active: false }).is_active).toBe(false);
+      expect(() => validateInput(accountImportSchema, { ...account, is_active: 'no' })).toThrow(/is_active/);
+    });
+
     test('should reject invalid account type', () => {
       const invalidAccount = {
         code: 'TEST001',
@@ -139,6 +169,65 @@ describe('Validation Schema Tests (Unit Tests)', () => {
       expect(() => validateInput(journalEntrySchema, unbalancedEntry)).toThrow(/must equal/);
     });
 
+    test('should leave balancing of foreign-currency entries to the base currency check', () => {
+      const foreignEntry = {
+        date: '2025-01-15',
+        narration: 'Invoice 1042',
+        lines: [
+          { account_code: '1201', debit: 1000, currency: 'USD', exchange_rate: 83.125 },
+          { account_code: '4001', credit: 83125 }
+        ]
+      };
+
+      expect(() => validateInput(journalEntrySchema, foreignEntry)).not.toThrow();
+      expect(() => validateInput(journalEntrySchema, {
+        ...foreignEntry,
+        lines: [{ ...foreignEntry.lines[0], exchange_rate: 0 }, foreignEntry.lines[1]]
+      })).toThrow(/exchange_rate/);
+    });
+
+    test('should accept amounts as exact decimal strings', () => {
+      const entry = {
+        date: '2025-01-15',
+        narration: 'Term deposit',
+        lines: [
+          { account_code: '1002', debit: '12345678901.23' },
+          { account_code: '1001', credit: '12345678901.23' }
+        ]
+      };
+
+      expect(() => validateInput(journalEntrySchema, entry)).not.toThrow();
+      expect(() => validateInput(journalEntrySchema, {
+        ...entry,
+        lines: [entry.lines[0], { ...entry.lines[1], credit: '12345678901.22' }]
+      })).toThrow(/must equal/);
+      expect(() => validateInput(journalEntrySchema, {
+        ...entry,
+        lines: [{ ...entry.lines[0], debit: '-5' }, entry.lines[1]]
+      })).toThrow(/decimal string/);
+    });
+
+    test('should reject amounts more precise than the line currency allows', () => {
+      const entry = {
+        date: '2025-01-15',
+        narration: 'Tokyo office rent',
+        lines: [
+          { account_code: '1203', credit: 150000, currency: 'JPY' },
+          { account_code: '5001', debit: 84000 }
+        ]
+      };
+
+      expect(() => validateInput(journalEntrySchema, entry)).not.toThrow();
+      expect(() => validateInput(journalEntrySchema, {
+        ...entry,
+        lines: [{ ...entry.lines[0], credit: 150000.5 }, entry.lines[1]]
+      })).toThrow(/more decimal places than JPY allows/);
+      expect(() => validateInput(journalEntrySchema, {
+        ...entry,
+        lines: [entry.lines[0], { ...entry.lines[1], debit: 84000.001 }]
+      })).toThrow(/more decimal places than INR allows/);
+    });
+
     test('should reject entry with insufficient lines', () => {
       const insufficientEntry = {
         date: '2025-01-15',
@@ -167,6 +256,304 @@ describe('Validation Schema Tests (Unit Tests)', () => {
   });
 });
 
+describe('Journal Entry Batch Schema Validation', () => {
+  test('should accept a non-empty list of entries', () => {
+    const batch = {
+      entries: [
+        {
+          date: '2025-01-15',
+          narration: 'Settlement 1',
+          lines: [
+            { account_code: '1002', debit: 10 },
+            { account_code: '4001', credit: 10 }
+          ]
+        }
+      ]
+    };
+
+    expect(validateInput(journalEntryBatchSchema, batch).entries).toHaveLength(1);
+  });
+
+  test('should reject an empty or missing batch', () => {
+    expect(() => validateInput(journalEntryBatchSchema, { entries: [] })).toThrow(/at least 1/);
+    expect(() => validateInput(journalEntryBatchSchema, {})).toThrow();
+    expect(() => validateInput(journalEntryBatchSchema, { entries: ['not an entry'] })).toThrow();
+  });
+});
+
+describe('Fiscal Year Schema Validation', () => {
+  test('should accept a 4-digit year from a route parameter', () => {
+    expect(validateInput(fiscalYearSchema, { year: '2024' }).year).toBe(2024);
+  });
+
+  test('should reject non-year values', () => {
+    expect(() => validateInput(fiscalYearSchema, { year: 'FY24' })).toThrow(/4-digit year/);
+    expect(() => validateInput(fiscalYearSchema, { year: '2024.5' })).toThrow(/4-digit year/);
+    expect(() => validateInput(fiscalYearSchema, { year: '24' })).toThrow(/4-digit year/);
+  });
+});
+
+describe('Income Statement Query Validation', () => {
+  test('should accept a period with an optional comparison period', () => {
+    expect(() => validateInput(incomeStatementQuerySchema, { from: '2025-02-01', to: '2025-02-28' })).not.toThrow();
+    expect(() => validateInput(incomeStatementQuerySchema, {
+      from: '2025-02-01',
+      to: '2025-02-28',
+      compare_from: '2025-01-01',
+      compare_to: '2025-01-31'
+    })).not.toThrow();
+  });
+
+  test('should require both comparison dates in order', () => {
+    expect(() => validateInput(incomeStatementQuerySchema, {
+      from: '2025-02-01',
+      to: '2025-02-28',
+      compare_from: '2025-01-01'
+    })).toThrow(/provided together/);
+    expect(() => validateInput(incomeStatementQuerySchema, {
+      from: '2025-02-01',
+      to: '2025-02-28',
+      compare_from: '2025-01-31',
+      compare_to: '2025-01-01'
+    })).toThrow(/compare_to date/);
+  });
+});
+
+describe('Account Ledger Query Validation', () => {
+  test('should default pagination parameters', () => {
+    const query = validateInput(accountLedgerQuerySchema, { from: '2025-01-01', to: '2025-01-31' });
+    expect(query.limit).toBe(100);
+    expect(query.offset).toBe(0);
+  });
+
+  test('should reject out-of-range pagination parameters', () => {
+    const range = { from: '2025-01-01', to: '2025-01-31' };
+    expect(() => validateInput(accountLedgerQuerySchema, { ...range, limit: 0 })).toThrow(/limit/);
+    expect(() => validateInput(accountLedgerQuerySchema, { ...range, limit: 501 })).toThrow(/limit/);
+    expect(() => validateInput(accountLedgerQuerySchema, { ...range, offset: -1 })).toThrow(/offset/);
+  });
+});
+
+describe('FX Rate Schema Validation', () => {
+  test('should accept a rate for a currency pair and date', () => {
+    expect(() => validateInput(fxRateSchema, {
+      from_currency: 'USD',
+      to_currency: 'INR',
+      rate: 83.125,
+      rate_date: '2025-01-15'
+    })).not.toThrow();
+  });
+
+  test('should reject identical currencies and non-positive rates', () => {
+    const rate = { from_currency: 'USD', to_currency: 'INR', rate: 83.125, rate_date: '2025-01-15' };
+    expect(() => validateInput(fxRateSchema, { ...rate, to_currency: 'USD' })).toThrow(/different/);
+    expect(() => validateInput(fxRateSchema, { ...rate, rate: 0 })).toThrow(/greater than zero/);
+  });
+});
+
+describe('FX Revaluation Schema Validation', () => {
+  test('should require a past or current as_of date', () => {
+    expect(() => validateInput(fxRevaluationSchema, { as_of: '2025-01-31' })).not.toThrow();
+    expect(() => validateInput(fxRevaluationSchema, {})).toThrow(/as_of is required/);
+    expect(() => validateInput(fxRevaluationSchema, { as_of: '2999-12-31' })).toThrow(/future/);
+  });
+});
+
+describe('Ledger Schema Validation', () => {
+  test('should accept an alphanumeric code and normalize it to upper case', () => {
+    const ledger = validateInput(ledgerSchema, { code: 'acmeEU', name: 'Acme Europe GmbH' });
+    expect(ledger.code).toBe('ACMEEU');
+  });
+
+  test('should reject missing names and non-alphanumeric codes', () => {
+    expect(() => validateInput(ledgerSchema, { code: 'ACME' })).toThrow(/name/);
+    expect(() => validateInput(ledgerSchema, { code: 'ACME-EU', name: 'Acme' })).toThrow(/alphanumeric/);
+  });
+});
+
+describe('API Key Schema Validation', () => {
+  test('should accept a key with scopes and default ledgers', () => {
+    const apiKey = validateInput(apiKeySchema, { name: 'BI tool', scopes: ['reports:read'] });
+    expect(apiKey.scopes).toEqual(['reports:read']);
+    expect(apiKey.ledger_ids).toBeUndefined();
+  });
+
+  test('should reject missing names and invalid ledger ids', () => {
+    expect(() => validateInput(apiKeySchema, { scopes: ['admin'] })).toThrow(/name/);
+    expect(() => validateInput(apiKeySchema, { name: 'Key', scopes: ['admin'], ledger_ids: ['MAIN'] })).toThrow();
+    expect(() => validateInput(apiKeySchema, { name: 'Key', scopes: ['admin'], ledger_ids: [] }))
+      .toThrow(/at least one ledger/);
+  });
+
+  test('should require known scopes', () => {
+    expect(() => validateInput(apiKeySchema, { name: 'Key' })).toThrow(/scopes/);
+    expect(() => validateInput(apiKeySchema, { name: 'Key', scopes: [] })).toThrow(/at least one scope/);
+    expect(() => validateInput(apiKeySchema, { name: 'Key', scopes: ['journal:delete'] })).toThrow(/must be one of/);
+  });
+
+  test('should default the rotation grace period to 24 hours and cap it', () => {
+    expect(validateInput(apiKeyRotationSchema, {}).grace_period_hours).toBe(24);
+    expect(validateInput(apiKeyRotationSchema, { grace_period_hours: 0 }).grace_period_hours).toBe(0);
+    expect(() => validateInput(apiKeyRotationSchema, { grace_period_hours: 24 * 31 })).toThrow(/must not exceed/);
+  });
+});
+
+describe('Audit Event Query Schema Validation', () => {
+  test('should apply default pagination', () => {
+    const filter = validateInput(auditEventQuerySchema, { outcome: 'failure' });
+    expect(filter).toEqual({ outcome: 'failure', limit: 100, offset: 0 });
+  });
+
+  test('should convert query string values', () => {
+    const filter = validateInput(auditEventQuerySchema, { limit: '25', offset: '50' });
+    expect(filter.limit).toBe(25);
+    expect(filter.offset).toBe(50);
+  });
+
+  test('should reject invalid filters', () => {
+    expect(() => validateInput(auditEventQuerySchema, { outcome: 'denied' })).toThrow(/outcome must be one of/);
+    expect(() => validateInput(auditEventQuerySchema, { api_key_id: 'dev-key-1' })).toThrow();
+    expect(() => validateInput(auditEventQuerySchema, { from: 'yesterday' })).toThrow(/valid ISO date/);
+    expect(() => validateInput(auditEventQuerySchema, { limit: 501 })).toThrow(/between 1 and 500/);
+  });
+});
+
+describe('Webhook Endpoint Schema Validation', () => {
+  test('should default to every event type', () => {
+    const endpoint = validateInput(webhookEndpointSchema, { url: 'https://example.com/hooks' });
+    expect(endpoint.event_types).toEqual([]);
+  });
+
+  test('should accept known event types', () => {
+    const endpoint = validateInput(webhookEndpointSchema, {
+      url: 'http://localhost:4000/hooks',
+      event_types: ['journal_entry.posted', 'account.created'],
+    });
+    expect(endpoint.event_types).toEqual(['journal_entry.posted', 'account.created']);
+  });
+
+  test('should reject invalid URLs and event types', () => {
+    expect(() => validateInput(webhookEndpointSchema, {})).toThrow();
+    expect(() => validateInput(webhookEndpointSchema, { url: 'ftp://example.com' })).toThrow(/http or https URL/);
+    expect(() => validateInput(webhookEndpointSchema, { url: 'not a url' })).toThrow(/http or https URL/);
+    expect(() => validateInput(webhookEndpointSchema, {
+      url: 'https://example.com/hooks',
+      event_types: ['journal_entry.deleted'],
+    })).toThrow(/Event types must be one of/);
+  });
+});
+
+describe('Feed Query Schema Validation', () => {
+  test('should start at the beginning of the feed by default', () => {
+    expect(validateInput(feedQuerySchema, {})).toEqual({ after: 0, limit: 100, wait: 0 });
+  });
+
+  test('should convert query string values', () => {
+    expect(validateInput(feedQuerySchema, { after: '41', limit: '500', wait: '25' }))
+      .toEqual({ after: 41, limit: 500, wait: 25 });
+  });
+
+  test('should reject invalid cursors, page sizes and waits', () => {
+    expect(() => validateInput(feedQuerySchema, { after: -1 })).toThrow(/sequence number/);
+    expect(() => validateInput(feedQuerySchema, { after: 'abc' })).toThrow(/sequence number/);
+    expect(() => validateInput(feedQuerySchema, { limit: 1001 })).toThrow(/between 1 and 1000/);
+    expect(() => validateInput(feedQuerySchema, { wait: 31 })).toThrow(/between 0 and 30/);
+  });
+});
+
+describe('Bank Statement Import Schema Validation', () => {
+  test('should accept a statement imported from a query string', () => {
+    const statement = validateInput(bankStatementImportSchema, {
+      account_code: '1002',
+      format: 'csv',
+      content: 'Date,Amount\n2024-01-05,10.00\n',
+      mapping: { date: 'Date', date_format: 'DD/MM/YYYY' },
+      closing_balance: '-1250.00',
+    });
+    expect(statement.mapping).toEqual({ date: 'Date', date_format: 'DD/MM/YYYY' });
+    expect(statement.closing_balance).toBe('-1250.00');
+  });
+
+  test('should require an account and content', () => {
+    expect(() => validateInput(bankStatementImportSchema, { content: 'x' })).toThrow(/account_code/);
+    expect(() => validateInput(bankStatementImportSchema, { account_code: '1002', content: '  ' }))
+      .toThrow(/empty/);
+  });
+
+  test('should reject unknown formats and conflicting amount columns', () => {
+    const base = { account_code: '1002', content: 'x' };
+    expect(() => validateInput(bankStatementImportSchema, { ...base, format: 'mt940' })).toThrow(/format must be/);
+    expect(() => validateInput(bankStatementImportSchema, { ...base, mapping: { amount: 'Amt', debit: 'Dr', credit: 'Cr' } }))
+      .toThrow(/either mapping.amount/);
+    expect(() => validateInput(bankStatementImportSchema, { ...base, mapping: { debit: 'Dr' } }))
+      .toThrow(/mapped together/);
+    expect(() => validateInput(bankStatementImportSchema, { ...base, opening_balance: '1,000' }))
+      .toThrow(/decimal amount/);
+  });
+});
+
+describe('Bank Reconciliation Schema Validation', () => {
+  const lineId = '6f1c0b6e-2d0a-4f3e-9a57-0c2f5b9e8d11';
+  const otherLineId = '0b7e3c52-5d9a-4a61-8f0e-2b6d1c9a7e44';
+
+  test('should default the date window and dry run', () => {
+    const request = validateInput(autoMatchSchema, { account_code: '1002' });
+    expect(request.date_window_days).toBe(3);
+    expect(request.dry_run).toBe(false);
+  });
+
+  test('should reject a date window outside the allowed range', () => {
+    expect(() => validateInput(autoMatchSchema, { account_code: '1002', date_window_days: 32 }))
+      .toThrow(/between 0 and 31/);
+    expect(() => validateInput(autoMatchSchema, { account_code: '1002', date_window_days: -1 }))
+      .toThrow(/between 0 and 31/);
+    expect(() => validateInput(autoMatchSchema, { date_window_days: 3 })).toThrow(/account_code/);
+  });
+
+  test('should accept several lines on either side of a match', () => {
+    const match = validateInput(bankMatchSchema, {
+      statement_line_ids: [lineId],
+      journal_line_ids: [lineId, otherLineId],
+    });
+    expect(match.journal_line_ids).toHaveLength(2);
+  });
+
+  test('should require lines on both sides of a match', () => {
+    expect(() => validateInput(bankMatchSchema, { statement_line_ids: [lineId], journal_line_ids: [] }))
+      .toThrow(/at least one line/);
+    expect(() => validateInput(bankMatchSchema, { journal_line_ids: [lineId] })).toThrow(/statement_line_ids is required/);
+    expect(() => validateInput(bankMatchSchema, { statement_line_ids: [lineId, lineId], journal_line_ids: [lineId] }))
+      .toThrow(/same line twice/);
+    expect(() => validateInput(bankMatchSchema, { statement_line_ids: ['abc'], journal_line_ids: [lineId] }))
+      .toThrow(/valid UUIDs/);
+  });
+});
+
+describe('Intercompany Entry Schema Validation', () => {
+  const validEntry = {
+    date: '2025-01-20',
+    narration: 'Funding to Acme Europe',
+    counterparty_ledger_id: '6f1c0b6e-2d0a-4f3e-9a57-0c2f5b9e8d11',
+    amount: 500,
+    lines: [{ account_code: '1001', credit: 500 }],
+    counterparty_lines: [{ account_code: '1001', debit: 500 }],
+  };
+
+  test('should accept a valid intercompany entry', () => {
+    expect(() => validateInput(intercompanyEntrySchema, validEntry)).not.toThrow();
+  });
+
+  test('should reject zero or too precise amounts', () => {
+    expect(() => validateInput(intercompanyEntrySchema, { ...validEntry, amount: 0 })).toThrow();
+    expect(() => validateInput(intercompanyEntrySchema, { ...validEntry, amount: 1.005 })).toThrow();
+  });
+
+  test('should require a counterparty ledger and lines on both sides', () => {
+    expect(() => validateInput(intercompanyEntrySchema, { ...validEntry, counterparty_ledger_id: 'MAIN' })).toThrow();
+    expect(() => validateInput(intercompanyEntrySchema, { ...validEntry, counterparty_lines: [] })).toThrow();
+  });
+});
+
 describe('Assignment Requirements Validation (Logic Tests)', () => {
   test('should prove integer precision approach', () => {
     // This proves we avoid floating point errors as required
@@ -0,0 +1,245 @@
+/**
+ * Year-End Service Test Suite
+ *
+ * Tests closing and reopening fiscal years, with the repositories mocked
+ */
+
+import { Database } from '../config/database';
+import { ENV } from '../config/env';
+import { YearEndService } from '../services/YearEndService';
+import { AccountRepository } from '../repositories/AccountRepository';
+import { BalanceRepository } from '../repositories/BalanceRepository';
+import { FiscalPeriodRepository } from '../repositories/FiscalPeriodRepository';
+import { JournalRepository } from '../repositories/JournalRepository';
+import { YearEndClosingRepository } from '../repositories/YearEndClosingRepository';
+import {
+  Account,
+  AccountBalance,
+  AccountType,
+  ConflictError,
+  CreateJournalEntryRequest,
+  JournalEntry,
+  JournalEntryStatus,
+  YearEndClosing
+} from '../models/types';
+
+const LEDGER_ID = 'ledger-1';
+
+const account = (code: string, type: AccountType): Account => ({
+  id: `account-${code}`,
+  ledger_id: LEDGER_ID,
+  code,
+  name: `Account ${code}`,
+  type,
+  currency: 'INR',
+  parent_id: null,
+  is_active: true,
+  deactivated_at: null,
+  created_at: new Date('2024-01-01'),
+  updated_at: new Date('2024-01-01'),
+});
+
+const balance = (code: string, type: AccountType, debits: number, credits: number): AccountBalance => ({
+  account_code: code,
+  account_name: `Account ${code}`,
+  account_type: type,
+  parent_code: null,
+  debits,
+  credits,
+  balance: debits - credits,
+});
+
+const closing = (overrides: Partial<YearEndClosing> = {}): YearEndClosing => ({
+  id: 'closing-1',
+  ledger_id: LEDGER_ID,
+  fiscal_year: 2024,
+  status: 'closed',
+  entry_id: null,
+  reversal_entry_id: null,
+  closed_by: 'key-1',
+  closed_at: new Date('2025-01-10'),
+  reversed_by: null,
+  reversed_at: null,
+  ...overrides,
+});
+
+// Journal entry as the repository returns it after creating it from the request
+const createdEntry = (id: string, data: CreateJournalEntryRequest, status: JournalEntryStatus): JournalEntry => ({
+  id,
+  ledger_id: LEDGER_ID,
+  date: new Date(data.date),
+  narration: data.narration,
+  status,
+  posted_at: status === 'posted' ? new Date() : null,
+  sequence: status === 'posted' ? 1 : null,
+  ...(data.reverses_entry_id && { reverses_entry_id: data.reverses_entry_id }),
+  is_adjusting: data.adjusting ?? false,
+  created_by: 'key-1',
+  submitted_by: 'key-1',
+  submitted_at: new Date(),
+  reviewed_by: null,
+  reviewed_at: null,
+  rejection_reason: null,
+  lines: data.lines.map((line, index) => ({
+    id: `line-${index}`,
+    entry_id: id,
+    account_id: `account-${line.account_code}`,
+    account_code: line.account_code,
+    debit_cents: Math.round(Number(line.debit ?? 0) * 100),
+    credit_cents: Math.round(Number(line.credit ?? 0) * 100),
+    currency: 'INR',
+    transaction_amount_cents: Math.round(Number(line.debit || line.credit) * 100),
+    exchange_rate: 1,
+    line_index: index,
+  })),
+});
+
+// Closing entry recorded on an earlier closing of FY2024
+const earlierClosingEntry = (status: JournalEntryStatus): JournalEntry =>
+  createdEntry('entry-1', { date: '2024-12-31', narration: 'Year-end closing FY2024', lines: [] }, status);
+
+describe('Year-End Service Tests', () => {
+  const accounts = [
+    account('1001', 'Asset'),
+    account('3100', 'Equity'),
+    account('4001', 'Revenue'),
+    account('5001', 'Expense'),
+  ];
+  let yearEndService: YearEndService;
+  let create: jest.SpyInstance;
+  let entries: Map<string, JournalEntry>;
+  let closingRepository: {
+    findActive: jest.SpyInstance;
+    create: jest.SpyInstance;
+    setEntry: jest.SpyInstance;
+    markReversed: jest.SpyInstance;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(Database, 'getInstance')
+      .mockReturnValue({ query: jest.fn().mockResolvedValue([]), transaction: jest.fn() } as unknown as Database);
+    // Far below the closing amounts, so a closing entry would otherwise need approval
+    jest.replaceProperty(ENV, 'JOURNAL_APPROVAL_THRESHOLD', 100);
+
+    const byCodes = async (_ledgerId: string, codes: string[]): Promise<Account[]> =>
+      accounts.filter(candidate => codes.includes(candidate.code));
+    jest.spyOn(AccountRepository.prototype, 'findByCodes').mockImplementation(byCodes);
+    jest.spyOn(AccountRepository.prototype, 'getAccountsByCodesWithValidation').mockImplementation(byCodes);
+    jest.spyOn(AccountRepository.prototype, 'findByCode')
+      .mockImplementation(async (_ledgerId, code) => accounts.find(candidate => candidate.code === code) ?? null);
+    jest.spyOn(FiscalPeriodRepository.prototype, 'findByDate').mockResolvedValue(null);
+    jest.spyOn(BalanceRepository.prototype, 'getAllAccountBalances').mockResolvedValue([
+      balance('1001', 'Asset', 5000000, 1500000),
+      balance('3100', 'Equity', 0, 1000000),
+      balance('4001', 'Revenue', 0, 4000000),
+      balance('5001', 'Expense', 1500000, 0),
+    ]);
+
+    entries = new Map();
+    create = jest.spyOn(JournalRepository.prototype, 'create')
+      .mockImplementation(async (_ledgerId, data, _accounts, status) => {
+        const journalEntry = createdEntry(`00000000-0000-4000-8000-00000000000${entries.size + 1}`, data, status);
+        entries.set(journalEntry.id, journalEntry);
+        return journalEntry;
+      });
+    jest.spyOn(JournalRepository.prototype, 'findById')
+      .mockImplementation(async (_ledgerId, id) => entries.get(id) ?? null);
+
+    closingRepository = {
+      findActive: jest.spyOn(YearEndClosingRepository.prototype, 'findActive').mockResolvedValue(null),
+      create: jest.spyOn(YearEndClosingRepository.prototype, 'create').mockResolvedValue(closing()),
+      setEntry: jest.spyOn(YearEndClosingRepository.prototype, 'setEntry')
+        .mockImplementation(async (id, entryId) => closing({ id, entry_id: entryId })),
+      markReversed: jest.spyOn(YearEndClosingRepository.prototype, 'markReversed')
+        .mockImplementation(async (id, reversalEntryId) =>
+          closing({ id, status: 'reversed', entry_id: 'entry-1', reversal_entry_id: reversalEntryId })),
+    };
+
+    yearEndService = new YearEndService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Close', () => {
+    test('should post the closing entry right away, whatever the approval threshold', async () => {
+      const result = await yearEndService.closeYear(LEDGER_ID, '2024', 'key-1');
+
+      expect(result.created).toBe(true);
+      expect(result.entry!.status).toBe('posted');
+      expect(create).toHaveBeenCalledWith(
+        LEDGER_ID, expect.anything(), expect.anything(), 'posted', 'key-1', 'key-1'
+      );
+      expect(result.entry!.lines.map(line => [line.account_code, line.debit_cents, line.credit_cents])).toEqual([
+        ['4001', 4000000, 0],
+        ['5001', 0, 1500000],
+        ['3100', 0, 2500000],
+      ]);
+      expect(closingRepository.setEntry).toHaveBeenCalledWith('closing-1', result.entry!.id);
+      expect(result.closing.entry_id).toBe(result.entry!.id);
+    });
+
+    test('should return the existing closing when the year is closed again', async () => {
+      entries.set('entry-1', earlierClosingEntry('posted'));
+      closingRepository.findActive.mockResolvedValue(closing({ entry_id: 'entry-1' }));
+
+      const result = await yearEndService.closeYear(LEDGER_ID, '2024', 'key-1');
+
+      expect(result.created).toBe(false);
+      expect(result.entry!.id).toBe('entry-1');
+      expect(closingRepository.create).not.toHaveBeenCalled();
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    test('should record a closing without an entry when there is nothing to close', async () => {
+      jest.spyOn(BalanceRepository.prototype, 'getAllAccountBalances')
+        .mockResolvedValue([balance('1001', 'Asset', 1000000, 0), balance('3100', 'Equity', 0, 1000000)]);
+
+      const result = await yearEndService.closeYear(LEDGER_ID, '2024', 'key-1');
+
+      expect(result).toMatchObject({ entry: null, created: true });
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    test('should release the year when the closing entry cannot be posted', async () => {
+      const deleteClosing = jest.spyOn(YearEndClosingRepository.prototype, 'delete').mockResolvedValue();
+      create.mockRejectedValue(new ConflictError("Fiscal period 'FY2024' was closed"));
+
+      await expect(yearEndService.closeYear(LEDGER_ID, '2024', 'key-1')).rejects.toThrow(ConflictError);
+      expect(deleteClosing).toHaveBeenCalledWith('closing-1');
+    });
+  });
+
+  describe('Reopen', () => {
+    test('should post the reversal of the closing entry right away and mark the closing reversed', async () => {
+      const { entry } = await yearEndService.closeYear(LEDGER_ID, '2024', 'key-1');
+      closingRepository.findActive.mockResolvedValue(closing({ entry_id: entry!.id }));
+
+      const result = await yearEndService.reopenYear(LEDGER_ID, '2024', 'key-1');
+
+      expect(result.reversalEntry).toMatchObject({ status: 'posted', reverses_entry_id: entry!.id });
+      expect(result.reversalEntry!.lines.map(line => [line.account_code, line.debit_cents, line.credit_cents]))
+        .toEqual([['4001', 0, 4000000], ['5001', 1500000, 0], ['3100', 2500000, 0]]);
+      expect(closingRepository.markReversed).toHaveBeenCalledWith('closing-1', result.reversalEntry!.id, 'key-1');
+    });
+
+    test('should release a closing whose entry was rejected without reversing anything', async () => {
+      entries.set('entry-1', earlierClosingEntry('rejected'));
+      closingRepository.findActive.mockResolvedValue(closing({ entry_id: 'entry-1' }));
+
+      const result = await yearEndService.reopenYear(LEDGER_ID, '2024', 'key-1');
+
+      expect(result.reversalEntry).toBeNull();
+      expect(create).not.toHaveBeenCalled();
+      expect(closingRepository.markReversed).toHaveBeenCalledWith('closing-1', null, 'key-1');
+    });
+
+    test('should reject reopening a year that is not closed', async () => {
+      await expect(yearEndService.reopenYear(LEDGER_ID, '2024', 'key-1')).rejects.toThrow(
+        new ConflictError('Fiscal year 2024 is not closed')
+      );
+      expect(closingRepository.markReversed).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,4 +1,14 @@
-import { Pool, PoolConfig } from 'pg';
+import { Pool, PoolConfig, types } from 'pg';
+
+// Amounts are BIGINT minor units; return them (and counts) as numbers instead of
+// strings, and fail rather than silently lose precision beyond 2^53
+types.setTypeParser(types.builtins.INT8, (value: string) => {
+  const parsed = Number(value);
+  if (!Number.isSafeInteger(parsed)) {
+    throw new RangeError(`BIGINT value ${value} exceeds the safe integer range`);
+  }
+  return parsed;
+});
 
 export interface DatabaseConfig extends PoolConfig {
   connectionString?: string;
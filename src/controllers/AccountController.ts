@@ -1,6 +1,7 @@
-import { Request, Response } from 'express';
+import { Response } from 'express';
 import { AccountService } from '../services/AccountService.js';
-import { CreateAccountRequest, ValidationError, ConflictError, NotFoundError } from '../models/types.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { CreateAccountRequest, UpdateAccountRequest, ValidationError, ConflictError, NotFoundError } from '../models/types.js';
 
 export class AccountController {
   private accountService: AccountService;
@@ -13,10 +14,10 @@ export class AccountController {
    * POST /accounts
    * Create a new account
    */
-  async createAccount(req: Request, res: Response): Promise<void> {
+  async createAccount(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const accountData: CreateAccountRequest = req.body;
-      const account = await this.accountService.createAccount(accountData);
+      const account = await this.accountService.createAccount(req.ledgerId!, accountData);
       
       res.status(201).json({
         success: true,
@@ -32,10 +33,11 @@ export class AccountController {
    * GET /accounts
    * List all accounts with optional type filter
    */
-  async getAccounts(req: Request, res: Response): Promise<void> {
+  async getAccounts(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const { type } = req.query;
       const accounts = await this.accountService.getAllAccounts(
+        req.ledgerId!,
         type as any // Will be validated by the service
       );
       
@@ -50,11 +52,100 @@ export class AccountController {
     }
   }
 
+  /**
+   * POST /accounts/import
+   * Import accounts from CSV (text/csv) or JSON; all-or-nothing, dry_run=true only validates
+   */
+  async importAccounts(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const dryRun = req.query.dry_run === 'true';
+      const result = await this.accountService.importAccounts(req.ledgerId!, req.body, dryRun);
+      
+      if (result.errors.length > 0 && !dryRun) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: `Import rejected: ${result.errors.length} of ${result.total} rows are invalid. No accounts were created.`,
+          code: 'VALIDATION_ERROR',
+          errors: result.errors,
+        });
+        return;
+      }
+      
+      res.status(dryRun ? 200 : 201).json({
+        success: true,
+        data: result,
+        message: dryRun
+          ? `Dry run completed: ${result.total - result.errors.length} of ${result.total} rows are valid`
+          : `${result.created} accounts imported successfully`,
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /accounts/export
+   * Export the chart of accounts as JSON (default) or CSV (format=csv)
+   */
+  async exportAccounts(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { format } = req.query;
+      
+      if (format === 'csv') {
+        const csv = await this.accountService.exportAccountsCsv(req.ledgerId!, );
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', 'attachment; filename="accounts.csv"');
+        res.send(csv);
+        return;
+      }
+      
+      if (format !== undefined && format !== 'json') {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'format must be one of: json, csv',
+          code: 'VALIDATION_ERROR',
+        });
+        return;
+      }
+      
+      const accounts = await this.accountService.exportAccounts(req.ledgerId!, );
+      res.json({
+        success: true,
+        data: accounts,
+        count: accounts.length,
+        message: 'Accounts exported successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /accounts/tree
+   * Get the chart of accounts as a parent/child hierarchy
+   */
+  async getAccountTree(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const tree = await this.accountService.getAccountTree(req.ledgerId!, );
+      
+      res.json({
+        success: true,
+        data: tree,
+        count: tree.length,
+        message: 'Account tree retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
   /**
    * GET /accounts/:code
    * Get a specific account by code
    */
-  async getAccount(req: Request, res: Response): Promise<void> {
+  async getAccount(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const { code } = req.params;
       if (!code) {
@@ -66,7 +157,7 @@ export class AccountController {
         });
         return;
       }
-      const account = await this.accountService.getAccount(code);
+      const account = await this.accountService.getAccount(req.ledgerId!, code);
       
       res.json({
         success: true,
@@ -82,7 +173,7 @@ export class AccountController {
    * GET /accounts/:code/info
    * Get detailed account information including normal balance type
    */
-  async getAccountInfo(req: Request, res: Response): Promise<void> {
+  async getAccountInfo(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const { code } = req.params;
       if (!code) {
@@ -94,9 +185,9 @@ export class AccountController {
         });
         return;
       }
-      const account = await this.accountService.getAccount(code);
+      const account = await this.accountService.getAccount(req.ledgerId!, code);
       const normalBalance = this.accountService.getAccountNormalBalance(account.type);
-      const canDelete = await this.accountService.canDeleteAccount(code);
+      const canDelete = await this.accountService.canDeleteAccount(req.ledgerId!, code);
       
       res.json({
         success: true,
@@ -112,6 +203,119 @@ export class AccountController {
     }
   }
 
+  /**
+   * PATCH /accounts/:code
+   * Rename an account or change its parent
+   */
+  async updateAccount(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { code } = req.params;
+      if (!code) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'Account code is required',
+          code: 'VALIDATION_ERROR',
+        });
+        return;
+      }
+      const updateData: UpdateAccountRequest = req.body;
+      const account = await this.accountService.updateAccount(req.ledgerId!, code, updateData);
+      
+      res.json({
+        success: true,
+        data: account,
+        message: 'Account updated successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * POST /accounts/:code/deactivate
+   * Stop an account from receiving new postings
+   */
+  async deactivateAccount(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { code } = req.params;
+      if (!code) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'Account code is required',
+          code: 'VALIDATION_ERROR',
+        });
+        return;
+      }
+      const account = await this.accountService.deactivateAccount(req.ledgerId!, code);
+      
+      res.json({
+        success: true,
+        data: account,
+        message: 'Account deactivated successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * POST /accounts/:code/reactivate
+   * Allow a deactivated account to receive postings again
+   */
+  async reactivateAccount(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { code } = req.params;
+      if (!code) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'Account code is required',
+          code: 'VALIDATION_ERROR',
+        });
+        return;
+      }
+      const account = await this.accountService.reactivateAccount(req.ledgerId!, code);
+      
+      res.json({
+        success: true,
+        data: account,
+        message: 'Account reactivated successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * DELETE /accounts/:code
+   * Delete an account that has no postings
+   */
+  async deleteAccount(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { code } = req.params;
+      if (!code) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'Account code is required',
+          code: 'VALIDATION_ERROR',
+        });
+        return;
+      }
+      await this.accountService.deleteAccount(req.ledgerId!, code);
+      
+      res.json({
+        success: true,
+        data: { code },
+        message: 'Account deleted successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
   /**
    * Error handling for all account controller methods
    */
@@ -0,0 +1,159 @@
+import { Response } from 'express';
+import { ApiKeyService } from '../services/ApiKeyService.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import {
+  CreateApiKeyRequest,
+  RotateApiKeyRequest,
+  ValidationError,
+  ConflictError,
+  NotFoundError,
+  ForbiddenError
+} from '../models/types.js';
+
+export class ApiKeyController {
+  private apiKeyService: ApiKeyService;
+
+  constructor() {
+    this.apiKeyService = new ApiKeyService();
+  }
+
+  /**
+   * POST /api-keys
+   * Create a new API key; the key is only returned in this response
+   */
+  async createApiKey(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const keyData: CreateApiKeyRequest = req.body;
+      const apiKey = await this.apiKeyService.createApiKey(keyData, req.ledgerIds, req.apiKeyId);
+
+      res.status(201).json({
+        success: true,
+        data: apiKey,
+        message: 'API key created successfully. Store the key now; it can not be retrieved again',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /api-keys
+   * List API keys (metadata only)
+   */
+  async getApiKeys(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const apiKeys = await this.apiKeyService.getApiKeys();
+
+      res.json({
+        success: true,
+        data: apiKeys,
+        count: apiKeys.length,
+        message: 'API keys retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /api-keys/:id
+   * Get the metadata of an API key
+   */
+  async getApiKey(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const apiKey = await this.apiKeyService.getApiKey(id as string);
+
+      res.json({
+        success: true,
+        data: apiKey,
+        message: 'API key retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * POST /api-keys/:id/revoke
+   * Revoke an API key immediately
+   */
+  async revokeApiKey(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const apiKey = await this.apiKeyService.revokeApiKey(id as string);
+
+      res.json({
+        success: true,
+        data: apiKey,
+        message: 'API key revoked successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * POST /api-keys/:id/rotate
+   * Issue a replacement key; the old key keeps working for the grace period
+   */
+  async rotateApiKey(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const rotationData: RotateApiKeyRequest = req.body ?? {};
+      const apiKey = await this.apiKeyService.rotateApiKey(id as string, rotationData, req.apiKeyId);
+
+      res.status(201).json({
+        success: true,
+        data: apiKey,
+        message: 'API key rotated successfully. Store the new key now; it can not be retrieved again',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Error handling for all API key controller methods
+   */
+  private handleError(error: unknown, res: Response): void {
+    console.error('ApiKeyController error:', error);
+
+    if (error instanceof ValidationError) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation Error',
+        message: error.message,
+        code: 'VALIDATION_ERROR',
+      });
+    } else if (error instanceof ForbiddenError) {
+      res.status(403).json({
+        success: false,
+        error: 'Forbidden',
+        message: error.message,
+        code: 'FORBIDDEN',
+      });
+    } else if (error instanceof ConflictError) {
+      res.status(409).json({
+        success: false,
+        error: 'Conflict Error',
+        message: error.message,
+        code: 'CONFLICT_ERROR',
+      });
+    } else if (error instanceof NotFoundError) {
+      res.status(404).json({
+        success: false,
+        error: 'Not Found',
+        message: error.message,
+        code: 'NOT_FOUND',
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: 'An unexpected error occurred while processing your request',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  }
+}
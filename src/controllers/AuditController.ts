@@ -0,0 +1,59 @@
+import { Response } from 'express';
+import { AuditService } from '../services/AuditService.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { ValidationError } from '../models/types.js';
+
+export class AuditController {
+  private auditService: AuditService;
+
+  constructor() {
+    this.auditService = new AuditService();
+  }
+
+  /**
+   * GET /audit-events
+   * Search the audit log, newest first
+   */
+  async getAuditEvents(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { events, total, filter } = await this.auditService.getAuditEvents(req.query);
+
+      res.json({
+        success: true,
+        data: events,
+        count: events.length,
+        pagination: {
+          limit: filter.limit,
+          offset: filter.offset,
+          total,
+        },
+        message: 'Audit events retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Error handling for all audit controller methods
+   */
+  private handleError(error: unknown, res: Response): void {
+    console.error('AuditController error:', error);
+
+    if (error instanceof ValidationError) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation Error',
+        message: error.message,
+        code: 'VALIDATION_ERROR',
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: 'An unexpected error occurred while processing your request',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  }
+}
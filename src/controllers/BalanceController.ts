@@ -1,6 +1,15 @@
-import { Request, Response } from 'express';
+import { Response } from 'express';
 import { BalanceService } from '../services/BalanceService.js';
-import { ValidationError, NotFoundError } from '../models/types.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import {
+  AccountBalance,
+  BalanceSheetReport,
+  BalanceSheetSection,
+  ComparativeAmount,
+  ValidationError,
+  NotFoundError,
+  ForbiddenError
+} from '../models/types.js';
 import { Money } from '../utils/money.js';
 
 export class BalanceController {
@@ -14,8 +23,9 @@ export class BalanceController {
    * GET /accounts/:code/balance
    * Get account balance with optional as_of date
    */
-  async getAccountBalance(req: Request, res: Response): Promise<void> {
+  async getAccountBalance(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
+      const asStrings = req.query.amount_format === 'string';
       const { code } = req.params;
       const { as_of } = req.query;
       
@@ -30,6 +40,7 @@ export class BalanceController {
       }
       
       const balance = await this.balanceService.getAccountBalance(
+        req.ledgerId!,
         code,
         as_of as string
       );
@@ -39,9 +50,9 @@ export class BalanceController {
         account_code: balance.account_code,
         account_name: balance.account_name,
         account_type: balance.account_type,
-        debits: Money.fromCents(balance.debits),
-        credits: Money.fromCents(balance.credits),
-        balance: Money.fromCents(balance.balance),
+        debits: Money.toAmount(balance.debits, asStrings),
+        credits: Money.toAmount(balance.credits, asStrings),
+        balance: Money.toAmount(balance.balance, asStrings),
         as_of: as_of || 'current',
       };
       
@@ -57,11 +68,12 @@ export class BalanceController {
 
   /**
    * GET /reports/trial-balance
-   * Get trial balance report for a date range
+   * Get trial balance report for a date range (rollup=true adds parent subtotals)
    */
-  async getTrialBalance(req: Request, res: Response): Promise<void> {
+  async getTrialBalance(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const { from, to } = req.query;
+      const asStrings = req.query.amount_format === 'string';
+      const { from, to, rollup } = req.query;
       
       if (!from || !to) {
         res.status(400).json({
@@ -74,25 +86,20 @@ export class BalanceController {
       }
       
       const trialBalance = await this.balanceService.getTrialBalance(
+        req.ledgerId!,
         from as string,
-        to as string
+        to as string,
+        rollup === 'true'
       );
       
       // Format response with converted amounts for display
       const responseTrialBalance = {
         from: trialBalance.from,
         to: trialBalance.to,
-        accounts: trialBalance.accounts.map(account => ({
-          code: account.account_code,
-          name: account.account_name,
-          type: account.account_type,
-          debits: Money.fromCents(account.debits),
-          credits: Money.fromCents(account.credits),
-          balance: Money.fromCents(account.balance),
-        })),
+        accounts: trialBalance.accounts.map(account => this.formatTrialBalanceAccount(account, asStrings)),
         totals: {
-          debits: Money.fromCents(trialBalance.totals.debits),
-          credits: Money.fromCents(trialBalance.totals.credits),
+          debits: Money.toAmount(trialBalance.totals.debits, asStrings),
+          credits: Money.toAmount(trialBalance.totals.credits, asStrings),
         },
         is_balanced: trialBalance.totals.debits === trialBalance.totals.credits,
       };
@@ -111,22 +118,24 @@ export class BalanceController {
    * GET /reports/balance-summary
    * Get balance summary by account type
    */
-  async getBalanceSummary(req: Request, res: Response): Promise<void> {
+  async getBalanceSummary(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
+      const asStrings = req.query.amount_format === 'string';
       const { as_of } = req.query;
       
       const summary = await this.balanceService.getBalanceSummaryByType(
+        req.ledgerId!,
         as_of as string
       );
       
       // Format response with converted amounts for display
       const responseSummary = {
-        assets: Money.fromCents(summary.assets),
-        liabilities: Money.fromCents(summary.liabilities),
-        equity: Money.fromCents(summary.equity),
-        revenue: Money.fromCents(summary.revenue),
-        expenses: Money.fromCents(summary.expenses),
-        net_income: Money.fromCents(summary.netIncome),
+        assets: Money.toAmount(summary.assets, asStrings),
+        liabilities: Money.toAmount(summary.liabilities, asStrings),
+        equity: Money.toAmount(summary.equity, asStrings),
+        revenue: Money.toAmount(summary.revenue, asStrings),
+        expenses: Money.toAmount(summary.expenses, asStrings),
+        net_income: Money.toAmount(summary.netIncome, asStrings),
         as_of: as_of || 'current',
       };
       
@@ -140,25 +149,185 @@ export class BalanceController {
     }
   }
 
+  /**
+   * GET /reports/income-statement
+   * Get the income statement for a date range, optionally compared with another period
+   */
+  async getIncomeStatement(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const asStrings = req.query.amount_format === 'string';
+      const { from, to, compare_from, compare_to } = req.query;
+      
+      if (!from || !to) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'Both from and to dates are required (YYYY-MM-DD format)',
+          code: 'VALIDATION_ERROR',
+        });
+        return;
+      }
+      
+      const statement = await this.balanceService.getIncomeStatement(
+        req.ledgerId!,
+        from as string,
+        to as string,
+        compare_from as string | undefined,
+        compare_to as string | undefined
+      );
+      
+      // Format response with converted amounts for display
+      const formatSection = (section: typeof statement.revenue) => ({
+        lines: section.lines.map(line => ({
+          code: line.account_code,
+          name: line.account_name,
+          parent_code: line.parent_code,
+          ...this.formatComparativeAmount(line, asStrings),
+        })),
+        total: this.formatComparativeAmount(section.total, asStrings),
+      });
+
+      const responseStatement = {
+        from: statement.from,
+        to: statement.to,
+        comparison: statement.comparison,
+        revenue: formatSection(statement.revenue),
+        expenses: formatSection(statement.expenses),
+        net_income: this.formatComparativeAmount(statement.net_income, asStrings),
+      };
+      
+      res.json({
+        success: true,
+        data: responseStatement,
+        message: 'Income statement retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /reports/balance-sheet
+   * Get the balance sheet with current earnings as an equity line
+   */
+  async getBalanceSheet(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const asStrings = req.query.amount_format === 'string';
+      const { as_of } = req.query;
+      
+      const balanceSheet = await this.balanceService.getBalanceSheet(
+        req.ledgerId!,
+        as_of as string
+      );
+      
+      res.json({
+        success: true,
+        data: this.formatBalanceSheet(balanceSheet, asStrings),
+        message: 'Balance sheet retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /reports/consolidated/trial-balance
+   * Trial balance of several ledgers with intercompany balances eliminated
+   */
+  async getConsolidatedTrialBalance(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const asStrings = req.query.amount_format === 'string';
+      const { from, to, ledger_ids } = req.query;
+
+      if (!from || !to) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'Both from and to dates are required (YYYY-MM-DD format)',
+          code: 'VALIDATION_ERROR',
+        });
+        return;
+      }
+
+      const trialBalance = await this.balanceService.getConsolidatedTrialBalance(
+        req.ledgerIds ?? [],
+        from as string,
+        to as string,
+        ledger_ids as string | undefined
+      );
+
+      res.json({
+        success: true,
+        data: {
+          from: trialBalance.from,
+          to: trialBalance.to,
+          ledgers: trialBalance.ledgers.map(ledger => ({ id: ledger.id, code: ledger.code, name: ledger.name })),
+          accounts: trialBalance.accounts.map(account => this.formatTrialBalanceAccount(account, asStrings)),
+          eliminations: trialBalance.eliminations.map(account => this.formatTrialBalanceAccount(account, asStrings)),
+          totals: {
+            debits: Money.toAmount(trialBalance.totals.debits, asStrings),
+            credits: Money.toAmount(trialBalance.totals.credits, asStrings),
+          },
+          is_balanced: trialBalance.totals.debits === trialBalance.totals.credits,
+        },
+        message: 'Consolidated trial balance retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /reports/consolidated/balance-sheet
+   * Balance sheet of several ledgers with intercompany receivables and payables eliminated
+   */
+  async getConsolidatedBalanceSheet(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const asStrings = req.query.amount_format === 'string';
+      const { as_of, ledger_ids } = req.query;
+
+      const balanceSheet = await this.balanceService.getConsolidatedBalanceSheet(
+        req.ledgerIds ?? [],
+        as_of as string | undefined,
+        ledger_ids as string | undefined
+      );
+
+      res.json({
+        success: true,
+        data: {
+          ledgers: balanceSheet.ledgers.map(ledger => ({ id: ledger.id, code: ledger.code, name: ledger.name })),
+          ...this.formatBalanceSheet(balanceSheet, asStrings),
+          eliminations: balanceSheet.eliminations.map(account => this.formatTrialBalanceAccount(account, asStrings)),
+        },
+        message: 'Consolidated balance sheet retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
   /**
    * GET /reports/accounting-equation
    * Validate the accounting equation (Assets = Liabilities + Equity)
    */
-  async validateAccountingEquation(req: Request, res: Response): Promise<void> {
+  async validateAccountingEquation(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
+      const asStrings = req.query.amount_format === 'string';
       const { as_of } = req.query;
       
       const validation = await this.balanceService.validateAccountingEquation(
+        req.ledgerId!,
         as_of as string
       );
       
       // Format response with converted amounts for display
       const responseValidation = {
         is_valid: validation.isValid,
-        assets: Money.fromCents(validation.assets),
-        liabilities: Money.fromCents(validation.liabilities),
-        equity: Money.fromCents(validation.equity),
-        difference: Money.fromCents(validation.difference),
+        assets: Money.toAmount(validation.assets, asStrings),
+        liabilities: Money.toAmount(validation.liabilities, asStrings),
+        equity: Money.toAmount(validation.equity, asStrings),
+        current_earnings: Money.toAmount(validation.currentEarnings, asStrings),
+        difference: Money.toAmount(validation.difference, asStrings),
         message: validation.message,
         as_of: as_of || 'current',
       };
@@ -174,15 +343,18 @@ export class BalanceController {
   }
 
   /**
-   * GET /accounts
-   * Get all account balances (alternative endpoint)
+   * GET /balances/all
+   * Get all account balances (rollup=true adds parent subtotals)
    */
-  async getAllAccountBalances(req: Request, res: Response): Promise<void> {
+  async getAllAccountBalances(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const { as_of } = req.query;
+      const asStrings = req.query.amount_format === 'string';
+      const { as_of, rollup } = req.query;
       
       const balances = await this.balanceService.getAllAccountBalances(
-        as_of as string
+        req.ledgerId!,
+        as_of as string,
+        rollup === 'true'
       );
       
       // Format response with converted amounts for display
@@ -190,9 +362,11 @@ export class BalanceController {
         account_code: balance.account_code,
         account_name: balance.account_name,
         account_type: balance.account_type,
-        debits: Money.fromCents(balance.debits),
-        credits: Money.fromCents(balance.credits),
-        balance: Money.fromCents(balance.balance),
+        parent_code: balance.parent_code ?? null,
+        debits: Money.toAmount(balance.debits, asStrings),
+        credits: Money.toAmount(balance.credits, asStrings),
+        balance: Money.toAmount(balance.balance, asStrings),
+        ...this.formatSubtotal(balance, asStrings),
       }));
       
       res.json({
@@ -207,11 +381,81 @@ export class BalanceController {
     }
   }
 
+  /**
+   * GET /accounts/:code/ledger
+   * Get the general ledger of an account with running balances (paginated)
+   */
+  async getAccountLedger(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const asStrings = req.query.amount_format === 'string';
+      const { code } = req.params;
+      const { from, to, limit, offset } = req.query;
+      
+      if (!from || !to) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'Both from and to dates are required (YYYY-MM-DD format)',
+          code: 'VALIDATION_ERROR',
+        });
+        return;
+      }
+      
+      const ledger = await this.balanceService.getAccountLedger(
+        req.ledgerId!,
+        code as string,
+        from as string,
+        to as string,
+        limit !== undefined ? Number(limit) : undefined,
+        offset !== undefined ? Number(offset) : undefined
+      );
+      
+      // Format response with converted amounts for display
+      const responseLedger = {
+        account_code: ledger.account_code,
+        account_name: ledger.account_name,
+        account_type: ledger.account_type,
+        from: ledger.from,
+        to: ledger.to,
+        opening_balance: Money.toAmount(ledger.opening_balance, asStrings),
+        closing_balance: Money.toAmount(ledger.closing_balance, asStrings),
+        totals: {
+          debits: Money.toAmount(ledger.totals.debits, asStrings),
+          credits: Money.toAmount(ledger.totals.credits, asStrings),
+        },
+        lines: ledger.lines.map(line => ({
+          entry_id: line.entry_id,
+          line_id: line.line_id,
+          date: line.date,
+          narration: line.narration,
+          counter_accounts: line.counter_accounts,
+          debit: Money.toAmount(line.debit_cents, asStrings),
+          credit: Money.toAmount(line.credit_cents, asStrings),
+          running_balance: Money.toAmount(line.running_balance, asStrings),
+        })),
+      };
+      
+      res.json({
+        success: true,
+        data: responseLedger,
+        count: responseLedger.lines.length,
+        pagination: {
+          limit: limit !== undefined ? Number(limit) : 100,
+          offset: offset !== undefined ? Number(offset) : 0,
+          total: ledger.total_lines,
+        },
+        message: 'Account ledger retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
   /**
    * GET /accounts/:code/activity
    * Check if an account has any activity
    */
-  async checkAccountActivity(req: Request, res: Response): Promise<void> {
+  async checkAccountActivity(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const { code } = req.params;
       const { as_of } = req.query;
@@ -227,6 +471,7 @@ export class BalanceController {
       }
       
       const hasActivity = await this.balanceService.hasAccountActivity(
+        req.ledgerId!,
         code,
         as_of as string
       );
@@ -245,6 +490,86 @@ export class BalanceController {
     }
   }
 
+  /**
+   * Format roll-up subtotals for display (omitted for accounts without children)
+   */
+  private formatTrialBalanceAccount(account: AccountBalance, asStrings: boolean) {
+    return {
+      code: account.account_code,
+      name: account.account_name,
+      type: account.account_type,
+      parent_code: account.parent_code ?? null,
+      debits: Money.toAmount(account.debits, asStrings),
+      credits: Money.toAmount(account.credits, asStrings),
+      balance: Money.toAmount(account.balance, asStrings),
+      ...this.formatSubtotal(account, asStrings),
+    };
+  }
+
+  /**
+   * Format a balance sheet with converted amounts for display
+   */
+  private formatBalanceSheet(balanceSheet: BalanceSheetReport, asStrings: boolean) {
+    const formatSection = (section: BalanceSheetSection) => ({
+      lines: section.lines.map(line => ({
+        code: line.account_code,
+        name: line.account_name,
+        parent_code: line.parent_code,
+        amount: Money.toAmount(line.amount, asStrings),
+        is_synthetic: line.is_synthetic,
+      })),
+      total: Money.toAmount(section.total, asStrings),
+    });
+
+    return {
+      as_of: balanceSheet.as_of || 'current',
+      assets: formatSection(balanceSheet.assets),
+      liabilities: formatSection(balanceSheet.liabilities),
+      equity: formatSection(balanceSheet.equity),
+      current_earnings: Money.toAmount(balanceSheet.current_earnings, asStrings),
+      total_liabilities_and_equity: Money.toAmount(balanceSheet.total_liabilities_and_equity, asStrings),
+      is_balanced: balanceSheet.is_balanced,
+    };
+  }
+
+  private formatSubtotal(
+    balance: AccountBalance,
+    asStrings: boolean
+  ): { subtotal?: { debits: number | string; credits: number | string; balance: number | string } } {
+    if (!balance.subtotal) {
+      return {};
+    }
+
+    return {
+      subtotal: {
+        debits: Money.toAmount(balance.subtotal.debits, asStrings),
+        credits: Money.toAmount(balance.subtotal.credits, asStrings),
+        balance: Money.toAmount(balance.subtotal.balance, asStrings),
+      },
+    };
+  }
+
+  /**
+   * Format a report amount and its comparison fields for display
+   */
+  private formatComparativeAmount(value: ComparativeAmount, asStrings: boolean): {
+    amount: number | string;
+    comparison_amount?: number | string;
+    variance?: number | string;
+    variance_percent?: number | null;
+  } {
+    if (value.comparison_amount === undefined) {
+      return { amount: Money.toAmount(value.amount, asStrings) };
+    }
+
+    return {
+      amount: Money.toAmount(value.amount, asStrings),
+      comparison_amount: Money.toAmount(value.comparison_amount, asStrings),
+      variance: Money.toAmount(value.variance!, asStrings),
+      variance_percent: value.variance_percent ?? null,
+    };
+  }
+
   /**
    * Error handling for all balance controller methods
    */
@@ -258,6 +583,13 @@ export class BalanceController {
         message: error.message,
         code: 'VALIDATION_ERROR',
       });
+    } else if (error instanceof ForbiddenError) {
+      res.status(403).json({
+        success: false,
+        error: 'Forbidden',
+        message: error.message,
+        code: 'FORBIDDEN',
+      });
     } else if (error instanceof NotFoundError) {
       res.status(404).json({
         success: false,
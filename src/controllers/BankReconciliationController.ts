@@ -0,0 +1,221 @@
+import { Response } from 'express';
+import { BankReconciliationService } from '../services/BankReconciliationService.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import {
+  AutoMatchRequest,
+  CreateBankLineEntryRequest,
+  CreateBankMatchRequest,
+  ValidationError,
+  ConflictError,
+  NotFoundError,
+  ForbiddenError
+} from '../models/types.js';
+
+export class BankReconciliationController {
+  private bankReconciliationService: BankReconciliationService;
+
+  constructor() {
+    this.bankReconciliationService = new BankReconciliationService();
+  }
+
+  /**
+   * POST /bank-reconciliation/auto-match
+   * Match unmatched statement lines to journal lines; dry_run=true only proposes the matches
+   */
+  async autoMatch(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const request: AutoMatchRequest = req.body;
+      const result = await this.bankReconciliationService.autoMatch(req.ledgerId!, request, req.apiKeyId);
+
+      res.json({
+        success: true,
+        data: result,
+        message: result.dry_run
+          ? `Dry run completed: ${result.matches.length} matches found`
+          : `${result.matches.length} matches recorded`,
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /bank-reconciliation/unmatched
+   * Unmatched statement lines and journal lines of a bank account
+   */
+  async getUnmatchedItems(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const items = await this.bankReconciliationService.getUnmatchedItems(req.ledgerId!, req.query);
+
+      res.json({
+        success: true,
+        data: items,
+        message: 'Unmatched items retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * POST /bank-reconciliation/matches
+   * Match statement lines and journal lines by hand
+   */
+  async createMatch(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const request: CreateBankMatchRequest = req.body;
+      const match = await this.bankReconciliationService.createMatch(req.ledgerId!, request, req.apiKeyId);
+
+      res.status(201).json({
+        success: true,
+        data: match,
+        message: 'Match created successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /bank-reconciliation/matches/:id
+   * Get a match with its statement lines and journal lines
+   */
+  async getMatch(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const match = await this.bankReconciliationService.getMatch(req.ledgerId!, id as string);
+
+      res.json({
+        success: true,
+        data: match,
+        message: 'Match retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * DELETE /bank-reconciliation/matches/:id
+   * Undo a match
+   */
+  async deleteMatch(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      await this.bankReconciliationService.deleteMatch(req.ledgerId!, id as string);
+
+      res.json({
+        success: true,
+        message: 'Match deleted successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * POST /bank-statement-lines/:id/journal-entry
+   * Book a statement line the books do not have (e.g. a bank fee) and match it
+   */
+  async createEntryForStatementLine(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const request: CreateBankLineEntryRequest = req.body;
+      const result = await this.bankReconciliationService.createEntryForStatementLine(
+        req.ledgerId!,
+        id as string,
+        request,
+        req.apiKeyId,
+        req.idempotencyReservation
+      );
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: result.match
+          ? 'Journal entry posted and matched to the statement line'
+          : `Journal entry created with status ${result.entry.status}; match it once it is posted`,
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /bank-statements/:id/reconciliation
+   * Reconciliation report at the end of the statement's period as JSON (default) or CSV (format=csv)
+   */
+  async getReconciliationReport(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { format } = req.query;
+
+      if (format === 'csv') {
+        const csv = await this.bankReconciliationService.getReconciliationReportCsv(req.ledgerId!, id as string);
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', 'attachment; filename="bank-reconciliation.csv"');
+        res.send(csv);
+        return;
+      }
+
+      if (format !== undefined && format !== 'json') {
+        throw new ValidationError('format must be one of: json, csv');
+      }
+
+      const report = await this.bankReconciliationService.getReconciliationReport(req.ledgerId!, id as string);
+      res.json({
+        success: true,
+        data: report,
+        message: report.is_reconciled
+          ? 'Bank account reconciled'
+          : 'Bank account does not reconcile; see difference',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Error handling for all bank reconciliation controller methods
+   */
+  private handleError(error: unknown, res: Response): void {
+    console.error('BankReconciliationController error:', error);
+
+    if (error instanceof ValidationError) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation Error',
+        message: error.message,
+        code: 'VALIDATION_ERROR',
+      });
+    } else if (error instanceof ForbiddenError) {
+      res.status(403).json({
+        success: false,
+        error: 'Forbidden',
+        message: error.message,
+        code: 'FORBIDDEN',
+      });
+    } else if (error instanceof ConflictError) {
+      res.status(409).json({
+        success: false,
+        error: 'Conflict Error',
+        message: error.message,
+        code: 'CONFLICT_ERROR',
+      });
+    } else if (error instanceof NotFoundError) {
+      res.status(404).json({
+        success: false,
+        error: 'Not Found',
+        message: error.message,
+        code: 'NOT_FOUND',
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: 'An unexpected error occurred while processing your request',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  }
+}
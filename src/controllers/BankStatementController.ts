@@ -0,0 +1,126 @@
+import { Response } from 'express';
+import { BankStatementService } from '../services/BankStatementService.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { ValidationError, ConflictError, NotFoundError } from '../models/types.js';
+
+export class BankStatementController {
+  private bankStatementService: BankStatementService;
+
+  constructor() {
+    this.bankStatementService = new BankStatementService();
+  }
+
+  /**
+   * POST /bank-statements
+   * Import a statement file, either as the raw body (options in the query string)
+   * or as JSON with the file in content
+   */
+  async importStatement(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const payload = typeof req.body === 'string' ? { ...req.query, content: req.body } : req.body;
+      const statement = await this.bankStatementService.importStatement(req.ledgerId!, payload, req.apiKeyId);
+
+      res.status(201).json({
+        success: true,
+        data: statement,
+        message: `Bank statement imported: ${statement.line_count} new transactions, ` +
+          `${statement.duplicate_count} already imported, balances ${statement.balance_status}`,
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /bank-statements
+   * List imported statements, newest period first (optionally of one account)
+   */
+  async getStatements(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const statements = await this.bankStatementService.getStatements(req.ledgerId!, req.query);
+
+      res.json({
+        success: true,
+        data: statements,
+        count: statements.length,
+        message: 'Bank statements retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /bank-statements/:id
+   * Get a statement with the lines it imported
+   */
+  async getStatement(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const statement = await this.bankStatementService.getStatement(req.ledgerId!, id as string);
+
+      res.json({
+        success: true,
+        data: statement,
+        message: 'Bank statement retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * DELETE /bank-statements/:id
+   * Delete a statement and the lines it imported
+   */
+  async deleteStatement(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      await this.bankStatementService.deleteStatement(req.ledgerId!, id as string);
+
+      res.json({
+        success: true,
+        message: 'Bank statement deleted successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Error handling for all bank statement controller methods
+   */
+  private handleError(error: unknown, res: Response): void {
+    console.error('BankStatementController error:', error);
+
+    if (error instanceof ValidationError) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation Error',
+        message: error.message,
+        code: 'VALIDATION_ERROR',
+      });
+    } else if (error instanceof ConflictError) {
+      res.status(409).json({
+        success: false,
+        error: 'Conflict Error',
+        message: error.message,
+        code: 'CONFLICT_ERROR',
+      });
+    } else if (error instanceof NotFoundError) {
+      res.status(404).json({
+        success: false,
+        error: 'Not Found',
+        message: error.message,
+        code: 'NOT_FOUND',
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: 'An unexpected error occurred while processing your request',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  }
+}
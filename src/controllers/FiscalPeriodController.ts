@@ -0,0 +1,185 @@
+import { Response } from 'express';
+import { FiscalPeriodService } from '../services/FiscalPeriodService.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import {
+  CreateFiscalPeriodRequest,
+  FiscalPeriod,
+  ValidationError,
+  ConflictError,
+  NotFoundError
+} from '../models/types.js';
+
+export class FiscalPeriodController {
+  private fiscalPeriodService: FiscalPeriodService;
+
+  constructor() {
+    this.fiscalPeriodService = new FiscalPeriodService();
+  }
+
+  /**
+   * POST /fiscal-periods
+   * Create a new (open) fiscal period
+   */
+  async createPeriod(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const periodData: CreateFiscalPeriodRequest = req.body;
+      const period = await this.fiscalPeriodService.createPeriod(req.ledgerId!, periodData, req.apiKeyId);
+      
+      res.status(201).json({
+        success: true,
+        data: period,
+        message: 'Fiscal period created successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /fiscal-periods
+   * List fiscal periods with optional status filter
+   */
+  async getPeriods(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { status } = req.query;
+      const periods = await this.fiscalPeriodService.getAllPeriods(req.ledgerId!, status as string | undefined);
+      
+      res.json({
+        success: true,
+        data: periods,
+        count: periods.length,
+        message: 'Fiscal periods retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /fiscal-periods/:id
+   * Get a specific fiscal period
+   */
+  async getPeriod(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const period = await this.fiscalPeriodService.getPeriod(req.ledgerId!, id as string);
+      
+      res.json({
+        success: true,
+        data: period,
+        message: 'Fiscal period retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /fiscal-periods/:id/events
+   * Get the close/reopen history of a fiscal period
+   */
+  async getPeriodEvents(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const events = await this.fiscalPeriodService.getPeriodEvents(req.ledgerId!, id as string);
+      
+      res.json({
+        success: true,
+        data: events,
+        count: events.length,
+        message: 'Fiscal period history retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * POST /fiscal-periods/:id/soft-close
+   * Soft-close a period (only adjusting entries allowed)
+   */
+  async softClosePeriod(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handleTransition(req, res, id =>
+      this.fiscalPeriodService.softClosePeriod(req.ledgerId!, id, req.body, req.apiKeyId)
+    );
+  }
+
+  /**
+   * POST /fiscal-periods/:id/close
+   * Close a period (no postings allowed)
+   */
+  async closePeriod(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handleTransition(req, res, id =>
+      this.fiscalPeriodService.closePeriod(req.ledgerId!, id, req.body, req.apiKeyId)
+    );
+  }
+
+  /**
+   * POST /fiscal-periods/:id/reopen
+   * Reopen a soft-closed or closed period
+   */
+  async reopenPeriod(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handleTransition(req, res, id =>
+      this.fiscalPeriodService.reopenPeriod(req.ledgerId!, id, req.body, req.apiKeyId)
+    );
+  }
+
+  /**
+   * Shared handling for period status transitions
+   */
+  private async handleTransition(
+    req: AuthenticatedRequest,
+    res: Response,
+    transition: (id: string) => Promise<FiscalPeriod>
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const period = await transition(id as string);
+      
+      res.json({
+        success: true,
+        data: period,
+        message: `Fiscal period is now ${period.status}`,
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Error handling for all fiscal period controller methods
+   */
+  private handleError(error: unknown, res: Response): void {
+    console.error('FiscalPeriodController error:', error);
+
+    if (error instanceof ValidationError) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation Error',
+        message: error.message,
+        code: 'VALIDATION_ERROR',
+      });
+    } else if (error instanceof ConflictError) {
+      res.status(409).json({
+        success: false,
+        error: 'Conflict Error',
+        message: error.message,
+        code: 'CONFLICT_ERROR',
+      });
+    } else if (error instanceof NotFoundError) {
+      res.status(404).json({
+        success: false,
+        error: 'Not Found',
+        message: error.message,
+        code: 'NOT_FOUND',
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: 'An unexpected error occurred while processing your request',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  }
+}
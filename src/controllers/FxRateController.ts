@@ -0,0 +1,168 @@
+import { Request, Response } from 'express';
+import { FxRateService } from '../services/FxRateService.js';
+import {
+  CreateFxRateRequest,
+  UpdateFxRateRequest,
+  ValidationError,
+  ConflictError,
+  NotFoundError
+} from '../models/types.js';
+
+export class FxRateController {
+  private fxRateService: FxRateService;
+
+  constructor() {
+    this.fxRateService = new FxRateService();
+  }
+
+  /**
+   * POST /fx-rates
+   * Record an exchange rate for a currency pair and date
+   */
+  async createRate(req: Request, res: Response): Promise<void> {
+    try {
+      const rateData: CreateFxRateRequest = req.body;
+      const rate = await this.fxRateService.createRate(rateData);
+      
+      res.status(201).json({
+        success: true,
+        data: rate,
+        message: 'FX rate created successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /fx-rates
+   * List exchange rates (filter by from_currency, to_currency and from/to dates)
+   */
+  async getRates(req: Request, res: Response): Promise<void> {
+    try {
+      const rates = await this.fxRateService.getAllRates(req.query);
+      
+      res.json({
+        success: true,
+        data: rates,
+        count: rates.length,
+        message: 'FX rates retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /fx-rates/lookup
+   * Get the rate in effect for a currency pair on a date
+   */
+  async lookupRate(req: Request, res: Response): Promise<void> {
+    try {
+      const rate = await this.fxRateService.lookupRate(req.query);
+      
+      res.json({
+        success: true,
+        data: rate,
+        message: 'FX rate retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /fx-rates/:id
+   * Get a specific exchange rate
+   */
+  async getRate(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const rate = await this.fxRateService.getRate(id as string);
+      
+      res.json({
+        success: true,
+        data: rate,
+        message: 'FX rate retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * PATCH /fx-rates/:id
+   * Correct an exchange rate (existing journal lines keep the rate they were posted with)
+   */
+  async updateRate(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const updateData: UpdateFxRateRequest = req.body;
+      const rate = await this.fxRateService.updateRate(id as string, updateData);
+      
+      res.json({
+        success: true,
+        data: rate,
+        message: 'FX rate updated successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * DELETE /fx-rates/:id
+   * Delete an exchange rate
+   */
+  async deleteRate(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      await this.fxRateService.deleteRate(id as string);
+      
+      res.json({
+        success: true,
+        data: { id },
+        message: 'FX rate deleted successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Error handling for all FX rate controller methods
+   */
+  private handleError(error: unknown, res: Response): void {
+    console.error('FxRateController error:', error);
+
+    if (error instanceof ValidationError) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation Error',
+        message: error.message,
+        code: 'VALIDATION_ERROR',
+      });
+    } else if (error instanceof ConflictError) {
+      res.status(409).json({
+        success: false,
+        error: 'Conflict Error',
+        message: error.message,
+        code: 'CONFLICT_ERROR',
+      });
+    } else if (error instanceof NotFoundError) {
+      res.status(404).json({
+        success: false,
+        error: 'Not Found',
+        message: error.message,
+        code: 'NOT_FOUND',
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: 'An unexpected error occurred while processing your request',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  }
+}
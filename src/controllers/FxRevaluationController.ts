@@ -0,0 +1,156 @@
+import { Response } from 'express';
+import { FxRevaluationService } from '../services/FxRevaluationService.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { Money } from '../utils/money.js';
+import {
+  JournalEntry,
+  ValidationError,
+  ConflictError,
+  NotFoundError
+} from '../models/types.js';
+
+export class FxRevaluationController {
+  private fxRevaluationService: FxRevaluationService;
+
+  constructor() {
+    this.fxRevaluationService = new FxRevaluationService();
+  }
+
+  /**
+   * POST /fx/revaluation?as_of=YYYY-MM-DD[&dry_run=true]
+   * Revalue foreign-currency balances and post the unrealized gain/loss entry
+   */
+  async revalue(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const asStrings = req.query.amount_format === 'string';
+      const dryRun = req.query.dry_run === 'true';
+      const result = await this.fxRevaluationService.revalue(
+        req.ledgerId!,
+        req.query.as_of as string,
+        dryRun,
+        req.apiKeyId
+      );
+
+      res.status(result.entry ? 201 : 200).json({
+        success: true,
+        data: {
+          as_of: result.as_of,
+          gain_loss_account: result.gain_loss_account,
+          dry_run: result.dry_run,
+          reversal_date: result.reversal_date,
+          lines: result.lines.map(line => ({
+            ...line,
+            currency_balance: Money.toAmount(line.currency_balance, asStrings, line.currency),
+            booked_balance: Money.toAmount(line.booked_balance, asStrings),
+            revalued_balance: Money.toAmount(line.revalued_balance, asStrings),
+            adjustment: Money.toAmount(line.adjustment, asStrings),
+          })),
+          net_gain_loss: Money.toAmount(result.net_gain_loss, asStrings),
+          revaluation: result.revaluation,
+          entry: result.entry ? this.formatEntry(result.entry, asStrings) : null,
+        },
+        message: dryRun
+          ? 'FX revaluation preview (nothing was posted)'
+          : result.entry
+            ? 'FX revaluation posted successfully'
+            : 'No foreign-currency balances needed revaluation',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * POST /fx/revaluation/reversals
+   * Post the reversals of revaluations whose reversal date has been reached
+   */
+  async postDueReversals(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const reversed = await this.fxRevaluationService.postDueReversals(req.ledgerId!, req.apiKeyId);
+
+      res.json({
+        success: true,
+        data: reversed,
+        count: reversed.length,
+        message: `${reversed.length} FX revaluation(s) reversed`,
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /fx/revaluations
+   * List FX revaluations with their reversal status
+   */
+  async getRevaluations(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const revaluations = await this.fxRevaluationService.getRevaluations(req.ledgerId!, );
+
+      res.json({
+        success: true,
+        data: revaluations,
+        count: revaluations.length,
+        message: 'FX revaluations retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Format an entry with converted amounts for display
+   */
+  private formatEntry(journalEntry: JournalEntry, asStrings: boolean): Omit<JournalEntry, 'lines'> & { lines: object[] } {
+    return {
+      ...journalEntry,
+      lines: journalEntry.lines.map(line => ({
+        id: line.id,
+        account_code: line.account_code,
+        debit: Money.toAmount(line.debit_cents, asStrings),
+        credit: Money.toAmount(line.credit_cents, asStrings),
+        currency: line.currency,
+        amount: Money.toAmount(line.transaction_amount_cents, asStrings, line.currency),
+        exchange_rate: line.exchange_rate,
+        line_index: line.line_index,
+      })),
+    };
+  }
+
+  /**
+   * Error handling for all FX revaluation controller methods
+   */
+  private handleError(error: unknown, res: Response): void {
+    console.error('FxRevaluationController error:', error);
+
+    if (error instanceof ValidationError) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation Error',
+        message: error.message,
+        code: 'VALIDATION_ERROR',
+      });
+    } else if (error instanceof ConflictError) {
+      res.status(409).json({
+        success: false,
+        error: 'Conflict Error',
+        message: error.message,
+        code: 'CONFLICT_ERROR',
+      });
+    } else if (error instanceof NotFoundError) {
+      res.status(404).json({
+        success: false,
+        error: 'Not Found',
+        message: error.message,
+        code: 'NOT_FOUND',
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: 'An unexpected error occurred while processing your request',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  }
+}
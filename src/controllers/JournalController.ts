@@ -1,16 +1,19 @@
-import { Request, Response } from 'express';
+import { Response } from 'express';
 import { JournalService } from '../services/JournalService.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { Money } from '../utils/money.js';
 import { 
   CreateJournalEntryRequest, 
+  CreateJournalEntryBatchRequest,
+  CreateIntercompanyEntryRequest,
+  BatchValidationError,
+  JournalEntry,
   ValidationError, 
   ConflictError, 
-  NotFoundError 
+  NotFoundError,
+  ForbiddenError
 } from '../models/types.js';
 
-interface RequestWithIdempotency extends Request {
-  idempotencyKey?: string;
-}
-
 export class JournalController {
   private journalService: JournalService;
 
@@ -22,14 +25,17 @@ export class JournalController {
    * POST /journal-entries
    * Create a new journal entry (with idempotency support)
    */
-  async createJournalEntry(req: RequestWithIdempotency, res: Response): Promise<void> {
+  async createJournalEntry(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
+      const asStrings = req.query.amount_format === 'string';
       const entryData: CreateJournalEntryRequest = req.body;
       const idempotencyKey = req.idempotencyKey;
       
       const journalEntry = await this.journalService.createJournalEntry(
+        req.ledgerId!,
         entryData, 
-        idempotencyKey
+        req.apiKeyId,
+        req.idempotencyReservation
       );
       
       // Format response with converted amounts for display
@@ -38,8 +44,11 @@ export class JournalController {
         lines: journalEntry.lines.map(line => ({
           id: line.id,
           account_code: line.account_code,
-          debit: line.debit_cents > 0 ? line.debit_cents / 100 : 0,
-          credit: line.credit_cents > 0 ? line.credit_cents / 100 : 0,
+          debit: Money.toAmount(line.debit_cents, asStrings),
+          credit: Money.toAmount(line.credit_cents, asStrings),
+          currency: line.currency,
+          amount: Money.toAmount(line.transaction_amount_cents, asStrings, line.currency),
+          exchange_rate: line.exchange_rate,
           line_index: line.line_index,
         })),
       };
@@ -47,7 +56,53 @@ export class JournalController {
       res.status(201).json({
         success: true,
         data: responseEntry,
-        message: 'Journal entry created successfully',
+        message: journalEntry.status === 'posted'
+          ? 'Journal entry created successfully'
+          : `Journal entry created with status '${journalEntry.status}'`,
+        ...(idempotencyKey && { idempotency_key: idempotencyKey }),
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * POST /journal-entries/batch
+   * Create many journal entries in a single transaction (with idempotency support)
+   */
+  async createJournalEntryBatch(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const asStrings = req.query.amount_format === 'string';
+      const batchData: CreateJournalEntryBatchRequest = req.body;
+      const idempotencyKey = req.idempotencyKey;
+      
+      const journalEntries = await this.journalService.createJournalEntryBatch(
+        req.ledgerId!,
+        batchData,
+        req.apiKeyId,
+        req.idempotencyReservation
+      );
+      
+      // Format response with converted amounts for display
+      const responseEntries = journalEntries.map(entry => ({
+        ...entry,
+        lines: entry.lines.map(line => ({
+          id: line.id,
+          account_code: line.account_code,
+          debit: Money.toAmount(line.debit_cents, asStrings),
+          credit: Money.toAmount(line.credit_cents, asStrings),
+          currency: line.currency,
+          amount: Money.toAmount(line.transaction_amount_cents, asStrings, line.currency),
+          exchange_rate: line.exchange_rate,
+          line_index: line.line_index,
+        })),
+      }));
+      
+      res.status(201).json({
+        success: true,
+        data: responseEntries,
+        count: responseEntries.length,
+        message: 'Journal entry batch created successfully',
         ...(idempotencyKey && { idempotency_key: idempotencyKey }),
       });
     } catch (error) {
@@ -59,8 +114,9 @@ export class JournalController {
    * GET /journal-entries/:id
    * Get a specific journal entry by ID
    */
-  async getJournalEntry(req: Request, res: Response): Promise<void> {
+  async getJournalEntry(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
+      const asStrings = req.query.amount_format === 'string';
       const { id } = req.params;
       if (!id) {
         res.status(400).json({
@@ -71,7 +127,7 @@ export class JournalController {
         });
         return;
       }
-      const journalEntry = await this.journalService.getJournalEntry(id);
+      const journalEntry = await this.journalService.getJournalEntry(req.ledgerId!, id);
       
       // Format response with converted amounts for display
       const responseEntry = {
@@ -79,8 +135,11 @@ export class JournalController {
         lines: journalEntry.lines.map(line => ({
           id: line.id,
           account_code: line.account_code,
-          debit: line.debit_cents > 0 ? line.debit_cents / 100 : 0,
-          credit: line.credit_cents > 0 ? line.credit_cents / 100 : 0,
+          debit: Money.toAmount(line.debit_cents, asStrings),
+          credit: Money.toAmount(line.credit_cents, asStrings),
+          currency: line.currency,
+          amount: Money.toAmount(line.transaction_amount_cents, asStrings, line.currency),
+          exchange_rate: line.exchange_rate,
           line_index: line.line_index,
         })),
       };
@@ -99,9 +158,10 @@ export class JournalController {
    * GET /journal-entries
    * List journal entries with optional pagination
    */
-  async getJournalEntries(req: Request, res: Response): Promise<void> {
+  async getJournalEntries(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const { limit, offset } = req.query;
+      const asStrings = req.query.amount_format === 'string';
+      const { limit, offset, status } = req.query;
       
       const limitNum = limit ? parseInt(limit as string, 10) : undefined;
       const offsetNum = offset ? parseInt(offset as string, 10) : undefined;
@@ -127,7 +187,12 @@ export class JournalController {
         return;
       }
       
-      const journalEntries = await this.journalService.getAllJournalEntries(limitNum, offsetNum);
+      const journalEntries = await this.journalService.getAllJournalEntries(
+        req.ledgerId!,
+        limitNum,
+        offsetNum,
+        status as string | undefined
+      );
       
       // Format response with converted amounts for display
       const responseEntries = journalEntries.map(entry => ({
@@ -135,8 +200,11 @@ export class JournalController {
         lines: entry.lines.map(line => ({
           id: line.id,
           account_code: line.account_code,
-          debit: line.debit_cents > 0 ? line.debit_cents / 100 : 0,
-          credit: line.credit_cents > 0 ? line.credit_cents / 100 : 0,
+          debit: Money.toAmount(line.debit_cents, asStrings),
+          credit: Money.toAmount(line.credit_cents, asStrings),
+          currency: line.currency,
+          amount: Money.toAmount(line.transaction_amount_cents, asStrings, line.currency),
+          exchange_rate: line.exchange_rate,
           line_index: line.line_index,
         })),
       }));
@@ -160,8 +228,9 @@ export class JournalController {
    * POST /journal-entries/:id/reverse
    * Create a reversal entry for an existing journal entry
    */
-  async createReversalEntry(req: RequestWithIdempotency, res: Response): Promise<void> {
+  async createReversalEntry(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
+      const asStrings = req.query.amount_format === 'string';
       const { id } = req.params;
       const { narration, date } = req.body;
       const idempotencyKey = req.idempotencyKey;
@@ -197,10 +266,12 @@ export class JournalController {
       }
       
       const reversalEntry = await this.journalService.createReversalEntry(
+        req.ledgerId!,
         id,
         narration,
         date,
-        idempotencyKey
+        req.apiKeyId,
+        req.idempotencyReservation
       );
       
       // Format response with converted amounts for display
@@ -209,8 +280,11 @@ export class JournalController {
         lines: reversalEntry.lines.map(line => ({
           id: line.id,
           account_code: line.account_code,
-          debit: line.debit_cents > 0 ? line.debit_cents / 100 : 0,
-          credit: line.credit_cents > 0 ? line.credit_cents / 100 : 0,
+          debit: Money.toAmount(line.debit_cents, asStrings),
+          credit: Money.toAmount(line.credit_cents, asStrings),
+          currency: line.currency,
+          amount: Money.toAmount(line.transaction_amount_cents, asStrings, line.currency),
+          exchange_rate: line.exchange_rate,
           line_index: line.line_index,
         })),
       };
@@ -227,6 +301,214 @@ export class JournalController {
     }
   }
 
+  /**
+   * PUT /journal-entries/:id
+   * Replace the content of a draft entry
+   */
+  async updateDraft(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const asStrings = req.query.amount_format === 'string';
+      const { id } = req.params;
+      if (!id) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'Journal entry ID is required',
+          code: 'VALIDATION_ERROR',
+        });
+        return;
+      }
+      const entryData: CreateJournalEntryRequest = req.body;
+      const journalEntry = await this.journalService.updateDraft(req.ledgerId!, id, entryData);
+      
+      res.json({
+        success: true,
+        data: this.formatEntry(journalEntry, asStrings),
+        message: 'Draft journal entry updated successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * POST /journal-entries/:id/submit
+   * Submit a draft (posts directly if no approval is required)
+   */
+  async submitJournalEntry(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handleTransition(req, res, id => this.journalService.submitJournalEntry(req.ledgerId!, id, req.apiKeyId));
+  }
+
+  /**
+   * POST /journal-entries/:id/approve
+   * Approve a submitted entry (must be a different API key than the submitter)
+   */
+  async approveJournalEntry(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handleTransition(req, res, id =>
+      this.journalService.approveJournalEntry(req.ledgerId!, id, req.apiKeyId, req.ledgerIds)
+    );
+  }
+
+  /**
+   * POST /journal-entries/:id/reject
+   * Reject a submitted entry with a reason
+   */
+  async rejectJournalEntry(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handleTransition(req, res, id =>
+      this.journalService.rejectJournalEntry(req.ledgerId!, id, req.body, req.apiKeyId, req.ledgerIds)
+    );
+  }
+
+  /**
+   * POST /journal-entries/:id/post
+   * Post an approved entry
+   */
+  async postJournalEntry(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.handleTransition(req, res, id =>
+      this.journalService.postJournalEntry(req.ledgerId!, id, req.ledgerIds)
+    );
+  }
+
+  /**
+   * POST /intercompany-entries
+   * Create mirrored entries in this ledger and a counterparty ledger
+   */
+  async createIntercompanyEntry(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const asStrings = req.query.amount_format === 'string';
+      const entryData: CreateIntercompanyEntryRequest = req.body;
+
+      const result = await this.journalService.createIntercompanyEntry(
+        req.ledgerId!,
+        entryData,
+        req.ledgerIds,
+        req.apiKeyId,
+        req.idempotencyReservation
+      );
+
+      res.status(201).json({
+        success: true,
+        data: {
+          intercompany: {
+            ...result.intercompany,
+            amount: Money.toAmount(result.intercompany.amount_cents, asStrings),
+          },
+          entry: this.formatEntry(result.entry, asStrings),
+          counterparty_entry: this.formatEntry(result.counterparty_entry, asStrings),
+        },
+        message: 'Intercompany entry created successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /intercompany-entries
+   * List intercompany transactions in which this ledger is either side
+   */
+  async getIntercompanyEntries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const asStrings = req.query.amount_format === 'string';
+      const transactions = await this.journalService.getIntercompanyTransactions(req.ledgerId!);
+
+      res.json({
+        success: true,
+        data: transactions.map(transaction => ({
+          ...transaction,
+          amount: Money.toAmount(transaction.amount_cents, asStrings),
+        })),
+        count: transactions.length,
+        message: 'Intercompany entries retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /feed
+   * Posted entries after a cursor, in commit order (long-polls with wait)
+   */
+  async getFeed(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const asStrings = req.query.amount_format === 'string';
+      let closed = false;
+      res.on('close', () => {
+        closed = true;
+      });
+
+      const { entries, query } = await this.journalService.getFeed(req.ledgerId!, req.query, () => closed);
+      const lastEntry = entries[entries.length - 1];
+
+      res.json({
+        success: true,
+        data: entries.map(entry => this.formatEntry(entry, asStrings)),
+        count: entries.length,
+        cursor: {
+          after: query.after,
+          // Pass as after to get the next page; unchanged when nothing new was posted
+          next: lastEntry?.sequence ?? query.after,
+          has_more: entries.length === query.limit,
+        },
+        message: 'Feed retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Shared handling for workflow status transitions
+   */
+  private async handleTransition(
+    req: AuthenticatedRequest,
+    res: Response,
+    transition: (id: string) => Promise<JournalEntry>
+  ): Promise<void> {
+    try {
+      const asStrings = req.query.amount_format === 'string';
+      const { id } = req.params;
+      if (!id) {
+        res.status(400).json({
+          success: false,
+          error: 'Validation Error',
+          message: 'Journal entry ID is required',
+          code: 'VALIDATION_ERROR',
+        });
+        return;
+      }
+      const journalEntry = await transition(id);
+      
+      res.json({
+        success: true,
+        data: this.formatEntry(journalEntry, asStrings),
+        message: `Journal entry is now ${journalEntry.status}`,
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Format an entry with converted amounts for display
+   */
+  private formatEntry(journalEntry: JournalEntry, asStrings: boolean): Omit<JournalEntry, 'lines'> & { lines: object[] } {
+    return {
+      ...journalEntry,
+      lines: journalEntry.lines.map(line => ({
+        id: line.id,
+        account_code: line.account_code,
+        debit: Money.toAmount(line.debit_cents, asStrings),
+        credit: Money.toAmount(line.credit_cents, asStrings),
+        currency: line.currency,
+        amount: Money.toAmount(line.transaction_amount_cents, asStrings, line.currency),
+        exchange_rate: line.exchange_rate,
+        line_index: line.line_index,
+      })),
+    };
+  }
+
   /**
    * Error handling for all journal controller methods
    */
@@ -239,6 +521,14 @@ export class JournalController {
         error: 'Validation Error',
         message: error.message,
         code: 'VALIDATION_ERROR',
+        ...(error instanceof BatchValidationError && { errors: error.errors }),
+      });
+    } else if (error instanceof ForbiddenError) {
+      res.status(403).json({
+        success: false,
+        error: 'Forbidden',
+        message: error.message,
+        code: 'FORBIDDEN',
       });
     } else if (error instanceof ConflictError) {
       res.status(409).json({
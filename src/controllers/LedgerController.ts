@@ -0,0 +1,119 @@
+import { Response } from 'express';
+import { LedgerService } from '../services/LedgerService.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import {
+  CreateLedgerRequest,
+  ValidationError,
+  ConflictError,
+  NotFoundError,
+  ForbiddenError
+} from '../models/types.js';
+
+export class LedgerController {
+  private ledgerService: LedgerService;
+
+  constructor() {
+    this.ledgerService = new LedgerService();
+  }
+
+  /**
+   * POST /ledgers
+   * Create a new ledger (set of books) bound to the calling API key
+   */
+  async createLedger(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const ledgerData: CreateLedgerRequest = req.body;
+      const ledger = await this.ledgerService.createLedger(ledgerData, req.apiKeyId);
+      
+      res.status(201).json({
+        success: true,
+        data: ledger,
+        message: 'Ledger created successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /ledgers
+   * List the ledgers the calling API key is bound to
+   */
+  async getLedgers(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const ledgers = await this.ledgerService.getLedgers(req.ledgerIds);
+      
+      res.json({
+        success: true,
+        data: ledgers.map(ledger => ({ ...ledger, is_active: ledger.id === req.ledgerId })),
+        count: ledgers.length,
+        message: 'Ledgers retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /ledgers/:id
+   * Get a specific ledger
+   */
+  async getLedger(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const ledger = await this.ledgerService.getLedger(id as string, req.ledgerIds);
+      
+      res.json({
+        success: true,
+        data: ledger,
+        message: 'Ledger retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Error handling for all ledger controller methods
+   */
+  private handleError(error: unknown, res: Response): void {
+    console.error('LedgerController error:', error);
+
+    if (error instanceof ValidationError) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation Error',
+        message: error.message,
+        code: 'VALIDATION_ERROR',
+      });
+    } else if (error instanceof ForbiddenError) {
+      res.status(403).json({
+        success: false,
+        error: 'Forbidden',
+        message: error.message,
+        code: 'FORBIDDEN',
+      });
+    } else if (error instanceof ConflictError) {
+      res.status(409).json({
+        success: false,
+        error: 'Conflict Error',
+        message: error.message,
+        code: 'CONFLICT_ERROR',
+      });
+    } else if (error instanceof NotFoundError) {
+      res.status(404).json({
+        success: false,
+        error: 'Not Found',
+        message: error.message,
+        code: 'NOT_FOUND',
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: 'An unexpected error occurred while processing your request',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  }
+}
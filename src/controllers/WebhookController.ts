@@ -0,0 +1,169 @@
+import { Response } from 'express';
+import { WebhookService } from '../services/WebhookService.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import {
+  CreateWebhookEndpointRequest,
+  ValidationError,
+  ConflictError,
+  NotFoundError
+} from '../models/types.js';
+
+export class WebhookController {
+  private webhookService: WebhookService;
+
+  constructor() {
+    this.webhookService = new WebhookService();
+  }
+
+  /**
+   * POST /webhooks
+   * Register a webhook endpoint; the signing secret is only returned in this response
+   */
+  async createEndpoint(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const endpointData: CreateWebhookEndpointRequest = req.body;
+      const endpoint = await this.webhookService.createEndpoint(req.ledgerId!, endpointData, req.apiKeyId);
+
+      res.status(201).json({
+        success: true,
+        data: endpoint,
+        message: 'Webhook created successfully. Store the secret now; it can not be retrieved again',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /webhooks
+   * List the ledger's webhook endpoints
+   */
+  async getEndpoints(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const endpoints = await this.webhookService.getEndpoints(req.ledgerId!);
+
+      res.json({
+        success: true,
+        data: endpoints,
+        count: endpoints.length,
+        message: 'Webhooks retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /webhooks/:id
+   * Get a webhook endpoint
+   */
+  async getEndpoint(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const endpoint = await this.webhookService.getEndpoint(req.ledgerId!, id as string);
+
+      res.json({
+        success: true,
+        data: endpoint,
+        message: 'Webhook retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * DELETE /webhooks/:id
+   * Deactivate a webhook endpoint
+   */
+  async deactivateEndpoint(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const endpoint = await this.webhookService.deactivateEndpoint(req.ledgerId!, id as string);
+
+      res.json({
+        success: true,
+        data: endpoint,
+        message: 'Webhook deactivated successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /webhooks/:id/deliveries
+   * List deliveries to an endpoint, newest first (optionally by status)
+   */
+  async getDeliveries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const deliveries = await this.webhookService.getDeliveries(req.ledgerId!, id as string, req.query);
+
+      res.json({
+        success: true,
+        data: deliveries,
+        count: deliveries.length,
+        message: 'Webhook deliveries retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * POST /webhook-deliveries/:id/redeliver
+   * Queue a delivery to be sent again
+   */
+  async redeliver(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const delivery = await this.webhookService.redeliver(req.ledgerId!, id as string);
+
+      res.json({
+        success: true,
+        data: delivery,
+        message: 'Webhook delivery queued for redelivery',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Error handling for all webhook controller methods
+   */
+  private handleError(error: unknown, res: Response): void {
+    console.error('WebhookController error:', error);
+
+    if (error instanceof ValidationError) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation Error',
+        message: error.message,
+        code: 'VALIDATION_ERROR',
+      });
+    } else if (error instanceof ConflictError) {
+      res.status(409).json({
+        success: false,
+        error: 'Conflict Error',
+        message: error.message,
+        code: 'CONFLICT_ERROR',
+      });
+    } else if (error instanceof NotFoundError) {
+      res.status(404).json({
+        success: false,
+        error: 'Not Found',
+        message: error.message,
+        code: 'NOT_FOUND',
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: 'An unexpected error occurred while processing your request',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import { Response } from 'express';
+import { YearEndService } from '../services/YearEndService.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { Money } from '../utils/money.js';
+import {
+  JournalEntry,
+  ValidationError,
+  ConflictError,
+  NotFoundError
+} from '../models/types.js';
+
+export class YearEndController {
+  private yearEndService: YearEndService;
+
+  constructor() {
+    this.yearEndService = new YearEndService();
+  }
+
+  /**
+   * POST /periods/:year/close
+   * Close a fiscal year into retained earnings (idempotent)
+   */
+  async closeYear(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const asStrings = req.query.amount_format === 'string';
+      const { year } = req.params;
+      const { closing, entry, created } = await this.yearEndService.closeYear(
+        req.ledgerId!,
+        year as string,
+        req.apiKeyId
+      );
+
+      res.status(created ? 201 : 200).json({
+        success: true,
+        data: {
+          ...closing,
+          entry: entry ? this.formatEntry(entry, asStrings) : null,
+        },
+        message: created
+          ? `Fiscal year ${closing.fiscal_year} closed successfully`
+          : `Fiscal year ${closing.fiscal_year} was already closed`,
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * POST /periods/:year/reopen
+   * Reverse the closing entry of a fiscal year
+   */
+  async reopenYear(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const asStrings = req.query.amount_format === 'string';
+      const { year } = req.params;
+      const { closing, reversalEntry } = await this.yearEndService.reopenYear(
+        req.ledgerId!,
+        year as string,
+        req.apiKeyId
+      );
+
+      res.json({
+        success: true,
+        data: {
+          ...closing,
+          reversal_entry: reversalEntry ? this.formatEntry(reversalEntry, asStrings) : null,
+        },
+        message: `Fiscal year ${closing.fiscal_year} closing reversed successfully`,
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * GET /periods/:year/close
+   * Get the closing status and history of a fiscal year
+   */
+  async getYearStatus(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { year } = req.params;
+      const status = await this.yearEndService.getYearStatus(req.ledgerId!, year as string);
+
+      res.json({
+        success: true,
+        data: status,
+        message: 'Fiscal year closing status retrieved successfully',
+      });
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Format an entry with converted amounts for display
+   */
+  private formatEntry(journalEntry: JournalEntry, asStrings: boolean): Omit<JournalEntry, 'lines'> & { lines: object[] } {
+    return {
+      ...journalEntry,
+      lines: journalEntry.lines.map(line => ({
+        id: line.id,
+        account_code: line.account_code,
+        debit: Money.toAmount(line.debit_cents, asStrings),
+        credit: Money.toAmount(line.credit_cents, asStrings),
+        currency: line.currency,
+        amount: Money.toAmount(line.transaction_amount_cents, asStrings, line.currency),
+        exchange_rate: line.exchange_rate,
+        line_index: line.line_index,
+      })),
+    };
+  }
+
+  /**
+   * Error handling for all year-end controller methods
+   */
+  private handleError(error: unknown, res: Response): void {
+    console.error('YearEndController error:', error);
+
+    if (error instanceof ValidationError) {
+      res.status(400).json({
+        success: false,
+        error: 'Validation Error',
+        message: error.message,
+        code: 'VALIDATION_ERROR',
+      });
+    } else if (error instanceof ConflictError) {
+      res.status(409).json({
+        success: false,
+        error: 'Conflict Error',
+        message: error.message,
+        code: 'CONFLICT_ERROR',
+      });
+    } else if (error instanceof NotFoundError) {
+      res.status(404).json({
+        success: false,
+        error: 'Not Found',
+        message: error.message,
+        code: 'NOT_FOUND',
+      });
+    } else {
+      res.status(500).json({
+        success: false,
+        error: 'Internal Server Error',
+        message: 'An unexpected error occurred while processing your request',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  }
+}
@@ -4,6 +4,9 @@ import helmet from 'helmet';
 import { ENV, validateEnv } from './config/env.js';
 import { Database } from './config/database.js';
 import { AuthMiddleware } from './middleware/auth.js';
+import { AuditMiddleware } from './middleware/audit.js';
+import { ApiKeyService } from './services/ApiKeyService.js';
+import { WebhookDispatcher } from './services/WebhookDispatcher.js';
 import apiRoutes from './routes/index.js';
 
 // Validate environment variables on startup
@@ -15,6 +18,10 @@ const app = express();
 app.use(helmet());
 app.use(cors());
 
+// Request ids and the audit log of mutating requests (before anything that can reject a request)
+app.use(AuditMiddleware.assignRequestId);
+app.use(AuditMiddleware.recordMutations);
+
 // Rate limiting (applied globally)
 app.use(AuthMiddleware.rateLimit);
 
@@ -61,33 +68,118 @@ app.get('/', (req, res) => {
     version: '1.0.0',
     description: 'A minimal double-entry ledger backend that records financial events as journal entries',
     documentation: {
-      authentication: 'Required for all API endpoints. Use X-API-Key header.',
-      idempotency: 'Supported for POST operations. Use Idempotency-Key header.',
+      authentication: 'Required for all API endpoints. Use X-API-Key header; routes check the key\'s scopes.',
+      ledgers: 'Data is scoped to a ledger bound to the API key. Use X-Ledger-Id header when the key has several.',
+      idempotency: 'Supported for all mutating requests. Use Idempotency-Key header; a retry replays the original response.',
       currency: ENV.DEFAULT_CURRENCY,
       precision: 'All amounts stored as integer minor units (cents/paise)',
     },
     endpoints: {
+      api_keys: [
+        'POST /api-keys - Create API key (admin; the key is shown once)',
+        'GET /api-keys - List API keys (admin; metadata and last_used_at)',
+        'GET /api-keys/:id - Get API key metadata (admin)',
+        'POST /api-keys/:id/revoke - Revoke API key (admin)',
+        'POST /api-keys/:id/rotate - Rotate API key with a grace period (admin)',
+      ],
+      audit: [
+        'GET /audit-events - Audit log of mutating requests (admin; filter by api_key_id, action, resource, outcome, from/to)',
+      ],
+      ledgers: [
+        'POST /ledgers - Create ledger (admin; bound to the calling API key)',
+        'GET /ledgers - List ledgers of the API key',
+        'GET /ledgers/:id - Get ledger',
+      ],
       accounts: [
         'POST /accounts - Create account',
         'GET /accounts - List accounts (filter by type)',
+        'GET /accounts/tree - Chart of accounts hierarchy',
+        'POST /accounts/import - Bulk import accounts from CSV or JSON (dry_run)',
+        'GET /accounts/export - Export chart of accounts (format=json|csv)',
         'GET /accounts/:code - Get account details',
         'GET /accounts/:code/info - Get account info with metadata',
+        'PATCH /accounts/:code - Rename account or change parent',
+        'POST /accounts/:code/deactivate - Deactivate account (blocks postings)',
+        'POST /accounts/:code/reactivate - Reactivate account',
+        'DELETE /accounts/:code - Delete account without postings',
       ],
       journal_entries: [
         'POST /journal-entries - Create journal entry (idempotent)',
+        'POST /journal-entries/batch - Create many journal entries atomically (idempotent)',
         'GET /journal-entries/:id - Get journal entry',
-        'GET /journal-entries - List journal entries (paginated)',
+        'GET /journal-entries - List journal entries (paginated, filter by status)',
         'POST /journal-entries/:id/reverse - Create reversal entry',
+        'PUT /journal-entries/:id - Edit draft entry',
+        'POST /journal-entries/:id/submit - Submit draft for approval',
+        'POST /journal-entries/:id/approve - Approve submitted entry (different API key)',
+        'POST /journal-entries/:id/reject - Reject submitted entry',
+        'POST /journal-entries/:id/post - Post approved entry',
+      ],
+      intercompany: [
+        'POST /intercompany-entries - Post mirrored entries in this and a counterparty ledger',
+        'GET /intercompany-entries - List intercompany transactions of this ledger',
+        'GET /feed - Posted entries in commit order after a cursor (after, limit, wait to long-poll)',
       ],
       balances: [
         'GET /accounts/:code/balance - Get account balance (with as_of)',
         'GET /accounts/:code/activity - Check account activity',
+        'GET /accounts/:code/ledger - General ledger with running balances (from/to, limit/offset)',
+      ],
+      fiscal_periods: [
+        'POST /fiscal-periods - Create fiscal period',
+        'GET /fiscal-periods - List fiscal periods (filter by status)',
+        'GET /fiscal-periods/:id - Get fiscal period',
+        'GET /fiscal-periods/:id/events - Close/reopen history',
+        'POST /fiscal-periods/:id/soft-close - Soft-close period (adjusting entries only)',
+        'POST /fiscal-periods/:id/close - Close period (no postings)',
+        'POST /fiscal-periods/:id/reopen - Reopen period',
+        'POST /periods/:year/close - Close fiscal year into retained earnings',
+        'POST /periods/:year/reopen - Reverse year-end closing',
+        'GET /periods/:year/close - Year-end closing status and history',
+      ],
+      fx_rates: [
+        'POST /fx-rates - Record exchange rate',
+        'GET /fx-rates - List exchange rates (filter by currency pair and dates)',
+        'GET /fx-rates/lookup - Rate in effect for a currency pair on a date',
+        'GET /fx-rates/:id - Get exchange rate',
+        'PATCH /fx-rates/:id - Correct exchange rate',
+        'DELETE /fx-rates/:id - Delete exchange rate',
+        'POST /fx/revaluation - Revalue foreign-currency balances at closing rates (as_of, dry_run)',
+        'GET /fx/revaluations - List FX revaluations and their reversals',
+        'POST /fx/revaluation/reversals - Post revaluation reversals that are due',
+      ],
+      webhooks: [
+        'POST /webhooks - Register webhook endpoint (admin; url, event_types; the secret is shown once)',
+        'GET /webhooks - List webhook endpoints (admin)',
+        'GET /webhooks/:id - Get webhook endpoint (admin)',
+        'DELETE /webhooks/:id - Deactivate webhook endpoint (admin)',
+        'GET /webhooks/:id/deliveries - List deliveries (admin; filter by status)',
+        'POST /webhook-deliveries/:id/redeliver - Send a delivery again (admin)',
+      ],
+      bank_statements: [
+        'POST /bank-statements - Import a CSV, OFX or CAMT.053 statement of a bank account (account_code, format, mapping)',
+        'GET /bank-statements - List imported statements (filter by account_code)',
+        'GET /bank-statements/:id - Get statement with its lines and balance check',
+        'DELETE /bank-statements/:id - Delete statement and the lines it imported',
+      ],
+      bank_reconciliation: [
+        'POST /bank-reconciliation/auto-match - Match statement lines to journal lines (account_code, date_window_days, dry_run)',
+        'GET /bank-reconciliation/unmatched - Unmatched statement lines and journal lines (account_code, statement_id)',
+        'POST /bank-reconciliation/matches - Match lines by hand (statement_line_ids, journal_line_ids)',
+        'GET /bank-reconciliation/matches/:id - Get match with its lines',
+        'DELETE /bank-reconciliation/matches/:id - Undo a match',
+        'POST /bank-statement-lines/:id/journal-entry - Book an unmatched statement line (e.g. bank fee) and match it',
+        'GET /bank-statements/:id/reconciliation - Reconciliation report at the statement end (format=json|csv)',
       ],
       reports: [
-        'GET /reports/trial-balance - Trial balance report (from/to dates)',
+        'GET /reports/trial-balance - Trial balance report (from/to dates, rollup)',
         'GET /reports/balance-summary - Balance summary by account type',
+        'GET /reports/income-statement - Income statement (from/to, optional compare_from/compare_to)',
+        'GET /reports/balance-sheet - Balance sheet with current earnings (as_of)',
         'GET /reports/accounting-equation - Validate accounting equation',
-        'GET /balances/all - All account balances',
+        'GET /reports/consolidated/trial-balance - Consolidated trial balance with eliminations (ledger_ids)',
+        'GET /reports/consolidated/balance-sheet - Consolidated balance sheet with eliminations (ledger_ids)',
+        'GET /balances/all - All account balances (rollup for parent subtotals)',
       ],
     },
     health: '/health',
@@ -123,9 +215,13 @@ app.use((req, res) => {
   });
 });
 
+// Delivers outbox events to webhook endpoints
+const webhookDispatcher = new WebhookDispatcher();
+
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   console.log('SIGTERM received, shutting down gracefully');
+  webhookDispatcher.stop();
   const db = Database.getInstance();
   await db.close();
   process.exit(0);
@@ -133,16 +229,27 @@ process.on('SIGTERM', async () => {
 
 process.on('SIGINT', async () => {
   console.log('SIGINT received, shutting down gracefully');
+  webhookDispatcher.stop();
   const db = Database.getInstance();
   await db.close();
   process.exit(0);
 });
 
+// Create the initial admin keys from API_KEYS on a fresh database
+new ApiKeyService().seedInitialKeys()
+  .then(count => {
+    if (count > 0) {
+      console.log(`🔑 Created ${count} initial admin API key(s) from API_KEYS`);
+    }
+  })
+  .catch(error => console.error('Failed to create initial API keys:', error));
+
 // Start server
 const server = app.listen(ENV.PORT, () => {
   console.log(`🚀 Server running on port ${ENV.PORT}`);
   console.log(`📊 Environment: ${ENV.NODE_ENV}`);
   console.log(`💰 Default currency: ${ENV.DEFAULT_CURRENCY}`);
+  webhookDispatcher.start();
 });
 
 export default app;
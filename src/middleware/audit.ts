@@ -0,0 +1,78 @@
+import { Response, NextFunction } from 'express';
+import { createHash, randomUUID } from 'crypto';
+import { AuthenticatedRequest } from './auth.js';
+import { AuditService } from '../services/AuditService.js';
+
+const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+const MAX_REQUEST_ID_LENGTH = 100;
+
+// Parts of a JSON response that identify the resource or the error
+interface AuditedResponseBody {
+  code?: string;
+  data?: { id?: string; entry?: { id?: string } };
+}
+
+export class AuditMiddleware {
+  private static auditService = new AuditService();
+
+  /**
+   * Middleware to assign a request id (or accept the client's X-Request-Id)
+   */
+  static assignRequestId(req: AuthenticatedRequest, res: Response, next: NextFunction): void {
+    const header = req.headers['x-request-id'];
+    req.requestId = typeof header === 'string' && header.trim().length > 0 && header.length <= MAX_REQUEST_ID_LENGTH
+      ? header.trim()
+      : randomUUID();
+
+    res.setHeader('X-Request-Id', req.requestId);
+    next();
+  }
+
+  /**
+   * Middleware to record an audit event for every mutating request once its response is sent,
+   * whatever the outcome (including authentication and validation failures)
+   */
+  static recordMutations(req: AuthenticatedRequest, res: Response, next: NextFunction): void {
+    if (!MUTATING_METHODS.has(req.method)) {
+      next();
+      return;
+    }
+
+    // Keep the response body to find the id of created resources and error codes
+    let responseBody: AuditedResponseBody | undefined;
+    const originalJson = res.json.bind(res);
+    res.json = (body: unknown): Response => {
+      responseBody = body as AuditedResponseBody;
+      return originalJson(body);
+    };
+
+    res.on('finish', () => {
+      // Route pattern (e.g. /journal-entries/:id/reverse) when a route matched, else the path
+      const route: string = req.route?.path ?? req.path;
+      const params = req.params ?? {};
+      const data = responseBody?.data;
+
+      AuditMiddleware.auditService.recordEvent({
+        api_key_id: req.apiKeyId ?? null,
+        ledger_id: req.ledgerId ?? null,
+        action: `${req.method} ${route}`,
+        resource_type: route.split('/')[1] || 'unknown',
+        resource_id: params.id ?? params.code ?? params.year ?? data?.id ?? data?.entry?.id ?? null,
+        request_id: req.requestId ?? randomUUID(),
+        ip: req.ip || req.socket.remoteAddress || null,
+        payload_hash: AuditMiddleware.hashPayload(req.body),
+        outcome: res.statusCode < 400 ? 'success' : 'failure',
+        status_code: res.statusCode,
+        error_code: res.statusCode >= 400 ? responseBody?.code ?? null : null,
+      }).catch(error => console.error('Failed to record audit event:', error));
+    });
+
+    next();
+  }
+
+  private static hashPayload(body: unknown): string {
+    const payload = typeof body === 'string' ? body : JSON.stringify(body ?? {});
+    return createHash('sha256').update(payload).digest('hex');
+  }
+}
@@ -1,13 +1,28 @@
 import { Request, Response, NextFunction } from 'express';
 import { Database } from '../config/database.js';
-import { UnauthorizedError } from '../models/types.js';
+import { ApiKeyService } from '../services/ApiKeyService.js';
+import { ApiKeyScope, IdempotencyReservation, UnauthorizedError, ForbiddenError } from '../models/types.js';
 
 export interface AuthenticatedRequest extends Request {
   apiKey?: string;
+  apiKeyId?: string;
+  scopes?: ApiKeyScope[];
+  // Set by AuditMiddleware.assignRequestId
+  requestId?: string;
+  // Ledger the request operates on, and every ledger the API key is bound to
+  ledgerId?: string;
+  ledgerIds?: string[];
+  // Set by AuthMiddleware.extractIdempotencyKey
+  idempotencyKey?: string;
+  // Held while the request runs; set by IdempotencyMiddleware.replayOrRecord
+  idempotencyReservation?: IdempotencyReservation;
+  // Set by the ledger and scope guards when they reject the request before it runs
+  rejectedByGuard?: boolean;
 }
 
 export class AuthMiddleware {
   private static db = Database.getInstance();
+  private static apiKeyService = new ApiKeyService();
 
   /**
    * Middleware to validate API key authentication
@@ -30,24 +45,34 @@ export class AuthMiddleware {
         throw new UnauthorizedError('Invalid API key format.');
       }
 
-      // Check if API key exists and is active
-      const result = await AuthMiddleware.db.query(
-        'SELECT key, name, is_active FROM api_keys WHERE key = $1 AND is_active = true',
-        [apiKey]
-      ) as { key: string; name: string; is_active: boolean }[];
+      // Check the key against the stored hashes (also records last use)
+      const key = await AuthMiddleware.apiKeyService.authenticate(apiKey);
 
-      if (result.length === 0) {
-        throw new UnauthorizedError('Invalid or inactive API key.');
+      if (!key) {
+        throw new UnauthorizedError('Invalid, revoked or expired API key.');
       }
 
-      // Update last used timestamp
-      await AuthMiddleware.db.query(
-        'UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP WHERE key = $1',
-        [apiKey]
-      );
-
       // Attach API key to request for potential logging/auditing
       req.apiKey = apiKey;
+      req.apiKeyId = key.id;
+      req.scopes = key.scopes;
+
+      // Resolve the active ledger; keys bound to a single ledger use it by default
+      const ledgers = await AuthMiddleware.db.query(
+        'SELECT ledger_id FROM api_key_ledgers WHERE api_key_id = $1 ORDER BY created_at',
+        [req.apiKeyId]
+      ) as { ledger_id: string }[];
+      req.ledgerIds = ledgers.map(row => row.ledger_id);
+
+      const ledgerHeader = req.headers['x-ledger-id'];
+      if (typeof ledgerHeader === 'string' && ledgerHeader.trim().length > 0) {
+        if (!req.ledgerIds.includes(ledgerHeader.trim())) {
+          throw new ForbiddenError(`API key does not have access to ledger '${ledgerHeader.trim()}'.`);
+        }
+        req.ledgerId = ledgerHeader.trim();
+      } else if (req.ledgerIds.length === 1) {
+        req.ledgerId = req.ledgerIds[0];
+      }
       
       next();
     } catch (error) {
@@ -57,6 +82,12 @@ export class AuthMiddleware {
           message: error.message,
           code: 'UNAUTHORIZED',
         });
+      } else if (error instanceof ForbiddenError) {
+        res.status(403).json({
+          error: 'Forbidden',
+          message: error.message,
+          code: 'FORBIDDEN',
+        });
       } else {
         console.error('Auth middleware error:', error);
         res.status(500).json({
@@ -68,11 +99,58 @@ export class AuthMiddleware {
     }
   }
 
+  /**
+   * Middleware to require a resolved ledger for ledger-scoped routes
+   * Keys bound to several ledgers must name one with the X-Ledger-Id header
+   */
+  static requireLedger(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): void {
+    if (!req.ledgerId) {
+      req.rejectedByGuard = true;
+      res.status(400).json({
+        error: 'Bad Request',
+        message: req.ledgerIds && req.ledgerIds.length > 0
+          ? 'API key is bound to several ledgers. Please provide X-Ledger-Id header.'
+          : 'API key is not bound to any ledger.',
+        code: 'LEDGER_REQUIRED',
+      });
+      return;
+    }
+
+    next();
+  }
+
+  /**
+   * Middleware factory to restrict a route to API keys with a scope
+   * Admin keys have every scope
+   */
+  static requireScope(scope: ApiKeyScope): (req: AuthenticatedRequest, res: Response, next: NextFunction) => void {
+    return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+      const scopes = req.scopes ?? [];
+
+      if (!scopes.includes(scope) && !scopes.includes('admin')) {
+        req.rejectedByGuard = true;
+        res.status(403).json({
+          error: 'Forbidden',
+          message: `API key is missing the '${scope}' scope.`,
+          code: 'INSUFFICIENT_SCOPE',
+          missing_scope: scope,
+        });
+        return;
+      }
+
+      next();
+    };
+  }
+
   /**
    * Middleware to extract and validate idempotency key
    */
   static extractIdempotencyKey(
-    req: Request, 
+    req: AuthenticatedRequest, 
     res: Response, 
     next: NextFunction
   ): void {
@@ -99,7 +177,7 @@ export class AuthMiddleware {
       }
 
       // Store in request for use by controllers
-      (req as any).idempotencyKey = idempotencyKey;
+      req.idempotencyKey = idempotencyKey;
     }
     
     next();
@@ -0,0 +1,184 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth.js';
+import { IdempotencyService, IdempotentRequest, ReservationResult } from '../services/IdempotencyService.js';
+import { ConflictError } from '../models/types.js';
+
+const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+// Endpoints whose response carries a credential that is shown only once, and the field of
+// `data` holding it. Their responses are stored without it, so the stored copy is no way to
+// recover a live credential, and a retry is told the request completed instead of a replay
+const SECRET_RESPONSE_FIELDS: { endpoint: RegExp; field: string }[] = [
+  { endpoint: /^POST \/api-keys$/, field: 'key' },
+  { endpoint: /^POST \/api-keys\/[^/]+\/rotate$/, field: 'key' },
+  { endpoint: /^POST \/webhooks$/, field: 'secret' },
+];
+
+const REDACTED = '[REDACTED]';
+
+export class IdempotencyMiddleware {
+  private static idempotencyService = new IdempotencyService();
+
+  /**
+   * Middleware to make mutating requests with an Idempotency-Key safe to retry
+   * The key is reserved before the request runs; a concurrent duplicate gets 409 with
+   * Retry-After. The first response (unless it is a server error or a rejection by the
+   * ledger and scope guards, which run after this) is stored per API key and key, and a
+   * retry of the same request gets it back byte-for-byte. Credentials returned by API key
+   * and webhook creation are never stored; see SECRET_RESPONSE_FIELDS
+   */
+  static async replayOrRecord(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    if (!req.idempotencyKey || !req.apiKeyId || !MUTATING_METHODS.has(req.method)) {
+      next();
+      return;
+    }
+
+    const request: IdempotentRequest = {
+      apiKeyId: req.apiKeyId,
+      key: req.idempotencyKey,
+      ledgerId: req.ledgerId ?? null,
+      endpoint: `${req.method} ${req.path}`,
+      query: req.query,
+      body: req.body,
+    };
+
+    let result: ReservationResult;
+    try {
+      result = await IdempotencyMiddleware.idempotencyService.reserve(request);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        res.status(409).json({
+          success: false,
+          error: 'Conflict Error',
+          message: error.message,
+          code: 'IDEMPOTENCY_KEY_REUSED',
+        });
+      } else {
+        console.error('Idempotency middleware error:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Internal Server Error',
+          message: 'Idempotency check failed',
+          code: 'INTERNAL_ERROR',
+        });
+      }
+      return;
+    }
+
+    if (result.outcome === 'completed') {
+      const { record } = result;
+      const secretField = IdempotencyMiddleware.secretFieldOf(record.endpoint);
+      if (secretField && record.status_code! < 400) {
+        res.status(410).json({
+          success: false,
+          error: 'Gone',
+          message: `The request with Idempotency-Key '${request.key}' already completed. ` +
+            `Its ${secretField} is shown only once and was not stored`,
+          code: 'IDEMPOTENT_RESPONSE_NOT_STORED',
+          data: IdempotencyMiddleware.parseData(record.response_body!),
+        });
+        return;
+      }
+
+      res.status(record.status_code!);
+      if (record.content_type) {
+        res.setHeader('Content-Type', record.content_type);
+      }
+      res.setHeader('Idempotent-Replayed', 'true');
+      res.send(record.response_body);
+      return;
+    }
+
+    if (result.outcome === 'in_progress') {
+      res.setHeader('Retry-After', String(result.retryAfterSeconds));
+      res.status(409).json({
+        success: false,
+        error: 'Conflict Error',
+        message: `A request with Idempotency-Key '${request.key}' is still in progress`,
+        code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS',
+      });
+      return;
+    }
+
+    const { reservation } = result;
+    req.idempotencyReservation = reservation;
+
+    // res.json serializes through res.send, so this sees the exact body that is sent
+    let responseBody: string | undefined;
+    const originalSend = res.send.bind(res);
+    res.send = (body?: unknown): Response => {
+      if (typeof body === 'string') {
+        responseBody = body;
+      } else if (Buffer.isBuffer(body)) {
+        responseBody = body.toString('utf8');
+      }
+      return originalSend(body);
+    };
+
+    // 'close' also fires when the connection drops before the response is sent
+    let settled = false;
+    const settle = (): void => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+
+      const service = IdempotencyMiddleware.idempotencyService;
+      // Server errors, unsent responses and requests the ledger or scope guards rejected before
+      // they ran release the key, so that the request can be retried (e.g. with the missing scope)
+      if (!res.writableFinished || responseBody === undefined || res.statusCode >= 500 || req.rejectedByGuard) {
+        service.releaseReservation(reservation)
+          .catch(error => console.error('Failed to release idempotency key:', error));
+        return;
+      }
+
+      const contentType = res.getHeader('Content-Type');
+      service.recordResponse(reservation, {
+        statusCode: res.statusCode,
+        contentType: typeof contentType === 'string' ? contentType : null,
+        body: IdempotencyMiddleware.redact(request.endpoint, responseBody),
+      }).catch(error => console.error('Failed to record idempotent response:', error));
+    };
+    res.on('finish', settle);
+    res.on('close', settle);
+
+    next();
+  }
+
+  private static secretFieldOf(endpoint: string): string | null {
+    return SECRET_RESPONSE_FIELDS.find(secret => secret.endpoint.test(endpoint))?.field ?? null;
+  }
+
+  /**
+   * Response body to store: the body itself, or for endpoints returning a credential the
+   * body with the credential replaced (a body that can not be read is not stored at all)
+   */
+  private static redact(endpoint: string, body: string): string {
+    const field = IdempotencyMiddleware.secretFieldOf(endpoint);
+    if (!field) {
+      return body;
+    }
+
+    try {
+      const parsed = JSON.parse(body) as { data?: Record<string, unknown> };
+      if (parsed.data && field in parsed.data) {
+        parsed.data[field] = REDACTED;
+      }
+      return JSON.stringify(parsed);
+    } catch {
+      return JSON.stringify({ redacted: true });
+    }
+  }
+
+  private static parseData(body: string): unknown {
+    try {
+      return (JSON.parse(body) as { data?: unknown }).data ?? null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -2,26 +2,91 @@
 
 export type AccountType = 'Asset' | 'Liability' | 'Equity' | 'Revenue' | 'Expense';
 
+// A separate set of books (e.g. one legal entity); all ledger data is scoped to one
+export interface Ledger {
+  id: string;
+  code: string;
+  name: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateLedgerRequest {
+  code: string;
+  name: string;
+}
+
 export interface Account {
   id: string;
+  ledger_id: string;
   code: string;
   name: string;
   type: AccountType;
+  currency: string;
+  parent_id: string | null;
+  is_active: boolean;
+  deactivated_at: Date | null;
   created_at: Date;
+  updated_at: Date;
 }
 
 export interface CreateAccountRequest {
   code: string;
   name: string;
   type: AccountType;
+  currency?: string; // defaults to the base currency
+  parent_code?: string;
+}
+
+// An account row of a chart-of-accounts import or export
+export interface AccountImportRow extends CreateAccountRequest {
+  is_active: boolean;
 }
 
+export interface UpdateAccountRequest {
+  name?: string;
+  parent_code?: string | null;
+}
+
+export interface AccountImportRowError {
+  row: number;
+  code?: string;
+  message: string;
+}
+
+export interface AccountImportResult {
+  dry_run: boolean;
+  total: number;
+  created: number;
+  errors: AccountImportRowError[];
+  accounts: AccountImportRow[];
+}
+
+export interface AccountTreeNode extends Account {
+  children: AccountTreeNode[];
+}
+
+export type JournalEntryStatus = 'draft' | 'submitted' | 'approved' | 'rejected' | 'posted';
+
 export interface JournalEntry {
   id: string;
+  ledger_id: string;
   date: Date;
   narration: string;
-  posted_at: Date;
+  status: JournalEntryStatus;
+  // Only set once the entry is posted; non-posted entries never affect balances
+  posted_at: Date | null;
+  // Position in the ledger's change feed, assigned in commit order when the entry is posted
+  sequence: number | null;
   reverses_entry_id?: string;
+  is_adjusting: boolean;
+  // API key that created the entry
+  created_by: string | null;
+  submitted_by: string | null;
+  submitted_at: Date | null;
+  reviewed_by: string | null;
+  reviewed_at: Date | null;
+  rejection_reason: string | null;
   lines: JournalLine[];
 }
 
@@ -30,8 +95,14 @@ export interface JournalLine {
   entry_id: string;
   account_id: string;
   account_code: string;
+  // Amounts in the base currency
   debit_cents: number;
   credit_cents: number;
+  currency: string;
+  // Amount in the line's (transaction) currency
+  transaction_amount_cents: number;
+  // Base currency units per unit of the transaction currency
+  exchange_rate: number;
   line_index: number;
 }
 
@@ -40,21 +111,74 @@ export interface CreateJournalEntryRequest {
   narration: string;
   lines: CreateJournalLineRequest[];
   reverses_entry_id?: string;
+  // Save as an editable draft instead of posting (or submitting for approval)
+  draft?: boolean;
+  // Adjusting entries may still be posted into soft-closed fiscal periods
+  adjusting?: boolean;
+}
+
+export interface CreateJournalEntryBatchRequest {
+  entries: CreateJournalEntryRequest[];
+}
+
+export interface CreateIntercompanyEntryRequest {
+  date: string;
+  narration: string;
+  counterparty_ledger_id: string;
+  // Base currency amount the counterparty ledger owes the calling ledger
+  amount: number | string;
+  // Other lines of each side (e.g. the bank transfer); each side balances against its intercompany line
+  lines: CreateJournalLineRequest[];
+  counterparty_lines: CreateJournalLineRequest[];
+}
+
+// Mirrored pair of entries: a receivable in ledger_id and the matching payable in counterparty_ledger_id
+export interface IntercompanyTransaction {
+  id: string;
+  ledger_id: string;
+  counterparty_ledger_id: string;
+  entry_id: string;
+  counterparty_entry_id: string;
+  receivable_account_id: string;
+  payable_account_id: string;
+  amount_cents: number;
+  date: Date;
+  created_by: string | null;
+  created_at: Date;
+}
+
+export interface IntercompanyEntryResult {
+  intercompany: IntercompanyTransaction;
+  entry: JournalEntry;
+  counterparty_entry: JournalEntry;
 }
 
 export interface CreateJournalLineRequest {
   account_code: string;
-  debit?: number;
-  credit?: number;
+  // Amounts in the line currency, as numbers or exact decimal strings ("12345678.90")
+  debit?: number | string;
+  credit?: number | string;
+  currency?: string; // defaults to the base currency
+  exchange_rate?: number; // looked up in fx_rates when omitted for a foreign currency
 }
 
 export interface AccountBalance {
   account_code: string;
   account_name: string;
   account_type: AccountType;
+  parent_code?: string | null;
   debits: number;
   credits: number;
   balance: number;
+  // Account currency and its net debit balance in that currency (only set for full balance listings)
+  currency?: string;
+  currency_balance?: number;
+  // Own postings plus those of every descendant (only set for roll-up reports)
+  subtotal?: {
+    debits: number;
+    credits: number;
+    balance: number;
+  };
 }
 
 export interface TrialBalanceReport {
@@ -67,18 +191,578 @@ export interface TrialBalanceReport {
   };
 }
 
+// Amount on a comparative report; comparison fields are only set when a comparison period is requested
+export interface ComparativeAmount {
+  amount: number;
+  comparison_amount?: number;
+  variance?: number;
+  variance_percent?: number | null; // null when the comparison amount is zero
+}
+
+export interface IncomeStatementLine extends ComparativeAmount {
+  account_code: string;
+  account_name: string;
+  parent_code: string | null;
+}
+
+export interface IncomeStatementSection {
+  lines: IncomeStatementLine[];
+  total: ComparativeAmount;
+}
+
+export interface IncomeStatementReport {
+  from: string;
+  to: string;
+  comparison: { from: string; to: string } | null;
+  revenue: IncomeStatementSection;
+  expenses: IncomeStatementSection;
+  net_income: ComparativeAmount;
+}
+
+export interface BalanceSheetLine {
+  account_code: string | null; // null for synthetic lines
+  account_name: string;
+  parent_code: string | null;
+  amount: number;
+  is_synthetic: boolean;
+}
+
+export interface BalanceSheetSection {
+  lines: BalanceSheetLine[];
+  total: number;
+}
+
+export interface BalanceSheetReport {
+  as_of: string | null;
+  assets: BalanceSheetSection;
+  liabilities: BalanceSheetSection;
+  equity: BalanceSheetSection;
+  current_earnings: number;
+  total_liabilities_and_equity: number;
+  is_balanced: boolean;
+}
+
+// Consolidated reports sum the ledgers by account code; eliminations remove intercompany
+// balances between the consolidated ledgers
+export interface ConsolidatedTrialBalanceReport extends TrialBalanceReport {
+  ledgers: Ledger[];
+  eliminations: AccountBalance[];
+}
+
+export interface ConsolidatedBalanceSheetReport extends BalanceSheetReport {
+  ledgers: Ledger[];
+  eliminations: AccountBalance[];
+}
+
+export interface LedgerLine {
+  entry_id: string;
+  line_id: string;
+  date: Date;
+  narration: string;
+  line_index: number;
+  // Other accounts posted in the same entry
+  counter_accounts: string[];
+  debit_cents: number;
+  credit_cents: number;
+  // Balance of the account after this line, with the account's normal-balance sign
+  running_balance: number;
+}
+
+export interface AccountLedgerReport {
+  account_code: string;
+  account_name: string;
+  account_type: AccountType;
+  from: string;
+  to: string;
+  opening_balance: number;
+  closing_balance: number;
+  totals: {
+    debits: number;
+    credits: number;
+  };
+  total_lines: number;
+  lines: LedgerLine[];
+}
+
+export interface FxRate {
+  id: string;
+  from_currency: string;
+  to_currency: string;
+  // Units of to_currency per unit of from_currency
+  rate: number;
+  rate_date: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateFxRateRequest {
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  rate_date: string;
+}
+
+export interface UpdateFxRateRequest {
+  rate: number;
+}
+
+export interface FxRevaluationLine {
+  account_code: string;
+  account_name: string;
+  account_type: AccountType;
+  currency: string;
+  // Net debit balances; currency_balance is in the account currency, the others in the base currency
+  currency_balance: number;
+  rate: number;
+  booked_balance: number;
+  revalued_balance: number;
+  adjustment: number;
+}
+
+export interface FxRevaluationResult {
+  as_of: string;
+  gain_loss_account: string;
+  lines: FxRevaluationLine[];
+  // Net unrealized gain (positive) or loss (negative) in base currency cents
+  net_gain_loss: number;
+  reversal_date: string;
+  dry_run: boolean;
+  revaluation: FxRevaluation | null;
+  entry: JournalEntry | null;
+}
+
+export interface FxRevaluation {
+  id: string;
+  ledger_id: string;
+  as_of: Date;
+  entry_id: string;
+  // First day of the next period; the reversal is posted once this date is reached
+  reversal_date: Date;
+  reversal_entry_id: string | null;
+  created_by: string | null;
+  created_at: Date;
+}
+
+export type FiscalPeriodStatus = 'open' | 'soft_closed' | 'closed';
+
+export type FiscalPeriodAction = 'create' | 'soft_close' | 'close' | 'reopen';
+
+export interface FiscalPeriod {
+  id: string;
+  ledger_id: string;
+  name: string;
+  start_date: Date;
+  end_date: Date;
+  status: FiscalPeriodStatus;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateFiscalPeriodRequest {
+  name: string;
+  start_date: string;
+  end_date: string;
+}
+
+export interface FiscalPeriodEvent {
+  id: string;
+  period_id: string;
+  action: FiscalPeriodAction;
+  from_status: FiscalPeriodStatus | null;
+  to_status: FiscalPeriodStatus;
+  reason: string | null;
+  api_key_id: string | null;
+  created_at: Date;
+}
+
+export interface YearEndClosing {
+  id: string;
+  ledger_id: string;
+  fiscal_year: number;
+  status: 'closed' | 'reversed';
+  // Null when there was nothing to close (all Revenue and Expense balances were zero)
+  entry_id: string | null;
+  reversal_entry_id: string | null;
+  closed_by: string | null;
+  closed_at: Date;
+  reversed_by: string | null;
+  reversed_at: Date | null;
+}
+
+export type IdempotencyStatus = 'in_progress' | 'completed';
+
+// Idempotency-Key reserved while its request runs, then the response replayed as-is on retries
 export interface IdempotencyRecord {
+  api_key_id: string;
   key: string;
+  // Null for routes outside a ledger
+  ledger_id: string | null;
+  // Method and path, e.g. 'POST /journal-entries'
+  endpoint: string;
   request_hash: string;
-  entry_id: string;
+  status: IdempotencyStatus;
+  // Identifies the request holding an in-progress reservation until locked_until
+  lock_token: string | null;
+  locked_until: Date | null;
+  // Journal entries posted under the reservation
+  entry_ids: string[] | null;
+  // Set once completed
+  status_code: number | null;
+  content_type: string | null;
+  response_body: string | null;
   created_at: Date;
 }
 
+export type IdempotencyReservation = Pick<IdempotencyRecord, 'api_key_id' | 'key' | 'lock_token' | 'entry_ids'>;
+
+// Permission granted to an API key; admin grants every scope
+export type ApiKeyScope =
+  | 'accounts:write'
+  | 'journal:post'
+  | 'journal:approve'
+  | 'journal:reverse'
+  | 'periods:write'
+  | 'rates:write'
+  | 'reports:read'
+  | 'bank:write'
+  | 'admin';
+
+// Stored metadata of an API key; the key itself is only known to its holder
 export interface ApiKey {
+  id: string;
+  name: string | null;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  is_active: boolean;
+  // Set on keys that were rotated; they keep working until then
+  expires_at: Date | null;
+  revoked_at: Date | null;
+  rotated_from_id: string | null;
+  created_by: string | null;
+  created_at: Date;
+  last_used_at: Date | null;
+  ledger_ids: string[];
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  // Defaults to every ledger of the API key creating it
+  ledger_ids?: string[];
+}
+
+export interface RotateApiKeyRequest {
+  // Hours the old key keeps working after rotation
+  grace_period_hours?: number;
+}
+
+// Returned once on creation and rotation; the key can not be retrieved later
+export interface CreatedApiKey extends ApiKey {
   key: string;
+}
+
+export type AuditOutcome = 'success' | 'failure';
+
+// One mutating API call (POST/PUT/PATCH/DELETE); audit events are never changed or deleted
+export interface AuditEvent {
+  id: string;
+  occurred_at: Date;
+  api_key_id: string | null;
+  ledger_id: string | null;
+  // HTTP method and route, e.g. "POST /journal-entries/:id/reverse"
+  action: string;
+  resource_type: string;
+  resource_id: string | null;
+  request_id: string;
+  ip: string | null;
+  // SHA-256 of the request body
+  payload_hash: string;
+  outcome: AuditOutcome;
+  status_code: number;
+  error_code: string | null;
+}
+
+// GET /feed: posted entries after a sequence number, optionally waiting for new ones
+export interface FeedQuery {
+  after: number;
+  limit: number;
+  // Seconds to wait when there is nothing after the cursor yet (long polling)
+  wait: number;
+}
+
+export interface AuditEventFilter {
+  api_key_id?: string;
+  ledger_id?: string;
+  action?: string;
+  resource_type?: string;
+  resource_id?: string;
+  request_id?: string;
+  outcome?: AuditOutcome;
+  from?: string;
+  to?: string;
+  limit: number;
+  offset: number;
+}
+
+export type WebhookEventType =
+  | 'journal_entry.posted'
+  | 'journal_entry.reversed'
+  | 'account.created'
+  | 'account.updated'
+  | 'account.deleted';
+
+// Ledger change recorded in the same transaction as the change, then delivered to webhooks
+export interface OutboxEvent {
+  id: string;
+  ledger_id: string;
+  event_type: WebhookEventType;
+  payload: Record<string, unknown>;
+  created_at: Date;
+  dispatched_at: Date | null;
+}
+
+export interface WebhookEndpoint {
+  id: string;
+  ledger_id: string;
+  url: string;
+  // Empty means every event type
+  event_types: WebhookEventType[];
+  is_active: boolean;
+  created_by: string | null;
+  created_at: Date;
+}
+
+// Returned once on creation; the secret signs every delivery
+export interface CreatedWebhookEndpoint extends WebhookEndpoint {
+  secret: string;
+}
+
+export interface CreateWebhookEndpointRequest {
+  url: string;
+  event_types?: WebhookEventType[];
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+// One event for one endpoint; dead after the last retry failed
+export interface WebhookDelivery {
+  id: string;
+  event_id: string;
+  endpoint_id: string;
+  event_type: WebhookEventType;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: Date;
+  last_attempt_at: Date | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  delivered_at: Date | null;
+  created_at: Date;
+}
+
+// Bank statement file formats: CSV, OFX (SGML 1.x or XML 2.x) and ISO 20022 CAMT.053
+export type BankStatementFormat = 'csv' | 'ofx' | 'camt053';
+
+export type BankStatementDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'DD.MM.YYYY' | 'YYYYMMDD';
+
+// Header names of the columns of a CSV statement (matched case-insensitively)
+export interface BankStatementCsvMapping {
+  date: string;
+  // Either one signed amount column, or money out in debit and money in in credit
+  amount?: string;
+  debit?: string;
+  credit?: string;
+  description?: string;
+  reference?: string;
+  // Bank transaction ID; without it an ID is derived from the line's contents
+  id?: string;
+  value_date?: string;
+  // Running balance after each line; gives the opening and closing balances
+  balance?: string;
+  date_format: BankStatementDateFormat;
+  decimal_separator: '.' | ',';
+  delimiter: string;
+}
+
+export interface ImportBankStatementRequest {
+  // Bank (Asset) account the statement belongs to
+  account_code: string;
+  // Detected from the content when omitted
+  format?: BankStatementFormat;
+  content: string;
+  mapping?: Partial<BankStatementCsvMapping>;
+  // Signed decimal balances overriding (or supplying) those of the file
+  opening_balance?: string;
+  closing_balance?: string;
+}
+
+// A statement as read from a file, before it is stored
+export interface ParsedBankStatement {
+  statement_ref: string | null;
+  currency: string | null;
+  period_start: string | null;
+  period_end: string | null;
+  opening_balance_cents: number | null;
+  closing_balance_cents: number | null;
+  lines: ParsedBankStatementLine[];
+}
+
+export interface ParsedBankStatementLine {
+  bank_transaction_id: string;
+  booking_date: string;
+  value_date: string | null;
+  // Positive for money in (a debit to the bank account), negative for money out
+  amount_cents: number;
+  description: string | null;
+  reference: string | null;
+}
+
+// Whether the statement's balances agree with the account's book balances for the same dates
+export type BankStatementBalanceStatus = 'matched' | 'mismatched' | 'unverified';
+
+export interface BankStatement {
+  id: string;
+  ledger_id: string;
+  account_id: string;
+  account_code: string;
+  format: BankStatementFormat;
+  statement_ref: string | null;
+  currency: string;
+  period_start: Date | null;
+  period_end: Date | null;
+  opening_balance_cents: number | null;
+  closing_balance_cents: number | null;
+  book_opening_balance_cents: number | null;
+  book_closing_balance_cents: number | null;
+  balance_status: BankStatementBalanceStatus;
+  // Lines stored by this import; duplicates were already stored by an earlier one
+  line_count: number;
+  duplicate_count: number;
+  imported_by: string | null;
   created_at: Date;
 }
 
+export interface BankStatementLine {
+  id: string;
+  statement_id: string;
+  account_id: string;
+  bank_transaction_id: string;
+  booking_date: Date;
+  value_date: Date | null;
+  amount_cents: number;
+  description: string | null;
+  reference: string | null;
+  line_index: number;
+  // Reconciliation match clearing the line, if any
+  match_id: string | null;
+  created_at: Date;
+}
+
+export interface BankStatementWithLines extends BankStatement {
+  lines: BankStatementLine[];
+}
+
+// How a match was made: by auto-matching, by hand, or by booking an entry for a statement line
+export type BankMatchMethod = 'auto' | 'manual' | 'entry';
+
+// Journal line on a bank account, as seen by reconciliation
+export interface BookLine {
+  journal_line_id: string;
+  entry_id: string;
+  date: Date;
+  narration: string;
+  // In the account currency; positive for money in (a debit), negative for money out
+  amount_cents: number;
+  match_id: string | null;
+}
+
+export interface BankMatch {
+  id: string;
+  ledger_id: string;
+  account_id: string;
+  method: BankMatchMethod;
+  created_by: string | null;
+  created_at: Date;
+  statement_lines: BankStatementLine[];
+  journal_lines: BookLine[];
+}
+
+// Statement lines and journal lines that clear each other; both sides add up to the same amount
+export interface CreateBankMatchRequest {
+  statement_line_ids: string[];
+  journal_line_ids: string[];
+}
+
+export interface AutoMatchRequest {
+  account_code: string;
+  // Only match the lines of this statement (default: every unmatched line of the account)
+  statement_id?: string;
+  // Days a journal entry may be dated before or after the bank's booking date
+  date_window_days: number;
+  dry_run: boolean;
+}
+
+export type AutoMatchRule = 'reference' | 'amount' | 'one_to_many' | 'many_to_one';
+
+export interface ProposedBankMatch extends CreateBankMatchRequest {
+  rule: AutoMatchRule;
+  match_id?: string;
+}
+
+export interface AutoMatchResult {
+  dry_run: boolean;
+  matches: ProposedBankMatch[];
+  unmatched_statement_lines: number;
+  unmatched_journal_lines: number;
+}
+
+export interface UnmatchedBankItems {
+  account_code: string;
+  currency: string;
+  statement_lines: BankStatementLine[];
+  journal_lines: BookLine[];
+}
+
+// POST /bank-statement-lines/:id/journal-entry: book a line the books do not have yet (e.g. a bank fee)
+export interface CreateBankLineEntryRequest {
+  // Account the other side is booked to (e.g. bank charges expense, interest income)
+  account_code: string;
+  narration?: string;
+}
+
+export interface BankLineEntryResult {
+  entry: JournalEntry;
+  // Only set when the entry was posted; entries awaiting approval are matched once posted
+  match: BankMatch | null;
+}
+
+// Bank reconciliation at the end of a statement's period: the bank balance plus book items the
+// bank has not cleared yet must equal the book balance plus bank items not yet in the books
+export interface BankReconciliationReport {
+  statement_id: string;
+  account_code: string;
+  account_name: string;
+  currency: string;
+  as_of: string;
+  // First day of the account's first statement; earlier book items are part of its opening balance
+  reconciliation_start: string;
+  statement_balance: number;
+  // Deposits in transit (positive) and outstanding payments (negative)
+  uncleared_book_items: BookLine[];
+  adjusted_statement_balance: number;
+  book_balance: number;
+  // Bank items not (yet) in the books, e.g. fees and interest
+  uncleared_bank_items: BankStatementLine[];
+  adjusted_book_balance: number;
+  totals: {
+    deposits_in_transit: number;
+    outstanding_payments: number;
+    unrecorded_bank_items: number;
+  };
+  difference: number;
+  is_reconciled: boolean;
+}
+
 // Error types
 export class LedgerError extends Error {
   constructor(
@@ -97,12 +781,29 @@ export class ValidationError extends LedgerError {
   }
 }
 
+export interface BatchItemError {
+  index: number;
+  message: string;
+}
+
+export class BatchValidationError extends ValidationError {
+  constructor(message: string, public errors: BatchItemError[]) {
+    super(message);
+  }
+}
+
 export class NotFoundError extends LedgerError {
   constructor(message: string) {
     super(message, 'NOT_FOUND', 404);
   }
 }
 
+export class ForbiddenError extends LedgerError {
+  constructor(message: string) {
+    super(message, 'FORBIDDEN', 403);
+  }
+}
+
 export class ConflictError extends LedgerError {
   constructor(message: string) {
     super(message, 'CONFLICT', 409);
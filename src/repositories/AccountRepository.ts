@@ -1,26 +1,42 @@
 import { Database } from '../config/database.js';
-import { Account, AccountType, CreateAccountRequest, NotFoundError, ConflictError } from '../models/types.js';
+import { Account, AccountImportRow, AccountType, CreateAccountRequest, NotFoundError, ConflictError } from '../models/types.js';
 import { v4 as uuidv4 } from 'uuid';
+import { ENV } from '../config/env.js';
+import { OutboxRepository } from './OutboxRepository.js';
 
 export class AccountRepository {
   private db: Database;
+  private outboxRepository: OutboxRepository;
 
   constructor() {
     this.db = Database.getInstance();
+    this.outboxRepository = new OutboxRepository();
   }
 
-  async create(accountData: CreateAccountRequest): Promise<Account> {
+  async create(ledgerId: string, accountData: CreateAccountRequest, parentId: string | null = null): Promise<Account> {
     try {
       const id = uuidv4();
       
-      const result = await this.db.query(
-        `INSERT INTO accounts (id, code, name, type, created_at) 
-         VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP) 
-         RETURNING *`,
-        [id, accountData.code, accountData.name, accountData.type]
-      ) as Account[];
-
-      return result[0]!;
+      return await this.db.transaction(async (client) => {
+        const result = await client.query(
+          `INSERT INTO accounts (id, ledger_id, code, name, type, currency, parent_id, created_at) 
+           VALUES ($1, $2, $3, $4, $5, $6, $7, CURRENT_TIMESTAMP) 
+           RETURNING *`,
+          [
+            id,
+            ledgerId,
+            accountData.code,
+            accountData.name,
+            accountData.type,
+            accountData.currency || ENV.DEFAULT_CURRENCY,
+            parentId,
+          ]
+        );
+
+        const account = result.rows[0] as Account;
+        await this.outboxRepository.insert(client, ledgerId, 'account.created', { account });
+        return account;
+      });
     } catch (error: any) {
       if (error.code === '23505') { // Unique violation
         throw new ConflictError(`Account with code '${accountData.code}' already exists`);
@@ -29,10 +45,52 @@ export class AccountRepository {
     }
   }
 
-  async findByCode(code: string): Promise<Account | null> {
+  /**
+   * Insert many accounts in a single transaction (all-or-nothing)
+   * Rows must be ordered so that parents come before their children
+   */
+  async createMany(
+    ledgerId: string,
+    accounts: (AccountImportRow & { id: string; parent_id: string | null })[]
+  ): Promise<Account[]> {
+    return await this.db.transaction(async (client) => {
+      const created: Account[] = [];
+
+      for (const account of accounts) {
+        try {
+          const result = await client.query(
+            `INSERT INTO accounts (id, ledger_id, code, name, type, currency, parent_id, is_active, created_at) 
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CURRENT_TIMESTAMP) 
+             RETURNING *`,
+            [
+              account.id,
+              ledgerId,
+              account.code,
+              account.name,
+              account.type,
+              account.currency || ENV.DEFAULT_CURRENCY,
+              account.parent_id,
+              account.is_active,
+            ]
+          );
+          created.push(result.rows[0] as Account);
+          await this.outboxRepository.insert(client, ledgerId, 'account.created', { account: result.rows[0] });
+        } catch (error: any) {
+          if (error.code === '23505') { // Unique violation
+            throw new ConflictError(`Account with code '${account.code}' already exists`);
+          }
+          throw error;
+        }
+      }
+
+      return created;
+    });
+  }
+
+  async findByCode(ledgerId: string, code: string): Promise<Account | null> {
     const result = await this.db.query(
-      'SELECT * FROM accounts WHERE code = $1',
-      [code]
+      'SELECT * FROM accounts WHERE ledger_id = $1 AND code = $2',
+      [ledgerId, code]
     ) as Account[];
 
     return result[0] || null;
@@ -47,12 +105,12 @@ export class AccountRepository {
     return result[0] || null;
   }
 
-  async findAll(type?: AccountType): Promise<Account[]> {
-    let query = 'SELECT * FROM accounts';
-    const params: string[] = [];
+  async findAll(ledgerId: string, type?: AccountType): Promise<Account[]> {
+    let query = 'SELECT * FROM accounts WHERE ledger_id = $1';
+    const params: string[] = [ledgerId];
 
     if (type) {
-      query += ' WHERE type = $1';
+      query += ' AND type = $2';
       params.push(type);
     }
 
@@ -62,24 +120,37 @@ export class AccountRepository {
     return result;
   }
 
-  async exists(code: string): Promise<boolean> {
+  async exists(ledgerId: string, code: string): Promise<boolean> {
     const result = await this.db.query(
-      'SELECT 1 FROM accounts WHERE code = $1',
-      [code]
+      'SELECT 1 FROM accounts WHERE ledger_id = $1 AND code = $2',
+      [ledgerId, code]
     ) as { '1': number }[];
 
     return result.length > 0;
   }
 
-  async getAccountsByCodesWithValidation(codes: string[]): Promise<Account[]> {
+  async findByCodes(ledgerId: string, codes: string[]): Promise<Account[]> {
     if (codes.length === 0) {
       return [];
     }
 
-    const placeholders = codes.map((_, index) => `$${index + 1}`).join(',');
     const result = await this.db.query(
-      `SELECT * FROM accounts WHERE code IN (${placeholders})`,
-      codes
+      'SELECT * FROM accounts WHERE ledger_id = $1 AND code = ANY($2::varchar[])',
+      [ledgerId, codes]
+    ) as Account[];
+
+    return result;
+  }
+
+  async getAccountsByCodesWithValidation(ledgerId: string, codes: string[]): Promise<Account[]> {
+    if (codes.length === 0) {
+      return [];
+    }
+
+    const placeholders = codes.map((_, index) => `$${index + 2}`).join(',');
+    const result = await this.db.query(
+      `SELECT * FROM accounts WHERE ledger_id = $1 AND code IN (${placeholders})`,
+      [ledgerId, ...codes]
     ) as Account[];
 
     // Check if all accounts were found
@@ -93,6 +164,70 @@ export class AccountRepository {
     return result;
   }
 
+  async update(id: string, changes: { name?: string; parent_id?: string | null }): Promise<Account> {
+    const assignments: string[] = [];
+    const params: (string | null)[] = [];
+
+    if (changes.name !== undefined) {
+      params.push(changes.name);
+      assignments.push(`name = $${params.length}`);
+    }
+
+    if (changes.parent_id !== undefined) {
+      params.push(changes.parent_id);
+      assignments.push(`parent_id = $${params.length}`);
+    }
+
+    params.push(id);
+    return await this.updateWithEvent(
+      `UPDATE accounts 
+       SET ${[...assignments, 'updated_at = CURRENT_TIMESTAMP'].join(', ')} 
+       WHERE id = $${params.length} 
+       RETURNING *`,
+      params,
+      id
+    );
+  }
+
+  async setActive(id: string, isActive: boolean): Promise<Account> {
+    return await this.updateWithEvent(
+      `UPDATE accounts 
+       SET is_active = $1, 
+           deactivated_at = CASE WHEN $1 THEN NULL ELSE CURRENT_TIMESTAMP END, 
+           updated_at = CURRENT_TIMESTAMP 
+       WHERE id = $2 
+       RETURNING *`,
+      [isActive, id],
+      id
+    );
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await this.db.transaction(async (client) => {
+        const result = await client.query('DELETE FROM accounts WHERE id = $1 RETURNING *', [id]);
+        const account = result.rows[0] as Account | undefined;
+        if (account) {
+          await this.outboxRepository.insert(client, account.ledger_id, 'account.deleted', { account });
+        }
+      });
+    } catch (error: any) {
+      if (error.code === '23503') { // Foreign key violation
+        throw new ConflictError('Account is still referenced and cannot be deleted');
+      }
+      throw error;
+    }
+  }
+
+  async hasChildren(accountId: string): Promise<boolean> {
+    const result = await this.db.query(
+      'SELECT 1 FROM accounts WHERE parent_id = $1 LIMIT 1',
+      [accountId]
+    ) as { '1': number }[];
+
+    return result.length > 0;
+  }
+
   async hasTransactions(accountId: string): Promise<boolean> {
     const result = await this.db.query(
       'SELECT 1 FROM journal_lines WHERE account_id = $1 LIMIT 1',
@@ -101,5 +236,20 @@ export class AccountRepository {
 
     return result.length > 0;
   }
-}
 
+  /**
+   * Run an account update and write its outbox event in one transaction
+   */
+  private async updateWithEvent(sql: string, params: (string | boolean | null)[], id: string): Promise<Account> {
+    return await this.db.transaction(async (client) => {
+      const result = await client.query(sql, params);
+      const account = result.rows[0] as Account | undefined;
+      if (!account) {
+        throw new NotFoundError(`Account with ID '${id}' not found`);
+      }
+
+      await this.outboxRepository.insert(client, account.ledger_id, 'account.updated', { account });
+      return account;
+    });
+  }
+}
@@ -0,0 +1,176 @@
+import { Database } from '../config/database.js';
+import { ApiKey, ApiKeyScope } from '../models/types.js';
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+
+// Hashed key material; never returned by the API
+export interface ApiKeySecret {
+  key_prefix: string;
+  key_salt: string;
+  key_hash: string;
+}
+
+export interface NewApiKey extends ApiKeySecret {
+  name: string | null;
+  scopes: ApiKeyScope[];
+  ledger_ids: string[];
+  created_by: string | null;
+  rotated_from_id?: string | null;
+}
+
+const API_KEY_COLUMNS = `
+  k.id, k.name, k.key_prefix, k.scopes, k.is_active, k.expires_at, k.revoked_at,
+  k.rotated_from_id, k.created_by, k.created_at, k.last_used_at,
+  COALESCE(
+    array_agg(l.ledger_id::text ORDER BY l.created_at) FILTER (WHERE l.ledger_id IS NOT NULL),
+    '{}'
+  ) AS ledger_ids`;
+
+export class ApiKeyRepository {
+  private db: Database;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  /**
+   * Create a key and bind it to its ledgers, in one transaction
+   */
+  async create(keyData: NewApiKey): Promise<ApiKey> {
+    return await this.db.transaction(async (client) => {
+      const id = await this.insertKey(client, keyData);
+      return (await this.findByIdWith(client, id))!;
+    });
+  }
+
+  /**
+   * Create the replacement of a key and let the old key expire after the grace period
+   */
+  async rotate(id: string, keyData: NewApiKey, expiresAt: Date): Promise<ApiKey> {
+    return await this.db.transaction(async (client) => {
+      await client.query(
+        'UPDATE api_keys SET expires_at = $2 WHERE id = $1',
+        [id, expiresAt]
+      );
+
+      const newId = await this.insertKey(client, { ...keyData, rotated_from_id: id });
+      return (await this.findByIdWith(client, newId))!;
+    });
+  }
+
+  async revoke(id: string): Promise<ApiKey | null> {
+    await this.db.query(
+      'UPDATE api_keys SET is_active = false, revoked_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [id]
+    );
+
+    return await this.findById(id);
+  }
+
+  async findById(id: string): Promise<ApiKey | null> {
+    const result = await this.db.query(
+      `SELECT ${API_KEY_COLUMNS}
+       FROM api_keys k
+       LEFT JOIN api_key_ledgers l ON l.api_key_id = k.id
+       WHERE k.id = $1
+       GROUP BY k.id`,
+      [id]
+    ) as ApiKey[];
+
+    return result[0] || null;
+  }
+
+  async findAll(): Promise<ApiKey[]> {
+    return await this.db.query(
+      `SELECT ${API_KEY_COLUMNS}
+       FROM api_keys k
+       LEFT JOIN api_key_ledgers l ON l.api_key_id = k.id
+       GROUP BY k.id
+       ORDER BY k.created_at, k.id`
+    ) as ApiKey[];
+  }
+
+  /**
+   * Usable keys with a lookup prefix, including their hashes for verification
+   */
+  async findUsableByPrefix(prefix: string): Promise<(ApiKeySecret & { id: string; scopes: ApiKeyScope[] })[]> {
+    return await this.db.query(
+      `SELECT id, scopes, key_prefix, key_salt, key_hash
+       FROM api_keys
+       WHERE key_prefix = $1 AND is_active = true
+         AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)`,
+      [prefix]
+    ) as (ApiKeySecret & { id: string; scopes: ApiKeyScope[] })[];
+  }
+
+  async touchLastUsed(id: string): Promise<void> {
+    await this.db.query(
+      'UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [id]
+    );
+  }
+
+  async count(): Promise<number> {
+    const result = await this.db.query(
+      'SELECT COUNT(*) as count FROM api_keys'
+    ) as { count: string }[];
+
+    return parseInt(result[0]?.count || '0', 10);
+  }
+
+  /**
+   * Number of usable admin keys other than the given one
+   */
+  async countOtherUsableAdmins(id: string): Promise<number> {
+    const result = await this.db.query(
+      `SELECT COUNT(*) as count FROM api_keys
+       WHERE id <> $1 AND 'admin' = ANY(scopes) AND is_active = true
+         AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)`,
+      [id]
+    ) as { count: string }[];
+
+    return parseInt(result[0]?.count || '0', 10);
+  }
+
+  private async insertKey(client: PoolClient, keyData: NewApiKey): Promise<string> {
+    const id = uuidv4();
+
+    await client.query(
+      `INSERT INTO api_keys
+         (id, name, key_prefix, key_salt, key_hash, scopes, is_active, rotated_from_id, created_by, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, true, $7, $8, CURRENT_TIMESTAMP)`,
+      [
+        id,
+        keyData.name,
+        keyData.key_prefix,
+        keyData.key_salt,
+        keyData.key_hash,
+        keyData.scopes,
+        keyData.rotated_from_id ?? null,
+        keyData.created_by,
+      ]
+    );
+
+    for (const ledgerId of keyData.ledger_ids) {
+      await client.query(
+        'INSERT INTO api_key_ledgers (api_key_id, ledger_id) VALUES ($1, $2)',
+        [id, ledgerId]
+      );
+    }
+
+    return id;
+  }
+
+  private async findByIdWith(client: PoolClient, id: string): Promise<ApiKey | null> {
+    const result = await client.query(
+      `SELECT ${API_KEY_COLUMNS}
+       FROM api_keys k
+       LEFT JOIN api_key_ledgers l ON l.api_key_id = k.id
+       WHERE k.id = $1
+       GROUP BY k.id`,
+      [id]
+    );
+
+    return (result.rows[0] as ApiKey) || null;
+  }
+}
@@ -0,0 +1,78 @@
+import { Database } from '../config/database.js';
+import { AuditEvent, AuditEventFilter } from '../models/types.js';
+
+export class AuditEventRepository {
+  private db: Database;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  async create(event: Omit<AuditEvent, 'id' | 'occurred_at'>): Promise<AuditEvent> {
+    const result = await this.db.query(
+      `INSERT INTO audit_events
+       (api_key_id, ledger_id, action, resource_type, resource_id, request_id, ip,
+        payload_hash, outcome, status_code, error_code)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       RETURNING *`,
+      [
+        event.api_key_id,
+        event.ledger_id,
+        event.action,
+        event.resource_type,
+        event.resource_id,
+        event.request_id,
+        event.ip,
+        event.payload_hash,
+        event.outcome,
+        event.status_code,
+        event.error_code,
+      ]
+    ) as AuditEvent[];
+
+    return result[0]!;
+  }
+
+  /**
+   * Matching events, newest first, and the total number of matches
+   */
+  async findAll(filter: AuditEventFilter): Promise<{ events: AuditEvent[]; total: number }> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    const columns = ['api_key_id', 'ledger_id', 'action', 'resource_type', 'resource_id', 'request_id', 'outcome'] as const;
+    for (const column of columns) {
+      const value = filter[column];
+      if (value !== undefined) {
+        params.push(value);
+        conditions.push(`${column} = $${params.length}`);
+      }
+    }
+
+    if (filter.from) {
+      params.push(filter.from);
+      conditions.push(`occurred_at >= $${params.length}::date`);
+    }
+
+    if (filter.to) {
+      params.push(filter.to);
+      conditions.push(`occurred_at < $${params.length}::date + 1`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await this.db.query(
+      `SELECT COUNT(*) as count FROM audit_events ${where}`,
+      params
+    ) as { count: string }[];
+
+    const events = await this.db.query(
+      `SELECT * FROM audit_events ${where}
+       ORDER BY occurred_at DESC, id
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, filter.limit, filter.offset]
+    ) as AuditEvent[];
+
+    return { events, total: parseInt(countResult[0]?.count || '0', 10) };
+  }
+}
@@ -1,6 +1,10 @@
 import { Database } from '../config/database.js';
-import { AccountBalance, AccountType, TrialBalanceReport } from '../models/types.js';
+import { AccountBalance, AccountType, LedgerLine, TrialBalanceReport } from '../models/types.js';
 
+/**
+ * Balance queries only include lines of posted journal entries;
+ * drafts and entries awaiting approval never affect balances
+ */
 export class BalanceRepository {
   private db: Database;
 
@@ -8,7 +12,7 @@ export class BalanceRepository {
     this.db = Database.getInstance();
   }
 
-  async getAccountBalance(accountCode: string, asOfDate?: Date): Promise<AccountBalance | null> {
+  async getAccountBalance(ledgerId: string, accountCode: string, asOfDate?: Date): Promise<AccountBalance | null> {
     let query = `
       SELECT 
         a.code as account_code,
@@ -17,15 +21,17 @@ export class BalanceRepository {
         COALESCE(SUM(jl.debit_cents), 0) as debits,
         COALESCE(SUM(jl.credit_cents), 0) as credits
       FROM accounts a
-      LEFT JOIN journal_lines jl ON a.id = jl.account_id
-      LEFT JOIN journal_entries je ON jl.entry_id = je.id
-      WHERE a.code = $1
+      LEFT JOIN (
+        journal_lines jl
+        JOIN journal_entries je ON jl.entry_id = je.id AND je.status = 'posted'
+      ) ON a.id = jl.account_id
+      WHERE a.ledger_id = $1 AND a.code = $2
     `;
 
-    const params: (string | Date)[] = [accountCode];
+    const params: (string | Date)[] = [ledgerId, accountCode];
 
     if (asOfDate) {
-      query += ' AND je.date <= $2';
+      query += ' AND je.date <= $3';
       params.push(asOfDate);
     }
 
@@ -57,26 +63,36 @@ export class BalanceRepository {
     };
   }
 
-  async getTrialBalance(fromDate: Date, toDate: Date): Promise<TrialBalanceReport> {
+  async getTrialBalance(
+    ledgerId: string,
+    fromDate: Date,
+    toDate: Date,
+    rollUp: boolean = false
+  ): Promise<TrialBalanceReport> {
     const query = `
       SELECT 
         a.code as account_code,
         a.name as account_name,
         a.type as account_type,
+        p.code as parent_code,
         COALESCE(SUM(jl.debit_cents), 0) as debits,
         COALESCE(SUM(jl.credit_cents), 0) as credits
       FROM accounts a
-      LEFT JOIN journal_lines jl ON a.id = jl.account_id
-      LEFT JOIN journal_entries je ON jl.entry_id = je.id
-      WHERE (je.date IS NULL OR (je.date >= $1 AND je.date <= $2))
-      GROUP BY a.id, a.code, a.name, a.type
+      LEFT JOIN accounts p ON a.parent_id = p.id
+      LEFT JOIN (
+        journal_lines jl
+        JOIN journal_entries je ON jl.entry_id = je.id AND je.status = 'posted'
+      ) ON a.id = jl.account_id
+      WHERE a.ledger_id = $1 AND (je.date IS NULL OR (je.date >= $2 AND je.date <= $3))
+      GROUP BY a.id, a.code, a.name, a.type, p.code
       ORDER BY a.code
     `;
 
-    const result = await this.db.query(query, [fromDate, toDate]) as {
+    const result = await this.db.query(query, [ledgerId, fromDate, toDate]) as {
       account_code: string;
       account_name: string;
       account_type: AccountType;
+      parent_code: string | null;
       debits: string;
       credits: string;
     }[];
@@ -95,6 +111,7 @@ export class BalanceRepository {
         account_code: row.account_code,
         account_name: row.account_name,
         account_type: row.account_type,
+        parent_code: row.parent_code,
         debits,
         credits,
         balance: this.calculateDisplayBalance(row.account_type, debits, credits),
@@ -104,7 +121,7 @@ export class BalanceRepository {
     return {
       from: fromDate.toISOString().split('T')[0]!,
       to: toDate.toISOString().split('T')[0]!,
-      accounts,
+      accounts: rollUp ? this.applyRollUp(accounts) : accounts,
       totals: {
         debits: totalDebits,
         credits: totalCredits,
@@ -112,32 +129,106 @@ export class BalanceRepository {
     };
   }
 
-  async getAllAccountBalances(asOfDate?: Date): Promise<AccountBalance[]> {
+  async getAllAccountBalances(ledgerId: string, asOfDate?: Date, rollUp: boolean = false): Promise<AccountBalance[]> {
     let query = `
       SELECT 
         a.code as account_code,
         a.name as account_name,
         a.type as account_type,
+        p.code as parent_code,
+        a.currency,
         COALESCE(SUM(jl.debit_cents), 0) as debits,
-        COALESCE(SUM(jl.credit_cents), 0) as credits
+        COALESCE(SUM(jl.credit_cents), 0) as credits,
+        COALESCE(SUM(
+          CASE WHEN jl.currency = a.currency THEN
+            CASE WHEN jl.debit_cents > 0 THEN jl.transaction_amount_cents ELSE -jl.transaction_amount_cents END
+          END
+        ), 0) as currency_balance
       FROM accounts a
-      LEFT JOIN journal_lines jl ON a.id = jl.account_id
-      LEFT JOIN journal_entries je ON jl.entry_id = je.id
+      LEFT JOIN accounts p ON a.parent_id = p.id
+      LEFT JOIN (
+        journal_lines jl
+        JOIN journal_entries je ON jl.entry_id = je.id AND je.status = 'posted'
+      ) ON a.id = jl.account_id
+      WHERE a.ledger_id = $1
     `;
 
-    const params: Date[] = [];
+    const params: (string | Date)[] = [ledgerId];
 
     if (asOfDate) {
-      query += ' WHERE (je.date IS NULL OR je.date <= $1)';
+      query += ' AND (je.date IS NULL OR je.date <= $2)';
       params.push(asOfDate);
     }
 
-    query += ' GROUP BY a.id, a.code, a.name, a.type ORDER BY a.code';
+    query += ' GROUP BY a.id, a.code, a.name, a.type, a.currency, p.code ORDER BY a.code';
 
     const result = await this.db.query(query, params) as {
       account_code: string;
       account_name: string;
       account_type: AccountType;
+      parent_code: string | null;
+      currency: string;
+      debits: string;
+      credits: string;
+      currency_balance: string;
+    }[];
+
+    const balances: AccountBalance[] = result.map(row => {
+      const debits = parseInt(row.debits, 10);
+      const credits = parseInt(row.credits, 10);
+
+      return {
+        account_code: row.account_code,
+        account_name: row.account_name,
+        account_type: row.account_type,
+        parent_code: row.parent_code,
+        debits,
+        credits,
+        balance: this.calculateDisplayBalance(row.account_type, debits, credits),
+        currency: row.currency,
+        currency_balance: parseInt(row.currency_balance, 10),
+      };
+    });
+
+    return rollUp ? this.applyRollUp(balances) : balances;
+  }
+
+  /**
+   * Revenue and Expense activity between two dates, one row per account
+   * Year-end closing entries and their reversals are left out so that a closed
+   * year still reports its results
+   */
+  async getIncomeStatementBalances(ledgerId: string, fromDate: Date, toDate: Date): Promise<AccountBalance[]> {
+    const query = `
+      SELECT 
+        a.code as account_code,
+        a.name as account_name,
+        a.type as account_type,
+        p.code as parent_code,
+        COALESCE(SUM(jl.debit_cents), 0) as debits,
+        COALESCE(SUM(jl.credit_cents), 0) as credits
+      FROM accounts a
+      LEFT JOIN accounts p ON a.parent_id = p.id
+      LEFT JOIN (
+        journal_lines jl
+        JOIN journal_entries je ON jl.entry_id = je.id 
+          AND je.status = 'posted'
+          AND je.date >= $2 AND je.date <= $3
+          AND NOT EXISTS (
+            SELECT 1 FROM year_end_closings yc 
+            WHERE yc.entry_id = je.id OR yc.reversal_entry_id = je.id
+          )
+      ) ON a.id = jl.account_id
+      WHERE a.ledger_id = $1 AND a.type IN ('Revenue', 'Expense')
+      GROUP BY a.id, a.code, a.name, a.type, p.code
+      ORDER BY a.code
+    `;
+
+    const result = await this.db.query(query, [ledgerId, fromDate, toDate]) as {
+      account_code: string;
+      account_name: string;
+      account_type: AccountType;
+      parent_code: string | null;
       debits: string;
       credits: string;
     }[];
@@ -150,6 +241,7 @@ export class BalanceRepository {
         account_code: row.account_code,
         account_name: row.account_name,
         account_type: row.account_type,
+        parent_code: row.parent_code,
         debits,
         credits,
         balance: this.calculateDisplayBalance(row.account_type, debits, credits),
@@ -157,12 +249,219 @@ export class BalanceRepository {
     });
   }
 
+  /**
+   * Posted totals of the given account codes summed over several ledgers,
+   * one row per account code and type
+   * Covers entries dated in the range; without a from date, everything up to the to date
+   */
+  async getCombinedAccountTotals(
+    ledgerIds: string[],
+    accountCodes: string[],
+    fromDate: Date | null,
+    toDate: Date | null
+  ): Promise<AccountBalance[]> {
+    const result = await this.db.query(`
+      SELECT 
+        a.code as account_code,
+        MIN(a.name) as account_name,
+        a.type as account_type,
+        COALESCE(SUM(jl.debit_cents), 0) as debits,
+        COALESCE(SUM(jl.credit_cents), 0) as credits
+      FROM accounts a
+      LEFT JOIN (
+        journal_lines jl
+        JOIN journal_entries je ON jl.entry_id = je.id AND je.status = 'posted'
+          AND ($3::date IS NULL OR je.date >= $3::date)
+          AND ($4::date IS NULL OR je.date <= $4::date)
+      ) ON a.id = jl.account_id
+      WHERE a.ledger_id = ANY($1::uuid[]) AND a.code = ANY($2::text[])
+      GROUP BY a.code, a.type
+      ORDER BY a.code
+    `, [ledgerIds, accountCodes, fromDate, toDate]) as {
+      account_code: string;
+      account_name: string;
+      account_type: AccountType;
+      debits: string;
+      credits: string;
+    }[];
+
+    return result.map(row => {
+      const debits = parseInt(row.debits, 10);
+      const credits = parseInt(row.credits, 10);
+
+      return {
+        account_code: row.account_code,
+        account_name: row.account_name,
+        account_type: row.account_type,
+        debits,
+        credits,
+        balance: this.calculateDisplayBalance(row.account_type, debits, credits),
+      };
+    });
+  }
+
+  /**
+   * General ledger of one account: opening balance before the range, range totals
+   * and one page of lines in posting order, with net debit (debits minus credits) balances
+   * Running balances are computed over the whole range so they stay correct on every page
+   */
+  async getAccountLedger(
+    accountId: string,
+    fromDate: Date,
+    toDate: Date,
+    limit: number,
+    offset: number
+  ): Promise<{
+    opening: number;
+    debits: number;
+    credits: number;
+    count: number;
+    lines: LedgerLine[];
+  }> {
+    const summary = await this.db.query(`
+      SELECT 
+        COALESCE(SUM(jl.debit_cents - jl.credit_cents) FILTER (WHERE je.date < $2), 0) as opening,
+        COALESCE(SUM(jl.debit_cents) FILTER (WHERE je.date >= $2), 0) as debits,
+        COALESCE(SUM(jl.credit_cents) FILTER (WHERE je.date >= $2), 0) as credits,
+        COUNT(*) FILTER (WHERE je.date >= $2) as count
+      FROM journal_lines jl
+      JOIN journal_entries je ON jl.entry_id = je.id AND je.status = 'posted'
+      WHERE jl.account_id = $1 AND je.date <= $3
+    `, [accountId, fromDate, toDate]) as {
+      opening: string;
+      debits: string;
+      credits: string;
+      count: string;
+    }[];
+
+    const totals = summary[0]!;
+    const opening = parseInt(totals.opening, 10);
+
+    const result = await this.db.query(`
+      SELECT 
+        ledger.*,
+        COALESCE((
+          SELECT array_agg(DISTINCT ca.code ORDER BY ca.code)
+          FROM journal_lines cl
+          JOIN accounts ca ON cl.account_id = ca.id
+          WHERE cl.entry_id = ledger.entry_id AND cl.account_id <> $1
+        ), ARRAY[]::varchar[]) as counter_accounts
+      FROM (
+        SELECT 
+          je.id as entry_id,
+          jl.id as line_id,
+          je.date,
+          je.narration,
+          je.posted_at,
+          jl.line_index,
+          jl.debit_cents,
+          jl.credit_cents,
+          SUM(jl.debit_cents - jl.credit_cents) OVER (
+            ORDER BY je.date, je.posted_at, je.id, jl.line_index
+          ) as running_net
+        FROM journal_lines jl
+        JOIN journal_entries je ON jl.entry_id = je.id AND je.status = 'posted'
+        WHERE jl.account_id = $1 AND je.date >= $2 AND je.date <= $3
+      ) ledger
+      ORDER BY ledger.date, ledger.posted_at, ledger.entry_id, ledger.line_index
+      LIMIT $4 OFFSET $5
+    `, [accountId, fromDate, toDate, limit, offset]) as {
+      entry_id: string;
+      line_id: string;
+      date: Date;
+      narration: string;
+      line_index: number;
+      debit_cents: number;
+      credit_cents: number;
+      running_net: string;
+      counter_accounts: string[];
+    }[];
+
+    return {
+      opening,
+      debits: parseInt(totals.debits, 10),
+      credits: parseInt(totals.credits, 10),
+      count: parseInt(totals.count, 10),
+      lines: result.map(row => ({
+        entry_id: row.entry_id,
+        line_id: row.line_id,
+        date: row.date,
+        narration: row.narration,
+        line_index: row.line_index,
+        counter_accounts: row.counter_accounts,
+        debit_cents: row.debit_cents,
+        credit_cents: row.credit_cents,
+        running_balance: opening + parseInt(row.running_net, 10),
+      })),
+    };
+  }
+
+  /**
+   * Attach roll-up subtotals to every account that has child accounts
+   * The subtotal of a parent is its own postings plus those of all descendants,
+   * so group totals can be shown without double counting in report totals
+   */
+  private applyRollUp(balances: AccountBalance[]): AccountBalance[] {
+    const childrenByParent = new Map<string, AccountBalance[]>();
+    for (const balance of balances) {
+      if (balance.parent_code) {
+        const siblings = childrenByParent.get(balance.parent_code) || [];
+        siblings.push(balance);
+        childrenByParent.set(balance.parent_code, siblings);
+      }
+    }
+
+    const totals = new Map<string, { debits: number; credits: number }>();
+    const computeTotals = (balance: AccountBalance, visiting: Set<string>): { debits: number; credits: number } => {
+      const cached = totals.get(balance.account_code);
+      if (cached) {
+        return cached;
+      }
+
+      let debits = balance.debits;
+      let credits = balance.credits;
+
+      // Guard against corrupt hierarchies; cycles are rejected on write
+      visiting.add(balance.account_code);
+      for (const child of childrenByParent.get(balance.account_code) || []) {
+        if (visiting.has(child.account_code)) {
+          continue;
+        }
+        const childTotals = computeTotals(child, visiting);
+        debits += childTotals.debits;
+        credits += childTotals.credits;
+      }
+      visiting.delete(balance.account_code);
+
+      const result = { debits, credits };
+      totals.set(balance.account_code, result);
+      return result;
+    };
+
+    return balances.map(balance => {
+      if (!childrenByParent.has(balance.account_code)) {
+        return balance;
+      }
+
+      const { debits, credits } = computeTotals(balance, new Set<string>());
+      return {
+        ...balance,
+        subtotal: {
+          debits,
+          credits,
+          balance: this.calculateDisplayBalance(balance.account_type, debits, credits),
+        },
+      };
+    });
+  }
+
   /**
    * Calculate the display balance according to normal balance conventions
    * - Asset and Expense accounts: positive when debits > credits
    * - Liability, Equity, and Revenue accounts: negative when credits > debits
+   * Public so that services combining balances themselves show them the same way
    */
-  private calculateDisplayBalance(accountType: AccountType, debits: number, credits: number): number {
+  calculateDisplayBalance(accountType: AccountType, debits: number, credits: number): number {
     const netAmount = debits - credits;
     
     // For credit-normal accounts (Liability, Equity, Revenue), 
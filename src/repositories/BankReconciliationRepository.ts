@@ -0,0 +1,237 @@
+import { Database } from '../config/database.js';
+import {
+  BankMatch,
+  BankMatchMethod,
+  BankStatementLine,
+  BookLine,
+  CreateBankMatchRequest,
+  ConflictError
+} from '../models/types.js';
+
+// Journal lines of posted entries on the account, in the account currency
+// (lines in the base currency on a foreign-currency account are revaluations, not bank items)
+const BOOK_LINES_SQL = `
+  SELECT jl.id AS journal_line_id, je.id AS entry_id, je.date, je.narration,
+         CASE WHEN jl.debit_cents > 0 THEN jl.transaction_amount_cents ELSE -jl.transaction_amount_cents END AS amount_cents,
+         mj.match_id
+  FROM journal_lines jl
+  JOIN journal_entries je ON je.id = jl.entry_id AND je.status = 'posted'
+  LEFT JOIN bank_match_journal_lines mj ON mj.journal_line_id = jl.id
+  WHERE jl.account_id = $1 AND jl.currency = $2`;
+
+/**
+ * Condition that the match in the given column was cleared by the given date,
+ * i.e. every statement line and journal line of the match is dated on or before it
+ */
+function clearedBy(matchColumn: string, asOfParam: string): string {
+  return `(${matchColumn} IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM bank_statement_lines cl
+      WHERE cl.match_id = ${matchColumn} AND cl.booking_date > ${asOfParam}
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM bank_match_journal_lines cm
+      JOIN journal_lines cjl ON cjl.id = cm.journal_line_id
+      JOIN journal_entries cje ON cje.id = cjl.entry_id
+      WHERE cm.match_id = ${matchColumn} AND cje.date > ${asOfParam}
+    ))`;
+}
+
+export class BankReconciliationRepository {
+  private db: Database;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  async findUnmatchedStatementLines(accountId: string, statementId?: string): Promise<BankStatementLine[]> {
+    const params: string[] = [accountId];
+    const statementCondition = statementId ? 'AND statement_id = $2' : '';
+    if (statementId) {
+      params.push(statementId);
+    }
+
+    return await this.db.query(
+      `SELECT * FROM bank_statement_lines
+       WHERE account_id = $1 AND match_id IS NULL ${statementCondition}
+       ORDER BY booking_date, line_index, id`,
+      params
+    ) as BankStatementLine[];
+  }
+
+  async findUnmatchedBookLines(
+    accountId: string,
+    currency: string,
+    fromDate?: string,
+    toDate?: string
+  ): Promise<BookLine[]> {
+    const params: string[] = [accountId, currency];
+    let query = `${BOOK_LINES_SQL} AND mj.match_id IS NULL`;
+
+    if (fromDate) {
+      params.push(fromDate);
+      query += ` AND je.date >= $${params.length}`;
+    }
+    if (toDate) {
+      params.push(toDate);
+      query += ` AND je.date <= $${params.length}`;
+    }
+
+    return await this.db.query(`${query} ORDER BY je.date, je.created_at, jl.line_index`, params) as BookLine[];
+  }
+
+  async findStatementLinesByIds(ledgerId: string, ids: string[]): Promise<BankStatementLine[]> {
+    return await this.db.query(
+      `SELECT sl.* FROM bank_statement_lines sl
+       JOIN bank_statements s ON s.id = sl.statement_id
+       WHERE s.ledger_id = $1 AND sl.id = ANY($2)
+       ORDER BY sl.booking_date, sl.line_index`,
+      [ledgerId, ids]
+    ) as BankStatementLine[];
+  }
+
+  async findBookLinesByIds(accountId: string, currency: string, ids: string[]): Promise<BookLine[]> {
+    return await this.db.query(
+      `${BOOK_LINES_SQL} AND jl.id = ANY($3) ORDER BY je.date, jl.line_index`,
+      [accountId, currency, ids]
+    ) as BookLine[];
+  }
+
+  /**
+   * Record matches, all or nothing
+   * Lines are claimed with the match, so a line matched concurrently makes the whole call fail
+   * @throws ConflictError if a line is already part of a match
+   * @returns IDs of the matches, in the order given
+   */
+  async createMatches(
+    ledgerId: string,
+    accountId: string,
+    method: BankMatchMethod,
+    matches: CreateBankMatchRequest[],
+    createdBy: string | null
+  ): Promise<string[]> {
+    return await this.db.transaction(async (client) => {
+      const ids: string[] = [];
+
+      for (const match of matches) {
+        const matchId = (await client.query(
+          `INSERT INTO bank_matches (ledger_id, account_id, method, created_by)
+           VALUES ($1, $2, $3, $4)
+           RETURNING id`,
+          [ledgerId, accountId, method, createdBy]
+        )).rows[0].id as string;
+
+        const claimed = await client.query(
+          `UPDATE bank_statement_lines SET match_id = $1
+           WHERE id = ANY($2) AND account_id = $3 AND match_id IS NULL`,
+          [matchId, match.statement_line_ids, accountId]
+        );
+        if (claimed.rowCount !== match.statement_line_ids.length) {
+          throw new ConflictError('A statement line of the match is already matched');
+        }
+
+        try {
+          await client.query(
+            `INSERT INTO bank_match_journal_lines (match_id, journal_line_id)
+             SELECT $1, UNNEST($2::uuid[])`,
+            [matchId, match.journal_line_ids]
+          );
+        } catch (error: any) {
+          if (error.code === '23505') {
+            throw new ConflictError('A journal line of the match is already matched');
+          }
+          throw error;
+        }
+
+        ids.push(matchId);
+      }
+
+      return ids;
+    });
+  }
+
+  async findMatchById(ledgerId: string, id: string): Promise<BankMatch | null> {
+    const result = await this.db.query(
+      `SELECT m.*, a.currency
+       FROM bank_matches m
+       JOIN accounts a ON a.id = m.account_id
+       WHERE m.id = $1 AND m.ledger_id = $2`,
+      [id, ledgerId]
+    ) as (Omit<BankMatch, 'statement_lines' | 'journal_lines'> & { currency: string })[];
+
+    const row = result[0];
+    if (!row) {
+      return null;
+    }
+
+    const { currency, ...match } = row;
+    const statementLines = await this.db.query(
+      'SELECT * FROM bank_statement_lines WHERE match_id = $1 ORDER BY booking_date, line_index',
+      [id]
+    ) as BankStatementLine[];
+    const journalLines = await this.db.query(
+      `${BOOK_LINES_SQL} AND mj.match_id = $3 ORDER BY je.date, jl.line_index`,
+      [match.account_id, currency, id]
+    ) as BookLine[];
+
+    return { ...match, statement_lines: statementLines, journal_lines: journalLines };
+  }
+
+  /**
+   * Undo a match; its lines become unmatched again
+   */
+  async deleteMatch(id: string): Promise<void> {
+    await this.db.query('DELETE FROM bank_matches WHERE id = $1', [id]);
+  }
+
+  /**
+   * First day covered by the account's statements, or null when none was imported
+   */
+  async findReconciliationStart(accountId: string): Promise<Date | null> {
+    const result = await this.db.query(
+      'SELECT MIN(period_start) AS start FROM bank_statements WHERE account_id = $1',
+      [accountId]
+    ) as { start: Date | null }[];
+
+    return result[0]?.start ?? null;
+  }
+
+  /**
+   * Balance of the account in its own currency at the end of the given date
+   */
+  async getBookBalance(accountId: string, currency: string, asOfDate: string): Promise<number> {
+    const result = await this.db.query(
+      `SELECT COALESCE(SUM(amount_cents), 0) AS balance
+       FROM (${BOOK_LINES_SQL} AND je.date <= $3) book`,
+      [accountId, currency, asOfDate]
+    ) as { balance: string }[];
+
+    return parseInt(result[0]!.balance, 10);
+  }
+
+  /**
+   * Journal lines dated within the period that were not cleared by a statement line by its end
+   */
+  async findUnclearedBookLines(accountId: string, currency: string, fromDate: string, asOfDate: string): Promise<BookLine[]> {
+    return await this.db.query(
+      `${BOOK_LINES_SQL}
+         AND je.date >= $3 AND je.date <= $4
+         AND NOT ${clearedBy('mj.match_id', '$4')}
+       ORDER BY je.date, je.created_at, jl.line_index`,
+      [accountId, currency, fromDate, asOfDate]
+    ) as BookLine[];
+  }
+
+  /**
+   * Statement lines booked by the given date that were not cleared by a journal line by then
+   */
+  async findUnclearedStatementLines(accountId: string, asOfDate: string): Promise<BankStatementLine[]> {
+    return await this.db.query(
+      `SELECT sl.* FROM bank_statement_lines sl
+       WHERE sl.account_id = $1 AND sl.booking_date <= $2
+         AND NOT ${clearedBy('sl.match_id', '$2')}
+       ORDER BY sl.booking_date, sl.line_index, sl.id`,
+      [accountId, asOfDate]
+    ) as BankStatementLine[];
+  }
+}
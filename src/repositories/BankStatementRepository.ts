@@ -0,0 +1,161 @@
+import { Database } from '../config/database.js';
+import {
+  BankStatement,
+  BankStatementLine,
+  BankStatementBalanceStatus,
+  BankStatementFormat,
+  ParsedBankStatementLine,
+  ConflictError
+} from '../models/types.js';
+
+const STATEMENT_COLUMNS = `
+  s.id, s.ledger_id, s.account_id, a.code AS account_code, s.format, s.statement_ref, s.currency,
+  s.period_start, s.period_end, s.opening_balance_cents, s.closing_balance_cents,
+  s.book_opening_balance_cents, s.book_closing_balance_cents, s.balance_status,
+  s.line_count, s.duplicate_count, s.imported_by, s.created_at`;
+
+export interface NewBankStatement {
+  account_id: string;
+  format: BankStatementFormat;
+  statement_ref: string | null;
+  currency: string;
+  period_start: string | null;
+  period_end: string | null;
+  opening_balance_cents: number | null;
+  closing_balance_cents: number | null;
+  book_opening_balance_cents: number | null;
+  book_closing_balance_cents: number | null;
+  balance_status: BankStatementBalanceStatus;
+  imported_by: string | null;
+}
+
+export class BankStatementRepository {
+  private db: Database;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  /**
+   * Store a statement and those of its lines not stored before
+   * Lines are de-duplicated by bank transaction ID per account, so overlapping statements
+   * only add the transactions that are new
+   * @throws ConflictError if every line was already imported
+   */
+  async create(
+    ledgerId: string,
+    statement: NewBankStatement,
+    lines: ParsedBankStatementLine[]
+  ): Promise<string> {
+    return await this.db.transaction(async (client) => {
+      const statementId = (await client.query(
+        `INSERT INTO bank_statements (
+           ledger_id, account_id, format, statement_ref, currency, period_start, period_end,
+           opening_balance_cents, closing_balance_cents, book_opening_balance_cents,
+           book_closing_balance_cents, balance_status, imported_by
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+         RETURNING id`,
+        [
+          ledgerId,
+          statement.account_id,
+          statement.format,
+          statement.statement_ref,
+          statement.currency,
+          statement.period_start,
+          statement.period_end,
+          statement.opening_balance_cents,
+          statement.closing_balance_cents,
+          statement.book_opening_balance_cents,
+          statement.book_closing_balance_cents,
+          statement.balance_status,
+          statement.imported_by,
+        ]
+      )).rows[0].id as string;
+
+      let lineCount = 0;
+      for (const [index, line] of lines.entries()) {
+        const result = await client.query(
+          `INSERT INTO bank_statement_lines (
+             statement_id, account_id, bank_transaction_id, booking_date, value_date,
+             amount_cents, description, reference, line_index
+           ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+           ON CONFLICT (account_id, bank_transaction_id) DO NOTHING`,
+          [
+            statementId,
+            statement.account_id,
+            line.bank_transaction_id,
+            line.booking_date,
+            line.value_date,
+            line.amount_cents,
+            line.description,
+            line.reference,
+            index,
+          ]
+        );
+        lineCount += result.rowCount ?? 0;
+      }
+
+      if (lines.length > 0 && lineCount === 0) {
+        throw new ConflictError('Every transaction in the statement was already imported');
+      }
+
+      await client.query(
+        'UPDATE bank_statements SET line_count = $2, duplicate_count = $3 WHERE id = $1',
+        [statementId, lineCount, lines.length - lineCount]
+      );
+
+      return statementId;
+    });
+  }
+
+  async findById(ledgerId: string, id: string): Promise<BankStatement | null> {
+    const result = await this.db.query(
+      `SELECT ${STATEMENT_COLUMNS}
+       FROM bank_statements s
+       JOIN accounts a ON a.id = s.account_id
+       WHERE s.id = $1 AND s.ledger_id = $2`,
+      [id, ledgerId]
+    ) as BankStatement[];
+
+    return result[0] || null;
+  }
+
+  async findAll(ledgerId: string, accountId?: string): Promise<BankStatement[]> {
+    const params: string[] = [ledgerId];
+    const accountCondition = accountId ? 'AND s.account_id = $2' : '';
+    if (accountId) {
+      params.push(accountId);
+    }
+
+    return await this.db.query(
+      `SELECT ${STATEMENT_COLUMNS}
+       FROM bank_statements s
+       JOIN accounts a ON a.id = s.account_id
+       WHERE s.ledger_id = $1 ${accountCondition}
+       ORDER BY s.period_end DESC NULLS LAST, s.created_at DESC`,
+      params
+    ) as BankStatement[];
+  }
+
+  async findLines(statementId: string): Promise<BankStatementLine[]> {
+    return await this.db.query(
+      `SELECT * FROM bank_statement_lines
+       WHERE statement_id = $1
+       ORDER BY booking_date, line_index`,
+      [statementId]
+    ) as BankStatementLine[];
+  }
+
+  async hasMatchedLines(statementId: string): Promise<boolean> {
+    const result = await this.db.query(
+      'SELECT 1 FROM bank_statement_lines WHERE statement_id = $1 AND match_id IS NOT NULL LIMIT 1',
+      [statementId]
+    );
+
+    return result.length > 0;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.query('DELETE FROM bank_statements WHERE id = $1', [id]);
+  }
+}
@@ -0,0 +1,154 @@
+import { Database } from '../config/database.js';
+import {
+  FiscalPeriod,
+  FiscalPeriodAction,
+  FiscalPeriodEvent,
+  FiscalPeriodStatus,
+  CreateFiscalPeriodRequest,
+  ConflictError
+} from '../models/types.js';
+import { PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+
+export class FiscalPeriodRepository {
+  private db: Database;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  async create(
+    ledgerId: string,
+    periodData: CreateFiscalPeriodRequest,
+    apiKeyId: string | null
+  ): Promise<FiscalPeriod> {
+    try {
+      return await this.db.transaction(async (client) => {
+        const id = uuidv4();
+
+        const result = await client.query(
+          `INSERT INTO fiscal_periods (id, ledger_id, name, start_date, end_date, status, created_at, updated_at) 
+           VALUES ($1, $2, $3, $4, $5, 'open', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP) 
+           RETURNING *`,
+          [id, ledgerId, periodData.name, periodData.start_date, periodData.end_date]
+        );
+
+        await client.query(
+          `INSERT INTO fiscal_period_events (period_id, action, from_status, to_status, api_key_id) 
+           VALUES ($1, 'create', NULL, 'open', $2)`,
+          [id, apiKeyId]
+        );
+
+        return result.rows[0] as FiscalPeriod;
+      });
+    } catch (error: any) {
+      if (error.code === '23505') { // Unique violation
+        throw new ConflictError(`Fiscal period '${periodData.name}' already exists`);
+      }
+      throw error;
+    }
+  }
+
+  async findById(ledgerId: string, id: string): Promise<FiscalPeriod | null> {
+    const result = await this.db.query(
+      'SELECT * FROM fiscal_periods WHERE id = $1 AND ledger_id = $2',
+      [id, ledgerId]
+    ) as FiscalPeriod[];
+
+    return result[0] || null;
+  }
+
+  async findAll(ledgerId: string, status?: FiscalPeriodStatus): Promise<FiscalPeriod[]> {
+    let query = 'SELECT * FROM fiscal_periods WHERE ledger_id = $1';
+    const params: string[] = [ledgerId];
+
+    if (status) {
+      query += ' AND status = $2';
+      params.push(status);
+    }
+
+    query += ' ORDER BY start_date';
+
+    return await this.db.query(query, params) as FiscalPeriod[];
+  }
+
+  /**
+   * Find the period containing the given date (periods never overlap)
+   */
+  async findByDate(ledgerId: string, date: string): Promise<FiscalPeriod | null> {
+    const result = await this.db.query(
+      'SELECT * FROM fiscal_periods WHERE ledger_id = $1 AND $2::date BETWEEN start_date AND end_date LIMIT 1',
+      [ledgerId, date]
+    ) as FiscalPeriod[];
+
+    return result[0] || null;
+  }
+
+  /**
+   * Find the period containing an entry's date and share-lock it until the transaction ends,
+   * so the period cannot be closed while the entry is being posted into it
+   */
+  async lockForEntry(client: PoolClient, entryId: string): Promise<FiscalPeriod | null> {
+    const result = await client.query(
+      `SELECT fp.* FROM journal_entries je
+       JOIN fiscal_periods fp ON fp.ledger_id = je.ledger_id AND je.date BETWEEN fp.start_date AND fp.end_date
+       WHERE je.id = $1
+       LIMIT 1
+       FOR SHARE OF fp`,
+      [entryId]
+    );
+
+    return (result.rows[0] as FiscalPeriod | undefined) || null;
+  }
+
+  async findOverlapping(ledgerId: string, startDate: string, endDate: string): Promise<FiscalPeriod[]> {
+    return await this.db.query(
+      `SELECT * FROM fiscal_periods 
+       WHERE ledger_id = $1 AND start_date <= $3::date AND end_date >= $2::date 
+       ORDER BY start_date`,
+      [ledgerId, startDate, endDate]
+    ) as FiscalPeriod[];
+  }
+
+  /**
+   * Change a period's status and record who did it, in one transaction
+   * The update only applies if the period is still in the expected status
+   */
+  async transitionStatus(
+    id: string,
+    fromStatus: FiscalPeriodStatus,
+    toStatus: FiscalPeriodStatus,
+    action: FiscalPeriodAction,
+    apiKeyId: string | null,
+    reason: string | null
+  ): Promise<FiscalPeriod> {
+    return await this.db.transaction(async (client) => {
+      const result = await client.query(
+        `UPDATE fiscal_periods 
+         SET status = $3, updated_at = CURRENT_TIMESTAMP 
+         WHERE id = $1 AND status = $2 
+         RETURNING *`,
+        [id, fromStatus, toStatus]
+      );
+
+      if (result.rows.length === 0) {
+        throw new ConflictError(`Fiscal period '${id}' is no longer in status '${fromStatus}'`);
+      }
+
+      await client.query(
+        `INSERT INTO fiscal_period_events (period_id, action, from_status, to_status, reason, api_key_id) 
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [id, action, fromStatus, toStatus, reason, apiKeyId]
+      );
+
+      return result.rows[0] as FiscalPeriod;
+    });
+  }
+
+  async findEvents(periodId: string): Promise<FiscalPeriodEvent[]> {
+    return await this.db.query(
+      'SELECT * FROM fiscal_period_events WHERE period_id = $1 ORDER BY created_at',
+      [periodId]
+    ) as FiscalPeriodEvent[];
+  }
+}
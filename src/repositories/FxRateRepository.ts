@@ -0,0 +1,116 @@
+import { Database } from '../config/database.js';
+import { FxRate, CreateFxRateRequest, ConflictError } from '../models/types.js';
+import { v4 as uuidv4 } from 'uuid';
+
+// NUMERIC rates are returned as JS numbers
+const FX_RATE_COLUMNS = 'id, from_currency, to_currency, rate::float8 as rate, rate_date, created_at, updated_at';
+
+export class FxRateRepository {
+  private db: Database;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  async create(rateData: CreateFxRateRequest): Promise<FxRate> {
+    try {
+      const result = await this.db.query(
+        `INSERT INTO fx_rates (id, from_currency, to_currency, rate, rate_date, created_at, updated_at) 
+         VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP) 
+         RETURNING ${FX_RATE_COLUMNS}`,
+        [uuidv4(), rateData.from_currency, rateData.to_currency, rateData.rate, rateData.rate_date]
+      ) as FxRate[];
+
+      return result[0]!;
+    } catch (error: any) {
+      if (error.code === '23505') { // Unique violation
+        throw new ConflictError(
+          `A ${rateData.from_currency}/${rateData.to_currency} rate for ${rateData.rate_date} already exists`
+        );
+      }
+      throw error;
+    }
+  }
+
+  async findById(id: string): Promise<FxRate | null> {
+    const result = await this.db.query(
+      `SELECT ${FX_RATE_COLUMNS} FROM fx_rates WHERE id = $1`,
+      [id]
+    ) as FxRate[];
+
+    return result[0] || null;
+  }
+
+  async findAll(filters: {
+    from_currency?: string;
+    to_currency?: string;
+    from?: string;
+    to?: string;
+  } = {}): Promise<FxRate[]> {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (filters.from_currency) {
+      params.push(filters.from_currency);
+      conditions.push(`from_currency = $${params.length}`);
+    }
+
+    if (filters.to_currency) {
+      params.push(filters.to_currency);
+      conditions.push(`to_currency = $${params.length}`);
+    }
+
+    if (filters.from) {
+      params.push(filters.from);
+      conditions.push(`rate_date >= $${params.length}`);
+    }
+
+    if (filters.to) {
+      params.push(filters.to);
+      conditions.push(`rate_date <= $${params.length}`);
+    }
+
+    let query = `SELECT ${FX_RATE_COLUMNS} FROM fx_rates`;
+    if (conditions.length > 0) {
+      query += ` WHERE ${conditions.join(' AND ')}`;
+    }
+    query += ' ORDER BY from_currency, to_currency, rate_date DESC';
+
+    return await this.db.query(query, params) as FxRate[];
+  }
+
+  /**
+   * Most recent rate for a currency pair on or before the given date
+   */
+  async findEffective(fromCurrency: string, toCurrency: string, date: string): Promise<FxRate | null> {
+    const result = await this.db.query(
+      `SELECT ${FX_RATE_COLUMNS} FROM fx_rates 
+       WHERE from_currency = $1 AND to_currency = $2 AND rate_date <= $3 
+       ORDER BY rate_date DESC 
+       LIMIT 1`,
+      [fromCurrency, toCurrency, date]
+    ) as FxRate[];
+
+    return result[0] || null;
+  }
+
+  async update(id: string, rate: number): Promise<FxRate | null> {
+    const result = await this.db.query(
+      `UPDATE fx_rates SET rate = $2, updated_at = CURRENT_TIMESTAMP 
+       WHERE id = $1 
+       RETURNING ${FX_RATE_COLUMNS}`,
+      [id, rate]
+    ) as FxRate[];
+
+    return result[0] || null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.db.query(
+      'DELETE FROM fx_rates WHERE id = $1 RETURNING id',
+      [id]
+    ) as { id: string }[];
+
+    return result.length > 0;
+  }
+}
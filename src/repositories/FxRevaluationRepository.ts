@@ -0,0 +1,62 @@
+import { Database } from '../config/database.js';
+import { FxRevaluation, ConflictError } from '../models/types.js';
+
+export class FxRevaluationRepository {
+  private db: Database;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  async create(
+    ledgerId: string,
+    asOf: string,
+    entryId: string,
+    reversalDate: string,
+    createdBy: string | null
+  ): Promise<FxRevaluation> {
+    const result = await this.db.query(
+      `INSERT INTO fx_revaluations (ledger_id, as_of, entry_id, reversal_date, created_by) 
+       VALUES ($1, $2, $3, $4, $5) 
+       RETURNING *`,
+      [ledgerId, asOf, entryId, reversalDate, createdBy]
+    ) as FxRevaluation[];
+
+    return result[0]!;
+  }
+
+  async findAll(ledgerId: string): Promise<FxRevaluation[]> {
+    return await this.db.query(
+      'SELECT * FROM fx_revaluations WHERE ledger_id = $1 ORDER BY as_of DESC, created_at DESC',
+      [ledgerId]
+    ) as FxRevaluation[];
+  }
+
+  /**
+   * Revaluations whose reversal date has been reached but that are not reversed yet
+   */
+  async findDueReversals(ledgerId: string, date: string): Promise<FxRevaluation[]> {
+    return await this.db.query(
+      `SELECT * FROM fx_revaluations 
+       WHERE ledger_id = $1 AND reversal_entry_id IS NULL AND reversal_date <= $2::date 
+       ORDER BY reversal_date, created_at`,
+      [ledgerId, date]
+    ) as FxRevaluation[];
+  }
+
+  async setReversalEntry(id: string, reversalEntryId: string): Promise<FxRevaluation> {
+    const result = await this.db.query(
+      `UPDATE fx_revaluations 
+       SET reversal_entry_id = $2 
+       WHERE id = $1 AND reversal_entry_id IS NULL 
+       RETURNING *`,
+      [id, reversalEntryId]
+    ) as FxRevaluation[];
+
+    if (result.length === 0) {
+      throw new ConflictError(`FX revaluation '${id}' has already been reversed`);
+    }
+
+    return result[0]!;
+  }
+}
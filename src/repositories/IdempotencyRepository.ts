@@ -1,6 +1,5 @@
 import { Database } from '../config/database.js';
-import { IdempotencyRecord, ConflictError } from '../models/types.js';
-import { createHash } from 'crypto';
+import { IdempotencyRecord, IdempotencyReservation, ConflictError } from '../models/types.js';
 
 export class IdempotencyRepository {
   private db: Database;
@@ -9,66 +8,119 @@ export class IdempotencyRepository {
     this.db = Database.getInstance();
   }
 
-  async findByKey(key: string): Promise<IdempotencyRecord | null> {
+  async findByKey(apiKeyId: string, key: string): Promise<IdempotencyRecord | null> {
     const result = await this.db.query(
-      'SELECT * FROM idempotency_keys WHERE key = $1',
-      [key]
+      'SELECT * FROM idempotency_keys WHERE api_key_id = $1 AND key = $2',
+      [apiKeyId, key]
     ) as IdempotencyRecord[];
 
     return result[0] || null;
   }
 
-  async create(key: string, requestBody: unknown, entryId: string): Promise<IdempotencyRecord> {
-    const requestHash = this.hashRequest(requestBody);
-    
-    try {
-      const result = await this.db.query(
-        `INSERT INTO idempotency_keys (key, request_hash, entry_id, created_at) 
-         VALUES ($1, $2, $3, CURRENT_TIMESTAMP) 
-         RETURNING *`,
-        [key, requestHash, entryId]
-      ) as IdempotencyRecord[];
-
-      return result[0]!;
-    } catch (error: any) {
-      if (error.code === '23505') { // Unique violation
-        throw new ConflictError(`Idempotency key '${key}' already exists`);
-      }
-      throw error;
-    }
+  /**
+   * Reserve a key for a request; returns null when the key already has a record
+   */
+  async reserve(
+    record: Pick<IdempotencyRecord, 'api_key_id' | 'key' | 'ledger_id' | 'endpoint' | 'request_hash'>,
+    lockToken: string,
+    lockSeconds: number
+  ): Promise<IdempotencyRecord | null> {
+    const result = await this.db.query(
+      `INSERT INTO idempotency_keys
+       (api_key_id, key, ledger_id, endpoint, request_hash, status, lock_token, locked_until, created_at)
+       VALUES ($1, $2, $3, $4, $5, 'in_progress', $6, CURRENT_TIMESTAMP + make_interval(secs => $7), CURRENT_TIMESTAMP)
+       ON CONFLICT (api_key_id, key) DO NOTHING
+       RETURNING *`,
+      [record.api_key_id, record.key, record.ledger_id, record.endpoint, record.request_hash, lockToken, lockSeconds]
+    ) as IdempotencyRecord[];
+
+    return result[0] || null;
   }
 
-  async validateRequest(key: string, requestBody: unknown): Promise<{ isValid: boolean; entryId?: string; message?: string }> {
-    const existingRecord = await this.findByKey(key);
-    
-    if (!existingRecord) {
-      return { isValid: true };
-    }
+  /**
+   * Take over an in-progress reservation whose lock expired (its request stopped without releasing it)
+   */
+  async takeOver(apiKeyId: string, key: string, lockToken: string, lockSeconds: number): Promise<IdempotencyRecord | null> {
+    const result = await this.db.query(
+      `UPDATE idempotency_keys
+       SET lock_token = $3, locked_until = CURRENT_TIMESTAMP + make_interval(secs => $4)
+       WHERE api_key_id = $1 AND key = $2 AND status = 'in_progress' AND locked_until <= CURRENT_TIMESTAMP
+       RETURNING *`,
+      [apiKeyId, key, lockToken, lockSeconds]
+    ) as IdempotencyRecord[];
 
-    const currentRequestHash = this.hashRequest(requestBody);
-    
-    if (existingRecord.request_hash === currentRequestHash) {
-      // Same request - this is idempotent, return the existing entry
-      return { 
-        isValid: true, 
-        entryId: existingRecord.entry_id 
-      };
-    } else {
-      // Different request with same idempotency key - this is an error
-      return { 
-        isValid: false, 
-        message: `Idempotency key '${key}' already used with different request data` 
-      };
-    }
+    return result[0] || null;
   }
 
-  async exists(key: string): Promise<boolean> {
+  /**
+   * Reserve a completed record that has no stored response (kept from before responses were
+   * stored) for a retry, which returns the entries it recorded and stores the response
+   */
+  async reopen(
+    apiKeyId: string,
+    key: string,
+    requestHash: string,
+    lockToken: string,
+    lockSeconds: number
+  ): Promise<IdempotencyRecord | null> {
     const result = await this.db.query(
-      'SELECT 1 FROM idempotency_keys WHERE key = $1',
-      [key]
-    ) as { '1': number }[];
+      `UPDATE idempotency_keys
+       SET status = 'in_progress', request_hash = $3, lock_token = $4,
+           locked_until = CURRENT_TIMESTAMP + make_interval(secs => $5)
+       WHERE api_key_id = $1 AND key = $2 AND status = 'completed' AND response_body IS NULL
+       RETURNING *`,
+      [apiKeyId, key, requestHash, lockToken, lockSeconds]
+    ) as IdempotencyRecord[];
 
-    return result.length > 0;
+    return result[0] || null;
+  }
+
+  async complete(
+    reservation: IdempotencyReservation,
+    response: Pick<IdempotencyRecord, 'status_code' | 'content_type' | 'response_body'>
+  ): Promise<IdempotencyRecord> {
+    const result = await this.db.query(
+      `UPDATE idempotency_keys
+       SET status = 'completed', status_code = $4, content_type = $5, response_body = $6,
+           lock_token = NULL, locked_until = NULL
+       WHERE api_key_id = $1 AND key = $2 AND lock_token = $3 AND status = 'in_progress'
+       RETURNING *`,
+      [
+        reservation.api_key_id,
+        reservation.key,
+        reservation.lock_token,
+        response.status_code,
+        response.content_type,
+        response.response_body,
+      ]
+    ) as IdempotencyRecord[];
+
+    if (!result[0]) {
+      throw new ConflictError(`Idempotency key '${reservation.key}' is no longer reserved by this request`);
+    }
+
+    return result[0];
+  }
+
+  /**
+   * Release a reservation so the request can be retried
+   * Reservations that already posted journal entries are kept and only unlocked, so that
+   * the retry returns those entries instead of posting them again
+   */
+  async release(reservation: IdempotencyReservation): Promise<void> {
+    await this.db.transaction(async (client) => {
+      await client.query(
+        `DELETE FROM idempotency_keys
+         WHERE api_key_id = $1 AND key = $2 AND lock_token = $3 AND status = 'in_progress' AND entry_ids IS NULL`,
+        [reservation.api_key_id, reservation.key, reservation.lock_token]
+      );
+
+      await client.query(
+        `UPDATE idempotency_keys SET locked_until = CURRENT_TIMESTAMP
+         WHERE api_key_id = $1 AND key = $2 AND lock_token = $3 AND status = 'in_progress'`,
+        [reservation.api_key_id, reservation.key, reservation.lock_token]
+      );
+    });
   }
 
   /**
@@ -77,22 +129,11 @@ export class IdempotencyRepository {
    */
   async cleanup(olderThanDays: number = 30): Promise<number> {
     const result = await this.db.query(
-      `DELETE FROM idempotency_keys 
+      `DELETE FROM idempotency_keys
        WHERE created_at < CURRENT_TIMESTAMP - INTERVAL '${olderThanDays} days'
        RETURNING key`
     ) as { key: string }[];
 
     return result.length;
   }
-
-  /**
-   * Hash the request body for comparison
-   * @param requestBody - The request body to hash
-   * @returns SHA-256 hash of the request
-   */
-  private hashRequest(requestBody: unknown): string {
-    const normalizedBody = JSON.stringify(requestBody, Object.keys(requestBody as object).sort());
-    return createHash('sha256').update(normalizedBody).digest('hex');
-  }
 }
-
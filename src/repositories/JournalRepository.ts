@@ -4,75 +4,480 @@ import {
   JournalLine, 
   CreateJournalEntryRequest, 
   CreateJournalLineRequest,
+  JournalEntryStatus,
   NotFoundError,
-  Account
+  ConflictError,
+  Account,
+  IntercompanyTransaction,
+  IdempotencyReservation
 } from '../models/types.js';
+import { PoolClient } from 'pg';
 import { v4 as uuidv4 } from 'uuid';
 import { Money } from '../utils/money.js';
+import { ENV } from '../config/env.js';
+import { OutboxRepository } from './OutboxRepository.js';
+import { FiscalPeriodRepository } from './FiscalPeriodRepository.js';
+
+const LINES_BY_ENTRY_SQL = `
+  SELECT jl.*, jl.exchange_rate::float8 as exchange_rate, a.code as account_code 
+  FROM journal_lines jl
+  JOIN accounts a ON jl.account_id = a.id
+  WHERE jl.entry_id = $1
+  ORDER BY jl.line_index`;
+
+/**
+ * Reviewer fields set along with a workflow status change
+ */
+export interface StatusChanges {
+  submitted_by?: string | null;
+  reviewed_by?: string | null;
+  rejection_reason?: string | null;
+}
 
 export class JournalRepository {
   private db: Database;
+  private outboxRepository: OutboxRepository;
+  private fiscalPeriodRepository: FiscalPeriodRepository;
 
   constructor() {
     this.db = Database.getInstance();
+    this.outboxRepository = new OutboxRepository();
+    this.fiscalPeriodRepository = new FiscalPeriodRepository();
   }
 
   async create(
+    ledgerId: string,
     entryData: CreateJournalEntryRequest, 
+    accounts: Account[],
+    status: JournalEntryStatus = 'posted',
+    submittedBy: string | null = null,
+    createdBy: string | null = null,
+    reservation?: IdempotencyReservation
+  ): Promise<JournalEntry> {
+    return await this.db.transaction(async (client) => {
+      const entry = await this.insertEntry(
+        client, ledgerId, entryData, this.buildAccountMap(accounts), status, submittedBy, createdBy
+      );
+      await this.recordPostings(client, [entry]);
+
+      if (reservation) {
+        await this.claimReservation(client, reservation, [entry.id]);
+      }
+
+      return entry;
+    });
+  }
+
+  /**
+   * Create many journal entries in a single transaction (all-or-nothing)
+   */
+  async createMany(
+    ledgerId: string,
+    entries: { data: CreateJournalEntryRequest; status: JournalEntryStatus }[],
+    accounts: Account[],
+    submittedBy: string | null = null,
+    createdBy: string | null = null,
+    reservation?: IdempotencyReservation
+  ): Promise<JournalEntry[]> {
+    return await this.db.transaction(async (client) => {
+      const accountMap = this.buildAccountMap(accounts);
+      const created: JournalEntry[] = [];
+
+      for (const entry of entries) {
+        created.push(
+          await this.insertEntry(client, ledgerId, entry.data, accountMap, entry.status, submittedBy, createdBy)
+        );
+      }
+      await this.recordPostings(client, created);
+
+      if (reservation) {
+        await this.claimReservation(client, reservation, created.map(entry => entry.id));
+      }
+
+      return created;
+    });
+  }
+
+  /**
+   * Create both sides of an intercompany entry in the same status and link them, in a single transaction
+   * The idempotency reservation, if any, is claimed with the ids of both sides in that transaction
+   */
+  async createIntercompany(
+    side: { ledgerId: string; data: CreateJournalEntryRequest; accounts: Account[]; receivableAccountId: string },
+    counterparty: { ledgerId: string; data: CreateJournalEntryRequest; accounts: Account[]; payableAccountId: string },
+    amountCents: number,
+    status: 'submitted' | 'posted',
+    createdBy: string | null = null,
+    reservation?: IdempotencyReservation
+  ): Promise<{ intercompany: IntercompanyTransaction; entry: JournalEntry; counterpartyEntry: JournalEntry }> {
+    return await this.db.transaction(async (client) => {
+      const entry = await this.insertEntry(
+        client, side.ledgerId, side.data, this.buildAccountMap(side.accounts), status, createdBy, createdBy
+      );
+      const counterpartyEntry = await this.insertEntry(
+        client,
+        counterparty.ledgerId,
+        counterparty.data,
+        this.buildAccountMap(counterparty.accounts),
+        status,
+        createdBy,
+        createdBy
+      );
+
+      const result = await client.query(
+        `INSERT INTO intercompany_transactions 
+         (ledger_id, counterparty_ledger_id, entry_id, counterparty_entry_id, 
+          receivable_account_id, payable_account_id, amount_cents, date, created_by) 
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) 
+         RETURNING *`,
+        [
+          side.ledgerId,
+          counterparty.ledgerId,
+          entry.id,
+          counterpartyEntry.id,
+          side.receivableAccountId,
+          counterparty.payableAccountId,
+          amountCents,
+          side.data.date,
+          createdBy,
+        ]
+      );
+      await this.recordPostings(client, [entry, counterpartyEntry]);
+
+      if (reservation) {
+        await this.claimReservation(client, reservation, [entry.id, counterpartyEntry.id]);
+      }
+
+      return { intercompany: result.rows[0] as IntercompanyTransaction, entry, counterpartyEntry };
+    });
+  }
+
+  /**
+   * Intercompany transactions where the ledger is either side
+   */
+  async findIntercompanyTransactions(ledgerId: string): Promise<IntercompanyTransaction[]> {
+    return await this.db.query(
+      `SELECT * FROM intercompany_transactions 
+       WHERE ledger_id = $1 OR counterparty_ledger_id = $1 
+       ORDER BY date DESC, created_at DESC`,
+      [ledgerId]
+    ) as IntercompanyTransaction[];
+  }
+
+  /**
+   * Intercompany transaction that the entry is either side of
+   */
+  async findIntercompanyByEntry(entryId: string): Promise<IntercompanyTransaction | null> {
+    const result = await this.db.query(
+      'SELECT * FROM intercompany_transactions WHERE entry_id = $1 OR counterparty_entry_id = $1',
+      [entryId]
+    ) as IntercompanyTransaction[];
+
+    return result[0] ?? null;
+  }
+
+  /**
+   * Replace the content (date, narration and lines) of a draft entry
+   */
+  async replaceDraft(
+    ledgerId: string,
+    id: string,
+    entryData: CreateJournalEntryRequest,
     accounts: Account[]
   ): Promise<JournalEntry> {
     return await this.db.transaction(async (client) => {
-      const entryId = uuidv4();
-      
-      // Create the journal entry
       const entryResult = await client.query(
-        `INSERT INTO journal_entries (id, date, narration, reverses_entry_id, posted_at) 
-         VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP) 
+        `UPDATE journal_entries 
+         SET date = $2, narration = $3, reverses_entry_id = $4, is_adjusting = $5 
+         WHERE id = $1 AND ledger_id = $6 AND status = 'draft' 
          RETURNING *`,
-        [entryId, entryData.date, entryData.narration, entryData.reverses_entry_id || null]
+        [
+          id,
+          entryData.date,
+          entryData.narration,
+          entryData.reverses_entry_id || null,
+          entryData.adjusting ?? false,
+          ledgerId,
+        ]
       );
 
+      if (entryResult.rows.length === 0) {
+        throw new ConflictError(`Journal entry '${id}' is not a draft and cannot be edited`);
+      }
+
+      await client.query('DELETE FROM journal_lines WHERE entry_id = $1', [id]);
+
       const journalEntry = entryResult.rows[0] as JournalEntry;
+      journalEntry.lines = await this.insertLines(client, id, entryData, this.buildAccountMap(accounts));
+      return journalEntry;
+    });
+  }
+
+  /**
+   * Move an entry from one workflow status to another
+   * The update only applies if the entry is still in the expected status,
+   * so two reviewers acting at the same time cannot both succeed
+   */
+  async transitionStatus(
+    ledgerId: string,
+    id: string,
+    fromStatus: JournalEntryStatus,
+    toStatus: JournalEntryStatus,
+    changes: StatusChanges = {}
+  ): Promise<JournalEntry> {
+    const [entry] = await this.transitionStatusTogether([{ ledgerId, id }], fromStatus, toStatus, changes);
+    return entry!;
+  }
+
+  /**
+   * Move entries that go through the workflow as one (the two sides of an intercompany
+   * entry) from one status to another in a single transaction
+   * If any of them is no longer in the expected status, none of them moves
+   */
+  async transitionStatusTogether(
+    entries: { ledgerId: string; id: string }[],
+    fromStatus: JournalEntryStatus,
+    toStatus: JournalEntryStatus,
+    changes: StatusChanges = {}
+  ): Promise<JournalEntry[]> {
+    const assignments = ['status = $4'];
+    const params: (string | null)[] = [fromStatus, toStatus];
 
-      // Create account lookup map
-      const accountMap = new Map<string, Account>();
-      accounts.forEach(account => {
-        accountMap.set(account.code, account);
-      });
-
-      // Create journal lines
-      const lines: JournalLine[] = [];
-      for (let i = 0; i < entryData.lines.length; i++) {
-        const lineData = entryData.lines[i]!;
-        const account = accountMap.get(lineData.account_code)!;
-        
-        const lineId = uuidv4();
-        const debitCents = Money.toCents(lineData.debit || 0);
-        const creditCents = Money.toCents(lineData.credit || 0);
-
-        const lineResult = await client.query(
-          `INSERT INTO journal_lines 
-           (id, entry_id, account_id, debit_cents, credit_cents, line_index) 
-           VALUES ($1, $2, $3, $4, $5, $6) 
+    if (changes.submitted_by !== undefined) {
+      params.push(changes.submitted_by);
+      assignments.push(`submitted_by = $${params.length + 2}`, 'submitted_at = CURRENT_TIMESTAMP');
+    }
+
+    if (changes.reviewed_by !== undefined) {
+      params.push(changes.reviewed_by);
+      assignments.push(`reviewed_by = $${params.length + 2}`, 'reviewed_at = CURRENT_TIMESTAMP');
+    }
+
+    if (changes.rejection_reason !== undefined) {
+      params.push(changes.rejection_reason);
+      assignments.push(`rejection_reason = $${params.length + 2}`);
+    }
+
+    if (toStatus === 'posted') {
+      assignments.push('posted_at = CURRENT_TIMESTAMP');
+    }
+
+    await this.db.transaction(async (client) => {
+      const moved: JournalEntry[] = [];
+
+      for (const { ledgerId, id } of entries) {
+        const result = await client.query(
+          `UPDATE journal_entries 
+           SET ${assignments.join(', ')} 
+           WHERE id = $1 AND ledger_id = $2 AND status = $3 
            RETURNING *`,
-          [lineId, entryId, account.id, debitCents, creditCents, i]
+          [id, ledgerId, ...params]
         );
 
-        const line = lineResult.rows[0] as JournalLine;
-        line.account_code = account.code;
-        lines.push(line);
+        if (result.rows.length === 0) {
+          throw new ConflictError(`Journal entry '${id}' is no longer in status '${fromStatus}'`);
+        }
+
+        const entry = result.rows[0] as JournalEntry;
+        if (toStatus === 'posted') {
+          entry.lines = (await client.query(LINES_BY_ENTRY_SQL, [id])).rows as JournalLine[];
+        }
+        moved.push(entry);
       }
 
-      journalEntry.lines = lines;
-      return journalEntry;
+      await this.recordPostings(client, moved);
+    });
+
+    return await Promise.all(entries.map(async ({ ledgerId, id }) => (await this.findById(ledgerId, id))!));
+  }
+
+  private buildAccountMap(accounts: Account[]): Map<string, Account> {
+    const accountMap = new Map<string, Account>();
+    accounts.forEach(account => {
+      accountMap.set(account.code, account);
     });
+    return accountMap;
+  }
+
+  /**
+   * Link posted entries to the idempotency reservation of the request, in the posting transaction
+   * Fails (rolling the entries back) when the reservation expired and a retry took it over
+   *
+   * The key is reserved before the request runs (IdempotencyMiddleware), in a statement of its
+   * own, so that a duplicate is turned away before any work is done. That is safe because the
+   * entries and this link commit together:
+   * - a request that stops before the commit posted nothing; a retry takes the expired
+   *   reservation over and posts
+   * - a request that stops after the commit left its entry_ids on the reservation; the retry
+   *   that takes it over returns those entries (JournalService.findRecoveredEntries)
+   * - a request still running when a retry took its reservation over no longer holds the lock
+   *   token, so this update matches nothing and its entries roll back
+   * A takeover waits for the row lock taken here, so it sees the entry_ids of a committing posting.
+   */
+  private async claimReservation(
+    client: PoolClient,
+    reservation: IdempotencyReservation,
+    entryIds: string[]
+  ): Promise<void> {
+    const result = await client.query(
+      `UPDATE idempotency_keys SET entry_ids = $4
+       WHERE api_key_id = $1 AND key = $2 AND lock_token = $3 AND status = 'in_progress'`,
+      [reservation.api_key_id, reservation.key, reservation.lock_token, entryIds]
+    );
+
+    if (result.rowCount === 0) {
+      throw new ConflictError(
+        `Idempotency key '${reservation.key}' is no longer reserved by this request; nothing was posted`
+      );
+    }
+  }
+
+  /**
+   * Insert a journal entry and its lines using the given transaction client
+   */
+  private async insertEntry(
+    client: PoolClient,
+    ledgerId: string,
+    entryData: CreateJournalEntryRequest,
+    accountMap: Map<string, Account>,
+    status: JournalEntryStatus,
+    submittedBy: string | null,
+    createdBy: string | null
+  ): Promise<JournalEntry> {
+    const entryId = uuidv4();
+
+    // Create the journal entry (posted_at stays empty until the entry is posted)
+    const entryResult = await client.query(
+      `INSERT INTO journal_entries 
+       (id, ledger_id, date, narration, reverses_entry_id, is_adjusting, status, posted_at, 
+        submitted_by, submitted_at, created_by) 
+       VALUES (
+         $1, $2, $3, $4, $5, $6, $7,
+         CASE WHEN $7 = 'posted' THEN CURRENT_TIMESTAMP END,
+         $8,
+         CASE WHEN $8::uuid IS NOT NULL THEN CURRENT_TIMESTAMP END,
+         $9
+       ) 
+       RETURNING *`,
+      [
+        entryId,
+        ledgerId,
+        entryData.date,
+        entryData.narration,
+        entryData.reverses_entry_id || null,
+        entryData.adjusting ?? false,
+        status,
+        submittedBy,
+        createdBy,
+      ]
+    );
+
+    const journalEntry = entryResult.rows[0] as JournalEntry;
+    journalEntry.lines = await this.insertLines(client, entryId, entryData, accountMap);
+    return journalEntry;
+  }
+
+  /**
+   * Check the fiscal periods of the posted entries, assign them feed sequence numbers and
+   * write their outbox events, at the end of the posting transaction
+   * Incrementing the ledger's counter locks its row until commit, so postings to a ledger
+   * commit in sequence order; ledgers are locked in a fixed order to avoid deadlocks
+   */
+  private async recordPostings(client: PoolClient, entries: JournalEntry[]): Promise<void> {
+    const posted = entries
+      .filter(entry => entry.status === 'posted')
+      .sort((a, b) => a.ledger_id.localeCompare(b.ledger_id));
+
+    for (const entry of posted) {
+      await this.assertPeriodOpen(client, entry);
+    }
+
+    for (const entry of posted) {
+      const result = await client.query(
+        'UPDATE ledgers SET feed_sequence = feed_sequence + 1 WHERE id = $1 RETURNING feed_sequence',
+        [entry.ledger_id]
+      );
+      entry.sequence = (result.rows[0] as { feed_sequence: number }).feed_sequence;
+
+      await client.query(
+        'UPDATE journal_entries SET sequence = $2 WHERE id = $1',
+        [entry.id, entry.sequence]
+      );
+    }
+
+    for (const entry of entries.filter(entry => entry.status === 'posted')) {
+      await this.outboxRepository.insert(client, entry.ledger_id, 'journal_entry.posted', { entry });
+
+      if (entry.reverses_entry_id) {
+        await this.outboxRepository.insert(client, entry.ledger_id, 'journal_entry.reversed', {
+          reversed_entry_id: entry.reverses_entry_id,
+          entry,
+        });
+      }
+    }
+  }
+
+  /**
+   * Re-check the period lock inside the posting transaction
+   * The services check it before posting, but a period closed in the meantime would
+   * otherwise still receive the entry; the share lock holds off a close until commit
+   */
+  private async assertPeriodOpen(client: PoolClient, entry: JournalEntry): Promise<void> {
+    const period = await this.fiscalPeriodRepository.lockForEntry(client, entry.id);
+    if (!period || period.status === 'open' || (period.status === 'soft_closed' && entry.is_adjusting)) {
+      return;
+    }
+
+    throw new ConflictError(
+      `Fiscal period '${period.name}' was ${period.status === 'closed' ? 'closed' : 'soft-closed'} ` +
+      `while journal entry '${entry.id}' was being posted; nothing was posted`
+    );
   }
 
-  async findById(id: string): Promise<JournalEntry | null> {
+  private async insertLines(
+    client: PoolClient,
+    entryId: string,
+    entryData: CreateJournalEntryRequest,
+    accountMap: Map<string, Account>
+  ): Promise<JournalLine[]> {
+    const lines: JournalLine[] = [];
+    for (let i = 0; i < entryData.lines.length; i++) {
+      const lineData = entryData.lines[i]!;
+      const account = accountMap.get(lineData.account_code)!;
+      
+      const lineId = uuidv4();
+      const currency = lineData.currency || ENV.DEFAULT_CURRENCY;
+      const exchangeRate = lineData.exchange_rate ?? 1;
+
+      // Line amounts are given in the line currency; balances are kept in the base currency
+      const isDebit = Money.toCents(lineData.debit || 0, currency) > 0;
+      const transactionCents = Money.toCents((isDebit ? lineData.debit : lineData.credit) || 0, currency);
+      const baseCents = Money.convert(transactionCents, exchangeRate, currency);
+      const debitCents = isDebit ? baseCents : 0;
+      const creditCents = isDebit ? 0 : baseCents;
+
+      const lineResult = await client.query(
+        `INSERT INTO journal_lines 
+         (id, entry_id, account_id, debit_cents, credit_cents, currency, transaction_amount_cents, exchange_rate, line_index) 
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) 
+         RETURNING *`,
+        [lineId, entryId, account.id, debitCents, creditCents, currency, transactionCents, exchangeRate, i]
+      );
+
+      const line = lineResult.rows[0] as JournalLine;
+      line.account_code = account.code;
+      line.exchange_rate = exchangeRate;
+      lines.push(line);
+    }
+
+    return lines;
+  }
+
+  async findById(ledgerId: string, id: string): Promise<JournalEntry | null> {
     // Get the journal entry
     const entryResult = await this.db.query(
-      'SELECT * FROM journal_entries WHERE id = $1',
-      [id]
+      'SELECT * FROM journal_entries WHERE id = $1 AND ledger_id = $2',
+      [id, ledgerId]
     ) as JournalEntry[];
 
     if (entryResult.length === 0) {
@@ -82,20 +487,33 @@ export class JournalRepository {
     const entry = entryResult[0]!;
 
     // Get the journal lines with account information
-    const linesResult = await this.db.query(
-      `SELECT jl.*, a.code as account_code 
-       FROM journal_lines jl
-       JOIN accounts a ON jl.account_id = a.id
-       WHERE jl.entry_id = $1
-       ORDER BY jl.line_index`,
-      [id]
-    ) as JournalLine[];
+    const linesResult = await this.db.query(LINES_BY_ENTRY_SQL, [id]) as JournalLine[];
 
     entry.lines = linesResult;
     return entry;
   }
 
-  async findAll(limit?: number, offset?: number): Promise<JournalEntry[]> {
+  /**
+   * Posted entries with a sequence number after the cursor, in sequence (commit) order
+   */
+  async findFeed(ledgerId: string, after: number, limit: number): Promise<JournalEntry[]> {
+    const rows = await this.db.query(
+      `SELECT id FROM journal_entries
+       WHERE ledger_id = $1 AND sequence > $2
+       ORDER BY sequence
+       LIMIT $3`,
+      [ledgerId, after, limit]
+    ) as { id: string }[];
+
+    return await this.findByIds(ledgerId, rows.map(row => row.id));
+  }
+
+  async findAll(
+    ledgerId: string,
+    limit?: number,
+    offset?: number,
+    status?: JournalEntryStatus
+  ): Promise<JournalEntry[]> {
     let query = `
       SELECT je.*, 
              json_agg(
@@ -106,17 +524,26 @@ export class JournalRepository {
                  'account_code', a.code,
                  'debit_cents', jl.debit_cents,
                  'credit_cents', jl.credit_cents,
+                 'currency', jl.currency,
+                 'transaction_amount_cents', jl.transaction_amount_cents,
+                 'exchange_rate', jl.exchange_rate::float8,
                  'line_index', jl.line_index
                ) ORDER BY jl.line_index
              ) as lines
       FROM journal_entries je
       LEFT JOIN journal_lines jl ON je.id = jl.entry_id
       LEFT JOIN accounts a ON jl.account_id = a.id
-      GROUP BY je.id
-      ORDER BY je.date DESC, je.posted_at DESC
+      WHERE je.ledger_id = $1
     `;
 
-    const params: number[] = [];
+    const params: (number | string)[] = [ledgerId];
+
+    if (status) {
+      params.push(status);
+      query += ` AND je.status = $${params.length}`;
+    }
+
+    query += ' GROUP BY je.id ORDER BY je.date DESC, je.posted_at DESC';
     
     if (limit) {
       params.push(limit);
@@ -128,25 +555,60 @@ export class JournalRepository {
       query += ` OFFSET $${params.length}`;
     }
 
-    const result = await this.db.query(query, params) as (JournalEntry & { lines: string })[];
-    
-    return result.map(entry => ({
-      ...entry,
-      lines: JSON.parse(entry.lines) as JournalLine[]
-    }));
+    return await this.db.query(query, params) as (JournalEntry & { lines: JournalLine[] })[];
   }
 
-  async exists(id: string): Promise<boolean> {
+  /**
+   * Find several journal entries by ID, returned in the order of the given IDs
+   */
+  async findByIds(ledgerId: string, ids: string[]): Promise<JournalEntry[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
     const result = await this.db.query(
-      'SELECT 1 FROM journal_entries WHERE id = $1',
-      [id]
+      `SELECT je.*, 
+             json_agg(
+               json_build_object(
+                 'id', jl.id,
+                 'entry_id', jl.entry_id,
+                 'account_id', jl.account_id,
+                 'account_code', a.code,
+                 'debit_cents', jl.debit_cents,
+                 'credit_cents', jl.credit_cents,
+                 'currency', jl.currency,
+                 'transaction_amount_cents', jl.transaction_amount_cents,
+                 'exchange_rate', jl.exchange_rate::float8,
+                 'line_index', jl.line_index
+               ) ORDER BY jl.line_index
+             ) as lines
+       FROM journal_entries je
+       LEFT JOIN journal_lines jl ON je.id = jl.entry_id
+       LEFT JOIN accounts a ON jl.account_id = a.id
+       WHERE je.id = ANY($1::uuid[]) AND je.ledger_id = $2
+       GROUP BY je.id`,
+      [ids, ledgerId]
+    ) as (JournalEntry & { lines: JournalLine[] })[];
+
+    // pg parses the json_agg column, so the lines arrive as an array
+    const entriesById = new Map<string, JournalEntry>(result.map(entry => [entry.id, entry]));
+
+    return ids
+      .map(id => entriesById.get(id))
+      .filter((entry): entry is JournalEntry => entry !== undefined);
+  }
+
+  async exists(ledgerId: string, id: string): Promise<boolean> {
+    const result = await this.db.query(
+      'SELECT 1 FROM journal_entries WHERE id = $1 AND ledger_id = $2',
+      [id, ledgerId]
     ) as { '1': number }[];
 
     return result.length > 0;
   }
 
-  async findByDateRange(from: Date, to: Date): Promise<JournalEntry[]> {
-    const result = await this.db.query(
+  async findByDateRange(ledgerId: string, from: Date, to: Date): Promise<JournalEntry[]> {
+    return await this.db.query(
       `SELECT je.*, 
              json_agg(
                json_build_object(
@@ -156,22 +618,20 @@ export class JournalRepository {
                  'account_code', a.code,
                  'debit_cents', jl.debit_cents,
                  'credit_cents', jl.credit_cents,
+                 'currency', jl.currency,
+                 'transaction_amount_cents', jl.transaction_amount_cents,
+                 'exchange_rate', jl.exchange_rate::float8,
                  'line_index', jl.line_index
                ) ORDER BY jl.line_index
              ) as lines
        FROM journal_entries je
        LEFT JOIN journal_lines jl ON je.id = jl.entry_id
        LEFT JOIN accounts a ON jl.account_id = a.id
-       WHERE je.date >= $1 AND je.date <= $2
+       WHERE je.ledger_id = $1 AND je.date >= $2 AND je.date <= $3
        GROUP BY je.id
        ORDER BY je.date, je.posted_at`,
-      [from, to]
-    ) as (JournalEntry & { lines: string })[];
-
-    return result.map(entry => ({
-      ...entry,
-      lines: JSON.parse(entry.lines) as JournalLine[]
-    }));
+      [ledgerId, from, to]
+    ) as (JournalEntry & { lines: JournalLine[] })[];
   }
 }
 
@@ -0,0 +1,70 @@
+import { Database } from '../config/database.js';
+import { Ledger, CreateLedgerRequest, ConflictError } from '../models/types.js';
+import { v4 as uuidv4 } from 'uuid';
+
+export class LedgerRepository {
+  private db: Database;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  /**
+   * Create a ledger and bind it to the API key that created it, in one transaction
+   */
+  async create(ledgerData: CreateLedgerRequest, apiKeyId: string): Promise<Ledger> {
+    try {
+      return await this.db.transaction(async (client) => {
+        const id = uuidv4();
+
+        const result = await client.query(
+          `INSERT INTO ledgers (id, code, name, created_at, updated_at) 
+           VALUES ($1, $2, $3, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP) 
+           RETURNING *`,
+          [id, ledgerData.code, ledgerData.name]
+        );
+
+        await client.query(
+          'INSERT INTO api_key_ledgers (api_key_id, ledger_id) VALUES ($1, $2)',
+          [apiKeyId, id]
+        );
+
+        return result.rows[0] as Ledger;
+      });
+    } catch (error: any) {
+      if (error.code === '23505') { // Unique violation
+        throw new ConflictError(`Ledger with code '${ledgerData.code}' already exists`);
+      }
+      throw error;
+    }
+  }
+
+  async findById(id: string): Promise<Ledger | null> {
+    const result = await this.db.query(
+      'SELECT * FROM ledgers WHERE id = $1',
+      [id]
+    ) as Ledger[];
+
+    return result[0] || null;
+  }
+
+  async findByCode(code: string): Promise<Ledger | null> {
+    const result = await this.db.query(
+      'SELECT * FROM ledgers WHERE code = $1',
+      [code]
+    ) as Ledger[];
+
+    return result[0] || null;
+  }
+
+  async findByIds(ids: string[]): Promise<Ledger[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    return await this.db.query(
+      'SELECT * FROM ledgers WHERE id = ANY($1::uuid[]) ORDER BY code',
+      [ids]
+    ) as Ledger[];
+  }
+}
@@ -0,0 +1,67 @@
+import { Database } from '../config/database.js';
+import { OutboxEvent, WebhookEventType } from '../models/types.js';
+import { PoolClient } from 'pg';
+
+export class OutboxRepository {
+  private db: Database;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  /**
+   * Record an event using the transaction client of the change it describes,
+   * so that the event exists if and only if the change is committed
+   */
+  async insert(
+    client: PoolClient,
+    ledgerId: string,
+    eventType: WebhookEventType,
+    payload: Record<string, unknown>
+  ): Promise<OutboxEvent> {
+    const result = await client.query(
+      `INSERT INTO outbox_events (ledger_id, event_type, payload)
+       VALUES ($1, $2, $3)
+       RETURNING *`,
+      [ledgerId, eventType, JSON.stringify(payload)]
+    );
+
+    return result.rows[0] as OutboxEvent;
+  }
+
+  /**
+   * Create a delivery for every active endpoint subscribed to the oldest undispatched events
+   * Events are locked while they are dispatched, so concurrent dispatchers skip them
+   * @returns Number of events dispatched
+   */
+  async dispatchPending(limit: number): Promise<number> {
+    return await this.db.transaction(async (client) => {
+      const events = (await client.query(
+        `SELECT id, ledger_id, event_type FROM outbox_events
+         WHERE dispatched_at IS NULL
+         ORDER BY created_at, id
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED`,
+        [limit]
+      )).rows as Pick<OutboxEvent, 'id' | 'ledger_id' | 'event_type'>[];
+
+      for (const event of events) {
+        await client.query(
+          `INSERT INTO webhook_deliveries (event_id, endpoint_id)
+           SELECT $1, id FROM webhook_endpoints
+           WHERE ledger_id = $2 AND is_active = true
+             AND (cardinality(event_types) = 0 OR $3 = ANY(event_types))
+           ON CONFLICT (event_id, endpoint_id) DO NOTHING`,
+          [event.id, event.ledger_id, event.event_type]
+        );
+
+        await client.query(
+          'UPDATE outbox_events SET dispatched_at = CURRENT_TIMESTAMP WHERE id = $1',
+          [event.id]
+        );
+      }
+
+      return events.length;
+    });
+  }
+}
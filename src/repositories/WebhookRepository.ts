@@ -0,0 +1,188 @@
+import { Database } from '../config/database.js';
+import {
+  WebhookEndpoint,
+  CreatedWebhookEndpoint,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEventType
+} from '../models/types.js';
+
+const ENDPOINT_COLUMNS = 'id, ledger_id, url, event_types, is_active, created_by, created_at';
+
+const DELIVERY_COLUMNS = `
+  d.id, d.event_id, d.endpoint_id, e.event_type, d.status, d.attempts, d.next_attempt_at,
+  d.last_attempt_at, d.last_status_code, d.last_error, d.delivered_at, d.created_at`;
+
+// A delivery claimed for sending, with what is needed to send it
+export interface DueWebhookDelivery {
+  id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  ledger_id: string;
+  payload: Record<string, unknown>;
+  event_created_at: Date;
+  attempts: number;
+  url: string;
+  secret: string;
+}
+
+export class WebhookRepository {
+  private db: Database;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  async createEndpoint(
+    ledgerId: string,
+    endpoint: { url: string; event_types: WebhookEventType[]; secret: string; created_by: string | null }
+  ): Promise<CreatedWebhookEndpoint> {
+    const result = await this.db.query(
+      `INSERT INTO webhook_endpoints (ledger_id, url, secret, event_types, created_by)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING ${ENDPOINT_COLUMNS}, secret`,
+      [ledgerId, endpoint.url, endpoint.secret, endpoint.event_types, endpoint.created_by]
+    ) as CreatedWebhookEndpoint[];
+
+    return result[0]!;
+  }
+
+  async findEndpointById(ledgerId: string, id: string): Promise<WebhookEndpoint | null> {
+    const result = await this.db.query(
+      `SELECT ${ENDPOINT_COLUMNS} FROM webhook_endpoints WHERE id = $1 AND ledger_id = $2`,
+      [id, ledgerId]
+    ) as WebhookEndpoint[];
+
+    return result[0] || null;
+  }
+
+  async findEndpoints(ledgerId: string): Promise<WebhookEndpoint[]> {
+    return await this.db.query(
+      `SELECT ${ENDPOINT_COLUMNS} FROM webhook_endpoints
+       WHERE ledger_id = $1
+       ORDER BY created_at, id`,
+      [ledgerId]
+    ) as WebhookEndpoint[];
+  }
+
+  /**
+   * Stop delivering to an endpoint; pending deliveries are dropped
+   */
+  async deactivateEndpoint(ledgerId: string, id: string): Promise<WebhookEndpoint | null> {
+    return await this.db.transaction(async (client) => {
+      const result = await client.query(
+        `UPDATE webhook_endpoints SET is_active = false
+         WHERE id = $1 AND ledger_id = $2
+         RETURNING ${ENDPOINT_COLUMNS}`,
+        [id, ledgerId]
+      );
+
+      await client.query(
+        `UPDATE webhook_deliveries SET status = 'dead', last_error = 'Endpoint deactivated'
+         WHERE endpoint_id = $1 AND status = 'pending'`,
+        [id]
+      );
+
+      return (result.rows[0] as WebhookEndpoint) || null;
+    });
+  }
+
+  async findDeliveries(endpointId: string, status: WebhookDeliveryStatus | undefined, limit: number): Promise<WebhookDelivery[]> {
+    const params: (string | number)[] = [endpointId, limit];
+    const statusCondition = status ? 'AND d.status = $3' : '';
+    if (status) {
+      params.push(status);
+    }
+
+    return await this.db.query(
+      `SELECT ${DELIVERY_COLUMNS}
+       FROM webhook_deliveries d
+       JOIN outbox_events e ON e.id = d.event_id
+       WHERE d.endpoint_id = $1 ${statusCondition}
+       ORDER BY d.created_at DESC, d.id
+       LIMIT $2`,
+      params
+    ) as WebhookDelivery[];
+  }
+
+  async findDeliveryById(ledgerId: string, id: string): Promise<WebhookDelivery | null> {
+    const result = await this.db.query(
+      `SELECT ${DELIVERY_COLUMNS}
+       FROM webhook_deliveries d
+       JOIN outbox_events e ON e.id = d.event_id
+       WHERE d.id = $1 AND e.ledger_id = $2`,
+      [id, ledgerId]
+    ) as WebhookDelivery[];
+
+    return result[0] || null;
+  }
+
+  /**
+   * Claim due deliveries for sending
+   * Claimed deliveries are pushed back by the lease, so other dispatchers skip them while
+   * they are sent and a dispatcher that stops mid-send leaves them to be retried
+   */
+  async claimDueDeliveries(limit: number, leaseSeconds: number): Promise<DueWebhookDelivery[]> {
+    return await this.db.query(
+      `WITH claimed AS (
+         UPDATE webhook_deliveries
+         SET next_attempt_at = CURRENT_TIMESTAMP + make_interval(secs => $2)
+         WHERE id IN (
+           SELECT id FROM webhook_deliveries
+           WHERE status = 'pending' AND next_attempt_at <= CURRENT_TIMESTAMP
+           ORDER BY next_attempt_at, id
+           LIMIT $1
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING id, event_id, endpoint_id, attempts
+       )
+       SELECT c.id, c.event_id, e.event_type, e.ledger_id, e.payload, e.created_at AS event_created_at,
+              c.attempts, w.url, w.secret
+       FROM claimed c
+       JOIN outbox_events e ON e.id = c.event_id
+       JOIN webhook_endpoints w ON w.id = c.endpoint_id
+       WHERE w.is_active = true`,
+      [limit, leaseSeconds]
+    ) as DueWebhookDelivery[];
+  }
+
+  async markDelivered(id: string, statusCode: number): Promise<void> {
+    await this.db.query(
+      `UPDATE webhook_deliveries
+       SET status = 'delivered', attempts = attempts + 1, last_attempt_at = CURRENT_TIMESTAMP,
+           last_status_code = $2, last_error = NULL, delivered_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [id, statusCode]
+    );
+  }
+
+  /**
+   * Record a failed attempt; without a retry delay the delivery is dead
+   */
+  async markFailed(id: string, statusCode: number | null, error: string, retryDelaySeconds: number | null): Promise<void> {
+    await this.db.query(
+      `UPDATE webhook_deliveries
+       SET attempts = attempts + 1, last_attempt_at = CURRENT_TIMESTAMP,
+           last_status_code = $2, last_error = $3,
+           status = CASE WHEN $4::float8 IS NULL THEN 'dead' ELSE 'pending' END,
+           next_attempt_at = CASE
+             WHEN $4::float8 IS NULL THEN next_attempt_at
+             ELSE CURRENT_TIMESTAMP + make_interval(secs => $4::float8)
+           END
+       WHERE id = $1`,
+      [id, statusCode, error, retryDelaySeconds]
+    );
+  }
+
+  /**
+   * Queue a delivery again, with a fresh set of attempts
+   */
+  async redeliver(id: string): Promise<void> {
+    await this.db.query(
+      `UPDATE webhook_deliveries
+       SET status = 'pending', attempts = 0, next_attempt_at = CURRENT_TIMESTAMP, delivered_at = NULL
+       WHERE id = $1`,
+      [id]
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { Database } from '../config/database.js';
+import { YearEndClosing, ConflictError } from '../models/types.js';
+
+export class YearEndClosingRepository {
+  private db: Database;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  /**
+   * Reserve the closing of a fiscal year before its journal entry is created
+   * The partial unique index makes concurrent closings of the same year fail here
+   */
+  async create(ledgerId: string, fiscalYear: number, closedBy: string | null): Promise<YearEndClosing> {
+    try {
+      const result = await this.db.query(
+        `INSERT INTO year_end_closings (ledger_id, fiscal_year, status, closed_by, closed_at) 
+         VALUES ($1, $2, 'closed', $3, CURRENT_TIMESTAMP) 
+         RETURNING *`,
+        [ledgerId, fiscalYear, closedBy]
+      ) as YearEndClosing[];
+
+      return result[0]!;
+    } catch (error: any) {
+      if (error.code === '23505') { // Unique violation
+        throw new ConflictError(`Fiscal year ${fiscalYear} is already being closed`);
+      }
+      throw error;
+    }
+  }
+
+  async setEntry(id: string, entryId: string): Promise<YearEndClosing> {
+    const result = await this.db.query(
+      'UPDATE year_end_closings SET entry_id = $2 WHERE id = $1 RETURNING *',
+      [id, entryId]
+    ) as YearEndClosing[];
+
+    return result[0]!;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.query('DELETE FROM year_end_closings WHERE id = $1', [id]);
+  }
+
+  async findActive(ledgerId: string, fiscalYear: number): Promise<YearEndClosing | null> {
+    const result = await this.db.query(
+      `SELECT * FROM year_end_closings WHERE ledger_id = $1 AND fiscal_year = $2 AND status = 'closed'`,
+      [ledgerId, fiscalYear]
+    ) as YearEndClosing[];
+
+    return result[0] || null;
+  }
+
+  async findByYear(ledgerId: string, fiscalYear: number): Promise<YearEndClosing[]> {
+    return await this.db.query(
+      'SELECT * FROM year_end_closings WHERE ledger_id = $1 AND fiscal_year = $2 ORDER BY closed_at DESC',
+      [ledgerId, fiscalYear]
+    ) as YearEndClosing[];
+  }
+
+  async markReversed(id: string, reversalEntryId: string | null, reversedBy: string | null): Promise<YearEndClosing> {
+    const result = await this.db.query(
+      `UPDATE year_end_closings 
+       SET status = 'reversed', reversal_entry_id = $2, reversed_by = $3, reversed_at = CURRENT_TIMESTAMP 
+       WHERE id = $1 AND status = 'closed' 
+       RETURNING *`,
+      [id, reversalEntryId, reversedBy]
+    ) as YearEndClosing[];
+
+    if (result.length === 0) {
+      throw new ConflictError('Year-end closing has already been reversed');
+    }
+
+    return result[0]!;
+  }
+}
@@ -1,8 +1,19 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { AccountController } from '../controllers/AccountController.js';
 import { JournalController } from '../controllers/JournalController.js';
 import { BalanceController } from '../controllers/BalanceController.js';
+import { FiscalPeriodController } from '../controllers/FiscalPeriodController.js';
+import { YearEndController } from '../controllers/YearEndController.js';
+import { FxRateController } from '../controllers/FxRateController.js';
+import { FxRevaluationController } from '../controllers/FxRevaluationController.js';
+import { LedgerController } from '../controllers/LedgerController.js';
+import { ApiKeyController } from '../controllers/ApiKeyController.js';
+import { AuditController } from '../controllers/AuditController.js';
+import { WebhookController } from '../controllers/WebhookController.js';
+import { BankStatementController } from '../controllers/BankStatementController.js';
+import { BankReconciliationController } from '../controllers/BankReconciliationController.js';
 import { AuthMiddleware } from '../middleware/auth.js';
+import { IdempotencyMiddleware } from '../middleware/idempotency.js';
 import fs from 'fs';
 import path from 'path';
 
@@ -12,6 +23,27 @@ const router = Router();
 const accountController = new AccountController();
 const journalController = new JournalController();
 const balanceController = new BalanceController();
+const fiscalPeriodController = new FiscalPeriodController();
+const yearEndController = new YearEndController();
+const fxRateController = new FxRateController();
+const fxRevaluationController = new FxRevaluationController();
+const ledgerController = new LedgerController();
+const apiKeyController = new ApiKeyController();
+const auditController = new AuditController();
+const webhookController = new WebhookController();
+const bankStatementController = new BankStatementController();
+const bankReconciliationController = new BankReconciliationController();
+
+// Scope guards; admin keys have every scope
+const requireAdmin = AuthMiddleware.requireScope('admin');
+const requireRead = AuthMiddleware.requireScope('reports:read');
+const requireAccountsWrite = AuthMiddleware.requireScope('accounts:write');
+const requireJournalPost = AuthMiddleware.requireScope('journal:post');
+const requireJournalApprove = AuthMiddleware.requireScope('journal:approve');
+const requireJournalReverse = AuthMiddleware.requireScope('journal:reverse');
+const requirePeriodsWrite = AuthMiddleware.requireScope('periods:write');
+const requireRatesWrite = AuthMiddleware.requireScope('rates:write');
+const requireBankWrite = AuthMiddleware.requireScope('bank:write');
 
 // OpenAPI schema endpoint (no auth required)
 router.get('/openapi.yaml', (req, res) => {
@@ -34,25 +66,236 @@ router.get('/openapi.yaml', (req, res) => {
 router.use(AuthMiddleware.validateApiKey);
 router.use(AuthMiddleware.extractIdempotencyKey);
 
+// CSV and statement uploads are parsed before the idempotency check so the file is part of the request hash
+router.use(express.text({
+  type: ['text/csv', 'text/plain', 'text/xml', 'application/xml', 'application/x-ofx'],
+  limit: '10mb',
+}));
+router.use(IdempotencyMiddleware.replayOrRecord);
+
+// API key management routes
+router.post('/api-keys', requireAdmin, apiKeyController.createApiKey.bind(apiKeyController));
+router.get('/api-keys', requireAdmin, apiKeyController.getApiKeys.bind(apiKeyController));
+router.get('/api-keys/:id', requireAdmin, apiKeyController.getApiKey.bind(apiKeyController));
+router.post('/api-keys/:id/revoke', requireAdmin, apiKeyController.revokeApiKey.bind(apiKeyController));
+router.post('/api-keys/:id/rotate', requireAdmin, apiKeyController.rotateApiKey.bind(apiKeyController));
+
+// Audit log routes
+router.get('/audit-events', requireAdmin, auditController.getAuditEvents.bind(auditController));
+
+// Ledger routes
+router.post('/ledgers', requireAdmin, ledgerController.createLedger.bind(ledgerController));
+router.get('/ledgers', ledgerController.getLedgers.bind(ledgerController));
+router.get('/ledgers/:id', ledgerController.getLedger.bind(ledgerController));
+
+// Consolidated reports span every ledger the API key can access (or the ledger_ids requested)
+router.get(
+  '/reports/consolidated/trial-balance',
+  requireRead,
+  balanceController.getConsolidatedTrialBalance.bind(balanceController)
+);
+router.get(
+  '/reports/consolidated/balance-sheet',
+  requireRead,
+  balanceController.getConsolidatedBalanceSheet.bind(balanceController)
+);
+
+// FX rate routes (rates are shared by all ledgers)
+router.post('/fx-rates', requireRatesWrite, fxRateController.createRate.bind(fxRateController));
+router.get('/fx-rates', requireRead, fxRateController.getRates.bind(fxRateController));
+router.get('/fx-rates/lookup', requireRead, fxRateController.lookupRate.bind(fxRateController));
+router.get('/fx-rates/:id', requireRead, fxRateController.getRate.bind(fxRateController));
+router.patch('/fx-rates/:id', requireRatesWrite, fxRateController.updateRate.bind(fxRateController));
+router.delete('/fx-rates/:id', requireRatesWrite, fxRateController.deleteRate.bind(fxRateController));
+
+// All routes below operate on the ledger resolved from the API key and X-Ledger-Id header
+router.use(AuthMiddleware.requireLedger);
+
 // Account routes
-router.post('/accounts', accountController.createAccount.bind(accountController));
-router.get('/accounts', accountController.getAccounts.bind(accountController));
-router.get('/accounts/:code', accountController.getAccount.bind(accountController));
-router.get('/accounts/:code/info', accountController.getAccountInfo.bind(accountController));
+router.post('/accounts', requireAccountsWrite, accountController.createAccount.bind(accountController));
+router.get('/accounts', requireRead, accountController.getAccounts.bind(accountController));
+router.get('/accounts/tree', requireRead, accountController.getAccountTree.bind(accountController));
+router.get('/accounts/export', requireRead, accountController.exportAccounts.bind(accountController));
+router.post('/accounts/import', requireAccountsWrite, accountController.importAccounts.bind(accountController));
+router.get('/accounts/:code', requireRead, accountController.getAccount.bind(accountController));
+router.get('/accounts/:code/info', requireRead, accountController.getAccountInfo.bind(accountController));
+router.patch('/accounts/:code', requireAccountsWrite, accountController.updateAccount.bind(accountController));
+router.post(
+  '/accounts/:code/deactivate',
+  requireAccountsWrite,
+  accountController.deactivateAccount.bind(accountController)
+);
+router.post(
+  '/accounts/:code/reactivate',
+  requireAccountsWrite,
+  accountController.reactivateAccount.bind(accountController)
+);
+router.delete('/accounts/:code', requireAccountsWrite, accountController.deleteAccount.bind(accountController));
 
 // Journal entry routes
-router.post('/journal-entries', journalController.createJournalEntry.bind(journalController));
-router.get('/journal-entries/:id', journalController.getJournalEntry.bind(journalController));
-router.get('/journal-entries', journalController.getJournalEntries.bind(journalController));
-router.post('/journal-entries/:id/reverse', journalController.createReversalEntry.bind(journalController));
+router.post('/journal-entries', requireJournalPost, journalController.createJournalEntry.bind(journalController));
+router.post(
+  '/journal-entries/batch',
+  requireJournalPost,
+  journalController.createJournalEntryBatch.bind(journalController)
+);
+router.get('/journal-entries/:id', requireRead, journalController.getJournalEntry.bind(journalController));
+router.get('/journal-entries', requireRead, journalController.getJournalEntries.bind(journalController));
+router.post(
+  '/journal-entries/:id/reverse',
+  requireJournalReverse,
+  journalController.createReversalEntry.bind(journalController)
+);
+router.put('/journal-entries/:id', requireJournalPost, journalController.updateDraft.bind(journalController));
+router.post(
+  '/journal-entries/:id/submit',
+  requireJournalPost,
+  journalController.submitJournalEntry.bind(journalController)
+);
+router.post(
+  '/journal-entries/:id/approve',
+  requireJournalApprove,
+  journalController.approveJournalEntry.bind(journalController)
+);
+router.post(
+  '/journal-entries/:id/reject',
+  requireJournalApprove,
+  journalController.rejectJournalEntry.bind(journalController)
+);
+router.post(
+  '/journal-entries/:id/post',
+  requireJournalPost,
+  journalController.postJournalEntry.bind(journalController)
+);
+
+// Intercompany routes
+router.post(
+  '/intercompany-entries',
+  requireJournalPost,
+  journalController.createIntercompanyEntry.bind(journalController)
+);
+router.get('/intercompany-entries', requireRead, journalController.getIntercompanyEntries.bind(journalController));
+
+// Change feed of posted entries in commit order
+router.get('/feed', requireRead, journalController.getFeed.bind(journalController));
+
+// Bank statement routes
+router.post(
+  '/bank-statements',
+  requireBankWrite,
+  bankStatementController.importStatement.bind(bankStatementController)
+);
+router.get('/bank-statements', requireRead, bankStatementController.getStatements.bind(bankStatementController));
+router.get('/bank-statements/:id', requireRead, bankStatementController.getStatement.bind(bankStatementController));
+router.delete(
+  '/bank-statements/:id',
+  requireBankWrite,
+  bankStatementController.deleteStatement.bind(bankStatementController)
+);
+router.get(
+  '/bank-statements/:id/reconciliation',
+  requireRead,
+  bankReconciliationController.getReconciliationReport.bind(bankReconciliationController)
+);
+
+// Bank reconciliation routes
+router.post(
+  '/bank-reconciliation/auto-match',
+  requireBankWrite,
+  bankReconciliationController.autoMatch.bind(bankReconciliationController)
+);
+router.get(
+  '/bank-reconciliation/unmatched',
+  requireRead,
+  bankReconciliationController.getUnmatchedItems.bind(bankReconciliationController)
+);
+router.post(
+  '/bank-reconciliation/matches',
+  requireBankWrite,
+  bankReconciliationController.createMatch.bind(bankReconciliationController)
+);
+router.get(
+  '/bank-reconciliation/matches/:id',
+  requireRead,
+  bankReconciliationController.getMatch.bind(bankReconciliationController)
+);
+router.delete(
+  '/bank-reconciliation/matches/:id',
+  requireBankWrite,
+  bankReconciliationController.deleteMatch.bind(bankReconciliationController)
+);
+router.post(
+  '/bank-statement-lines/:id/journal-entry',
+  requireBankWrite,
+  requireJournalPost,
+  bankReconciliationController.createEntryForStatementLine.bind(bankReconciliationController)
+);
 
 // Balance and reporting routes
-router.get('/accounts/:code/balance', balanceController.getAccountBalance.bind(balanceController));
-router.get('/accounts/:code/activity', balanceController.checkAccountActivity.bind(balanceController));
-router.get('/reports/trial-balance', balanceController.getTrialBalance.bind(balanceController));
-router.get('/reports/balance-summary', balanceController.getBalanceSummary.bind(balanceController));
-router.get('/reports/accounting-equation', balanceController.validateAccountingEquation.bind(balanceController));
-router.get('/balances/all', balanceController.getAllAccountBalances.bind(balanceController));
+router.get('/accounts/:code/balance', requireRead, balanceController.getAccountBalance.bind(balanceController));
+router.get('/accounts/:code/activity', requireRead, balanceController.checkAccountActivity.bind(balanceController));
+router.get('/accounts/:code/ledger', requireRead, balanceController.getAccountLedger.bind(balanceController));
+router.get('/reports/trial-balance', requireRead, balanceController.getTrialBalance.bind(balanceController));
+router.get('/reports/balance-summary', requireRead, balanceController.getBalanceSummary.bind(balanceController));
+router.get('/reports/income-statement', requireRead, balanceController.getIncomeStatement.bind(balanceController));
+router.get('/reports/balance-sheet', requireRead, balanceController.getBalanceSheet.bind(balanceController));
+router.get(
+  '/reports/accounting-equation',
+  requireRead,
+  balanceController.validateAccountingEquation.bind(balanceController)
+);
+router.get('/balances/all', requireRead, balanceController.getAllAccountBalances.bind(balanceController));
+
+// Fiscal period routes
+router.post('/fiscal-periods', requirePeriodsWrite, fiscalPeriodController.createPeriod.bind(fiscalPeriodController));
+router.get('/fiscal-periods', requireRead, fiscalPeriodController.getPeriods.bind(fiscalPeriodController));
+router.get('/fiscal-periods/:id', requireRead, fiscalPeriodController.getPeriod.bind(fiscalPeriodController));
+router.get(
+  '/fiscal-periods/:id/events',
+  requireRead,
+  fiscalPeriodController.getPeriodEvents.bind(fiscalPeriodController)
+);
+router.post(
+  '/fiscal-periods/:id/soft-close',
+  requirePeriodsWrite,
+  fiscalPeriodController.softClosePeriod.bind(fiscalPeriodController)
+);
+router.post(
+  '/fiscal-periods/:id/close',
+  requirePeriodsWrite,
+  fiscalPeriodController.closePeriod.bind(fiscalPeriodController)
+);
+router.post(
+  '/fiscal-periods/:id/reopen',
+  requirePeriodsWrite,
+  fiscalPeriodController.reopenPeriod.bind(fiscalPeriodController)
+);
+
+// Year-end closing routes
+router.get('/periods/:year/close', requireRead, yearEndController.getYearStatus.bind(yearEndController));
+router.post('/periods/:year/close', requirePeriodsWrite, yearEndController.closeYear.bind(yearEndController));
+router.post('/periods/:year/reopen', requirePeriodsWrite, yearEndController.reopenYear.bind(yearEndController));
+
+// FX revaluation routes
+router.post('/fx/revaluation', requirePeriodsWrite, fxRevaluationController.revalue.bind(fxRevaluationController));
+router.post(
+  '/fx/revaluation/reversals',
+  requirePeriodsWrite,
+  fxRevaluationController.postDueReversals.bind(fxRevaluationController)
+);
+router.get('/fx/revaluations', requireRead, fxRevaluationController.getRevaluations.bind(fxRevaluationController));
+
+// Webhook routes (events of the ledger are delivered to its endpoints)
+router.post('/webhooks', requireAdmin, webhookController.createEndpoint.bind(webhookController));
+router.get('/webhooks', requireAdmin, webhookController.getEndpoints.bind(webhookController));
+router.get('/webhooks/:id', requireAdmin, webhookController.getEndpoint.bind(webhookController));
+router.delete('/webhooks/:id', requireAdmin, webhookController.deactivateEndpoint.bind(webhookController));
+router.get('/webhooks/:id/deliveries', requireAdmin, webhookController.getDeliveries.bind(webhookController));
+router.post(
+  '/webhook-deliveries/:id/redeliver',
+  requireAdmin,
+  webhookController.redeliver.bind(webhookController)
+);
 
 export default router;
 
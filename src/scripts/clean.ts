@@ -13,9 +13,36 @@ async function cleanDatabase(): Promise<void> {
     console.log('🧹 Starting database cleanup...');
     
     // Truncate all tables in the correct order (respecting foreign key constraints)
+    await db.query('TRUNCATE audit_events');
+    console.log('✅ Cleaned audit_events table');
+    
+    await db.query('TRUNCATE webhook_deliveries, webhook_endpoints, outbox_events CASCADE');
+    console.log('✅ Cleaned webhook and outbox tables');
+    
+    await db.query('TRUNCATE bank_match_journal_lines, bank_matches CASCADE');
+    console.log('✅ Cleaned bank match tables');
+    
+    await db.query('TRUNCATE bank_statement_lines, bank_statements CASCADE');
+    console.log('✅ Cleaned bank statement tables');
+    
     await db.query('TRUNCATE idempotency_keys CASCADE');
     console.log('✅ Cleaned idempotency_keys table');
     
+    await db.query('TRUNCATE fx_revaluations CASCADE');
+    console.log('✅ Cleaned fx_revaluations table');
+    
+    await db.query('TRUNCATE fx_rates CASCADE');
+    console.log('✅ Cleaned fx_rates table');
+    
+    await db.query('TRUNCATE year_end_closings CASCADE');
+    console.log('✅ Cleaned year_end_closings table');
+    
+    await db.query('TRUNCATE fiscal_period_events CASCADE');
+    console.log('✅ Cleaned fiscal_period_events table');
+    
+    await db.query('TRUNCATE fiscal_periods CASCADE');
+    console.log('✅ Cleaned fiscal_periods table');
+    
     await db.query('TRUNCATE journal_lines CASCADE');
     console.log('✅ Cleaned journal_lines table');
     
@@ -25,6 +52,12 @@ async function cleanDatabase(): Promise<void> {
     await db.query('TRUNCATE accounts CASCADE');
     console.log('✅ Cleaned accounts table');
     
+    await db.query('TRUNCATE api_key_ledgers CASCADE');
+    console.log('✅ Cleaned api_key_ledgers table');
+    
+    await db.query('TRUNCATE ledgers CASCADE');
+    console.log('✅ Cleaned ledgers table');
+    
     await db.query('TRUNCATE api_keys CASCADE');
     console.log('✅ Cleaned api_keys table');
     
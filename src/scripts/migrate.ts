@@ -1,7 +1,8 @@
 #!/usr/bin/env tsx
 
 import { Database } from '../config/database.js';
-import { validateEnv } from '../config/env.js';
+import { ENV, validateEnv } from '../config/env.js';
+import { Money, CURRENCY_EXPONENTS } from '../utils/money.js';
 
 // Validate environment before running migrations
 validateEnv();
@@ -96,6 +97,596 @@ const migrations = [
       CREATE INDEX IF NOT EXISTS idx_api_keys_active ON api_keys(is_active);
     `,
   },
+  {
+    version: '007',
+    name: 'Add parent account to accounts',
+    sql: `
+      ALTER TABLE accounts ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES accounts(id);
+      
+      CREATE INDEX IF NOT EXISTS idx_accounts_parent_id ON accounts(parent_id);
+    `,
+  },
+  {
+    version: '008',
+    name: 'Add account lifecycle columns',
+    sql: `
+      ALTER TABLE accounts ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT true;
+      ALTER TABLE accounts ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMP WITH TIME ZONE;
+      ALTER TABLE accounts ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP;
+      
+      CREATE INDEX IF NOT EXISTS idx_accounts_active ON accounts(is_active);
+    `,
+  },
+  {
+    version: '009',
+    name: 'Allow idempotency keys for journal entry batches',
+    sql: `
+      ALTER TABLE idempotency_keys ALTER COLUMN entry_id DROP NOT NULL;
+      ALTER TABLE idempotency_keys ADD COLUMN IF NOT EXISTS entry_ids UUID[];
+    `,
+  },
+  {
+    version: '010',
+    name: 'Add approval workflow to journal entries',
+    sql: `
+      ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS id UUID NOT NULL DEFAULT gen_random_uuid();
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_api_keys_id ON api_keys(id);
+      
+      ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'posted'
+        CHECK (status IN ('draft', 'submitted', 'approved', 'rejected', 'posted'));
+      ALTER TABLE journal_entries ALTER COLUMN posted_at DROP DEFAULT;
+      ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS submitted_by UUID;
+      ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMP WITH TIME ZONE;
+      ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS reviewed_by UUID;
+      ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+      ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS rejection_reason TEXT;
+      
+      CREATE INDEX IF NOT EXISTS idx_journal_entries_status ON journal_entries(status);
+    `,
+  },
+  {
+    version: '011',
+    name: 'Create fiscal_periods tables',
+    sql: `
+      CREATE TABLE IF NOT EXISTS fiscal_periods (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name VARCHAR(100) NOT NULL UNIQUE,
+        start_date DATE NOT NULL,
+        end_date DATE NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'soft_closed', 'closed')),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        
+        CONSTRAINT check_period_dates CHECK (end_date >= start_date)
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_fiscal_periods_dates ON fiscal_periods(start_date, end_date);
+      
+      CREATE TABLE IF NOT EXISTS fiscal_period_events (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        period_id UUID NOT NULL REFERENCES fiscal_periods(id) ON DELETE CASCADE,
+        action VARCHAR(20) NOT NULL CHECK (action IN ('create', 'soft_close', 'close', 'reopen')),
+        from_status VARCHAR(20),
+        to_status VARCHAR(20) NOT NULL,
+        reason TEXT,
+        api_key_id UUID,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_fiscal_period_events_period ON fiscal_period_events(period_id, created_at);
+      
+      ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS is_adjusting BOOLEAN NOT NULL DEFAULT false;
+    `,
+  },
+  {
+    version: '012',
+    name: 'Create year_end_closings table',
+    sql: `
+      CREATE TABLE IF NOT EXISTS year_end_closings (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        fiscal_year INTEGER NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'closed' CHECK (status IN ('closed', 'reversed')),
+        entry_id UUID REFERENCES journal_entries(id),
+        reversal_entry_id UUID REFERENCES journal_entries(id),
+        closed_by UUID,
+        closed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        reversed_by UUID,
+        reversed_at TIMESTAMP WITH TIME ZONE
+      );
+      
+      -- Only one active closing per fiscal year
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_year_end_closings_active
+        ON year_end_closings(fiscal_year) WHERE status = 'closed';
+    `,
+  },
+  {
+    version: '013',
+    name: 'Add currencies to accounts and journal lines, create fx_rates table',
+    sql: `
+      ALTER TABLE accounts 
+        ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT '${ENV.DEFAULT_CURRENCY}';
+      
+      -- debit_cents/credit_cents stay in the base currency; the transaction
+      -- currency amount and the rate used to convert it are kept alongside
+      ALTER TABLE journal_lines 
+        ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT '${ENV.DEFAULT_CURRENCY}',
+        ADD COLUMN IF NOT EXISTS transaction_amount_cents INTEGER,
+        ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(20, 10) NOT NULL DEFAULT 1 CHECK (exchange_rate > 0);
+      
+      UPDATE journal_lines 
+        SET transaction_amount_cents = debit_cents + credit_cents 
+        WHERE transaction_amount_cents IS NULL;
+      
+      ALTER TABLE journal_lines ALTER COLUMN transaction_amount_cents SET NOT NULL;
+      
+      CREATE TABLE IF NOT EXISTS fx_rates (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        from_currency VARCHAR(3) NOT NULL,
+        to_currency VARCHAR(3) NOT NULL,
+        rate NUMERIC(20, 10) NOT NULL CHECK (rate > 0),
+        rate_date DATE NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (from_currency, to_currency, rate_date),
+        CHECK (from_currency <> to_currency)
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_fx_rates_lookup 
+        ON fx_rates(from_currency, to_currency, rate_date DESC);
+    `,
+  },
+  {
+    version: '014',
+    name: 'Create fx_revaluations table',
+    sql: `
+      CREATE TABLE IF NOT EXISTS fx_revaluations (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        as_of DATE NOT NULL,
+        entry_id UUID NOT NULL REFERENCES journal_entries(id),
+        reversal_date DATE NOT NULL,
+        reversal_entry_id UUID REFERENCES journal_entries(id),
+        created_by UUID,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_fx_revaluations_pending 
+        ON fx_revaluations(reversal_date) WHERE reversal_entry_id IS NULL;
+    `,
+  },
+  {
+    version: '015',
+    name: 'Rescale journal line amounts to ISO 4217 minor units',
+    sql: `
+      -- Amounts used to be stored with two decimals for every currency
+      UPDATE journal_lines jl 
+        SET transaction_amount_cents = ROUND(jl.transaction_amount_cents * power(10::numeric, ex.exponent - 2)) 
+        FROM (VALUES ${Object.entries(CURRENCY_EXPONENTS).map(([code, exponent]) => `('${code}', ${exponent})`).join(', ')}) 
+          AS ex(currency, exponent) 
+        WHERE jl.currency = ex.currency;
+      
+      -- Base currency amounts only change when the base currency itself has no 2-decimal minor unit
+      UPDATE journal_lines 
+        SET debit_cents = ROUND(debit_cents * power(10::numeric, ${Money.getExponent() - 2})), 
+            credit_cents = ROUND(credit_cents * power(10::numeric, ${Money.getExponent() - 2})) 
+        WHERE ${Money.getExponent()} <> 2;
+    `,
+  },
+  {
+    version: '016',
+    name: 'Widen journal line amounts to BIGINT',
+    sql: `
+      ALTER TABLE journal_lines 
+        ALTER COLUMN debit_cents TYPE BIGINT, 
+        ALTER COLUMN credit_cents TYPE BIGINT, 
+        ALTER COLUMN transaction_amount_cents TYPE BIGINT;
+    `,
+  },
+  {
+    version: '017',
+    name: 'Create ledgers and scope accounts, entries and periods to a ledger',
+    sql: `
+      CREATE TABLE IF NOT EXISTS ledgers (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        code VARCHAR(20) NOT NULL UNIQUE,
+        name VARCHAR(100) NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+      
+      -- Ledgers each API key may access
+      CREATE TABLE IF NOT EXISTS api_key_ledgers (
+        api_key_id UUID NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+        ledger_id UUID NOT NULL REFERENCES ledgers(id) ON DELETE CASCADE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (api_key_id, ledger_id)
+      );
+      
+      -- Everything recorded so far belongs to the main ledger
+      INSERT INTO ledgers (code, name) VALUES ('MAIN', 'Main ledger') ON CONFLICT (code) DO NOTHING;
+      
+      INSERT INTO api_key_ledgers (api_key_id, ledger_id) 
+        SELECT k.id, l.id FROM api_keys k CROSS JOIN ledgers l WHERE l.code = 'MAIN' 
+        ON CONFLICT DO NOTHING;
+      
+      ALTER TABLE accounts ADD COLUMN IF NOT EXISTS ledger_id UUID REFERENCES ledgers(id);
+      ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS ledger_id UUID REFERENCES ledgers(id);
+      ALTER TABLE idempotency_keys ADD COLUMN IF NOT EXISTS ledger_id UUID REFERENCES ledgers(id);
+      ALTER TABLE fiscal_periods ADD COLUMN IF NOT EXISTS ledger_id UUID REFERENCES ledgers(id);
+      ALTER TABLE year_end_closings ADD COLUMN IF NOT EXISTS ledger_id UUID REFERENCES ledgers(id);
+      ALTER TABLE fx_revaluations ADD COLUMN IF NOT EXISTS ledger_id UUID REFERENCES ledgers(id);
+      
+      UPDATE accounts SET ledger_id = (SELECT id FROM ledgers WHERE code = 'MAIN') WHERE ledger_id IS NULL;
+      UPDATE journal_entries SET ledger_id = (SELECT id FROM ledgers WHERE code = 'MAIN') WHERE ledger_id IS NULL;
+      UPDATE idempotency_keys SET ledger_id = (SELECT id FROM ledgers WHERE code = 'MAIN') WHERE ledger_id IS NULL;
+      UPDATE fiscal_periods SET ledger_id = (SELECT id FROM ledgers WHERE code = 'MAIN') WHERE ledger_id IS NULL;
+      UPDATE year_end_closings SET ledger_id = (SELECT id FROM ledgers WHERE code = 'MAIN') WHERE ledger_id IS NULL;
+      UPDATE fx_revaluations SET ledger_id = (SELECT id FROM ledgers WHERE code = 'MAIN') WHERE ledger_id IS NULL;
+      
+      ALTER TABLE accounts ALTER COLUMN ledger_id SET NOT NULL;
+      ALTER TABLE journal_entries ALTER COLUMN ledger_id SET NOT NULL;
+      ALTER TABLE idempotency_keys ALTER COLUMN ledger_id SET NOT NULL;
+      ALTER TABLE fiscal_periods ALTER COLUMN ledger_id SET NOT NULL;
+      ALTER TABLE year_end_closings ALTER COLUMN ledger_id SET NOT NULL;
+      ALTER TABLE fx_revaluations ALTER COLUMN ledger_id SET NOT NULL;
+      
+      -- Codes, names and keys only need to be unique within a ledger
+      ALTER TABLE accounts DROP CONSTRAINT IF EXISTS accounts_code_key;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_accounts_ledger_code ON accounts(ledger_id, code);
+      
+      ALTER TABLE fiscal_periods DROP CONSTRAINT IF EXISTS fiscal_periods_name_key;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_fiscal_periods_ledger_name ON fiscal_periods(ledger_id, name);
+      
+      ALTER TABLE idempotency_keys DROP CONSTRAINT IF EXISTS idempotency_keys_pkey;
+      ALTER TABLE idempotency_keys ADD PRIMARY KEY (ledger_id, key);
+      
+      DROP INDEX IF EXISTS idx_year_end_closings_active;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_year_end_closings_active
+        ON year_end_closings(ledger_id, fiscal_year) WHERE status = 'closed';
+      
+      CREATE INDEX IF NOT EXISTS idx_journal_entries_ledger_date ON journal_entries(ledger_id, date);
+    `,
+  },
+  {
+    version: '018',
+    name: 'Create intercompany_transactions table',
+    sql: `
+      -- One row per mirrored pair: the receivable side in ledger_id, the payable side in counterparty_ledger_id
+      CREATE TABLE IF NOT EXISTS intercompany_transactions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        ledger_id UUID NOT NULL REFERENCES ledgers(id),
+        counterparty_ledger_id UUID NOT NULL REFERENCES ledgers(id),
+        entry_id UUID NOT NULL UNIQUE REFERENCES journal_entries(id),
+        counterparty_entry_id UUID NOT NULL UNIQUE REFERENCES journal_entries(id),
+        receivable_account_id UUID NOT NULL REFERENCES accounts(id),
+        payable_account_id UUID NOT NULL REFERENCES accounts(id),
+        amount_cents BIGINT NOT NULL CHECK (amount_cents > 0),
+        date DATE NOT NULL,
+        created_by UUID,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        CHECK (ledger_id <> counterparty_ledger_id)
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_intercompany_ledgers 
+        ON intercompany_transactions(ledger_id, counterparty_ledger_id, date);
+      CREATE INDEX IF NOT EXISTS idx_intercompany_counterparty 
+        ON intercompany_transactions(counterparty_ledger_id, date);
+    `,
+  },
+  {
+    version: '019',
+    name: 'Store API keys as salted hashes',
+    sql: `
+      ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS key_prefix VARCHAR(32);
+      ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS key_salt VARCHAR(64);
+      ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS key_hash VARCHAR(64);
+      ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS is_admin BOOLEAN NOT NULL DEFAULT false;
+      ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+      ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE;
+      ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS rotated_from_id UUID REFERENCES api_keys(id);
+      ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS created_by UUID;
+      
+      -- Hash the existing plaintext keys (same scheme as ApiKeys.hash); they keep full access
+      UPDATE api_keys SET key_salt = md5(random()::text || id::text) WHERE key_hash IS NULL;
+      UPDATE api_keys 
+        SET key_prefix = left(key, 8),
+            key_hash = encode(sha256(convert_to(key_salt || key, 'UTF8')), 'hex'),
+            is_admin = true
+        WHERE key_hash IS NULL;
+      
+      ALTER TABLE api_keys ALTER COLUMN key_prefix SET NOT NULL;
+      ALTER TABLE api_keys ALTER COLUMN key_salt SET NOT NULL;
+      ALTER TABLE api_keys ALTER COLUMN key_hash SET NOT NULL;
+      
+      ALTER TABLE api_keys DROP CONSTRAINT IF EXISTS api_keys_pkey;
+      ALTER TABLE api_keys DROP COLUMN IF EXISTS key;
+      ALTER TABLE api_keys ADD PRIMARY KEY (id);
+      
+      CREATE INDEX IF NOT EXISTS idx_api_keys_prefix ON api_keys(key_prefix);
+    `,
+  },
+  {
+    version: '020',
+    name: 'Add scopes to API keys',
+    sql: `
+      ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS scopes TEXT[] NOT NULL DEFAULT '{}';
+      
+      -- Admin keys keep full access; other keys could use everything except key management
+      UPDATE api_keys SET scopes = ARRAY['admin'] WHERE is_admin = true;
+      UPDATE api_keys 
+        SET scopes = ARRAY[
+          'accounts:write', 'journal:post', 'journal:approve', 'journal:reverse',
+          'periods:write', 'rates:write', 'reports:read'
+        ]
+        WHERE is_admin = false;
+      
+      ALTER TABLE api_keys DROP COLUMN IF EXISTS is_admin;
+      
+      CREATE INDEX IF NOT EXISTS idx_api_keys_scopes ON api_keys USING GIN (scopes);
+    `,
+  },
+  {
+    version: '021',
+    name: 'Create audit_events table and add created_by to journal entries',
+    sql: `
+      CREATE TABLE IF NOT EXISTS audit_events (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        -- Null when the request was not authenticated
+        api_key_id UUID,
+        ledger_id UUID,
+        action VARCHAR(200) NOT NULL,
+        resource_type VARCHAR(50) NOT NULL,
+        resource_id VARCHAR(255),
+        request_id VARCHAR(100) NOT NULL,
+        ip VARCHAR(100),
+        payload_hash VARCHAR(64) NOT NULL,
+        outcome VARCHAR(10) NOT NULL CHECK (outcome IN ('success', 'failure')),
+        status_code INTEGER NOT NULL,
+        error_code VARCHAR(50)
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_audit_events_occurred_at ON audit_events(occurred_at);
+      CREATE INDEX IF NOT EXISTS idx_audit_events_api_key ON audit_events(api_key_id, occurred_at);
+      CREATE INDEX IF NOT EXISTS idx_audit_events_resource ON audit_events(resource_type, resource_id);
+      CREATE INDEX IF NOT EXISTS idx_audit_events_request ON audit_events(request_id);
+      
+      -- Audit events are append-only
+      CREATE OR REPLACE FUNCTION prevent_audit_event_changes() RETURNS trigger AS $$
+      BEGIN
+        RAISE EXCEPTION 'audit_events is append-only';
+      END;
+      $$ LANGUAGE plpgsql;
+      
+      DROP TRIGGER IF EXISTS audit_events_append_only ON audit_events;
+      CREATE TRIGGER audit_events_append_only 
+        BEFORE UPDATE OR DELETE ON audit_events 
+        FOR EACH ROW EXECUTE FUNCTION prevent_audit_event_changes();
+      
+      ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS created_by UUID;
+      UPDATE journal_entries SET created_by = submitted_by WHERE created_by IS NULL;
+    `,
+  },
+  {
+    version: '022',
+    name: 'Store idempotent responses per API key',
+    sql: `
+      -- Existing records (POST /journal-entries and /journal-entries/batch) only point at their
+      -- journal entries. They are kept without a response; a retry returns the entries instead
+      -- of posting them again (IdempotencyService.reserve)
+      ALTER TABLE idempotency_keys DROP CONSTRAINT IF EXISTS idempotency_keys_pkey;
+      ALTER TABLE idempotency_keys ALTER COLUMN ledger_id DROP NOT NULL;
+      
+      ALTER TABLE idempotency_keys ADD COLUMN IF NOT EXISTS api_key_id UUID
+        REFERENCES api_keys(id) ON DELETE CASCADE;
+      ALTER TABLE idempotency_keys ADD COLUMN IF NOT EXISTS endpoint VARCHAR(300);
+      ALTER TABLE idempotency_keys ADD COLUMN IF NOT EXISTS status_code INTEGER;
+      ALTER TABLE idempotency_keys ADD COLUMN IF NOT EXISTS content_type VARCHAR(255);
+      ALTER TABLE idempotency_keys ADD COLUMN IF NOT EXISTS response_body TEXT;
+      
+      UPDATE idempotency_keys 
+        SET endpoint = CASE 
+              WHEN entry_id IS NOT NULL THEN 'POST /journal-entries' 
+              ELSE 'POST /journal-entries/batch' 
+            END,
+            entry_ids = COALESCE(entry_ids, ARRAY[entry_id]) 
+        WHERE api_key_id IS NULL;
+      
+      -- Keys were shared by the API keys of a ledger; each of them keeps the record. An API key
+      -- bound to several ledgers that used the same key in more than one keeps the latest record
+      INSERT INTO idempotency_keys (api_key_id, key, ledger_id, endpoint, request_hash, entry_ids, created_at)
+        SELECT DISTINCT ON (akl.api_key_id, ik.key) 
+          akl.api_key_id, ik.key, ik.ledger_id, ik.endpoint, ik.request_hash, ik.entry_ids, ik.created_at
+        FROM idempotency_keys ik 
+        JOIN api_key_ledgers akl ON akl.ledger_id = ik.ledger_id 
+        WHERE ik.api_key_id IS NULL 
+        ORDER BY akl.api_key_id, ik.key, ik.created_at DESC;
+      DELETE FROM idempotency_keys WHERE api_key_id IS NULL;
+      
+      ALTER TABLE idempotency_keys DROP COLUMN IF EXISTS entry_id;
+      ALTER TABLE idempotency_keys ALTER COLUMN api_key_id SET NOT NULL;
+      ALTER TABLE idempotency_keys ALTER COLUMN endpoint SET NOT NULL;
+      
+      ALTER TABLE idempotency_keys ADD PRIMARY KEY (api_key_id, key);
+    `,
+  },
+  {
+    version: '023',
+    name: 'Reserve idempotency keys while requests are in progress',
+    sql: `
+      ALTER TABLE idempotency_keys ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'completed'
+        CHECK (status IN ('in_progress', 'completed'));
+      ALTER TABLE idempotency_keys ADD COLUMN IF NOT EXISTS lock_token UUID;
+      ALTER TABLE idempotency_keys ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE;
+      -- Journal entries posted under the reservation, set in the same transaction as the insert
+      ALTER TABLE idempotency_keys ADD COLUMN IF NOT EXISTS entry_ids UUID[];
+      
+      -- Completed records have a stored response, except those kept from before responses were stored
+      ALTER TABLE idempotency_keys ADD CONSTRAINT idempotency_keys_completed_response
+        CHECK (
+          status = 'in_progress' 
+          OR (status_code IS NOT NULL AND response_body IS NOT NULL) 
+          OR (response_body IS NULL AND entry_ids IS NOT NULL)
+        );
+    `,
+  },
+  {
+    version: '024',
+    name: 'Create outbox and webhook tables',
+    sql: `
+      -- Written in the same transaction as the change it describes
+      CREATE TABLE IF NOT EXISTS outbox_events (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        ledger_id UUID NOT NULL REFERENCES ledgers(id),
+        event_type VARCHAR(50) NOT NULL,
+        payload JSONB NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        -- Set once deliveries were created for the subscribed endpoints
+        dispatched_at TIMESTAMP WITH TIME ZONE
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_outbox_events_undispatched ON outbox_events(created_at)
+        WHERE dispatched_at IS NULL;
+      
+      CREATE TABLE IF NOT EXISTS webhook_endpoints (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        ledger_id UUID NOT NULL REFERENCES ledgers(id),
+        url VARCHAR(2000) NOT NULL,
+        -- HMAC signing secret, shared with the receiver
+        secret VARCHAR(100) NOT NULL,
+        -- Empty means every event type
+        event_types TEXT[] NOT NULL DEFAULT '{}',
+        is_active BOOLEAN NOT NULL DEFAULT true,
+        created_by UUID,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_ledger ON webhook_endpoints(ledger_id);
+      
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        event_id UUID NOT NULL REFERENCES outbox_events(id),
+        endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id),
+        status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'dead')),
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        last_attempt_at TIMESTAMP WITH TIME ZONE,
+        last_status_code INTEGER,
+        last_error TEXT,
+        delivered_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (event_id, endpoint_id)
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at)
+        WHERE status = 'pending';
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON webhook_deliveries(endpoint_id, created_at);
+    `,
+  },
+  {
+    version: '025',
+    name: 'Add feed sequence numbers to journal entries',
+    sql: `
+      -- Last sequence number assigned to a posted entry of the ledger; incremented in the posting
+      -- transaction, so the row lock orders postings and numbers follow commit order without gaps
+      ALTER TABLE ledgers ADD COLUMN IF NOT EXISTS feed_sequence BIGINT NOT NULL DEFAULT 0;
+      ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS sequence BIGINT;
+      
+      UPDATE journal_entries je SET sequence = numbered.sequence
+      FROM (
+        SELECT id, ROW_NUMBER() OVER (PARTITION BY ledger_id ORDER BY posted_at, created_at, id) AS sequence
+        FROM journal_entries
+        WHERE status = 'posted'
+      ) numbered
+      WHERE je.id = numbered.id;
+      
+      UPDATE ledgers l SET feed_sequence = COALESCE(
+        (SELECT MAX(sequence) FROM journal_entries WHERE ledger_id = l.id), 0
+      );
+      
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_journal_entries_sequence ON journal_entries(ledger_id, sequence)
+        WHERE sequence IS NOT NULL;
+    `,
+  },
+  {
+    version: '026',
+    name: 'Create bank statement tables',
+    sql: `
+      CREATE TABLE IF NOT EXISTS bank_statements (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        ledger_id UUID NOT NULL REFERENCES ledgers(id),
+        account_id UUID NOT NULL REFERENCES accounts(id),
+        format VARCHAR(10) NOT NULL CHECK (format IN ('csv', 'ofx', 'camt053')),
+        -- Statement identifier given by the bank, when the file has one
+        statement_ref VARCHAR(255),
+        currency CHAR(3) NOT NULL,
+        period_start DATE,
+        period_end DATE,
+        -- Balances as stated in the file (at the start of period_start and the end of period_end)
+        opening_balance_cents BIGINT,
+        closing_balance_cents BIGINT,
+        -- Book balances of the account for the same dates, at import time
+        book_opening_balance_cents BIGINT,
+        book_closing_balance_cents BIGINT,
+        balance_status VARCHAR(20) NOT NULL CHECK (balance_status IN ('matched', 'mismatched', 'unverified')),
+        line_count INTEGER NOT NULL DEFAULT 0,
+        duplicate_count INTEGER NOT NULL DEFAULT 0,
+        imported_by UUID,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_bank_statements_account ON bank_statements(account_id, period_end);
+      
+      CREATE TABLE IF NOT EXISTS bank_statement_lines (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        statement_id UUID NOT NULL REFERENCES bank_statements(id) ON DELETE CASCADE,
+        account_id UUID NOT NULL REFERENCES accounts(id),
+        -- Unique per account, so a transaction in overlapping statements is only stored once
+        bank_transaction_id VARCHAR(255) NOT NULL,
+        booking_date DATE NOT NULL,
+        value_date DATE,
+        -- Positive for money in (a debit to the bank account), negative for money out
+        amount_cents BIGINT NOT NULL,
+        description TEXT,
+        reference VARCHAR(255),
+        line_index INTEGER NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (account_id, bank_transaction_id)
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_statement ON bank_statement_lines(statement_id, line_index);
+      CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_account_date ON bank_statement_lines(account_id, booking_date);
+    `,
+  },
+  {
+    version: '027',
+    name: 'Create bank reconciliation matches',
+    sql: `
+      -- Statement lines and journal lines of a bank account that clear each other; the amounts of
+      -- both sides are equal, and either side may have several lines
+      CREATE TABLE IF NOT EXISTS bank_matches (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        ledger_id UUID NOT NULL REFERENCES ledgers(id),
+        account_id UUID NOT NULL REFERENCES accounts(id),
+        method VARCHAR(10) NOT NULL CHECK (method IN ('auto', 'manual', 'entry')),
+        created_by UUID,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_bank_matches_account ON bank_matches(account_id);
+      
+      ALTER TABLE bank_statement_lines
+        ADD COLUMN IF NOT EXISTS match_id UUID REFERENCES bank_matches(id) ON DELETE SET NULL;
+      
+      CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_match ON bank_statement_lines(match_id);
+      
+      -- A journal line is part of at most one match
+      CREATE TABLE IF NOT EXISTS bank_match_journal_lines (
+        match_id UUID NOT NULL REFERENCES bank_matches(id) ON DELETE CASCADE,
+        journal_line_id UUID NOT NULL UNIQUE REFERENCES journal_lines(id),
+        PRIMARY KEY (match_id, journal_line_id)
+      );
+    `,
+  },
   {
     version: '006',
     name: 'Create migration_history table',
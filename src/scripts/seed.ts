@@ -1,7 +1,8 @@
 #!/usr/bin/env tsx
 
 import { Database } from '../config/database.js';
-import { validateEnv, ENV } from '../config/env.js';
+import { validateEnv } from '../config/env.js';
+import { ApiKeyService } from '../services/ApiKeyService.js';
 import { v4 as uuidv4 } from 'uuid';
 
 // Validate environment before running seed
@@ -19,11 +20,13 @@ const seedAccounts: SeedAccount[] = [
   { code: '1002', name: 'Bank', type: 'Asset' },
   { code: '1100', name: 'Accounts Receivable', type: 'Asset' },
   { code: '1200', name: 'Inventory', type: 'Asset' },
+  { code: '1300', name: 'Due from Related Entities', type: 'Asset' },
   { code: '1500', name: 'Equipment', type: 'Asset' },
   
   // Liabilities
   { code: '2001', name: 'Accounts Payable', type: 'Liability' },
   { code: '2100', name: 'Short-term Loans', type: 'Liability' },
+  { code: '2300', name: 'Due to Related Entities', type: 'Liability' },
   { code: '2500', name: 'Long-term Debt', type: 'Liability' },
   
   // Equity
@@ -34,6 +37,7 @@ const seedAccounts: SeedAccount[] = [
   { code: '4001', name: 'Sales', type: 'Revenue' },
   { code: '4100', name: 'Service Revenue', type: 'Revenue' },
   { code: '4200', name: 'Interest Income', type: 'Revenue' },
+  { code: '4300', name: 'Unrealized FX Gain/Loss', type: 'Revenue' },
   
   // Expenses
   { code: '5001', name: 'Rent', type: 'Expense' },
@@ -49,6 +53,15 @@ async function seedDatabase(): Promise<void> {
   try {
     console.log('🌱 Starting database seed...');
     
+    // Seeded accounts and API keys belong to the main ledger
+    await db.query(
+      `INSERT INTO ledgers (code, name) VALUES ('MAIN', 'Main ledger') ON CONFLICT (code) DO NOTHING`
+    );
+    const mainLedger = await db.query(
+      `SELECT id FROM ledgers WHERE code = 'MAIN'`
+    ) as { id: string }[];
+    const ledgerId = mainLedger[0]!.id;
+    
     // Check if accounts already exist
     const existingAccounts = await db.query(
       'SELECT COUNT(*) as count FROM accounts'
@@ -63,8 +76,8 @@ async function seedDatabase(): Promise<void> {
       
       for (const account of seedAccounts) {
         await db.query(
-          'INSERT INTO accounts (code, name, type) VALUES ($1, $2, $3)',
-          [account.code, account.name, account.type]
+          'INSERT INTO accounts (ledger_id, code, name, type) VALUES ($1, $2, $3, $4)',
+          [ledgerId, account.code, account.name, account.type]
         );
         console.log(`✅ Created account: ${account.code} - ${account.name} (${account.type})`);
       }
@@ -72,27 +85,14 @@ async function seedDatabase(): Promise<void> {
       console.log(`🎉 Successfully created ${seedAccounts.length} accounts`);
     }
     
-    // Check if API keys already exist
-    const existingApiKeys = await db.query(
-      'SELECT COUNT(*) as count FROM api_keys'
-    ) as { count: string }[];
-    
-    const apiKeyCount = parseInt(existingApiKeys[0]?.count || '0', 10);
+    // API keys from API_KEYS are hashed and created as admin keys on an empty api_keys table
+    console.log('🔄 Seeding API keys...');
+    const createdKeys = await new ApiKeyService().seedInitialKeys();
     
-    if (apiKeyCount > 0) {
-      console.log(`⏭️  API keys already exist (${apiKeyCount} found), skipping API key seeding`);
+    if (createdKeys === 0) {
+      console.log('⏭️  API keys already exist (or API_KEYS is empty), skipping API key seeding');
     } else {
-      console.log('🔄 Seeding API keys...');
-      
-      for (const apiKey of ENV.API_KEYS) {
-        await db.query(
-          'INSERT INTO api_keys (key, name, is_active) VALUES ($1, $2, $3)',
-          [apiKey, `Development Key - ${apiKey}`, true]
-        );
-        console.log(`✅ Created API key: ${apiKey}`);
-      }
-      
-      console.log(`🎉 Successfully created ${ENV.API_KEYS.length} API keys`);
+      console.log(`🎉 Successfully created ${createdKeys} admin API keys`);
     }
     
     console.log('✅ Database seeding completed successfully!');
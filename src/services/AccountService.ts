@@ -1,6 +1,27 @@
 import { AccountRepository } from '../repositories/AccountRepository.js';
-import { Account, AccountType, CreateAccountRequest, ValidationError } from '../models/types.js';
-import { validateInput, accountSchema, accountTypeFilterSchema } from '../utils/validation.js';
+import {
+  Account,
+  AccountImportResult,
+  AccountImportRow,
+  AccountImportRowError,
+  AccountTreeNode,
+  AccountType,
+  CreateAccountRequest,
+  UpdateAccountRequest,
+  ValidationError,
+  ConflictError
+} from '../models/types.js';
+import {
+  validateInput,
+  accountSchema,
+  accountImportSchema,
+  accountUpdateSchema,
+  accountTypeFilterSchema
+} from '../utils/validation.js';
+import { Csv } from '../utils/csv.js';
+import { v4 as uuidv4 } from 'uuid';
+
+const EXPORT_COLUMNS = ['code', 'name', 'type', 'currency', 'parent_code', 'is_active'];
 
 export class AccountService {
   private accountRepository: AccountRepository;
@@ -9,26 +30,33 @@ export class AccountService {
     this.accountRepository = new AccountRepository();
   }
 
-  async createAccount(accountData: CreateAccountRequest): Promise<Account> {
+  async createAccount(ledgerId: string, accountData: CreateAccountRequest): Promise<Account> {
     // Validate input
     const validatedData = validateInput(accountSchema, accountData);
     
     // Check if account code already exists
-    const existingAccount = await this.accountRepository.findByCode(validatedData.code);
+    const existingAccount = await this.accountRepository.findByCode(ledgerId, validatedData.code);
     if (existingAccount) {
       throw new ValidationError(`Account with code '${validatedData.code}' already exists`);
     }
 
+    // Resolve and validate the parent account if one was given
+    let parentId: string | null = null;
+    if (validatedData.parent_code) {
+      const parent = await this.validateParent(ledgerId, validatedData.parent_code, validatedData.type);
+      parentId = parent.id;
+    }
+
     // Create the account
-    return await this.accountRepository.create(validatedData);
+    return await this.accountRepository.create(ledgerId, validatedData, parentId);
   }
 
-  async getAccount(code: string): Promise<Account> {
+  async getAccount(ledgerId: string, code: string): Promise<Account> {
     if (!code || typeof code !== 'string') {
       throw new ValidationError('Account code is required');
     }
 
-    const account = await this.accountRepository.findByCode(code);
+    const account = await this.accountRepository.findByCode(ledgerId, code);
     if (!account) {
       throw new ValidationError(`Account with code '${code}' not found`);
     }
@@ -36,16 +64,276 @@ export class AccountService {
     return account;
   }
 
-  async getAllAccounts(type?: AccountType): Promise<Account[]> {
+  /**
+   * Rename an account and/or move it to a different parent
+   * Passing parent_code: null detaches the account from its parent
+   */
+  async updateAccount(ledgerId: string, code: string, updateData: UpdateAccountRequest): Promise<Account> {
+    const validatedData = validateInput(accountUpdateSchema, updateData);
+    const account = await this.getAccount(ledgerId, code);
+
+    const changes: { name?: string; parent_id?: string | null } = {};
+    if (validatedData.name !== undefined) {
+      changes.name = validatedData.name;
+    }
+
+    if (validatedData.parent_code === null) {
+      changes.parent_id = null;
+    } else if (validatedData.parent_code !== undefined) {
+      const parent = await this.validateParent(ledgerId, validatedData.parent_code, account.type, account.id);
+      changes.parent_id = parent.id;
+    }
+
+    return await this.accountRepository.update(account.id, changes);
+  }
+
+  /**
+   * Deactivate an account so it can no longer receive postings
+   * Existing postings and balances are kept for reporting
+   */
+  async deactivateAccount(ledgerId: string, code: string): Promise<Account> {
+    const account = await this.getAccount(ledgerId, code);
+    if (!account.is_active) {
+      throw new ConflictError(`Account '${code}' is already inactive`);
+    }
+
+    return await this.accountRepository.setActive(account.id, false);
+  }
+
+  async reactivateAccount(ledgerId: string, code: string): Promise<Account> {
+    const account = await this.getAccount(ledgerId, code);
+    if (account.is_active) {
+      throw new ConflictError(`Account '${code}' is already active`);
+    }
+
+    return await this.accountRepository.setActive(account.id, true);
+  }
+
+  /**
+   * Permanently delete an account
+   * Only accounts without postings and without child accounts can be deleted
+   */
+  async deleteAccount(ledgerId: string, code: string): Promise<void> {
+    const account = await this.getAccount(ledgerId, code);
+
+    if (await this.accountRepository.hasTransactions(account.id)) {
+      throw new ConflictError(
+        `Account '${code}' has postings and cannot be deleted. Deactivate it instead.`
+      );
+    }
+
+    if (await this.accountRepository.hasChildren(account.id)) {
+      throw new ConflictError(
+        `Account '${code}' has child accounts. Move or delete them first.`
+      );
+    }
+
+    await this.accountRepository.delete(account.id);
+  }
+
+  /**
+   * Import a chart of accounts from CSV text or a JSON array
+   * Every row is validated before anything is written; if any row fails,
+   * nothing is created. In dry-run mode the validation report is returned
+   * without writing even when all rows are valid.
+   */
+  async importAccounts(ledgerId: string, payload: unknown, dryRun: boolean = false): Promise<AccountImportResult> {
+    const rows = this.parseImportPayload(payload);
+    if (rows.length === 0) {
+      throw new ValidationError('Import contains no account rows');
+    }
+
+    const errors: AccountImportRowError[] = [];
+    const existing = new Map<string, Account>();
+    (await this.accountRepository.findAll(ledgerId)).forEach(account => existing.set(account.code, account));
+
+    // Validate each row on its own
+    const valid = new Map<string, { row: number; data: AccountImportRow }>();
+    rows.forEach((rawRow, index) => {
+      const row = index + 1;
+      const code = typeof (rawRow as { code?: unknown })?.code === 'string'
+        ? (rawRow as { code: string }).code
+        : undefined;
+
+      try {
+        const data = validateInput(accountImportSchema, rawRow);
+        if (valid.has(data.code)) {
+          throw new ValidationError(`Account code '${data.code}' appears more than once in the import`);
+        }
+        if (existing.has(data.code)) {
+          throw new ValidationError(`Account with code '${data.code}' already exists`);
+        }
+        valid.set(data.code, { row, data });
+      } catch (error) {
+        if (!(error instanceof ValidationError)) {
+          throw error;
+        }
+        errors.push({ row, ...(code !== undefined && { code }), message: error.message });
+      }
+    });
+
+    // Validate parents against existing accounts and other rows in the import
+    for (const { row, data } of valid.values()) {
+      if (!data.parent_code) {
+        continue;
+      }
+
+      const parentType = valid.get(data.parent_code)?.data.type ?? existing.get(data.parent_code)?.type;
+      if (!parentType) {
+        errors.push({ row, code: data.code, message: `Parent account with code '${data.parent_code}' not found` });
+      } else if (parentType !== data.type) {
+        errors.push({
+          row,
+          code: data.code,
+          message: `Parent account '${data.parent_code}' is of type ${parentType}, ` +
+            `but child accounts must have the same type (${data.type})`,
+        });
+      } else if (this.importDepth(data.code, valid) === null) {
+        errors.push({ row, code: data.code, message: `Parent chain of account '${data.code}' contains a cycle` });
+      }
+    }
+
+    errors.sort((a, b) => a.row - b.row);
+    const accounts = [...valid.values()].map(({ data }) => data);
+
+    if (errors.length > 0 || dryRun) {
+      return { dry_run: dryRun, total: rows.length, created: 0, errors, accounts };
+    }
+
+    // Parents must be inserted before their children
+    const ids = new Map<string, string>();
+    accounts.forEach(account => ids.set(account.code, uuidv4()));
+    const ordered = [...accounts].sort(
+      (a, b) => this.importDepth(a.code, valid)! - this.importDepth(b.code, valid)!
+    );
+
+    const created = await this.accountRepository.createMany(
+      ledgerId,
+      ordered.map(account => ({
+        ...account,
+        id: ids.get(account.code)!,
+        parent_id: account.parent_code
+          ? ids.get(account.parent_code) ?? existing.get(account.parent_code)!.id
+          : null,
+      }))
+    );
+
+    return { dry_run: false, total: rows.length, created: created.length, errors, accounts };
+  }
+
+  /**
+   * Export the chart of accounts as CSV text
+   */
+  async exportAccountsCsv(ledgerId: string): Promise<string> {
+    const accounts = await this.exportAccounts(ledgerId);
+    return Csv.stringify([
+      EXPORT_COLUMNS,
+      ...accounts.map(account => [
+        account.code,
+        account.name,
+        account.type,
+        account.currency,
+        account.parent_code ?? '',
+        account.is_active,
+      ]),
+    ]);
+  }
+
+  /**
+   * Export the chart of accounts in the same shape accepted by importAccounts
+   */
+  async exportAccounts(ledgerId: string): Promise<AccountImportRow[]> {
+    const accounts = await this.accountRepository.findAll(ledgerId);
+    const codesById = new Map<string, string>();
+    accounts.forEach(account => codesById.set(account.id, account.code));
+
+    return accounts.map(account => {
+      const parentCode = account.parent_id ? codesById.get(account.parent_id) : undefined;
+      return {
+        code: account.code,
+        name: account.name,
+        type: account.type,
+        currency: account.currency,
+        ...(parentCode && { parent_code: parentCode }),
+        is_active: account.is_active,
+      };
+    });
+  }
+
+  async getAllAccounts(ledgerId: string, type?: AccountType): Promise<Account[]> {
     // Validate type filter if provided
     if (type) {
       validateInput(accountTypeFilterSchema, { type });
     }
 
-    return await this.accountRepository.findAll(type);
+    return await this.accountRepository.findAll(ledgerId, type);
+  }
+
+  /**
+   * Build the chart of accounts as a tree of parent/child nodes
+   * Accounts without a parent become root nodes, children are ordered by code
+   */
+  async getAccountTree(ledgerId: string): Promise<AccountTreeNode[]> {
+    const accounts = await this.accountRepository.findAll(ledgerId);
+
+    const nodes = new Map<string, AccountTreeNode>();
+    accounts.forEach(account => {
+      nodes.set(account.id, { ...account, children: [] });
+    });
+
+    const roots: AccountTreeNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    return roots;
+  }
+
+  /**
+   * Validate a parent account for an account of the given type
+   * - The parent must exist and share the child's account type
+   * - When re-parenting an existing account, the parent must not be
+   *   the account itself or one of its descendants (no cycles)
+   */
+  async validateParent(ledgerId: string, parentCode: string, type: AccountType, accountId?: string): Promise<Account> {
+    const parent = await this.accountRepository.findByCode(ledgerId, parentCode);
+    if (!parent) {
+      throw new ValidationError(`Parent account with code '${parentCode}' not found`);
+    }
+
+    if (parent.type !== type) {
+      throw new ValidationError(
+        `Parent account '${parent.code}' is of type ${parent.type}, ` +
+        `but child accounts must have the same type (${type})`
+      );
+    }
+
+    if (accountId) {
+      const visited = new Set<string>();
+      let current: Account | null = parent;
+      while (current) {
+        if (current.id === accountId) {
+          throw new ValidationError(
+            `Account '${parentCode}' cannot be used as parent because it would create a cycle`
+          );
+        }
+        if (visited.has(current.id) || !current.parent_id) {
+          break;
+        }
+        visited.add(current.id);
+        current = await this.accountRepository.findById(current.parent_id);
+      }
+    }
+
+    return parent;
   }
 
-  async validateAccountsExist(accountCodes: string[]): Promise<Account[]> {
+  async validateAccountsExist(ledgerId: string, accountCodes: string[]): Promise<Account[]> {
     if (!accountCodes || accountCodes.length === 0) {
       throw new ValidationError('At least one account code is required');
     }
@@ -60,7 +348,84 @@ export class AccountService {
     }
 
     // Get accounts and validate they all exist
-    return await this.accountRepository.getAccountsByCodesWithValidation(uniqueCodes);
+    return await this.accountRepository.getAccountsByCodesWithValidation(ledgerId, uniqueCodes);
+  }
+
+  /**
+   * Turn an import payload (CSV text, JSON array or { accounts: [...] }) into raw rows
+   */
+  private parseImportPayload(payload: unknown): unknown[] {
+    if (typeof payload === 'string') {
+      let records: Record<string, string>[];
+      try {
+        records = Csv.parseRecords(payload);
+      } catch (error) {
+        throw new ValidationError(`Invalid CSV: ${(error as Error).message}`);
+      }
+
+      // Only keep the importable columns; blank currency means the base currency,
+      // blank parent_code means "no parent" and blank is_active means active
+      return records.map(record => ({
+        code: record.code,
+        name: record.name,
+        type: record.type,
+        ...(record.currency && { currency: record.currency }),
+        ...(record.parent_code && { parent_code: record.parent_code }),
+        ...(record.is_active && { is_active: record.is_active }),
+      }));
+    }
+
+    if (Array.isArray(payload)) {
+      return payload;
+    }
+
+    const accounts = (payload as { accounts?: unknown } | null)?.accounts;
+    if (Array.isArray(accounts)) {
+      return accounts;
+    }
+
+    throw new ValidationError(
+      'Import body must be CSV text (Content-Type: text/csv), a JSON array of accounts or { "accounts": [...] }'
+    );
+  }
+
+  /**
+   * Depth of an imported account within the import (0 when its parent is not part of it)
+   * Returns null when following the parents loops back on itself
+   */
+  private importDepth(
+    code: string,
+    rows: Map<string, { row: number; data: AccountImportRow }>
+  ): number | null {
+    const seen = new Set<string>([code]);
+    let depth = 0;
+    let parentCode = rows.get(code)?.data.parent_code;
+
+    while (parentCode && rows.has(parentCode)) {
+      if (seen.has(parentCode)) {
+        return null;
+      }
+      seen.add(parentCode);
+      depth++;
+      parentCode = rows.get(parentCode)!.data.parent_code;
+    }
+
+    return depth;
+  }
+
+  /**
+   * Ensure every account can receive postings
+   */
+  assertAccountsActive(accounts: Account[]): void {
+    const inactiveCodes = accounts
+      .filter(account => !account.is_active)
+      .map(account => account.code);
+
+    if (inactiveCodes.length > 0) {
+      throw new ValidationError(
+        `Cannot post to inactive accounts: ${inactiveCodes.join(', ')}. Reactivate them first.`
+      );
+    }
   }
 
   /**
@@ -84,18 +449,34 @@ export class AccountService {
 
   /**
    * Check if an account can be deleted
-   * Accounts with existing transactions cannot be deleted
+   * Accounts with existing transactions or child accounts cannot be deleted
+   */
+  async canDeleteAccount(ledgerId: string, code: string): Promise<boolean> {
+    const account = await this.getAccount(ledgerId, code);
+    return !(await this.accountRepository.hasTransactions(account.id)) &&
+      !(await this.accountRepository.hasChildren(account.id));
+  }
+
+  /**
+   * Look up accounts by code without failing on missing codes
+   * Callers that need to report missing accounts per item (e.g. batches) use this
    */
-  async canDeleteAccount(code: string): Promise<boolean> {
-    const account = await this.getAccount(code);
-    return !(await this.accountRepository.hasTransactions(account.id));
+  async findAccountsByCodes(ledgerId: string, codes: string[]): Promise<Map<string, Account>> {
+    const accounts = await this.accountRepository.findByCodes(ledgerId, [...new Set(codes)]);
+    const accountMap = new Map<string, Account>();
+
+    accounts.forEach(account => {
+      accountMap.set(account.code, account);
+    });
+
+    return accountMap;
   }
 
   /**
    * Validate that account codes exist and return them in a map for quick lookup
    */
-  async getAccountMapBycodes(codes: string[]): Promise<Map<string, Account>> {
-    const accounts = await this.validateAccountsExist(codes);
+  async getAccountMapBycodes(ledgerId: string, codes: string[]): Promise<Map<string, Account>> {
+    const accounts = await this.validateAccountsExist(ledgerId, codes);
     const accountMap = new Map<string, Account>();
     
     accounts.forEach(account => {
@@ -0,0 +1,174 @@
+import { ApiKeyRepository, ApiKeySecret } from '../repositories/ApiKeyRepository.js';
+import { LedgerRepository } from '../repositories/LedgerRepository.js';
+import {
+  ApiKey,
+  ApiKeyScope,
+  CreatedApiKey,
+  CreateApiKeyRequest,
+  RotateApiKeyRequest,
+  ValidationError,
+  NotFoundError,
+  ForbiddenError,
+  ConflictError
+} from '../models/types.js';
+import { validateInput, apiKeySchema, apiKeyRotationSchema } from '../utils/validation.js';
+import { ApiKeys } from '../utils/apiKey.js';
+import { ENV } from '../config/env.js';
+
+// Ledger the keys from API_KEYS are bound to
+const INITIAL_LEDGER_CODE = 'MAIN';
+
+export class ApiKeyService {
+  private apiKeyRepository: ApiKeyRepository;
+  private ledgerRepository: LedgerRepository;
+
+  constructor() {
+    this.apiKeyRepository = new ApiKeyRepository();
+    this.ledgerRepository = new LedgerRepository();
+  }
+
+  /**
+   * Create a key; it may only be bound to ledgers the creating key is bound to
+   */
+  async createApiKey(
+    keyData: CreateApiKeyRequest,
+    accessibleLedgerIds: string[] = [],
+    actorId?: string
+  ): Promise<CreatedApiKey> {
+    const validatedData = validateInput(apiKeySchema, keyData);
+    const ledgerIds = validatedData.ledger_ids ?? accessibleLedgerIds;
+
+    const inaccessible = ledgerIds.filter(id => !accessibleLedgerIds.includes(id));
+    if (inaccessible.length > 0) {
+      throw new ForbiddenError(`API key does not have access to ledger '${inaccessible[0]}'`);
+    }
+    if (ledgerIds.length === 0) {
+      throw new ValidationError('API key must be bound to at least one ledger');
+    }
+
+    const key = ApiKeys.generate();
+    const apiKey = await this.apiKeyRepository.create({
+      ...this.hashKey(key),
+      name: validatedData.name,
+      scopes: validatedData.scopes,
+      ledger_ids: ledgerIds,
+      created_by: actorId ?? null,
+    });
+
+    return { ...apiKey, key };
+  }
+
+  async getApiKeys(): Promise<ApiKey[]> {
+    return await this.apiKeyRepository.findAll();
+  }
+
+  async getApiKey(id: string): Promise<ApiKey> {
+    if (!id || typeof id !== 'string') {
+      throw new ValidationError('API key ID is required');
+    }
+
+    const apiKey = await this.apiKeyRepository.findById(id);
+    if (!apiKey) {
+      throw new NotFoundError(`API key with ID '${id}' not found`);
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * Revoke a key immediately; the last usable admin key can not be revoked
+   */
+  async revokeApiKey(id: string): Promise<ApiKey> {
+    const apiKey = await this.getApiKey(id);
+    if (!apiKey.is_active) {
+      throw new ConflictError(`API key '${id}' is already revoked`);
+    }
+    await this.assertNotLastAdmin(apiKey);
+
+    return (await this.apiKeyRepository.revoke(id))!;
+  }
+
+  /**
+   * Replace a key with a new one with the same name, scopes and ledgers.
+   * The old key keeps working for the grace period so clients can switch over.
+   */
+  async rotateApiKey(id: string, rotationData: RotateApiKeyRequest = {}, actorId?: string): Promise<CreatedApiKey> {
+    const validatedData = validateInput(apiKeyRotationSchema, rotationData);
+    const apiKey = await this.getApiKey(id);
+
+    if (!apiKey.is_active) {
+      throw new ConflictError(`API key '${id}' is revoked and can not be rotated`);
+    }
+    if (apiKey.expires_at) {
+      throw new ConflictError(`API key '${id}' has already been rotated`);
+    }
+
+    const gracePeriodHours = validatedData.grace_period_hours ?? 24;
+    const expiresAt = new Date(Date.now() + gracePeriodHours * 60 * 60 * 1000);
+
+    const key = ApiKeys.generate();
+    const newKey = await this.apiKeyRepository.rotate(id, {
+      ...this.hashKey(key),
+      name: apiKey.name,
+      scopes: apiKey.scopes,
+      ledger_ids: apiKey.ledger_ids,
+      created_by: actorId ?? null,
+    }, expiresAt);
+
+    return { ...newKey, key };
+  }
+
+  /**
+   * Find the usable key matching a presented key and record its use
+   * @returns The key's id and scopes, or null if the key is unknown, revoked or expired
+   */
+  async authenticate(key: string): Promise<{ id: string; scopes: ApiKeyScope[] } | null> {
+    const candidates = await this.apiKeyRepository.findUsableByPrefix(ApiKeys.prefixOf(key));
+    const match = candidates.find(candidate => ApiKeys.verify(key, candidate.key_salt, candidate.key_hash));
+
+    if (!match) {
+      return null;
+    }
+
+    await this.apiKeyRepository.touchLastUsed(match.id);
+    return { id: match.id, scopes: match.scopes };
+  }
+
+  /**
+   * Create admin keys from API_KEYS, bound to the main ledger, while no API key exists yet
+   * @returns Number of keys created
+   */
+  async seedInitialKeys(): Promise<number> {
+    if (ENV.API_KEYS.length === 0 || (await this.apiKeyRepository.count()) > 0) {
+      return 0;
+    }
+
+    const ledger = await this.ledgerRepository.findByCode(INITIAL_LEDGER_CODE);
+    if (!ledger) {
+      throw new NotFoundError(`Ledger '${INITIAL_LEDGER_CODE}' not found; run the migrations first`);
+    }
+
+    for (const key of ENV.API_KEYS) {
+      await this.apiKeyRepository.create({
+        ...this.hashKey(key),
+        name: `Initial admin key (${ApiKeys.prefixOf(key)}...)`,
+        scopes: ['admin'],
+        ledger_ids: [ledger.id],
+        created_by: null,
+      });
+    }
+
+    return ENV.API_KEYS.length;
+  }
+
+  private hashKey(key: string): ApiKeySecret {
+    const salt = ApiKeys.generateSalt();
+    return { key_prefix: ApiKeys.prefixOf(key), key_salt: salt, key_hash: ApiKeys.hash(key, salt) };
+  }
+
+  private async assertNotLastAdmin(apiKey: ApiKey): Promise<void> {
+    if (apiKey.scopes.includes('admin') && (await this.apiKeyRepository.countOtherUsableAdmins(apiKey.id)) === 0) {
+      throw new ConflictError('The last usable admin API key can not be revoked');
+    }
+  }
+}
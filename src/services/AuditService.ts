@@ -0,0 +1,33 @@
+import { AuditEventRepository } from '../repositories/AuditEventRepository.js';
+import { AuditEvent, AuditEventFilter } from '../models/types.js';
+import { validateInput, auditEventQuerySchema } from '../utils/validation.js';
+
+export class AuditService {
+  private auditEventRepository: AuditEventRepository;
+
+  constructor() {
+    this.auditEventRepository = new AuditEventRepository();
+  }
+
+  async recordEvent(event: Omit<AuditEvent, 'id' | 'occurred_at'>): Promise<AuditEvent> {
+    return await this.auditEventRepository.create(event);
+  }
+
+  /**
+   * Search audit events; from and to are inclusive dates
+   */
+  async getAuditEvents(query: unknown): Promise<{ events: AuditEvent[]; total: number; filter: AuditEventFilter }> {
+    const filter = validateInput(auditEventQuerySchema, query);
+
+    // Normalize dates to YYYY-MM-DD format
+    if (filter.from) {
+      filter.from = new Date(filter.from).toISOString().split('T')[0]!;
+    }
+    if (filter.to) {
+      filter.to = new Date(filter.to).toISOString().split('T')[0]!;
+    }
+
+    const { events, total } = await this.auditEventRepository.findAll(filter);
+    return { events, total, filter };
+  }
+}
@@ -1,23 +1,46 @@
 import { BalanceRepository } from '../repositories/BalanceRepository.js';
 import { AccountService } from './AccountService.js';
+import { LedgerService } from './LedgerService.js';
 import { 
   AccountBalance, 
+  AccountLedgerReport,
+  AccountType,
+  BalanceSheetLine,
+  BalanceSheetReport,
+  ComparativeAmount,
+  ConsolidatedBalanceSheetReport,
+  ConsolidatedTrialBalanceReport,
+  IncomeStatementLine,
+  IncomeStatementReport,
+  IncomeStatementSection,
+  Ledger,
   TrialBalanceReport, 
   ValidationError, 
-  NotFoundError 
+  NotFoundError,
+  ForbiddenError
 } from '../models/types.js';
-import { validateInput, balanceQuerySchema, trialBalanceQuerySchema } from '../utils/validation.js';
+import {
+  validateInput,
+  balanceQuerySchema,
+  trialBalanceQuerySchema,
+  incomeStatementQuerySchema,
+  accountLedgerQuerySchema
+} from '../utils/validation.js';
+import { ENV } from '../config/env.js';
 
 export class BalanceService {
   private balanceRepository: BalanceRepository;
   private accountService: AccountService;
+  private ledgerService: LedgerService;
 
   constructor() {
     this.balanceRepository = new BalanceRepository();
     this.accountService = new AccountService();
+    this.ledgerService = new LedgerService();
   }
 
   async getAccountBalance(
+    ledgerId: string,
     accountCode: string, 
     asOfDate?: string
   ): Promise<AccountBalance> {
@@ -34,10 +57,10 @@ export class BalanceService {
     }
 
     // Ensure account exists
-    await this.accountService.getAccount(accountCode);
+    await this.accountService.getAccount(ledgerId, accountCode);
 
     // Get the balance
-    const balance = await this.balanceRepository.getAccountBalance(accountCode, asOfDateParsed);
+    const balance = await this.balanceRepository.getAccountBalance(ledgerId, accountCode, asOfDateParsed);
     
     if (!balance) {
       throw new NotFoundError(`No balance data found for account '${accountCode}'`);
@@ -46,7 +69,12 @@ export class BalanceService {
     return balance;
   }
 
-  async getTrialBalance(from: string, to: string): Promise<TrialBalanceReport> {
+  async getTrialBalance(
+    ledgerId: string,
+    from: string,
+    to: string,
+    rollUp: boolean = false
+  ): Promise<TrialBalanceReport> {
     // Validate date range
     const validated = validateInput(trialBalanceQuerySchema, { from, to });
     
@@ -54,7 +82,7 @@ export class BalanceService {
     const toDate = new Date(validated.to);
 
     // Get the trial balance
-    const trialBalance = await this.balanceRepository.getTrialBalance(fromDate, toDate);
+    const trialBalance = await this.balanceRepository.getTrialBalance(ledgerId, fromDate, toDate, rollUp);
 
     // Validate that debits equal credits (fundamental accounting principle)
     if (trialBalance.totals.debits !== trialBalance.totals.credits) {
@@ -69,7 +97,7 @@ export class BalanceService {
     return trialBalance;
   }
 
-  async getAllAccountBalances(asOfDate?: string): Promise<AccountBalance[]> {
+  async getAllAccountBalances(ledgerId: string, asOfDate?: string, rollUp: boolean = false): Promise<AccountBalance[]> {
     // Validate as_of date if provided
     let asOfDateParsed: Date | undefined;
     if (asOfDate) {
@@ -77,13 +105,57 @@ export class BalanceService {
       asOfDateParsed = new Date(validated.as_of!);
     }
 
-    return await this.balanceRepository.getAllAccountBalances(asOfDateParsed);
+    return await this.balanceRepository.getAllAccountBalances(ledgerId, asOfDateParsed, rollUp);
+  }
+
+  /**
+   * General ledger of an account between two dates with opening, running and closing balances
+   * Balances carry the account's normal-balance sign: debits minus credits for Asset and
+   * Expense accounts, credits minus debits for Liability, Equity and Revenue accounts
+   */
+  async getAccountLedger(
+    ledgerId: string,
+    accountCode: string,
+    from: string,
+    to: string,
+    limit?: number,
+    offset?: number
+  ): Promise<AccountLedgerReport> {
+    const validated = validateInput(accountLedgerQuerySchema, { from, to, limit, offset });
+    const account = await this.accountService.getAccount(ledgerId, accountCode);
+
+    const ledger = await this.balanceRepository.getAccountLedger(
+      account.id,
+      new Date(validated.from),
+      new Date(validated.to),
+      validated.limit as number,
+      validated.offset as number
+    );
+
+    // The repository works in net debit balances
+    const sign = this.normalBalanceSign(account.type);
+
+    return {
+      account_code: account.code,
+      account_name: account.name,
+      account_type: account.type,
+      from: validated.from,
+      to: validated.to,
+      opening_balance: sign * ledger.opening,
+      closing_balance: sign * (ledger.opening + ledger.debits - ledger.credits),
+      totals: {
+        debits: ledger.debits,
+        credits: ledger.credits,
+      },
+      total_lines: ledger.count,
+      lines: ledger.lines.map(line => ({ ...line, running_balance: sign * line.running_balance })),
+    };
   }
 
   /**
    * Get a summary of balances by account type
    */
-  async getBalanceSummaryByType(asOfDate?: string): Promise<{
+  async getBalanceSummaryByType(ledgerId: string, asOfDate?: string): Promise<{
     assets: number;
     liabilities: number;
     equity: number;
@@ -91,7 +163,7 @@ export class BalanceService {
     expenses: number;
     netIncome: number;
   }> {
-    const balances = await this.getAllAccountBalances(asOfDate);
+    const balances = await this.getAllAccountBalances(ledgerId, asOfDate);
 
     let assets = 0;
     let liabilities = 0;
@@ -132,22 +204,216 @@ export class BalanceService {
     };
   }
 
+  /**
+   * Income statement (profit and loss) for a date range
+   * Amounts are positive in their natural direction (revenue earned, expenses incurred);
+   * an optional comparison period adds variance amounts and percentages
+   */
+  async getIncomeStatement(
+    ledgerId: string,
+    from: string,
+    to: string,
+    compareFrom?: string,
+    compareTo?: string
+  ): Promise<IncomeStatementReport> {
+    const validated = validateInput(incomeStatementQuerySchema, {
+      from,
+      to,
+      compare_from: compareFrom,
+      compare_to: compareTo,
+    });
+
+    const current = await this.balanceRepository.getIncomeStatementBalances(
+      ledgerId,
+      new Date(validated.from),
+      new Date(validated.to)
+    );
+
+    const comparison = validated.compare_from && validated.compare_to
+      ? { from: validated.compare_from as string, to: validated.compare_to as string }
+      : null;
+    const previous = comparison
+      ? await this.balanceRepository.getIncomeStatementBalances(
+        ledgerId,
+        new Date(comparison.from),
+        new Date(comparison.to)
+      )
+      : null;
+    const previousByCode = new Map((previous || []).map(balance => [balance.account_code, balance]));
+
+    const revenue = this.buildIncomeStatementSection(current, previousByCode, 'Revenue', comparison !== null);
+    const expenses = this.buildIncomeStatementSection(current, previousByCode, 'Expense', comparison !== null);
+
+    return {
+      from: validated.from,
+      to: validated.to,
+      comparison,
+      revenue,
+      expenses,
+      net_income: this.compareAmounts(
+        revenue.total.amount - expenses.total.amount,
+        comparison ? revenue.total.comparison_amount! - expenses.total.comparison_amount! : undefined
+      ),
+    };
+  }
+
+  /**
+   * Balance sheet as of a date
+   * Revenue and Expense balances that have not been closed into retained earnings yet
+   * are shown as a synthetic current earnings line in equity, so the sheet balances
+   * before the year-end close
+   */
+  async getBalanceSheet(ledgerId: string, asOfDate?: string): Promise<BalanceSheetReport> {
+    const balances = await this.getAllAccountBalances(ledgerId, asOfDate);
+    return this.buildBalanceSheet(balances, asOfDate);
+  }
+
+  /**
+   * Trial balance of several ledgers, summed by account code, with the intercompany
+   * activity between them eliminated
+   * Defaults to every ledger the API key is bound to
+   */
+  async getConsolidatedTrialBalance(
+    accessibleLedgerIds: string[],
+    from: string,
+    to: string,
+    ledgerIds?: string
+  ): Promise<ConsolidatedTrialBalanceReport> {
+    const ledgers = await this.resolveConsolidationLedgers(accessibleLedgerIds, ledgerIds);
+
+    const balances: AccountBalance[] = [];
+    for (const ledger of ledgers) {
+      const trialBalance = await this.getTrialBalance(ledger.id, from, to);
+      balances.push(...trialBalance.accounts);
+    }
+
+    const validated = validateInput(trialBalanceQuerySchema, { from, to });
+    const eliminations = await this.getIntercompanyEliminations(
+      ledgers.map(ledger => ledger.id),
+      new Date(validated.from),
+      new Date(validated.to)
+    );
+    const accounts = this.applyEliminations(this.mergeBalances(balances), eliminations);
+
+    return {
+      from: new Date(validated.from).toISOString().split('T')[0]!,
+      to: new Date(validated.to).toISOString().split('T')[0]!,
+      ledgers,
+      accounts,
+      eliminations,
+      totals: {
+        debits: accounts.reduce((total, account) => total + account.debits, 0),
+        credits: accounts.reduce((total, account) => total + account.credits, 0),
+      },
+    };
+  }
+
+  /**
+   * Balance sheet of several ledgers, summed by account code, with intercompany
+   * receivables and payables between them eliminated
+   */
+  async getConsolidatedBalanceSheet(
+    accessibleLedgerIds: string[],
+    asOfDate?: string,
+    ledgerIds?: string
+  ): Promise<ConsolidatedBalanceSheetReport> {
+    const ledgers = await this.resolveConsolidationLedgers(accessibleLedgerIds, ledgerIds);
+
+    const balances: AccountBalance[] = [];
+    for (const ledger of ledgers) {
+      balances.push(...await this.getAllAccountBalances(ledger.id, asOfDate));
+    }
+
+    const eliminations = await this.getIntercompanyEliminations(
+      ledgers.map(ledger => ledger.id),
+      null,
+      asOfDate ? new Date(validateInput(balanceQuerySchema, { as_of: asOfDate }).as_of!) : null
+    );
+    const consolidated = this.applyEliminations(this.mergeBalances(balances), eliminations);
+
+    return {
+      ...this.buildBalanceSheet(consolidated, asOfDate),
+      ledgers,
+      eliminations,
+    };
+  }
+
+  private buildBalanceSheet(balances: AccountBalance[], asOfDate?: string): BalanceSheetReport {
+    const assets: BalanceSheetLine[] = [];
+    const liabilities: BalanceSheetLine[] = [];
+    const equity: BalanceSheetLine[] = [];
+    let currentEarnings = 0;
+
+    for (const balance of balances) {
+      const net = balance.debits - balance.credits;
+
+      switch (balance.account_type) {
+        case 'Asset':
+          if (net !== 0) {
+            assets.push(this.toBalanceSheetLine(balance, net));
+          }
+          break;
+        case 'Liability':
+          if (net !== 0) {
+            liabilities.push(this.toBalanceSheetLine(balance, -net));
+          }
+          break;
+        case 'Equity':
+          if (net !== 0) {
+            equity.push(this.toBalanceSheetLine(balance, -net));
+          }
+          break;
+        case 'Revenue':
+        case 'Expense':
+          currentEarnings -= net; // Credit balances are earnings
+          break;
+      }
+    }
+
+    if (currentEarnings !== 0) {
+      equity.push({
+        account_code: null,
+        account_name: 'Current earnings',
+        parent_code: null,
+        amount: currentEarnings,
+        is_synthetic: true,
+      });
+    }
+
+    const sum = (lines: BalanceSheetLine[]): number => lines.reduce((total, line) => total + line.amount, 0);
+    const totalAssets = sum(assets);
+    const totalLiabilities = sum(liabilities);
+    const totalEquity = sum(equity);
+
+    return {
+      as_of: asOfDate || null,
+      assets: { lines: assets, total: totalAssets },
+      liabilities: { lines: liabilities, total: totalLiabilities },
+      equity: { lines: equity, total: totalEquity },
+      current_earnings: currentEarnings,
+      total_liabilities_and_equity: totalLiabilities + totalEquity,
+      is_balanced: totalAssets === totalLiabilities + totalEquity,
+    };
+  }
+
   /**
    * Validate the accounting equation: Assets = Liabilities + Equity
+   * Equity includes current earnings (Revenue - Expenses not yet closed into retained earnings)
    * This is a fundamental check for data integrity
    */
-  async validateAccountingEquation(asOfDate?: string): Promise<{
+  async validateAccountingEquation(ledgerId: string, asOfDate?: string): Promise<{
     isValid: boolean;
     assets: number;
     liabilities: number;
     equity: number;
+    currentEarnings: number;
     difference: number;
     message: string;
   }> {
-    const summary = await this.getBalanceSummaryByType(asOfDate);
+    const summary = await this.getBalanceSummaryByType(ledgerId, asOfDate);
     
     const leftSide = summary.assets;
-    const rightSide = summary.liabilities + summary.equity;
+    const rightSide = summary.liabilities + summary.equity + summary.netIncome;
     const difference = leftSide - rightSide;
     const isValid = Math.abs(difference) < 1; // Allow for rounding to the cent
 
@@ -156,6 +422,7 @@ export class BalanceService {
       assets: summary.assets,
       liabilities: summary.liabilities,
       equity: summary.equity,
+      currentEarnings: summary.netIncome,
       difference,
       message: isValid 
         ? 'Accounting equation is balanced' 
@@ -163,12 +430,234 @@ export class BalanceService {
     };
   }
 
+  /**
+   * Ledgers to consolidate: the comma-separated ledger_ids if given, otherwise every
+   * ledger the API key is bound to
+   */
+  private async resolveConsolidationLedgers(accessibleLedgerIds: string[], ledgerIds?: string): Promise<Ledger[]> {
+    const requested = ledgerIds
+      ? [...new Set(ledgerIds.split(',').map(id => id.trim()).filter(id => id.length > 0))]
+      : accessibleLedgerIds;
+
+    const denied = requested.filter(id => !accessibleLedgerIds.includes(id));
+    if (denied.length > 0) {
+      throw new ForbiddenError(`API key does not have access to ledger(s): ${denied.join(', ')}`);
+    }
+
+    const ledgers = await this.ledgerService.getLedgers(requested);
+    if (ledgers.length === 0) {
+      throw new ValidationError('At least one ledger is required for a consolidated report');
+    }
+
+    return ledgers;
+  }
+
+  /**
+   * Sum balances of several ledgers by account code
+   * Name, type and parent are taken from the first ledger that has the account
+   */
+  private mergeBalances(balances: AccountBalance[]): AccountBalance[] {
+    const merged = new Map<string, AccountBalance>();
+
+    for (const balance of balances) {
+      const existing = merged.get(balance.account_code);
+      if (existing) {
+        existing.debits += balance.debits;
+        existing.credits += balance.credits;
+        existing.balance = this.balanceRepository.calculateDisplayBalance(
+          existing.account_type, existing.debits, existing.credits
+        );
+      } else {
+        merged.set(balance.account_code, {
+          account_code: balance.account_code,
+          account_name: balance.account_name,
+          account_type: balance.account_type,
+          parent_code: balance.parent_code ?? null,
+          debits: balance.debits,
+          credits: balance.credits,
+          balance: this.balanceRepository.calculateDisplayBalance(
+            balance.account_type, balance.debits, balance.credits
+          ),
+        });
+      }
+    }
+
+    return [...merged.values()].sort((a, b) => a.account_code.localeCompare(b.account_code));
+  }
+
+  private applyEliminations(balances: AccountBalance[], eliminations: AccountBalance[]): AccountBalance[] {
+    const eliminationsByCode = new Map(eliminations.map(elimination => [elimination.account_code, elimination]));
+
+    return balances.map(balance => {
+      const elimination = eliminationsByCode.get(balance.account_code);
+      if (!elimination) {
+        return balance;
+      }
+
+      const debits = balance.debits + elimination.debits;
+      const credits = balance.credits + elimination.credits;
+      return {
+        ...balance,
+        debits,
+        credits,
+        balance: this.balanceRepository.calculateDisplayBalance(balance.account_type, debits, credits),
+      };
+    });
+  }
+
+  /**
+   * Adjustments that eliminate what the ledgers owe each other, one row per account code:
+   * the receivable account is credited and the payable account debited
+   * The amount comes from the posted balances of the intercompany accounts (their movement
+   * over the range for a trial balance), so settlements reduce it: it is the smaller of the
+   * combined receivables and payables. Whatever does not match, such as a settlement booked
+   * by one side only or a balance with a ledger outside the group, stays visible.
+   */
+  private async getIntercompanyEliminations(
+    ledgerIds: string[],
+    fromDate: Date | null,
+    toDate: Date | null
+  ): Promise<AccountBalance[]> {
+    const totals = await this.balanceRepository.getCombinedAccountTotals(
+      ledgerIds,
+      [ENV.INTERCOMPANY_RECEIVABLE_ACCOUNT, ENV.INTERCOMPANY_PAYABLE_ACCOUNT],
+      fromDate,
+      toDate
+    );
+    const receivable = totals.find(total =>
+      total.account_code === ENV.INTERCOMPANY_RECEIVABLE_ACCOUNT && total.account_type === 'Asset'
+    );
+    const payable = totals.find(total =>
+      total.account_code === ENV.INTERCOMPANY_PAYABLE_ACCOUNT && total.account_type === 'Liability'
+    );
+    if (!receivable || !payable) {
+      return [];
+    }
+
+    // Both are positive while the group owes itself; a range can also show a net decrease
+    const receivableCents = receivable.debits - receivable.credits;
+    const payableCents = payable.credits - payable.debits;
+    if (Math.sign(receivableCents) !== Math.sign(payableCents)) {
+      return [];
+    }
+
+    const eliminatedCents = Math.sign(receivableCents) * Math.min(Math.abs(receivableCents), Math.abs(payableCents));
+    if (eliminatedCents === 0) {
+      return [];
+    }
+
+    return [
+      this.toElimination(receivable, Math.max(-eliminatedCents, 0), Math.max(eliminatedCents, 0)),
+      this.toElimination(payable, Math.max(eliminatedCents, 0), Math.max(-eliminatedCents, 0)),
+    ];
+  }
+
+  private toElimination(total: AccountBalance, debits: number, credits: number): AccountBalance {
+    return {
+      account_code: total.account_code,
+      account_name: total.account_name,
+      account_type: total.account_type,
+      debits,
+      credits,
+      balance: this.balanceRepository.calculateDisplayBalance(total.account_type, debits, credits),
+    };
+  }
+
+  /**
+   * 1 for debit-normal accounts (Asset, Expense), -1 for credit-normal accounts
+   */
+  private normalBalanceSign(accountType: AccountType): 1 | -1 {
+    return accountType === 'Liability' || accountType === 'Equity' || accountType === 'Revenue' ? -1 : 1;
+  }
+
+  private toBalanceSheetLine(balance: AccountBalance, amount: number): BalanceSheetLine {
+    return {
+      account_code: balance.account_code,
+      account_name: balance.account_name,
+      parent_code: balance.parent_code ?? null,
+      amount,
+      is_synthetic: false,
+    };
+  }
+
+  /**
+   * Build one income statement section, leaving out accounts without activity in either period
+   */
+  private buildIncomeStatementSection(
+    current: AccountBalance[],
+    previousByCode: Map<string, AccountBalance>,
+    type: 'Revenue' | 'Expense',
+    withComparison: boolean
+  ): IncomeStatementSection {
+    // Revenue is credit-normal, expenses are debit-normal
+    const naturalAmount = (balance: AccountBalance | undefined): number => {
+      if (!balance) {
+        return 0;
+      }
+      return type === 'Revenue' ? balance.credits - balance.debits : balance.debits - balance.credits;
+    };
+
+    const lines: IncomeStatementLine[] = [];
+    let total = 0;
+    let comparisonTotal = 0;
+
+    for (const balance of current) {
+      if (balance.account_type !== type) {
+        continue;
+      }
+
+      const previous = previousByCode.get(balance.account_code);
+      const hasActivity = balance.debits > 0 || balance.credits > 0 ||
+        (withComparison && !!previous && (previous.debits > 0 || previous.credits > 0));
+      if (!hasActivity) {
+        continue;
+      }
+
+      const amount = naturalAmount(balance);
+      const comparisonAmount = naturalAmount(previous);
+      total += amount;
+      comparisonTotal += comparisonAmount;
+
+      lines.push({
+        account_code: balance.account_code,
+        account_name: balance.account_name,
+        parent_code: balance.parent_code ?? null,
+        ...this.compareAmounts(amount, withComparison ? comparisonAmount : undefined),
+      });
+    }
+
+    return {
+      lines,
+      total: this.compareAmounts(total, withComparison ? comparisonTotal : undefined),
+    };
+  }
+
+  /**
+   * Attach variance against a comparison amount, if any
+   * The percentage is relative to the magnitude of the comparison amount, rounded to 2 decimals
+   */
+  private compareAmounts(amount: number, comparisonAmount?: number): ComparativeAmount {
+    if (comparisonAmount === undefined) {
+      return { amount };
+    }
+
+    const variance = amount - comparisonAmount;
+    return {
+      amount,
+      comparison_amount: comparisonAmount,
+      variance,
+      variance_percent: comparisonAmount === 0
+        ? null
+        : Math.round((variance / Math.abs(comparisonAmount)) * 10000) / 100,
+    };
+  }
+
   /**
    * Check if an account has any activity (non-zero balance)
    */
-  async hasAccountActivity(accountCode: string, asOfDate?: string): Promise<boolean> {
+  async hasAccountActivity(ledgerId: string, accountCode: string, asOfDate?: string): Promise<boolean> {
     try {
-      const balance = await this.getAccountBalance(accountCode, asOfDate);
+      const balance = await this.getAccountBalance(ledgerId, accountCode, asOfDate);
       return balance.debits > 0 || balance.credits > 0;
     } catch (error) {
       if (error instanceof NotFoundError) {
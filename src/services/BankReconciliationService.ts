@@ -0,0 +1,372 @@
+import { BankReconciliationRepository } from '../repositories/BankReconciliationRepository.js';
+import { AccountRepository } from '../repositories/AccountRepository.js';
+import { BankStatementService } from './BankStatementService.js';
+import { JournalService } from './JournalService.js';
+import {
+  Account,
+  AutoMatchRequest,
+  AutoMatchResult,
+  BankLineEntryResult,
+  BankMatch,
+  BankReconciliationReport,
+  CreateBankLineEntryRequest,
+  CreateBankMatchRequest,
+  IdempotencyReservation,
+  UnmatchedBankItems,
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '../models/types.js';
+import {
+  validateInput,
+  autoMatchSchema,
+  bankMatchSchema,
+  bankLineEntrySchema,
+  unmatchedBankItemsQuerySchema
+} from '../utils/validation.js';
+import { BankMatcher } from '../utils/bankMatching.js';
+import { Money } from '../utils/money.js';
+import { Csv } from '../utils/csv.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class BankReconciliationService {
+  private bankReconciliationRepository: BankReconciliationRepository;
+  private accountRepository: AccountRepository;
+  private bankStatementService: BankStatementService;
+  private journalService: JournalService;
+
+  constructor() {
+    this.bankReconciliationRepository = new BankReconciliationRepository();
+    this.accountRepository = new AccountRepository();
+    this.bankStatementService = new BankStatementService();
+    this.journalService = new JournalService();
+  }
+
+  /**
+   * Match the account's unmatched statement lines to its unmatched journal lines
+   * In dry-run mode the proposed matches are returned without being recorded
+   */
+  async autoMatch(ledgerId: string, request: AutoMatchRequest, actorId?: string): Promise<AutoMatchResult> {
+    const { account_code, statement_id, date_window_days, dry_run } = validateInput(autoMatchSchema, request);
+    const account = await this.bankStatementService.getBankAccount(ledgerId, account_code);
+
+    if (statement_id) {
+      const statement = await this.bankStatementService.getStatement(ledgerId, statement_id);
+      if (statement.account_id !== account.id) {
+        throw new ValidationError(`Bank statement '${statement_id}' is not a statement of account '${account_code}'`);
+      }
+    }
+
+    const statementLines = await this.bankReconciliationRepository.findUnmatchedStatementLines(account.id, statement_id);
+    if (statementLines.length === 0) {
+      return { dry_run, matches: [], unmatched_statement_lines: 0, unmatched_journal_lines: 0 };
+    }
+
+    // Only journal lines within the date window of some statement line can match
+    const dates = statementLines.map(line => new Date(line.booking_date).getTime());
+    const bookLines = await this.bankReconciliationRepository.findUnmatchedBookLines(
+      account.id,
+      account.currency,
+      this.toIsoDate(new Date(Math.min(...dates) - date_window_days * DAY_MS)),
+      this.toIsoDate(new Date(Math.max(...dates) + date_window_days * DAY_MS))
+    );
+
+    const matches = BankMatcher.propose(statementLines, bookLines, date_window_days);
+    if (!dry_run && matches.length > 0) {
+      const ids = await this.bankReconciliationRepository.createMatches(
+        ledgerId,
+        account.id,
+        'auto',
+        matches,
+        actorId ?? null
+      );
+      matches.forEach((match, index) => {
+        match.match_id = ids[index]!;
+      });
+    }
+
+    const matchedStatementLines = matches.reduce((sum, match) => sum + match.statement_line_ids.length, 0);
+    const matchedJournalLines = matches.reduce((sum, match) => sum + match.journal_line_ids.length, 0);
+    return {
+      dry_run,
+      matches,
+      unmatched_statement_lines: statementLines.length - matchedStatementLines,
+      unmatched_journal_lines: bookLines.length - matchedJournalLines,
+    };
+  }
+
+  /**
+   * Unmatched statement lines and journal lines of a bank account, for matching by hand
+   * Journal lines dated before the account's first statement are left out; they are part of its opening balance
+   */
+  async getUnmatchedItems(ledgerId: string, query: unknown): Promise<UnmatchedBankItems> {
+    const { account_code, statement_id } = validateInput(unmatchedBankItemsQuerySchema, query);
+    const account = await this.bankStatementService.getBankAccount(ledgerId, account_code);
+    const start = await this.bankReconciliationRepository.findReconciliationStart(account.id);
+
+    return {
+      account_code: account.code,
+      currency: account.currency,
+      statement_lines: await this.bankReconciliationRepository.findUnmatchedStatementLines(account.id, statement_id),
+      journal_lines: await this.bankReconciliationRepository.findUnmatchedBookLines(
+        account.id,
+        account.currency,
+        start ? this.toIsoDate(start) : undefined
+      ),
+    };
+  }
+
+  /**
+   * Match statement lines and journal lines of one bank account by hand
+   * Either side may have several lines, but both must add up to the same amount
+   */
+  async createMatch(ledgerId: string, request: CreateBankMatchRequest, actorId?: string): Promise<BankMatch> {
+    const validatedData = validateInput(bankMatchSchema, request);
+
+    const statementLines = await this.bankReconciliationRepository.findStatementLinesByIds(
+      ledgerId,
+      validatedData.statement_line_ids
+    );
+    const missingLine = validatedData.statement_line_ids.find(id => !statementLines.some(line => line.id === id));
+    if (missingLine) {
+      throw new NotFoundError(`Bank statement line with ID '${missingLine}' not found`);
+    }
+
+    const accountIds = new Set(statementLines.map(line => line.account_id));
+    if (accountIds.size > 1) {
+      throw new ValidationError('Statement lines of a match must belong to the same bank account');
+    }
+    const account = await this.getAccountById(statementLines[0]!.account_id);
+
+    const journalLines = await this.bankReconciliationRepository.findBookLinesByIds(
+      account.id,
+      account.currency,
+      validatedData.journal_line_ids
+    );
+    const missingJournalLine = validatedData.journal_line_ids.find(
+      id => !journalLines.some(line => line.journal_line_id === id)
+    );
+    if (missingJournalLine) {
+      throw new ValidationError(
+        `Journal line '${missingJournalLine}' is not a posted ${account.currency} line of account '${account.code}'`
+      );
+    }
+
+    if (statementLines.some(line => line.match_id) || journalLines.some(line => line.match_id)) {
+      throw new ConflictError('A line of the match is already matched; delete its match first');
+    }
+
+    const statementTotal = statementLines.reduce((sum, line) => sum + line.amount_cents, 0);
+    const journalTotal = journalLines.reduce((sum, line) => sum + line.amount_cents, 0);
+    if (statementTotal !== journalTotal) {
+      throw new ValidationError(
+        `Statement lines total ${Money.format(statementTotal, account.currency)}, but journal lines total ` +
+        `${Money.format(journalTotal, account.currency)}`
+      );
+    }
+
+    const [matchId] = await this.bankReconciliationRepository.createMatches(
+      ledgerId,
+      account.id,
+      'manual',
+      [validatedData],
+      actorId ?? null
+    );
+
+    return await this.getMatch(ledgerId, matchId!);
+  }
+
+  async getMatch(ledgerId: string, id: string): Promise<BankMatch> {
+    if (!id || typeof id !== 'string') {
+      throw new ValidationError('Match ID is required');
+    }
+
+    const match = await this.bankReconciliationRepository.findMatchById(ledgerId, id);
+    if (!match) {
+      throw new NotFoundError(`Bank match with ID '${id}' not found`);
+    }
+
+    return match;
+  }
+
+  /**
+   * Undo a match; its statement lines and journal lines can be matched again
+   * Entries booked for a statement line stay posted; reverse them if they are wrong
+   */
+  async deleteMatch(ledgerId: string, id: string): Promise<void> {
+    await this.getMatch(ledgerId, id);
+    await this.bankReconciliationRepository.deleteMatch(id);
+  }
+
+  /**
+   * Book a statement line the books do not have yet (e.g. a bank fee or interest) and match it
+   * The entry is dated on the booking date and posts the line's amount between the bank account
+   * and the given account. Entries that need approval are matched by hand once posted.
+   */
+  async createEntryForStatementLine(
+    ledgerId: string,
+    statementLineId: string,
+    request: CreateBankLineEntryRequest,
+    actorId?: string,
+    reservation?: IdempotencyReservation
+  ): Promise<BankLineEntryResult> {
+    const { account_code, narration } = validateInput(bankLineEntrySchema, request);
+
+    const [line] = await this.bankReconciliationRepository.findStatementLinesByIds(ledgerId, [statementLineId]);
+    if (!line) {
+      throw new NotFoundError(`Bank statement line with ID '${statementLineId}' not found`);
+    }
+    if (line.match_id) {
+      throw new ConflictError(`Bank statement line '${statementLineId}' is already matched`);
+    }
+    if (line.amount_cents === 0) {
+      throw new ValidationError(`Bank statement line '${statementLineId}' has no amount to book`);
+    }
+
+    const bankAccount = await this.getAccountById(line.account_id);
+    const amount = Money.toDecimalString(Math.abs(line.amount_cents), bankAccount.currency);
+    const moneyIn = line.amount_cents > 0;
+
+    const entry = await this.journalService.createJournalEntry(
+      ledgerId,
+      {
+        date: this.toIsoDate(line.booking_date),
+        narration: (narration ?? line.description ?? `Bank transaction ${line.bank_transaction_id}`).slice(0, 500),
+        lines: [
+          { account_code: bankAccount.code, [moneyIn ? 'debit' : 'credit']: amount, currency: bankAccount.currency },
+          { account_code, [moneyIn ? 'credit' : 'debit']: amount, currency: bankAccount.currency },
+        ],
+      },
+      actorId,
+      reservation
+    );
+
+    if (entry.status !== 'posted') {
+      return { entry, match: null };
+    }
+
+    const bankLine = entry.lines.find(entryLine => entryLine.account_id === bankAccount.id)!;
+    const [matchId] = await this.bankReconciliationRepository.createMatches(
+      ledgerId,
+      bankAccount.id,
+      'entry',
+      [{ statement_line_ids: [line.id], journal_line_ids: [bankLine.id] }],
+      actorId ?? null
+    );
+
+    return { entry, match: await this.getMatch(ledgerId, matchId!) };
+  }
+
+  /**
+   * Reconcile a bank account at the end of a statement's period
+   * Items count as cleared when every line of their match is dated by then. Book items are
+   * taken from the start of the account's first statement; earlier ones are assumed to be
+   * part of its opening balance.
+   */
+  async getReconciliationReport(ledgerId: string, statementId: string): Promise<BankReconciliationReport> {
+    const statement = await this.bankStatementService.getStatement(ledgerId, statementId);
+    if (statement.closing_balance_cents === null || !statement.period_end) {
+      throw new ValidationError(
+        `Bank statement '${statementId}' has no closing balance; import it again with closing_balance`
+      );
+    }
+
+    const account = await this.getAccountById(statement.account_id);
+    const asOf = this.toIsoDate(statement.period_end);
+    const start = this.toIsoDate((await this.bankReconciliationRepository.findReconciliationStart(account.id))!);
+
+    const bookBalance = await this.bankReconciliationRepository.getBookBalance(account.id, account.currency, asOf);
+    const unclearedBookItems = await this.bankReconciliationRepository.findUnclearedBookLines(
+      account.id,
+      account.currency,
+      start,
+      asOf
+    );
+    const unclearedBankItems = await this.bankReconciliationRepository.findUnclearedStatementLines(account.id, asOf);
+
+    const depositsInTransit = unclearedBookItems
+      .filter(item => item.amount_cents > 0)
+      .reduce((sum, item) => sum + item.amount_cents, 0);
+    const outstandingPayments = unclearedBookItems
+      .filter(item => item.amount_cents < 0)
+      .reduce((sum, item) => sum + item.amount_cents, 0);
+    const unrecordedBankItems = unclearedBankItems.reduce((sum, item) => sum + item.amount_cents, 0);
+
+    const adjustedStatementBalance = statement.closing_balance_cents + depositsInTransit + outstandingPayments;
+    const adjustedBookBalance = bookBalance + unrecordedBankItems;
+    const difference = adjustedStatementBalance - adjustedBookBalance;
+
+    return {
+      statement_id: statement.id,
+      account_code: account.code,
+      account_name: account.name,
+      currency: account.currency,
+      as_of: asOf,
+      reconciliation_start: start,
+      statement_balance: statement.closing_balance_cents,
+      uncleared_book_items: unclearedBookItems,
+      adjusted_statement_balance: adjustedStatementBalance,
+      book_balance: bookBalance,
+      uncleared_bank_items: unclearedBankItems,
+      adjusted_book_balance: adjustedBookBalance,
+      totals: {
+        deposits_in_transit: depositsInTransit,
+        outstanding_payments: outstandingPayments,
+        unrecorded_bank_items: unrecordedBankItems,
+      },
+      difference,
+      is_reconciled: difference === 0,
+    };
+  }
+
+  /**
+   * The reconciliation report as CSV text (e.g. for the month-end close workbook)
+   */
+  async getReconciliationReportCsv(ledgerId: string, statementId: string): Promise<string> {
+    const report = await this.getReconciliationReport(ledgerId, statementId);
+    const amount = (cents: number): string => Money.toDecimalString(cents, report.currency);
+
+    return Csv.stringify([
+      ['section', 'date', 'description', 'reference', 'amount'],
+      [
+        'Balance per bank statement',
+        report.as_of,
+        `${report.account_code} ${report.account_name}`,
+        '',
+        amount(report.statement_balance),
+      ],
+      ...report.uncleared_book_items.map(item => [
+        item.amount_cents > 0 ? 'Deposit in transit' : 'Outstanding payment',
+        this.toIsoDate(item.date),
+        item.narration,
+        item.entry_id,
+        amount(item.amount_cents),
+      ]),
+      ['Adjusted bank balance', report.as_of, '', '', amount(report.adjusted_statement_balance)],
+      ['Balance per books', report.as_of, '', '', amount(report.book_balance)],
+      ...report.uncleared_bank_items.map(item => [
+        'Bank item not in books',
+        this.toIsoDate(item.booking_date),
+        item.description ?? '',
+        item.reference ?? item.bank_transaction_id,
+        amount(item.amount_cents),
+      ]),
+      ['Adjusted book balance', report.as_of, '', '', amount(report.adjusted_book_balance)],
+      ['Difference', report.as_of, '', '', amount(report.difference)],
+    ]);
+  }
+
+  private async getAccountById(id: string): Promise<Account> {
+    const account = await this.accountRepository.findById(id);
+    if (!account) {
+      throw new NotFoundError(`Account with ID '${id}' not found`);
+    }
+
+    return account;
+  }
+
+  private toIsoDate(date: Date | string): string {
+    return new Date(date).toISOString().split('T')[0]!;
+  }
+}
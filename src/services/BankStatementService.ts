@@ -0,0 +1,187 @@
+import { BankStatementRepository } from '../repositories/BankStatementRepository.js';
+import { BalanceRepository } from '../repositories/BalanceRepository.js';
+import { AccountService } from './AccountService.js';
+import {
+  Account,
+  BankStatement,
+  BankStatementBalanceStatus,
+  BankStatementWithLines,
+  ImportBankStatementRequest,
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '../models/types.js';
+import { validateInput, bankStatementImportSchema, bankStatementFilterSchema } from '../utils/validation.js';
+import { BankStatements } from '../utils/bankStatement.js';
+import { Money } from '../utils/money.js';
+import { ENV } from '../config/env.js';
+
+export class BankStatementService {
+  private bankStatementRepository: BankStatementRepository;
+  private balanceRepository: BalanceRepository;
+  private accountService: AccountService;
+
+  constructor() {
+    this.bankStatementRepository = new BankStatementRepository();
+    this.balanceRepository = new BalanceRepository();
+    this.accountService = new AccountService();
+  }
+
+  /**
+   * Import a CSV, OFX or CAMT.053 statement of a bank account
+   * Transactions already imported from another statement are skipped. The statement's
+   * opening and closing balances are compared with the account's book balances for the
+   * same dates; a difference is reported on the statement, not rejected, since the books
+   * may not have caught up with the bank yet.
+   */
+  async importStatement(
+    ledgerId: string,
+    payload: ImportBankStatementRequest,
+    actorId?: string
+  ): Promise<BankStatementWithLines> {
+    const validatedData = validateInput(bankStatementImportSchema, payload);
+    const account = await this.getBankAccount(ledgerId, validatedData.account_code);
+
+    const format = validatedData.format ?? BankStatements.detectFormat(validatedData.content);
+    const parsed = BankStatements.parse(validatedData.content, format, account.currency, validatedData.mapping);
+    const currency = parsed.currency ?? account.currency;
+    if (currency !== account.currency) {
+      throw new ValidationError(
+        `Statement is in ${currency}, but account '${account.code}' is held in ${account.currency}`
+      );
+    }
+
+    const dates = parsed.lines.map(line => line.booking_date).sort();
+    const periodStart = parsed.period_start ?? dates[0] ?? null;
+    const periodEnd = parsed.period_end ?? dates[dates.length - 1] ?? null;
+    if (!periodStart || !periodEnd) {
+      throw new ValidationError('Statement has no transactions and no statement period');
+    }
+    if (periodStart > periodEnd) {
+      throw new ValidationError(`Statement period starts (${periodStart}) after it ends (${periodEnd})`);
+    }
+    const outside = parsed.lines.find(line => line.booking_date < periodStart || line.booking_date > periodEnd);
+    if (outside) {
+      throw new ValidationError(
+        `Transaction '${outside.bank_transaction_id}' of ${outside.booking_date} is outside the statement period ` +
+        `(${periodStart} to ${periodEnd})`
+      );
+    }
+
+    // Balances given with the import take precedence; a missing one follows from the other and the lines
+    const total = parsed.lines.reduce((sum, line) => sum + line.amount_cents, 0);
+    let opening = validatedData.opening_balance !== undefined
+      ? BankStatements.parseAmount(validatedData.opening_balance, currency, '.', 'opening_balance')
+      : parsed.opening_balance_cents;
+    let closing = validatedData.closing_balance !== undefined
+      ? BankStatements.parseAmount(validatedData.closing_balance, currency, '.', 'closing_balance')
+      : parsed.closing_balance_cents;
+    if (opening === null && closing !== null) {
+      opening = closing - total;
+    } else if (closing === null && opening !== null) {
+      closing = opening + total;
+    }
+
+    if (opening !== null && closing !== null && opening + total !== closing) {
+      throw new ValidationError(
+        `Statement does not add up: opening balance ${Money.format(opening, currency)} plus transactions ` +
+        `${Money.format(total, currency)} is not the closing balance ${Money.format(closing, currency)}`
+      );
+    }
+
+    const book = await this.getBookBalances(ledgerId, account, periodStart, periodEnd);
+    let balanceStatus: BankStatementBalanceStatus = 'unverified';
+    if (book && opening !== null && closing !== null) {
+      balanceStatus = book.opening === opening && book.closing === closing ? 'matched' : 'mismatched';
+    }
+
+    const statementId = await this.bankStatementRepository.create(
+      ledgerId,
+      {
+        account_id: account.id,
+        format,
+        statement_ref: parsed.statement_ref,
+        currency,
+        period_start: periodStart,
+        period_end: periodEnd,
+        opening_balance_cents: opening,
+        closing_balance_cents: closing,
+        book_opening_balance_cents: book?.opening ?? null,
+        book_closing_balance_cents: book?.closing ?? null,
+        balance_status: balanceStatus,
+        imported_by: actorId ?? null,
+      },
+      parsed.lines
+    );
+
+    return await this.getStatement(ledgerId, statementId);
+  }
+
+  async getStatements(ledgerId: string, query: unknown): Promise<BankStatement[]> {
+    const { account_code } = validateInput(bankStatementFilterSchema, query);
+    const account = account_code ? await this.getBankAccount(ledgerId, account_code) : undefined;
+
+    return await this.bankStatementRepository.findAll(ledgerId, account?.id);
+  }
+
+  async getStatement(ledgerId: string, id: string): Promise<BankStatementWithLines> {
+    if (!id || typeof id !== 'string') {
+      throw new ValidationError('Statement ID is required');
+    }
+
+    const statement = await this.bankStatementRepository.findById(ledgerId, id);
+    if (!statement) {
+      throw new NotFoundError(`Bank statement with ID '${id}' not found`);
+    }
+
+    return { ...statement, lines: await this.bankStatementRepository.findLines(id) };
+  }
+
+  /**
+   * Delete a statement with the lines it imported (e.g. one imported with the wrong mapping)
+   * Lines that were reconciled must be unmatched first
+   */
+  async deleteStatement(ledgerId: string, id: string): Promise<void> {
+    await this.getStatement(ledgerId, id);
+    if (await this.bankStatementRepository.hasMatchedLines(id)) {
+      throw new ConflictError(`Bank statement '${id}' has matched lines; delete their matches first`);
+    }
+
+    await this.bankStatementRepository.delete(id);
+  }
+
+  /**
+   * Account a statement can belong to: an Asset account of the ledger
+   */
+  async getBankAccount(ledgerId: string, code: string): Promise<Account> {
+    const account = await this.accountService.getAccount(ledgerId, code);
+    if (account.type !== 'Asset') {
+      throw new ValidationError(`Account '${code}' is a ${account.type} account; bank statements belong to Asset accounts`);
+    }
+
+    return account;
+  }
+
+  /**
+   * Book balance of the account at the start of the first and the end of the last day of the period
+   * Book balances are kept in the base currency, so accounts in other currencies can not be compared
+   */
+  private async getBookBalances(
+    ledgerId: string,
+    account: Account,
+    periodStart: string,
+    periodEnd: string
+  ): Promise<{ opening: number; closing: number } | null> {
+    if (account.currency !== ENV.DEFAULT_CURRENCY) {
+      return null;
+    }
+
+    const dayBeforeStart = new Date(periodStart);
+    dayBeforeStart.setUTCDate(dayBeforeStart.getUTCDate() - 1);
+
+    const opening = await this.balanceRepository.getAccountBalance(ledgerId, account.code, dayBeforeStart);
+    const closing = await this.balanceRepository.getAccountBalance(ledgerId, account.code, new Date(periodEnd));
+
+    return { opening: opening?.balance ?? 0, closing: closing?.balance ?? 0 };
+  }
+}
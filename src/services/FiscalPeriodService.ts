@@ -0,0 +1,153 @@
+import { FiscalPeriodRepository } from '../repositories/FiscalPeriodRepository.js';
+import {
+  FiscalPeriod,
+  FiscalPeriodAction,
+  FiscalPeriodEvent,
+  FiscalPeriodStatus,
+  CreateFiscalPeriodRequest,
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '../models/types.js';
+import {
+  validateInput,
+  fiscalPeriodSchema,
+  fiscalPeriodActionSchema,
+  fiscalPeriodStatusFilterSchema
+} from '../utils/validation.js';
+
+export class FiscalPeriodService {
+  private fiscalPeriodRepository: FiscalPeriodRepository;
+
+  constructor() {
+    this.fiscalPeriodRepository = new FiscalPeriodRepository();
+  }
+
+  async createPeriod(
+    ledgerId: string,
+    periodData: CreateFiscalPeriodRequest,
+    apiKeyId?: string
+  ): Promise<FiscalPeriod> {
+    const validatedData = validateInput(fiscalPeriodSchema, periodData);
+
+    const overlapping = await this.fiscalPeriodRepository.findOverlapping(
+      ledgerId,
+      validatedData.start_date,
+      validatedData.end_date
+    );
+    if (overlapping.length > 0) {
+      throw new ConflictError(
+        `Fiscal period overlaps with existing period(s): ${overlapping.map(period => period.name).join(', ')}`
+      );
+    }
+
+    return await this.fiscalPeriodRepository.create(ledgerId, validatedData, apiKeyId ?? null);
+  }
+
+  async getPeriod(ledgerId: string, id: string): Promise<FiscalPeriod> {
+    if (!id || typeof id !== 'string') {
+      throw new ValidationError('Fiscal period ID is required');
+    }
+
+    const period = await this.fiscalPeriodRepository.findById(ledgerId, id);
+    if (!period) {
+      throw new NotFoundError(`Fiscal period with ID '${id}' not found`);
+    }
+
+    return period;
+  }
+
+  async getAllPeriods(ledgerId: string, status?: string): Promise<FiscalPeriod[]> {
+    if (status) {
+      validateInput(fiscalPeriodStatusFilterSchema, { status });
+    }
+
+    return await this.fiscalPeriodRepository.findAll(ledgerId, status as FiscalPeriodStatus | undefined);
+  }
+
+  async getPeriodEvents(ledgerId: string, id: string): Promise<FiscalPeriodEvent[]> {
+    await this.getPeriod(ledgerId, id);
+    return await this.fiscalPeriodRepository.findEvents(id);
+  }
+
+  /**
+   * Soft-close a period: only adjusting entries can still be posted into it
+   */
+  async softClosePeriod(ledgerId: string, id: string, body: unknown, apiKeyId?: string): Promise<FiscalPeriod> {
+    return await this.transition(ledgerId, id, ['open'], 'soft_closed', 'soft_close', body, apiKeyId);
+  }
+
+  /**
+   * Close a period: no entries can be posted into it
+   */
+  async closePeriod(ledgerId: string, id: string, body: unknown, apiKeyId?: string): Promise<FiscalPeriod> {
+    return await this.transition(ledgerId, id, ['open', 'soft_closed'], 'closed', 'close', body, apiKeyId);
+  }
+
+  async reopenPeriod(ledgerId: string, id: string, body: unknown, apiKeyId?: string): Promise<FiscalPeriod> {
+    return await this.transition(ledgerId, id, ['soft_closed', 'closed'], 'open', 'reopen', body, apiKeyId);
+  }
+
+  /**
+   * The fiscal period containing a date, if one is defined
+   */
+  async findPeriodByDate(ledgerId: string, date: string): Promise<FiscalPeriod | null> {
+    return await this.fiscalPeriodRepository.findByDate(ledgerId, date);
+  }
+
+  /**
+   * Reject entry dates that fall into a closed period
+   * Soft-closed periods only accept adjusting entries; dates outside any
+   * defined period are treated as open
+   */
+  async assertDateOpenForPosting(ledgerId: string, date: string, adjusting: boolean = false): Promise<void> {
+    const period = await this.fiscalPeriodRepository.findByDate(ledgerId, date);
+    if (!period || period.status === 'open') {
+      return;
+    }
+
+    // Validated entry dates arrive as full ISO timestamps
+    const day = new Date(date).toISOString().split('T')[0]!;
+
+    if (period.status === 'closed') {
+      throw new ValidationError(
+        `Entry date ${day} falls in fiscal period '${period.name}', which is closed`
+      );
+    }
+
+    if (!adjusting) {
+      throw new ValidationError(
+        `Entry date ${day} falls in fiscal period '${period.name}', which is soft-closed. ` +
+        `Only adjusting entries (adjusting: true) can be posted into it.`
+      );
+    }
+  }
+
+  private async transition(
+    ledgerId: string,
+    id: string,
+    allowedFrom: FiscalPeriodStatus[],
+    toStatus: FiscalPeriodStatus,
+    action: FiscalPeriodAction,
+    body: unknown,
+    apiKeyId?: string
+  ): Promise<FiscalPeriod> {
+    const { reason } = validateInput(fiscalPeriodActionSchema, body ?? {});
+    const period = await this.getPeriod(ledgerId, id);
+
+    if (!allowedFrom.includes(period.status)) {
+      throw new ConflictError(
+        `Fiscal period '${period.name}' is ${period.status} and cannot be moved to ${toStatus}`
+      );
+    }
+
+    return await this.fiscalPeriodRepository.transitionStatus(
+      id,
+      period.status,
+      toStatus,
+      action,
+      apiKeyId ?? null,
+      reason ?? null
+    );
+  }
+}
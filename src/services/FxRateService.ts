@@ -0,0 +1,118 @@
+import { FxRateRepository } from '../repositories/FxRateRepository.js';
+import {
+  FxRate,
+  CreateFxRateRequest,
+  UpdateFxRateRequest,
+  ValidationError,
+  NotFoundError
+} from '../models/types.js';
+import {
+  validateInput,
+  fxRateSchema,
+  fxRateUpdateSchema,
+  fxRateFilterSchema,
+  fxRateLookupSchema
+} from '../utils/validation.js';
+
+export class FxRateService {
+  private fxRateRepository: FxRateRepository;
+
+  constructor() {
+    this.fxRateRepository = new FxRateRepository();
+  }
+
+  async createRate(rateData: CreateFxRateRequest): Promise<FxRate> {
+    const validatedData = validateInput(fxRateSchema, rateData);
+    return await this.fxRateRepository.create(validatedData);
+  }
+
+  async getRate(id: string): Promise<FxRate> {
+    if (!id || typeof id !== 'string') {
+      throw new ValidationError('FX rate ID is required');
+    }
+
+    const rate = await this.fxRateRepository.findById(id);
+    if (!rate) {
+      throw new NotFoundError(`FX rate with ID '${id}' not found`);
+    }
+
+    return rate;
+  }
+
+  async getAllRates(filters: unknown): Promise<FxRate[]> {
+    const validatedFilters = validateInput(fxRateFilterSchema, filters ?? {});
+    return await this.fxRateRepository.findAll(validatedFilters);
+  }
+
+  async updateRate(id: string, updateData: UpdateFxRateRequest): Promise<FxRate> {
+    const { rate } = validateInput(fxRateUpdateSchema, updateData);
+    await this.getRate(id);
+
+    return (await this.fxRateRepository.update(id, rate))!;
+  }
+
+  async deleteRate(id: string): Promise<void> {
+    await this.getRate(id);
+    await this.fxRateRepository.delete(id);
+  }
+
+  /**
+   * Rate in effect for a currency pair on a date (the latest rate on or before it)
+   */
+  async lookupRate(query: unknown): Promise<{
+    from_currency: string;
+    to_currency: string;
+    date: string;
+    rate: number;
+    rate_date: Date;
+    inverted: boolean;
+  }> {
+    const { from_currency, to_currency, date } = validateInput(fxRateLookupSchema, query);
+    const effective = await this.findEffectiveRate(from_currency, to_currency, date);
+    if (!effective) {
+      throw new NotFoundError(`No ${from_currency}/${to_currency} rate found on or before ${date}`);
+    }
+
+    return { from_currency, to_currency, date, ...effective };
+  }
+
+  /**
+   * Conversion rate from one currency to another on a date
+   * Uses the direct pair if one is on file, otherwise the inverse of the opposite pair
+   */
+  async getConversionRate(fromCurrency: string, toCurrency: string, date: string): Promise<number> {
+    if (fromCurrency === toCurrency) {
+      return 1;
+    }
+
+    const effective = await this.findEffectiveRate(fromCurrency, toCurrency, date);
+    if (!effective) {
+      throw new ValidationError(
+        `No ${fromCurrency}/${toCurrency} exchange rate found on or before ${date}. ` +
+        `Add one with POST /fx-rates or pass exchange_rate on the line.`
+      );
+    }
+
+    return effective.rate;
+  }
+
+  private async findEffectiveRate(
+    fromCurrency: string,
+    toCurrency: string,
+    date: string
+  ): Promise<{ rate: number; rate_date: Date; inverted: boolean } | null> {
+    const direct = await this.fxRateRepository.findEffective(fromCurrency, toCurrency, date);
+    const inverse = await this.fxRateRepository.findEffective(toCurrency, fromCurrency, date);
+
+    // Prefer the most recent quote; the direct pair wins a tie
+    if (direct && (!inverse || new Date(direct.rate_date) >= new Date(inverse.rate_date))) {
+      return { rate: direct.rate, rate_date: direct.rate_date, inverted: false };
+    }
+
+    if (inverse) {
+      return { rate: 1 / inverse.rate, rate_date: inverse.rate_date, inverted: true };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,248 @@
+import { BalanceRepository } from '../repositories/BalanceRepository.js';
+import { FxRevaluationRepository } from '../repositories/FxRevaluationRepository.js';
+import { AccountService } from './AccountService.js';
+import { JournalService } from './JournalService.js';
+import { FxRateService } from './FxRateService.js';
+import { FiscalPeriodService } from './FiscalPeriodService.js';
+import {
+  CreateJournalLineRequest,
+  FxRevaluation,
+  FxRevaluationLine,
+  FxRevaluationResult,
+  ValidationError
+} from '../models/types.js';
+import { validateInput, fxRevaluationSchema } from '../utils/validation.js';
+import { Money } from '../utils/money.js';
+import { ENV } from '../config/env.js';
+
+export class FxRevaluationService {
+  private balanceRepository: BalanceRepository;
+  private fxRevaluationRepository: FxRevaluationRepository;
+  private accountService: AccountService;
+  private journalService: JournalService;
+  private fxRateService: FxRateService;
+  private fiscalPeriodService: FiscalPeriodService;
+
+  constructor() {
+    this.balanceRepository = new BalanceRepository();
+    this.fxRevaluationRepository = new FxRevaluationRepository();
+    this.accountService = new AccountService();
+    this.journalService = new JournalService();
+    this.fxRateService = new FxRateService();
+    this.fiscalPeriodService = new FiscalPeriodService();
+  }
+
+  /**
+   * Restate every foreign-currency Asset and Liability balance at the closing rate
+   * and post the difference against the unrealized FX gain/loss account.
+   * The entry is reversed on the first day of the next period; a dry run only
+   * returns the computed adjustments.
+   */
+  async revalue(
+    ledgerId: string,
+    asOf: string,
+    dryRun: boolean = false,
+    actorId?: string
+  ): Promise<FxRevaluationResult> {
+    const validated = validateInput(fxRevaluationSchema, { as_of: asOf });
+    const asOfDate = new Date(validated.as_of).toISOString().split('T')[0]!;
+
+    const gainLossAccount = await this.accountService.getAccount(ledgerId, ENV.UNREALIZED_FX_ACCOUNT);
+    if (gainLossAccount.type !== 'Revenue' && gainLossAccount.type !== 'Expense') {
+      throw new ValidationError(
+        `Unrealized FX gain/loss account '${gainLossAccount.code}' must be a Revenue or Expense account`
+      );
+    }
+    if (gainLossAccount.currency !== ENV.DEFAULT_CURRENCY) {
+      throw new ValidationError(
+        `Unrealized FX gain/loss account '${gainLossAccount.code}' must be held in the base currency (${ENV.DEFAULT_CURRENCY})`
+      );
+    }
+
+    // Reversals that are due must be on the books before balances are read
+    if (!dryRun) {
+      await this.postDueReversals(ledgerId, actorId);
+    }
+
+    const lines = await this.buildRevaluationLines(ledgerId, asOfDate);
+    const netGainLoss = lines.reduce((sum, line) => sum + line.adjustment, 0);
+    const reversalDate = await this.getReversalDate(ledgerId, asOfDate);
+
+    const result: FxRevaluationResult = {
+      as_of: asOfDate,
+      gain_loss_account: gainLossAccount.code,
+      lines,
+      net_gain_loss: netGainLoss,
+      reversal_date: reversalDate,
+      dry_run: dryRun,
+      revaluation: null,
+      entry: null,
+    };
+
+    const entryLines = this.buildEntryLines(lines, gainLossAccount.code);
+    if (dryRun || entryLines.length === 0) {
+      return result;
+    }
+
+    const entry = await this.journalService.createJournalEntry(
+      ledgerId,
+      {
+        date: asOfDate,
+        narration: `Unrealized FX revaluation as of ${asOfDate}`,
+        lines: entryLines,
+        adjusting: true,
+      },
+      actorId
+    );
+
+    let revaluation = await this.fxRevaluationRepository.create(
+      ledgerId,
+      asOfDate,
+      entry.id,
+      reversalDate,
+      actorId ?? null
+    );
+    if (reversalDate <= this.today()) {
+      revaluation = await this.reverse(revaluation, actorId) ?? revaluation;
+    }
+
+    return { ...result, revaluation, entry };
+  }
+
+  async getRevaluations(ledgerId: string): Promise<FxRevaluation[]> {
+    return await this.fxRevaluationRepository.findAll(ledgerId);
+  }
+
+  /**
+   * Post the reversal of every revaluation whose reversal date has been reached
+   */
+  async postDueReversals(ledgerId: string, actorId?: string): Promise<FxRevaluation[]> {
+    const due = await this.fxRevaluationRepository.findDueReversals(ledgerId, this.today());
+    const reversed: FxRevaluation[] = [];
+
+    for (const revaluation of due) {
+      const updated = await this.reverse(revaluation, actorId);
+      if (updated) {
+        reversed.push(updated);
+      }
+    }
+
+    return reversed;
+  }
+
+  /**
+   * Reverse a revaluation entry on its reversal date
+   * Entries that are not posted (e.g. still awaiting approval) stay pending
+   */
+  private async reverse(revaluation: FxRevaluation, actorId?: string): Promise<FxRevaluation | null> {
+    const entry = await this.journalService.getJournalEntry(revaluation.ledger_id, revaluation.entry_id);
+    if (entry.status !== 'posted') {
+      return null;
+    }
+
+    const asOf = new Date(revaluation.as_of).toISOString().split('T')[0]!;
+    const reversalEntry = await this.journalService.createReversalEntry(
+      revaluation.ledger_id,
+      revaluation.entry_id,
+      `Reversal of unrealized FX revaluation as of ${asOf}`,
+      new Date(revaluation.reversal_date).toISOString().split('T')[0]!,
+      actorId
+    );
+
+    return await this.fxRevaluationRepository.setReversalEntry(revaluation.id, reversalEntry.id);
+  }
+
+  /**
+   * One line per foreign-currency Asset/Liability account with a balance on the date
+   */
+  private async buildRevaluationLines(ledgerId: string, asOf: string): Promise<FxRevaluationLine[]> {
+    const balances = await this.balanceRepository.getAllAccountBalances(ledgerId, new Date(asOf));
+    const rates = new Map<string, number>();
+    const lines: FxRevaluationLine[] = [];
+
+    for (const balance of balances) {
+      const currency = balance.currency;
+      if (!currency || currency === ENV.DEFAULT_CURRENCY) {
+        continue;
+      }
+      if (balance.account_type !== 'Asset' && balance.account_type !== 'Liability') {
+        continue;
+      }
+
+      const currencyBalance = balance.currency_balance ?? 0;
+      const bookedBalance = balance.debits - balance.credits;
+      if (currencyBalance === 0 && bookedBalance === 0) {
+        continue;
+      }
+
+      if (!rates.has(currency)) {
+        rates.set(currency, await this.fxRateService.getConversionRate(currency, ENV.DEFAULT_CURRENCY, asOf));
+      }
+      const rate = rates.get(currency)!;
+
+      // Convert the magnitude so debit and credit balances round the same way
+      const revaluedBalance = Math.sign(currencyBalance) * Money.convert(Math.abs(currencyBalance), rate, currency);
+
+      lines.push({
+        account_code: balance.account_code,
+        account_name: balance.account_name,
+        account_type: balance.account_type,
+        currency,
+        currency_balance: currencyBalance,
+        rate,
+        booked_balance: bookedBalance,
+        revalued_balance: revaluedBalance,
+        adjustment: revaluedBalance - bookedBalance,
+      });
+    }
+
+    return lines;
+  }
+
+  /**
+   * Base-currency adjustment lines plus the net result on the gain/loss account
+   */
+  private buildEntryLines(lines: FxRevaluationLine[], gainLossCode: string): CreateJournalLineRequest[] {
+    const baseCurrency = ENV.DEFAULT_CURRENCY;
+    const entryLines: CreateJournalLineRequest[] = [];
+    let netCents = 0;
+
+    for (const line of lines) {
+      if (line.adjustment === 0) {
+        continue;
+      }
+
+      if (line.adjustment > 0) {
+        entryLines.push({ account_code: line.account_code, debit: Money.toDecimalString(line.adjustment), currency: baseCurrency });
+      } else {
+        entryLines.push({ account_code: line.account_code, credit: Money.toDecimalString(-line.adjustment), currency: baseCurrency });
+      }
+      netCents += line.adjustment;
+    }
+
+    // A net debit adjustment is a gain (credit), a net credit adjustment a loss (debit)
+    if (netCents > 0) {
+      entryLines.push({ account_code: gainLossCode, credit: Money.toDecimalString(netCents) });
+    } else if (netCents < 0) {
+      entryLines.push({ account_code: gainLossCode, debit: Money.toDecimalString(-netCents) });
+    }
+
+    return entryLines;
+  }
+
+  /**
+   * Day after the end of the fiscal period containing the date,
+   * or the next day when no period is defined
+   */
+  private async getReversalDate(ledgerId: string, asOf: string): Promise<string> {
+    const period = await this.fiscalPeriodService.findPeriodByDate(ledgerId, asOf);
+    const periodEnd = period ? new Date(period.end_date).toISOString().split('T')[0]! : asOf;
+
+    const [year, month, day] = periodEnd.split('-').map(Number) as [number, number, number];
+    return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().split('T')[0]!;
+  }
+
+  private today(): string {
+    return new Date().toISOString().split('T')[0]!;
+  }
+}
@@ -1,5 +1,32 @@
 import { IdempotencyRepository } from '../repositories/IdempotencyRepository.js';
-import { IdempotencyRecord, ConflictError } from '../models/types.js';
+import { IdempotencyRecord, IdempotencyReservation, ConflictError } from '../models/types.js';
+import { ENV } from '../config/env.js';
+import { createHash, randomUUID } from 'crypto';
+
+// What identifies a request sent with an Idempotency-Key
+export interface IdempotentRequest {
+  apiKeyId: string;
+  key: string;
+  ledgerId: string | null;
+  endpoint: string;
+  query: unknown;
+  body: unknown;
+}
+
+// Response sent for the first request, stored for replay
+export interface IdempotentResponse {
+  statusCode: number;
+  contentType: string | null;
+  body: string;
+}
+
+export type ReservationResult =
+  // The request holds the key and runs
+  | { outcome: 'reserved'; reservation: IdempotencyRecord }
+  // The request already completed; replay its response
+  | { outcome: 'completed'; record: IdempotencyRecord }
+  // Another request with the key is still running
+  | { outcome: 'in_progress'; retryAfterSeconds: number };
 
 export class IdempotencyService {
   private idempotencyRepository: IdempotencyRepository;
@@ -8,44 +35,95 @@ export class IdempotencyService {
     this.idempotencyRepository = new IdempotencyRepository();
   }
 
-  async validateRequest(key: string, requestBody: unknown): Promise<{
-    isValid: boolean;
-    entryId?: string;
-    message?: string;
-  }> {
-    if (!key || typeof key !== 'string' || key.trim().length === 0) {
-      throw new Error('Idempotency key is required and must be a non-empty string');
+  /**
+   * Reserve the key before the request runs
+   * The reservation is an atomic insert, so of two concurrent requests with the same key
+   * only one runs. Throws a ConflictError when the key was used for another endpoint,
+   * ledger or payload
+   */
+  async reserve(request: IdempotentRequest): Promise<ReservationResult> {
+    const lockToken = randomUUID();
+    const requestHash = this.hashRequest(request);
+
+    const reservation = await this.idempotencyRepository.reserve(
+      {
+        api_key_id: request.apiKeyId,
+        key: request.key,
+        ledger_id: request.ledgerId,
+        endpoint: request.endpoint,
+        request_hash: requestHash,
+      },
+      lockToken,
+      ENV.IDEMPOTENCY_LOCK_SECONDS
+    );
+    if (reservation) {
+      return { outcome: 'reserved', reservation };
     }
 
-    return await this.idempotencyRepository.validateRequest(key, requestBody);
-  }
+    const record = await this.idempotencyRepository.findByKey(request.apiKeyId, request.key);
+    if (!record) {
+      // Released between the insert and the lookup; the retry can reserve it
+      return { outcome: 'in_progress', retryAfterSeconds: 1 };
+    }
 
-  async recordRequest(key: string, requestBody: unknown, entryId: string): Promise<IdempotencyRecord> {
-    if (!key || typeof key !== 'string' || key.trim().length === 0) {
-      throw new Error('Idempotency key is required and must be a non-empty string');
+    if (record.endpoint !== request.endpoint) {
+      throw new ConflictError(
+        `Idempotency key '${request.key}' was already used for ${record.endpoint}`
+      );
     }
 
-    if (!entryId || typeof entryId !== 'string' || entryId.trim().length === 0) {
-      throw new Error('Entry ID is required and must be a non-empty string');
+    if (record.ledger_id !== request.ledgerId) {
+      throw new ConflictError(`Idempotency key '${request.key}' already used with different request data`);
     }
 
-    return await this.idempotencyRepository.create(key, requestBody, entryId);
-  }
+    // Kept from before responses were stored (migration 022), with a hash computed another way:
+    // the request runs again under the key and returns the entries it posted back then
+    if (record.status === 'completed' && record.response_body === null) {
+      const reopened = await this.idempotencyRepository.reopen(
+        request.apiKeyId,
+        request.key,
+        requestHash,
+        lockToken,
+        ENV.IDEMPOTENCY_LOCK_SECONDS
+      );
+      return reopened
+        ? { outcome: 'reserved', reservation: reopened }
+        : { outcome: 'in_progress', retryAfterSeconds: 1 };
+    }
 
-  async getByKey(key: string): Promise<IdempotencyRecord | null> {
-    if (!key || typeof key !== 'string') {
-      return null;
+    if (record.request_hash !== requestHash) {
+      throw new ConflictError(`Idempotency key '${request.key}' already used with different request data`);
     }
 
-    return await this.idempotencyRepository.findByKey(key);
-  }
+    if (record.status === 'completed') {
+      return { outcome: 'completed', record };
+    }
 
-  async keyExists(key: string): Promise<boolean> {
-    if (!key || typeof key !== 'string') {
-      return false;
+    // The request holding the key stopped without releasing it
+    const takenOver = await this.idempotencyRepository.takeOver(
+      request.apiKeyId,
+      request.key,
+      lockToken,
+      ENV.IDEMPOTENCY_LOCK_SECONDS
+    );
+    if (takenOver) {
+      return { outcome: 'reserved', reservation: takenOver };
     }
 
-    return await this.idempotencyRepository.exists(key);
+    const lockedForMs = record.locked_until ? new Date(record.locked_until).getTime() - Date.now() : 0;
+    return { outcome: 'in_progress', retryAfterSeconds: Math.max(1, Math.ceil(lockedForMs / 1000)) };
+  }
+
+  async recordResponse(reservation: IdempotencyReservation, response: IdempotentResponse): Promise<IdempotencyRecord> {
+    return await this.idempotencyRepository.complete(reservation, {
+      status_code: response.statusCode,
+      content_type: response.contentType,
+      response_body: response.body,
+    });
+  }
+
+  async releaseReservation(reservation: IdempotencyReservation): Promise<void> {
+    await this.idempotencyRepository.release(reservation);
   }
 
   /**
@@ -91,5 +169,31 @@ export class IdempotencyService {
     const random = Math.random().toString(36).substring(2, 8);
     return `sample-${timestamp}-${random}`;
   }
-}
 
+  /**
+   * Hash the query and body of a request for comparison
+   * Keys are sorted at every nesting level so that nested objects (journal
+   * lines, batch entries) are part of the hash regardless of key order
+   * @returns SHA-256 hash of the request
+   */
+  hashRequest(request: Pick<IdempotentRequest, 'query' | 'body'>): string {
+    const normalized = JSON.stringify(this.normalize({ query: request.query ?? {}, body: request.body ?? {} }));
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private normalize(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.normalize(item));
+    }
+
+    if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+      const sorted: Record<string, unknown> = {};
+      for (const key of Object.keys(value).sort()) {
+        sorted[key] = this.normalize((value as Record<string, unknown>)[key]);
+      }
+      return sorted;
+    }
+
+    return value;
+  }
+}
@@ -1,86 +1,217 @@
-import { JournalRepository } from '../repositories/JournalRepository.js';
+import { JournalRepository, StatusChanges } from '../repositories/JournalRepository.js';
 import { AccountService } from './AccountService.js';
-import { IdempotencyService } from './IdempotencyService.js';
+import { FiscalPeriodService } from './FiscalPeriodService.js';
+import { FxRateService } from './FxRateService.js';
 import { 
+  Account,
   JournalEntry, 
   CreateJournalEntryRequest, 
+  CreateJournalEntryBatchRequest,
+  CreateJournalLineRequest,
+  CreateIntercompanyEntryRequest,
+  IntercompanyEntryResult,
+  IntercompanyTransaction,
+  BatchItemError,
+  BatchValidationError,
+  JournalEntryStatus,
+  IdempotencyReservation,
+  FeedQuery,
   ValidationError, 
   NotFoundError,
-  ConflictError
+  ConflictError,
+  ForbiddenError
 } from '../models/types.js';
-import { validateInput, journalEntrySchema } from '../utils/validation.js';
+import {
+  validateInput,
+  journalEntrySchema,
+  journalEntryBatchSchema,
+  journalEntryRejectionSchema,
+  journalEntryStatusFilterSchema,
+  intercompanyEntrySchema,
+  feedQuerySchema
+} from '../utils/validation.js';
 import { Money } from '../utils/money.js';
+import { ENV } from '../config/env.js';
+
+// How often a long-polling feed request checks for new entries
+const FEED_POLL_INTERVAL_MS = 1000;
 
 export class JournalService {
   private journalRepository: JournalRepository;
   private accountService: AccountService;
-  private idempotencyService: IdempotencyService;
+  private fiscalPeriodService: FiscalPeriodService;
+  private fxRateService: FxRateService;
 
   constructor() {
     this.journalRepository = new JournalRepository();
     this.accountService = new AccountService();
-    this.idempotencyService = new IdempotencyService();
+    this.fiscalPeriodService = new FiscalPeriodService();
+    this.fxRateService = new FxRateService();
   }
 
+  /**
+   * Create a journal entry
+   * Depending on the request and the approval threshold the entry is saved as
+   * a draft, submitted for approval, or posted immediately
+   */
   async createJournalEntry(
+    ledgerId: string,
     entryData: CreateJournalEntryRequest, 
-    idempotencyKey?: string
+    actorId?: string,
+    reservation?: IdempotencyReservation
   ): Promise<JournalEntry> {
+    const recovered = await this.findRecoveredEntries(ledgerId, reservation);
+    if (recovered) {
+      return recovered[0]!;
+    }
+
     // Validate input
     const validatedData = validateInput(journalEntrySchema, entryData);
 
-    // Handle idempotency if key is provided
-    if (idempotencyKey) {
-      const idempotencyCheck = await this.idempotencyService.validateRequest(
-        idempotencyKey, 
-        validatedData
-      );
+    const { resolvedData, accounts } = await this.prepareEntry(ledgerId, validatedData);
 
-      if (!idempotencyCheck.isValid) {
-        throw new ConflictError(idempotencyCheck.message!);
-      }
+    // Create the journal entry
+    const status = this.getInitialStatus(resolvedData);
+    const createdEntry = await this.journalRepository.create(
+      ledgerId,
+      resolvedData,
+      accounts,
+      status,
+      status === 'draft' ? null : actorId ?? null,
+      actorId ?? null,
+      reservation
+    );
+
+    return createdEntry;
+  }
 
-      // If this is a duplicate request, return the existing entry
-      if (idempotencyCheck.entryId) {
-        const existingEntry = await this.journalRepository.findById(idempotencyCheck.entryId);
-        if (existingEntry) {
-          return existingEntry;
+  /**
+   * Post a system-generated entry right away, without the approval workflow
+   * Only for entries computed from posted balances (e.g. the year-end closing), whose
+   * amounts nobody chose; every other posting rule still applies
+   */
+  async postSystemEntry(
+    ledgerId: string,
+    entryData: CreateJournalEntryRequest,
+    actorId?: string
+  ): Promise<JournalEntry> {
+    const validatedData = validateInput(journalEntrySchema, entryData);
+    const { resolvedData, accounts } = await this.prepareEntry(ledgerId, validatedData);
+
+    return await this.journalRepository.create(
+      ledgerId,
+      resolvedData,
+      accounts,
+      'posted',
+      actorId ?? null,
+      actorId ?? null
+    );
+  }
+
+  /**
+   * Create many journal entries atomically
+   * Every entry goes through the same rules as createJournalEntry; if any entry
+   * fails, nothing is posted and the errors are reported by batch index
+   */
+  async createJournalEntryBatch(
+    ledgerId: string,
+    batchData: CreateJournalEntryBatchRequest,
+    actorId?: string,
+    reservation?: IdempotencyReservation
+  ): Promise<JournalEntry[]> {
+    const recovered = await this.findRecoveredEntries(ledgerId, reservation);
+    if (recovered) {
+      return recovered;
+    }
+
+    const { entries } = validateInput(journalEntryBatchSchema, batchData);
+
+    const errors: BatchItemError[] = [];
+    const validatedEntries: (CreateJournalEntryRequest | undefined)[] = entries.map((entry, index) => {
+      try {
+        return validateInput(journalEntrySchema, entry);
+      } catch (error) {
+        if (!(error instanceof ValidationError)) {
+          throw error;
         }
+        errors.push({ index, message: error.message });
+        return undefined;
+      }
+    });
+
+    // Validate referenced accounts and reversed entries for the entries that passed so far
+    const accountMap = await this.accountService.findAccountsByCodes(
+      ledgerId,
+      validatedEntries.flatMap(entry => entry ? entry.lines.map(line => line.account_code) : [])
+    );
+
+    for (let index = 0; index < validatedEntries.length; index++) {
+      const entry = validatedEntries[index];
+      if (!entry) {
+        continue;
       }
-    }
 
-    // Validate that all referenced accounts exist
-    const accountCodes = validatedData.lines.map(line => line.account_code);
-    const accounts = await this.accountService.validateAccountsExist(accountCodes);
+      const codes = [...new Set(entry.lines.map(line => line.account_code))];
+      const missingCodes = codes.filter(code => !accountMap.has(code));
+      if (missingCodes.length > 0) {
+        errors.push({ index, message: `Accounts not found: ${missingCodes.join(', ')}` });
+        continue;
+      }
 
-    // Validate reversal entry if specified
-    if (validatedData.reverses_entry_id) {
-      const reversedEntry = await this.journalRepository.findById(validatedData.reverses_entry_id);
-      if (!reversedEntry) {
-        throw new ValidationError(`Reversed entry with ID '${validatedData.reverses_entry_id}' not found`);
+      try {
+        this.accountService.assertAccountsActive(codes.map(code => accountMap.get(code)!));
+      } catch (error) {
+        errors.push({ index, message: (error as Error).message });
+        continue;
       }
-    }
 
-    // Additional business rule validations
-    this.validateDoubleEntryRules(validatedData);
+      try {
+        const resolvedEntry = await this.resolveLineCurrencies(entry, accountMap);
+        this.validateDoubleEntryRules(resolvedEntry);
+        validatedEntries[index] = resolvedEntry;
 
-    // Create the journal entry
-    const createdEntry = await this.journalRepository.create(validatedData, accounts);
+        await this.fiscalPeriodService.assertDateOpenForPosting(ledgerId, entry.date, entry.adjusting);
+        if (entry.reverses_entry_id) {
+          await this.validateReversedEntry(ledgerId, entry.reverses_entry_id);
+        }
+      } catch (error) {
+        if (!(error instanceof ValidationError)) {
+          throw error;
+        }
+        errors.push({ index, message: error.message });
+      }
+    }
 
-    // Record idempotency if key was provided
-    if (idempotencyKey) {
-      await this.idempotencyService.recordRequest(idempotencyKey, validatedData, createdEntry.id);
+    if (errors.length > 0) {
+      errors.sort((a, b) => a.index - b.index);
+      throw new BatchValidationError(
+        `Batch rejected: ${errors.length} of ${entries.length} entries are invalid. No entries were posted.`,
+        errors
+      );
     }
 
-    return createdEntry;
+    const accounts: Account[] = [...accountMap.values()];
+    const createdEntries = await this.journalRepository.createMany(
+      ledgerId,
+      (validatedEntries as CreateJournalEntryRequest[]).map(entry => ({
+        data: entry,
+        status: this.getInitialStatus(entry),
+      })),
+      accounts,
+      actorId ?? null,
+      actorId ?? null,
+      reservation
+    );
+
+    return createdEntries;
   }
 
-  async getJournalEntry(id: string): Promise<JournalEntry> {
+  async getJournalEntry(ledgerId: string, id: string): Promise<JournalEntry> {
     if (!id || typeof id !== 'string') {
       throw new ValidationError('Journal entry ID is required');
     }
 
-    const entry = await this.journalRepository.findById(id);
+    const entry = await this.journalRepository.findById(ledgerId, id);
     if (!entry) {
       throw new NotFoundError(`Journal entry with ID '${id}' not found`);
     }
@@ -88,20 +219,445 @@ export class JournalService {
     return entry;
   }
 
-  async getAllJournalEntries(limit?: number, offset?: number): Promise<JournalEntry[]> {
-    return await this.journalRepository.findAll(limit, offset);
+  async getAllJournalEntries(
+    ledgerId: string,
+    limit?: number,
+    offset?: number,
+    status?: string
+  ): Promise<JournalEntry[]> {
+    if (status) {
+      validateInput(journalEntryStatusFilterSchema, { status });
+    }
+
+    return await this.journalRepository.findAll(ledgerId, limit, offset, status as JournalEntryStatus | undefined);
+  }
+
+  /**
+   * Posted entries after the cursor (a sequence number) in commit order
+   * With wait, an empty page is held open until entries are posted, wait seconds
+   * pass or the client disconnects (isClosed)
+   */
+  async getFeed(
+    ledgerId: string,
+    query: unknown,
+    isClosed: () => boolean = () => false
+  ): Promise<{ entries: JournalEntry[]; query: FeedQuery }> {
+    const feedQuery = validateInput(feedQuerySchema, query);
+    const deadline = Date.now() + feedQuery.wait * 1000;
+
+    let entries = await this.journalRepository.findFeed(ledgerId, feedQuery.after, feedQuery.limit);
+    while (entries.length === 0 && Date.now() < deadline && !isClosed()) {
+      await new Promise(resolve => setTimeout(resolve, Math.min(FEED_POLL_INTERVAL_MS, deadline - Date.now())));
+      entries = await this.journalRepository.findFeed(ledgerId, feedQuery.after, feedQuery.limit);
+    }
+
+    return { entries, query: feedQuery };
+  }
+
+  /**
+   * Replace the content of a draft entry
+   */
+  async updateDraft(ledgerId: string, id: string, entryData: CreateJournalEntryRequest): Promise<JournalEntry> {
+    const validatedData = validateInput(journalEntrySchema, entryData);
+    const existingEntry = await this.getJournalEntry(ledgerId, id);
+    this.assertStatus(existingEntry, 'draft');
+
+    const { resolvedData, accounts } = await this.prepareEntry(ledgerId, validatedData);
+
+    return await this.journalRepository.replaceDraft(ledgerId, id, resolvedData, accounts);
+  }
+
+  /**
+   * Submit a draft entry
+   * Entries above the approval threshold wait for approval, others are posted right away
+   */
+  async submitJournalEntry(ledgerId: string, id: string, actorId?: string): Promise<JournalEntry> {
+    const entry = await this.getJournalEntry(ledgerId, id);
+    this.assertStatus(entry, 'draft');
+    const submitter = this.requireActor(actorId);
+
+    if (this.requiresApproval(entry.lines)) {
+      return await this.journalRepository.transitionStatus(ledgerId, id, 'draft', 'submitted', {
+        submitted_by: submitter,
+      });
+    }
+
+    await this.assertEntryPostable(entry);
+    return await this.journalRepository.transitionStatus(ledgerId, id, 'draft', 'posted', { submitted_by: submitter });
+  }
+
+  /**
+   * Approve a submitted entry (segregation of duties: reviewer must not be the submitter)
+   * The two sides of an intercompany entry are approved together
+   */
+  async approveJournalEntry(
+    ledgerId: string,
+    id: string,
+    actorId?: string,
+    accessibleLedgerIds: string[] = []
+  ): Promise<JournalEntry> {
+    const entry = await this.getJournalEntry(ledgerId, id);
+    this.assertStatus(entry, 'submitted');
+    const reviewer = this.assertReviewer(entry, actorId);
+
+    return await this.transitionWithCounterpart(entry, accessibleLedgerIds, 'submitted', 'approved', {
+      reviewed_by: reviewer,
+    });
+  }
+
+  async rejectJournalEntry(
+    ledgerId: string,
+    id: string,
+    rejection: { reason: string },
+    actorId?: string,
+    accessibleLedgerIds: string[] = []
+  ): Promise<JournalEntry> {
+    const { reason } = validateInput(journalEntryRejectionSchema, rejection);
+    const entry = await this.getJournalEntry(ledgerId, id);
+    this.assertStatus(entry, 'submitted');
+    const reviewer = this.assertReviewer(entry, actorId);
+
+    return await this.transitionWithCounterpart(entry, accessibleLedgerIds, 'submitted', 'rejected', {
+      reviewed_by: reviewer,
+      rejection_reason: reason,
+    });
   }
 
-  async getJournalEntriesByDateRange(from: Date, to: Date): Promise<JournalEntry[]> {
+  /**
+   * Post an approved entry so it affects balances
+   * The two sides of an intercompany entry are posted together
+   */
+  async postJournalEntry(ledgerId: string, id: string, accessibleLedgerIds: string[] = []): Promise<JournalEntry> {
+    const entry = await this.getJournalEntry(ledgerId, id);
+    this.assertStatus(entry, 'approved');
+    await this.assertEntryPostable(entry);
+
+    return await this.transitionWithCounterpart(entry, accessibleLedgerIds, 'approved', 'posted', {}, true);
+  }
+
+  /**
+   * Move an entry to the next workflow status, together with the other side when it is
+   * one side of an intercompany entry, so that one side never moves without the other
+   * Acting on both sides requires access to both ledgers, like creating them
+   */
+  private async transitionWithCounterpart(
+    entry: JournalEntry,
+    accessibleLedgerIds: string[],
+    fromStatus: JournalEntryStatus,
+    toStatus: JournalEntryStatus,
+    changes: StatusChanges,
+    checkPostable: boolean = false
+  ): Promise<JournalEntry> {
+    const intercompany = await this.journalRepository.findIntercompanyByEntry(entry.id);
+    if (!intercompany) {
+      return await this.journalRepository.transitionStatus(entry.ledger_id, entry.id, fromStatus, toStatus, changes);
+    }
+
+    const [counterpartLedgerId, counterpartEntryId] = intercompany.entry_id === entry.id
+      ? [intercompany.counterparty_ledger_id, intercompany.counterparty_entry_id]
+      : [intercompany.ledger_id, intercompany.entry_id];
+    if (!accessibleLedgerIds.includes(counterpartLedgerId)) {
+      throw new ForbiddenError(
+        `Journal entry '${entry.id}' is one side of an intercompany entry; ` +
+        `API key does not have access to the other side in ledger '${counterpartLedgerId}'`
+      );
+    }
+
+    const counterpart = await this.getJournalEntry(counterpartLedgerId, counterpartEntryId);
+    this.assertStatus(counterpart, fromStatus);
+    if (checkPostable) {
+      await this.assertEntryPostable(counterpart);
+    }
+
+    const [moved] = await this.journalRepository.transitionStatusTogether(
+      [{ ledgerId: entry.ledger_id, id: entry.id }, { ledgerId: counterpartLedgerId, id: counterpartEntryId }],
+      fromStatus,
+      toStatus,
+      changes
+    );
+    return moved!;
+  }
+
+  async getJournalEntriesByDateRange(ledgerId: string, from: Date, to: Date): Promise<JournalEntry[]> {
     if (from > to) {
       throw new ValidationError('From date must be before or equal to to date');
     }
 
-    return await this.journalRepository.findByDateRange(from, to);
+    return await this.journalRepository.findByDateRange(ledgerId, from, to);
+  }
+
+  /**
+   * Post an intercompany entry: the calling ledger records a receivable from the
+   * counterparty ledger and the counterparty records the matching payable.
+   * Both sides are created in one transaction. Above the approval threshold they are
+   * submitted and go through approval as a pair (see transitionWithCounterpart), so
+   * that one side can never be posted without the other.
+   */
+  async createIntercompanyEntry(
+    ledgerId: string,
+    entryData: CreateIntercompanyEntryRequest,
+    accessibleLedgerIds: string[] = [],
+    actorId?: string,
+    reservation?: IdempotencyReservation
+  ): Promise<IntercompanyEntryResult> {
+    const recovered = await this.findRecoveredIntercompany(ledgerId, reservation);
+    if (recovered) {
+      return recovered;
+    }
+
+    const validated = validateInput(intercompanyEntrySchema, entryData);
+    const counterpartyLedgerId = validated.counterparty_ledger_id;
+
+    if (counterpartyLedgerId === ledgerId) {
+      throw new ValidationError('counterparty_ledger_id must be a different ledger than the one of the request');
+    }
+    if (!accessibleLedgerIds.includes(counterpartyLedgerId)) {
+      throw new ForbiddenError(`API key does not have access to ledger '${counterpartyLedgerId}'`);
+    }
+
+    const amount = Money.toDecimalString(Money.toCents(validated.amount));
+    const baseCurrency = ENV.DEFAULT_CURRENCY;
+
+    const side = await this.prepareIntercompanySide(ledgerId, {
+      date: validated.date,
+      narration: validated.narration,
+      lines: [
+        { account_code: ENV.INTERCOMPANY_RECEIVABLE_ACCOUNT, debit: amount, currency: baseCurrency },
+        ...validated.lines,
+      ],
+    }, 'Asset');
+    const counterparty = await this.prepareIntercompanySide(counterpartyLedgerId, {
+      date: validated.date,
+      narration: validated.narration,
+      lines: [
+        { account_code: ENV.INTERCOMPANY_PAYABLE_ACCOUNT, credit: amount, currency: baseCurrency },
+        ...validated.counterparty_lines,
+      ],
+    }, 'Liability', 'Counterparty entry: ');
+
+    const amountCents = Money.toCents(amount);
+    const created = await this.journalRepository.createIntercompany(
+      { ...side, ledgerId, receivableAccountId: side.intercompanyAccountId },
+      { ...counterparty, ledgerId: counterpartyLedgerId, payableAccountId: counterparty.intercompanyAccountId },
+      amountCents,
+      this.requiresApproval([{ debit_cents: amountCents }]) ? 'submitted' : 'posted',
+      actorId ?? null,
+      reservation
+    );
+
+    return {
+      intercompany: created.intercompany,
+      entry: created.entry,
+      counterparty_entry: created.counterpartyEntry,
+    };
+  }
+
+  async getIntercompanyTransactions(ledgerId: string): Promise<IntercompanyTransaction[]> {
+    return await this.journalRepository.findIntercompanyTransactions(ledgerId);
+  }
+
+  /**
+   * Validate one side of an intercompany entry like a regular entry, and check that
+   * its intercompany account is of the expected type and held in the base currency
+   */
+  private async prepareIntercompanySide(
+    ledgerId: string,
+    entryData: CreateJournalEntryRequest,
+    accountType: 'Asset' | 'Liability',
+    errorPrefix: string = ''
+  ): Promise<{ data: CreateJournalEntryRequest; accounts: Account[]; intercompanyAccountId: string }> {
+    try {
+      const { resolvedData, accounts } = await this.prepareEntry(ledgerId, validateInput(journalEntrySchema, entryData));
+
+      const intercompanyAccount = accounts.find(account => account.code === entryData.lines[0]!.account_code)!;
+      if (intercompanyAccount.type !== accountType || intercompanyAccount.currency !== ENV.DEFAULT_CURRENCY) {
+        throw new ValidationError(
+          `Intercompany account '${intercompanyAccount.code}' must be an ${accountType} account ` +
+          `held in the base currency (${ENV.DEFAULT_CURRENCY})`
+        );
+      }
+
+      return { data: resolvedData, accounts, intercompanyAccountId: intercompanyAccount.id };
+    } catch (error) {
+      if (error instanceof ValidationError && errorPrefix) {
+        throw new ValidationError(errorPrefix + error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check a validated entry against the ledger: accounts exist and are active, the
+   * reversed entry is posted, lines balance in the base currency and the date is open
+   */
+  private async prepareEntry(
+    ledgerId: string,
+    validatedData: CreateJournalEntryRequest
+  ): Promise<{ resolvedData: CreateJournalEntryRequest; accounts: Account[] }> {
+    const accountCodes = validatedData.lines.map(line => line.account_code);
+    const accounts = await this.accountService.validateAccountsExist(ledgerId, accountCodes);
+    this.accountService.assertAccountsActive(accounts);
+
+    if (validatedData.reverses_entry_id) {
+      await this.validateReversedEntry(ledgerId, validatedData.reverses_entry_id);
+    }
+
+    const resolvedData = await this.resolveLineCurrencies(validatedData, this.toAccountMap(accounts));
+    this.validateDoubleEntryRules(resolvedData);
+    await this.fiscalPeriodService.assertDateOpenForPosting(ledgerId, validatedData.date, validatedData.adjusting);
+
+    return { resolvedData, accounts };
+  }
+
+  /**
+   * Status a newly created entry starts in
+   */
+  private getInitialStatus(entryData: CreateJournalEntryRequest): JournalEntryStatus {
+    if (entryData.draft) {
+      return 'draft';
+    }
+
+    const lines = entryData.lines.map(line => ({ debit_cents: this.toBaseCents(line.debit, line.exchange_rate, line.currency) }));
+    return this.requiresApproval(lines) ? 'submitted' : 'posted';
+  }
+
+  /**
+   * Whether an entry's total exceeds the configured approval threshold
+   */
+  private requiresApproval(lines: { debit_cents: number }[]): boolean {
+    if (ENV.JOURNAL_APPROVAL_THRESHOLD === null) {
+      return false;
+    }
+
+    const totalCents = lines.reduce((total, line) => total + line.debit_cents, 0);
+    return totalCents > Money.toCents(ENV.JOURNAL_APPROVAL_THRESHOLD);
+  }
+
+  private assertStatus(entry: JournalEntry, expected: JournalEntryStatus): void {
+    if (entry.status !== expected) {
+      throw new ConflictError(
+        `Journal entry '${entry.id}' is ${entry.status}; this action requires status '${expected}'`
+      );
+    }
+  }
+
+  private requireActor(actorId?: string): string {
+    if (!actorId) {
+      throw new ForbiddenError('The API key performing this action could not be identified');
+    }
+    return actorId;
+  }
+
+  private assertReviewer(entry: JournalEntry, actorId?: string): string {
+    const reviewer = this.requireActor(actorId);
+    if (entry.submitted_by === reviewer) {
+      throw new ForbiddenError(
+        'Segregation of duties: an entry must be reviewed with a different API key than the one that submitted it'
+      );
+    }
+    return reviewer;
+  }
+
+  /**
+   * Re-check posting rules for an existing entry right before it is posted,
+   * since accounts or fiscal periods may have changed since it was created
+   */
+  private async assertEntryPostable(entry: JournalEntry): Promise<void> {
+    const accounts = await this.accountService.validateAccountsExist(
+      entry.ledger_id,
+      entry.lines.map(line => line.account_code)
+    );
+    this.accountService.assertAccountsActive(accounts);
+
+    await this.fiscalPeriodService.assertDateOpenForPosting(
+      entry.ledger_id,
+      new Date(entry.date).toISOString().split('T')[0]!,
+      entry.is_adjusting
+    );
+  }
+
+  /**
+   * Only posted entries can be reversed
+   */
+  private async validateReversedEntry(ledgerId: string, reversedEntryId: string): Promise<void> {
+    const reversedEntry = await this.journalRepository.findById(ledgerId, reversedEntryId);
+    if (!reversedEntry) {
+      throw new ValidationError(`Reversed entry with ID '${reversedEntryId}' not found`);
+    }
+
+    if (reversedEntry.status !== 'posted') {
+      throw new ValidationError(
+        `Reversed entry with ID '${reversedEntryId}' is ${reversedEntry.status}; only posted entries can be reversed`
+      );
+    }
+  }
+
+  private toAccountMap(accounts: Account[]): Map<string, Account> {
+    return new Map(accounts.map(account => [account.code, account]));
+  }
+
+  /**
+   * Fill in the currency and exchange rate of every line
+   * Lines default to the base currency. Accounts held in a foreign currency only
+   * accept lines in that currency, or lines that explicitly name the base currency
+   * (base-only adjustments such as FX revaluation). Missing rates are looked up in
+   * fx_rates for the entry date.
+   */
+  private async resolveLineCurrencies(
+    entryData: CreateJournalEntryRequest,
+    accountMap: Map<string, Account>
+  ): Promise<CreateJournalEntryRequest> {
+    const baseCurrency = ENV.DEFAULT_CURRENCY;
+    const rates = new Map<string, number>();
+    const lines: CreateJournalLineRequest[] = [];
+
+    for (const line of entryData.lines) {
+      const account = accountMap.get(line.account_code)!;
+      const currency = line.currency || baseCurrency;
+
+      const isBaseAdjustment = line.currency === baseCurrency;
+      if (account.currency !== baseCurrency && currency !== account.currency && !isBaseAdjustment) {
+        throw new ValidationError(
+          `Account '${account.code}' is held in ${account.currency}; its lines must use currency ` +
+          `${account.currency} (or explicitly ${baseCurrency} for base-only adjustments)`
+        );
+      }
+
+      let exchangeRate = line.exchange_rate;
+      if (currency === baseCurrency) {
+        if (exchangeRate !== undefined && exchangeRate !== 1) {
+          throw new ValidationError(
+            `Line for account '${line.account_code}' is in the base currency (${baseCurrency}); its exchange_rate must be 1`
+          );
+        }
+        exchangeRate = 1;
+      } else if (exchangeRate === undefined) {
+        if (!rates.has(currency)) {
+          rates.set(currency, await this.fxRateService.getConversionRate(currency, baseCurrency, entryData.date));
+        }
+        exchangeRate = rates.get(currency)!;
+      }
+
+      lines.push({ ...line, currency, exchange_rate: exchangeRate });
+    }
+
+    return { ...entryData, lines };
+  }
+
+  /**
+   * Base currency cents of a line amount given in the line currency
+   */
+  private toBaseCents(
+    amount: number | string | undefined,
+    exchangeRate: number = 1,
+    currency: string = ENV.DEFAULT_CURRENCY
+  ): number {
+    return Money.convert(Money.toCents(amount || 0, currency), exchangeRate, currency);
   }
 
   /**
    * Validate double-entry bookkeeping rules
+   * Amounts are compared in the base currency, so lines must have their exchange rates resolved
    */
   private validateDoubleEntryRules(entryData: CreateJournalEntryRequest): void {
     // Calculate total debits and credits in cents to avoid floating point issues
@@ -110,8 +666,8 @@ export class JournalService {
     const accountCodes = new Set<string>();
 
     for (const line of entryData.lines) {
-      const debitCents = Money.toCents(line.debit || 0);
-      const creditCents = Money.toCents(line.credit || 0);
+      const debitCents = this.toBaseCents(line.debit, line.exchange_rate, line.currency);
+      const creditCents = this.toBaseCents(line.credit, line.exchange_rate, line.currency);
 
       totalDebits += debitCents;
       totalCredits += creditCents;
@@ -165,33 +721,124 @@ export class JournalService {
     }
   }
 
+  /**
+   * Entries posted under an idempotency reservation by an attempt that did not get to
+   * store its response (the retry took the reservation over); returned instead of posting again
+   */
+  private async findRecoveredEntries(
+    ledgerId: string,
+    reservation?: IdempotencyReservation
+  ): Promise<JournalEntry[] | null> {
+    if (!reservation?.entry_ids || reservation.entry_ids.length === 0) {
+      return null;
+    }
+
+    const entries = await this.journalRepository.findByIds(ledgerId, reservation.entry_ids);
+    return entries.length === reservation.entry_ids.length ? entries : null;
+  }
+
+  /**
+   * Intercompany entry that an interrupted attempt of the request already created
+   * (see findRecoveredEntries); the reservation holds the ids of both sides, this
+   * ledger's side first
+   */
+  private async findRecoveredIntercompany(
+    ledgerId: string,
+    reservation?: IdempotencyReservation
+  ): Promise<IntercompanyEntryResult | null> {
+    const entryId = reservation?.entry_ids?.[0];
+    if (!entryId) {
+      return null;
+    }
+
+    const intercompany = await this.journalRepository.findIntercompanyByEntry(entryId);
+    if (!intercompany || intercompany.ledger_id !== ledgerId) {
+      return null;
+    }
+
+    const entry = await this.journalRepository.findById(intercompany.ledger_id, intercompany.entry_id);
+    const counterpartyEntry = await this.journalRepository.findById(
+      intercompany.counterparty_ledger_id,
+      intercompany.counterparty_entry_id
+    );
+    return entry && counterpartyEntry ? { intercompany, entry, counterparty_entry: counterpartyEntry } : null;
+  }
+
   /**
    * Create a reversal entry that negates an existing entry
    */
   async createReversalEntry(
+    ledgerId: string,
     originalEntryId: string,
     narration: string,
     reversalDate: string,
-    idempotencyKey?: string
+    actorId?: string,
+    reservation?: IdempotencyReservation
   ): Promise<JournalEntry> {
+    // The original is already reversed when the reversal was posted by an interrupted attempt
+    const recovered = await this.findRecoveredEntries(ledgerId, reservation);
+    if (recovered) {
+      return recovered[0]!;
+    }
+
+    const reversalEntryData = await this.buildReversalEntry(ledgerId, originalEntryId, narration, reversalDate);
+    return await this.createJournalEntry(ledgerId, reversalEntryData, actorId, reservation);
+  }
+
+  /**
+   * Post the reversal of a system-generated entry right away (see postSystemEntry)
+   */
+  async postSystemReversal(
+    ledgerId: string,
+    originalEntryId: string,
+    narration: string,
+    reversalDate: string,
+    actorId?: string
+  ): Promise<JournalEntry> {
+    const reversalEntryData = await this.buildReversalEntry(ledgerId, originalEntryId, narration, reversalDate);
+    return await this.postSystemEntry(ledgerId, reversalEntryData, actorId);
+  }
+
+  /**
+   * Entry that negates a posted entry
+   */
+  private async buildReversalEntry(
+    ledgerId: string,
+    originalEntryId: string,
+    narration: string,
+    reversalDate: string
+  ): Promise<CreateJournalEntryRequest> {
     // Get the original entry
-    const originalEntry = await this.getJournalEntry(originalEntryId);
+    const originalEntry = await this.getJournalEntry(ledgerId, originalEntryId);
+    if (originalEntry.status !== 'posted') {
+      throw new ValidationError(
+        `Journal entry '${originalEntryId}' is ${originalEntry.status}; only posted entries can be reversed`
+      );
+    }
+
+    // Reversing one side only would leave the other ledger's balance unmatched
+    if (await this.journalRepository.findIntercompanyByEntry(originalEntryId)) {
+      throw new ValidationError(
+        `Journal entry '${originalEntryId}' is one side of an intercompany entry; ` +
+        'post an opposite intercompany entry instead of reversing it'
+      );
+    }
 
-    // Create reversal lines (flip debits and credits)
+    // Create reversal lines (flip debits and credits) at the original currency and rate
     const reversalLines = originalEntry.lines.map(line => ({
       account_code: line.account_code,
-      debit: Money.fromCents(line.credit_cents),
-      credit: Money.fromCents(line.debit_cents),
+      debit: line.credit_cents > 0 ? Money.toDecimalString(line.transaction_amount_cents, line.currency) : 0,
+      credit: line.debit_cents > 0 ? Money.toDecimalString(line.transaction_amount_cents, line.currency) : 0,
+      currency: line.currency,
+      exchange_rate: line.exchange_rate,
     }));
 
-    const reversalEntryData: CreateJournalEntryRequest = {
+    return {
       date: reversalDate,
       narration,
       lines: reversalLines,
       reverses_entry_id: originalEntryId,
     };
-
-    return await this.createJournalEntry(reversalEntryData, idempotencyKey);
   }
 }
 
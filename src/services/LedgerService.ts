@@ -0,0 +1,53 @@
+import { LedgerRepository } from '../repositories/LedgerRepository.js';
+import {
+  Ledger,
+  CreateLedgerRequest,
+  ValidationError,
+  NotFoundError,
+  ForbiddenError
+} from '../models/types.js';
+import { validateInput, ledgerSchema } from '../utils/validation.js';
+
+export class LedgerService {
+  private ledgerRepository: LedgerRepository;
+
+  constructor() {
+    this.ledgerRepository = new LedgerRepository();
+  }
+
+  /**
+   * Create a ledger; the creating API key is bound to it
+   */
+  async createLedger(ledgerData: CreateLedgerRequest, apiKeyId?: string): Promise<Ledger> {
+    const validatedData = validateInput(ledgerSchema, ledgerData);
+    if (!apiKeyId) {
+      throw new ForbiddenError('The API key performing this action could not be identified');
+    }
+
+    return await this.ledgerRepository.create(validatedData, apiKeyId);
+  }
+
+  /**
+   * Get a ledger the API key is bound to
+   */
+  async getLedger(id: string, accessibleIds: string[] = []): Promise<Ledger> {
+    if (!id || typeof id !== 'string') {
+      throw new ValidationError('Ledger ID is required');
+    }
+
+    if (!accessibleIds.includes(id)) {
+      throw new ForbiddenError(`API key does not have access to ledger '${id}'`);
+    }
+
+    const ledger = await this.ledgerRepository.findById(id);
+    if (!ledger) {
+      throw new NotFoundError(`Ledger with ID '${id}' not found`);
+    }
+
+    return ledger;
+  }
+
+  async getLedgers(accessibleIds: string[] = []): Promise<Ledger[]> {
+    return await this.ledgerRepository.findByIds(accessibleIds);
+  }
+}
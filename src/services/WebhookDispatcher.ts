@@ -0,0 +1,126 @@
+import { OutboxRepository } from '../repositories/OutboxRepository.js';
+import { WebhookRepository, DueWebhookDelivery } from '../repositories/WebhookRepository.js';
+import { Webhooks } from '../utils/webhook.js';
+import { ENV } from '../config/env.js';
+
+// Events fanned out and deliveries sent per poll
+const BATCH_SIZE = 50;
+
+// Longest response body kept as the error of a failed attempt
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Delivers outbox events to webhook endpoints
+ * Each poll turns new outbox events into deliveries for the subscribed endpoints, then
+ * sends the due deliveries. Failed attempts are retried with exponential backoff until
+ * WEBHOOK_MAX_ATTEMPTS, after which the delivery is dead (it can be redelivered manually).
+ */
+export class WebhookDispatcher {
+  private outboxRepository: OutboxRepository;
+  private webhookRepository: WebhookRepository;
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor() {
+    this.outboxRepository = new OutboxRepository();
+    this.webhookRepository = new WebhookRepository();
+  }
+
+  start(intervalMs: number = ENV.WEBHOOK_POLL_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.poll().catch(error => console.error('Webhook dispatch failed:', error));
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Dispatch new events and send due deliveries once
+   * @returns Number of deliveries attempted
+   */
+  async poll(): Promise<number> {
+    // A slow poll must not overlap with the next one
+    if (this.polling) {
+      return 0;
+    }
+    this.polling = true;
+
+    try {
+      // Drain the outbox before sending
+      let dispatched: number;
+      do {
+        dispatched = await this.outboxRepository.dispatchPending(BATCH_SIZE);
+      } while (dispatched === BATCH_SIZE);
+
+      // Deliveries are sent one by one; they stay claimed until the whole batch could have timed out
+      const leaseSeconds = Math.ceil((BATCH_SIZE * ENV.WEBHOOK_TIMEOUT_MS) / 1000);
+      const deliveries = await this.webhookRepository.claimDueDeliveries(BATCH_SIZE, leaseSeconds);
+      for (const delivery of deliveries) {
+        await this.deliver(delivery);
+      }
+
+      return deliveries.length;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async deliver(delivery: DueWebhookDelivery): Promise<void> {
+    const body = JSON.stringify({
+      id: delivery.event_id,
+      type: delivery.event_type,
+      ledger_id: delivery.ledger_id,
+      created_at: delivery.event_created_at,
+      data: delivery.payload,
+    });
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    let statusCode: number | null = null;
+    let error: string;
+    try {
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'ledger-webhooks/1.0',
+          'X-Webhook-Id': delivery.event_id,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Event': delivery.event_type,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': Webhooks.sign(delivery.secret, timestamp, body),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(ENV.WEBHOOK_TIMEOUT_MS),
+      });
+
+      statusCode = response.status;
+      if (response.ok) {
+        await this.webhookRepository.markDelivered(delivery.id, statusCode);
+        return;
+      }
+
+      const text = await response.text().catch(() => '');
+      error = `HTTP ${statusCode}${text ? `: ${text.slice(0, MAX_ERROR_LENGTH)}` : ''}`;
+    } catch (fetchError) {
+      error = (fetchError as Error).message;
+    }
+
+    const attempts = delivery.attempts + 1;
+    await this.webhookRepository.markFailed(
+      delivery.id,
+      statusCode,
+      error,
+      attempts >= ENV.WEBHOOK_MAX_ATTEMPTS ? null : Webhooks.retryDelaySeconds(attempts)
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { WebhookRepository } from '../repositories/WebhookRepository.js';
+import {
+  WebhookEndpoint,
+  CreatedWebhookEndpoint,
+  CreateWebhookEndpointRequest,
+  WebhookDelivery,
+  ValidationError,
+  NotFoundError,
+  ConflictError
+} from '../models/types.js';
+import { validateInput, webhookEndpointSchema, webhookDeliveryQuerySchema } from '../utils/validation.js';
+import { Webhooks } from '../utils/webhook.js';
+
+export class WebhookService {
+  private webhookRepository: WebhookRepository;
+
+  constructor() {
+    this.webhookRepository = new WebhookRepository();
+  }
+
+  /**
+   * Register an endpoint for the ledger's events; the signing secret is only returned here
+   */
+  async createEndpoint(
+    ledgerId: string,
+    endpointData: CreateWebhookEndpointRequest,
+    actorId?: string
+  ): Promise<CreatedWebhookEndpoint> {
+    const validatedData = validateInput(webhookEndpointSchema, endpointData);
+
+    return await this.webhookRepository.createEndpoint(ledgerId, {
+      url: validatedData.url,
+      event_types: validatedData.event_types ?? [],
+      secret: Webhooks.generateSecret(),
+      created_by: actorId ?? null,
+    });
+  }
+
+  async getEndpoints(ledgerId: string): Promise<WebhookEndpoint[]> {
+    return await this.webhookRepository.findEndpoints(ledgerId);
+  }
+
+  async getEndpoint(ledgerId: string, id: string): Promise<WebhookEndpoint> {
+    if (!id || typeof id !== 'string') {
+      throw new ValidationError('Webhook ID is required');
+    }
+
+    const endpoint = await this.webhookRepository.findEndpointById(ledgerId, id);
+    if (!endpoint) {
+      throw new NotFoundError(`Webhook with ID '${id}' not found`);
+    }
+
+    return endpoint;
+  }
+
+  /**
+   * Deactivate an endpoint; its pending deliveries become dead
+   */
+  async deactivateEndpoint(ledgerId: string, id: string): Promise<WebhookEndpoint> {
+    const endpoint = await this.getEndpoint(ledgerId, id);
+    if (!endpoint.is_active) {
+      throw new ConflictError(`Webhook '${id}' is already deactivated`);
+    }
+
+    return (await this.webhookRepository.deactivateEndpoint(ledgerId, id))!;
+  }
+
+  async getDeliveries(ledgerId: string, endpointId: string, query: unknown): Promise<WebhookDelivery[]> {
+    const { status, limit } = validateInput(webhookDeliveryQuerySchema, query);
+    await this.getEndpoint(ledgerId, endpointId);
+
+    return await this.webhookRepository.findDeliveries(endpointId, status, limit);
+  }
+
+  /**
+   * Send a delivery again (e.g. a dead one once the receiver is fixed)
+   */
+  async redeliver(ledgerId: string, deliveryId: string): Promise<WebhookDelivery> {
+    if (!deliveryId || typeof deliveryId !== 'string') {
+      throw new ValidationError('Delivery ID is required');
+    }
+
+    const delivery = await this.webhookRepository.findDeliveryById(ledgerId, deliveryId);
+    if (!delivery) {
+      throw new NotFoundError(`Webhook delivery with ID '${deliveryId}' not found`);
+    }
+
+    const endpoint = await this.getEndpoint(ledgerId, delivery.endpoint_id);
+    if (!endpoint.is_active) {
+      throw new ConflictError(`Webhook '${endpoint.id}' is deactivated`);
+    }
+
+    await this.webhookRepository.redeliver(deliveryId);
+    return (await this.webhookRepository.findDeliveryById(ledgerId, deliveryId))!;
+  }
+}
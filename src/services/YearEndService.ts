@@ -0,0 +1,220 @@
+import { BalanceRepository } from '../repositories/BalanceRepository.js';
+import { YearEndClosingRepository } from '../repositories/YearEndClosingRepository.js';
+import { AccountService } from './AccountService.js';
+import { JournalService } from './JournalService.js';
+import {
+  AccountBalance,
+  CreateJournalEntryRequest,
+  CreateJournalLineRequest,
+  JournalEntry,
+  YearEndClosing,
+  ValidationError,
+  ConflictError
+} from '../models/types.js';
+import { validateInput, fiscalYearSchema } from '../utils/validation.js';
+import { Money } from '../utils/money.js';
+import { ENV } from '../config/env.js';
+
+export class YearEndService {
+  private balanceRepository: BalanceRepository;
+  private yearEndClosingRepository: YearEndClosingRepository;
+  private accountService: AccountService;
+  private journalService: JournalService;
+
+  constructor() {
+    this.balanceRepository = new BalanceRepository();
+    this.yearEndClosingRepository = new YearEndClosingRepository();
+    this.accountService = new AccountService();
+    this.journalService = new JournalService();
+  }
+
+  /**
+   * Close a fiscal year: zero every Revenue and Expense account into Retained Earnings
+   * with one balanced entry dated on the last day of the year.
+   * The closing entry is posted right away, whatever the approval threshold, so the year
+   * is never recorded as closed while its result is still in Revenue and Expense.
+   * Closing an already closed year returns the existing closing instead of posting again.
+   */
+  async closeYear(ledgerId: string, year: string, actorId?: string): Promise<{
+    closing: YearEndClosing;
+    entry: JournalEntry | null;
+    created: boolean;
+  }> {
+    const fiscalYear = this.parseYear(year);
+    const { start, end } = this.getFiscalYearRange(fiscalYear);
+
+    const existing = await this.yearEndClosingRepository.findActive(ledgerId, fiscalYear);
+    if (existing) {
+      return {
+        closing: existing,
+        entry: existing.entry_id ? await this.journalService.getJournalEntry(ledgerId, existing.entry_id) : null,
+        created: false,
+      };
+    }
+
+    if (new Date(end) >= new Date(new Date().toISOString().split('T')[0]!)) {
+      throw new ValidationError(`Fiscal year ${fiscalYear} (${start} to ${end}) has not ended yet`);
+    }
+
+    const retainedEarnings = await this.accountService.getAccount(ledgerId, ENV.RETAINED_EARNINGS_ACCOUNT);
+    if (retainedEarnings.type !== 'Equity') {
+      throw new ValidationError(
+        `Retained earnings account '${retainedEarnings.code}' must be an Equity account`
+      );
+    }
+
+    const balances = await this.balanceRepository.getAllAccountBalances(ledgerId, new Date(end));
+    const lines = this.buildClosingLines(balances, retainedEarnings.code);
+
+    // Reserve the year first so concurrent requests cannot post two closing entries
+    const closing = await this.yearEndClosingRepository.create(ledgerId, fiscalYear, actorId ?? null);
+    if (lines.length === 0) {
+      return { closing, entry: null, created: true };
+    }
+
+    const entryData: CreateJournalEntryRequest = {
+      date: end,
+      narration: `Year-end closing FY${fiscalYear} (${start} to ${end})`,
+      lines,
+      adjusting: true,
+    };
+
+    try {
+      const entry = await this.journalService.postSystemEntry(ledgerId, entryData, actorId);
+      return {
+        closing: await this.yearEndClosingRepository.setEntry(closing.id, entry.id),
+        entry,
+        created: true,
+      };
+    } catch (error) {
+      await this.yearEndClosingRepository.delete(closing.id);
+      throw error;
+    }
+  }
+
+  /**
+   * Reverse the closing of a fiscal year by posting a reversal of its closing entry
+   */
+  async reopenYear(ledgerId: string, year: string, actorId?: string): Promise<{
+    closing: YearEndClosing;
+    reversalEntry: JournalEntry | null;
+  }> {
+    const fiscalYear = this.parseYear(year);
+    const { end } = this.getFiscalYearRange(fiscalYear);
+
+    const closing = await this.yearEndClosingRepository.findActive(ledgerId, fiscalYear);
+    if (!closing) {
+      throw new ConflictError(`Fiscal year ${fiscalYear} is not closed`);
+    }
+
+    let reversalEntry: JournalEntry | null = null;
+    if (closing.entry_id) {
+      const closingEntry = await this.journalService.getJournalEntry(ledgerId, closing.entry_id);
+      if (closingEntry.status !== 'posted' && closingEntry.status !== 'rejected') {
+        throw new ConflictError(
+          `Closing entry '${closingEntry.id}' is ${closingEntry.status}; reject it instead of reversing it`
+        );
+      }
+
+      // Closings recorded before closing entries were posted directly may link a rejected
+      // entry; such a year never took effect and is released without a reversal
+      if (closingEntry.status === 'posted') {
+        reversalEntry = await this.journalService.postSystemReversal(
+          ledgerId,
+          closing.entry_id,
+          `Reversal of year-end closing FY${fiscalYear}`,
+          end,
+          actorId
+        );
+      }
+    }
+
+    return {
+      closing: await this.yearEndClosingRepository.markReversed(
+        closing.id,
+        reversalEntry ? reversalEntry.id : null,
+        actorId ?? null
+      ),
+      reversalEntry,
+    };
+  }
+
+  async getYearStatus(ledgerId: string, year: string): Promise<{
+    fiscal_year: number;
+    start_date: string;
+    end_date: string;
+    is_closed: boolean;
+    closings: YearEndClosing[];
+  }> {
+    const fiscalYear = this.parseYear(year);
+    const { start, end } = this.getFiscalYearRange(fiscalYear);
+    const closings = await this.yearEndClosingRepository.findByYear(ledgerId, fiscalYear);
+
+    return {
+      fiscal_year: fiscalYear,
+      start_date: start,
+      end_date: end,
+      is_closed: closings.some(closing => closing.status === 'closed'),
+      closings,
+    };
+  }
+
+  /**
+   * First and last day (YYYY-MM-DD) of a fiscal year
+   * Fiscal years are named by the calendar year in which they end
+   */
+  getFiscalYearRange(fiscalYear: number): { start: string; end: string } {
+    const startMonth = ENV.FISCAL_YEAR_START_MONTH;
+    const startYear = startMonth === 1 ? fiscalYear : fiscalYear - 1;
+
+    const start = new Date(Date.UTC(startYear, startMonth - 1, 1));
+    // Day 0 of the start month one year later is the last day of the fiscal year
+    const end = new Date(Date.UTC(startYear + 1, startMonth - 1, 0));
+
+    return {
+      start: start.toISOString().split('T')[0]!,
+      end: end.toISOString().split('T')[0]!,
+    };
+  }
+
+  /**
+   * One line per Revenue/Expense account that moves its balance to zero,
+   * plus the net result on the retained earnings account
+   */
+  private buildClosingLines(balances: AccountBalance[], retainedEarningsCode: string): CreateJournalLineRequest[] {
+    const lines: CreateJournalLineRequest[] = [];
+    let netCents = 0; // debits minus credits of the closing lines so far
+
+    for (const balance of balances) {
+      if (balance.account_type !== 'Revenue' && balance.account_type !== 'Expense') {
+        continue;
+      }
+
+      const net = balance.debits - balance.credits;
+      if (net === 0) {
+        continue;
+      }
+
+      // Post the opposite side of the account's net balance
+      if (net > 0) {
+        lines.push({ account_code: balance.account_code, credit: Money.toDecimalString(net) });
+      } else {
+        lines.push({ account_code: balance.account_code, debit: Money.toDecimalString(-net) });
+      }
+      netCents -= net;
+    }
+
+    // Profit (net credit balance closed with debits) is credited to retained earnings
+    if (netCents > 0) {
+      lines.push({ account_code: retainedEarningsCode, credit: Money.toDecimalString(netCents) });
+    } else if (netCents < 0) {
+      lines.push({ account_code: retainedEarningsCode, debit: Money.toDecimalString(-netCents) });
+    }
+
+    return lines;
+  }
+
+  private parseYear(year: string): number {
+    return validateInput(fiscalYearSchema, { year }).year as number;
+  }
+}
@@ -0,0 +1,56 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * API key helpers
+ * Keys are never stored; the database keeps a lookup prefix, a random salt and
+ * the SHA-256 hash of salt + key. Generated keys look like lk_<prefix>_<secret>.
+ */
+
+const KEY_PATTERN = /^(lk_[0-9a-f]{8})_[A-Za-z0-9_-]+$/;
+
+// Keys that do not follow the generated format (e.g. from API_KEYS) use their first characters
+const LEGACY_PREFIX_LENGTH = 8;
+
+export class ApiKeys {
+  /**
+   * Generate a new random API key
+   * @returns Key of the form lk_<8 hex characters>_<43 base64url characters>
+   */
+  static generate(): string {
+    return `lk_${randomBytes(4).toString('hex')}_${randomBytes(32).toString('base64url')}`;
+  }
+
+  /**
+   * Lookup prefix of a key; prefixes are not secret and need not be unique
+   * @param key - Full API key
+   * @returns Prefix stored alongside the hash
+   */
+  static prefixOf(key: string): string {
+    const match = KEY_PATTERN.exec(key);
+    return match ? match[1]! : key.slice(0, LEGACY_PREFIX_LENGTH);
+  }
+
+  /**
+   * Generate a random salt for hashing a key
+   */
+  static generateSalt(): string {
+    return randomBytes(16).toString('hex');
+  }
+
+  /**
+   * Hash a key with its salt
+   * @returns Hex encoded SHA-256 of salt + key
+   */
+  static hash(key: string, salt: string): string {
+    return createHash('sha256').update(salt + key).digest('hex');
+  }
+
+  /**
+   * Check a presented key against a stored salt and hash in constant time
+   */
+  static verify(key: string, salt: string, hash: string): boolean {
+    const expected = Buffer.from(hash, 'hex');
+    const actual = Buffer.from(ApiKeys.hash(key, salt), 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+}
@@ -0,0 +1,195 @@
+import { BankStatementLine, BookLine, ProposedBankMatch } from '../models/types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Most lines combined into one side of a one-to-many or many-to-one match
+export const MAX_GROUP_SIZE = 5;
+
+// Lines (closest in date first) searched for a combination adding up to a single line
+const MAX_GROUP_CANDIDATES = 20;
+
+type StatementItem = Pick<BankStatementLine, 'id' | 'booking_date' | 'amount_cents' | 'description' | 'reference'>;
+type BookItem = Pick<BookLine, 'journal_line_id' | 'date' | 'amount_cents' | 'narration'>;
+
+interface Candidate {
+  id: string;
+  day: number;
+  amount: number;
+}
+
+/**
+ * Proposes matches between statement lines and journal lines of a bank account
+ * Rules are applied in order, each to the lines left unmatched by the previous ones:
+ * 1. reference - same amount, within the date window and sharing a reference
+ * 2. amount - same amount within the date window, when neither line has another candidate
+ * 3. one_to_many - one statement line equal to the sum of several journal lines
+ * 4. many_to_one - several statement lines equal to one journal line
+ * A match is only proposed when it is the only one the rule finds, so equal recurring
+ * amounts are left for manual matching rather than matched to the wrong line.
+ */
+export class BankMatcher {
+  static propose(
+    statementLines: StatementItem[],
+    bookLines: BookItem[],
+    dateWindowDays: number
+  ): ProposedBankMatch[] {
+    const matches: ProposedBankMatch[] = [];
+    const bank = new Map(statementLines.map(line => [line.id, line]));
+    const book = new Map(bookLines.map(line => [line.journal_line_id, line]));
+    const withinWindow = (a: Date | string, b: Date | string): boolean =>
+      Math.abs(BankMatcher.day(a) - BankMatcher.day(b)) <= dateWindowDays;
+
+    const record = (rule: ProposedBankMatch['rule'], statementLineIds: string[], journalLineIds: string[]): void => {
+      statementLineIds.forEach(id => bank.delete(id));
+      journalLineIds.forEach(id => book.delete(id));
+      matches.push({ rule, statement_line_ids: statementLineIds, journal_line_ids: journalLineIds });
+    };
+
+    const sameAmount = (line: StatementItem): BookItem[] => [...book.values()].filter(
+      candidate => candidate.amount_cents === line.amount_cents && withinWindow(candidate.date, line.booking_date)
+    );
+
+    // 1. Same amount and reference
+    for (const line of [...bank.values()]) {
+      const candidates = sameAmount(line).filter(candidate => BankMatcher.sharesReference(line, candidate.narration));
+      const closest = BankMatcher.closest(candidates.map(candidate => ({
+        id: candidate.journal_line_id,
+        day: BankMatcher.day(candidate.date),
+        amount: candidate.amount_cents,
+      })), BankMatcher.day(line.booking_date));
+      if (closest) {
+        record('reference', [line.id], [closest.id]);
+      }
+    }
+
+    // 2. Same amount, unambiguous in both directions
+    for (const line of [...bank.values()]) {
+      const candidates = sameAmount(line);
+      if (candidates.length !== 1) {
+        continue;
+      }
+
+      const candidate = candidates[0]!;
+      const rivals = [...bank.values()].filter(
+        other => other.amount_cents === candidate.amount_cents && withinWindow(other.booking_date, candidate.date)
+      );
+      if (rivals.length === 1) {
+        record('amount', [line.id], [candidate.journal_line_id]);
+      }
+    }
+
+    // 3. One statement line for several journal lines (e.g. one deposit of several cheques)
+    for (const line of [...bank.values()]) {
+      const group = BankMatcher.uniqueGroup(
+        { id: line.id, day: BankMatcher.day(line.booking_date), amount: line.amount_cents },
+        [...book.values()]
+          .filter(candidate => withinWindow(candidate.date, line.booking_date))
+          .map(candidate => ({
+            id: candidate.journal_line_id,
+            day: BankMatcher.day(candidate.date),
+            amount: candidate.amount_cents,
+          }))
+      );
+      if (group) {
+        record('one_to_many', [line.id], group);
+      }
+    }
+
+    // 4. Several statement lines for one journal line (e.g. a payment the bank split up)
+    for (const line of [...book.values()]) {
+      const group = BankMatcher.uniqueGroup(
+        { id: line.journal_line_id, day: BankMatcher.day(line.date), amount: line.amount_cents },
+        [...bank.values()]
+          .filter(candidate => withinWindow(candidate.booking_date, line.date))
+          .map(candidate => ({
+            id: candidate.id,
+            day: BankMatcher.day(candidate.booking_date),
+            amount: candidate.amount_cents,
+          }))
+      );
+      if (group) {
+        record('many_to_one', group, [line.journal_line_id]);
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Whether a statement line and a narration share a reference, such as an invoice number
+   * References are words of at least 4 letters and digits with at least one digit,
+   * compared without punctuation and case ("INV-0042" and "inv0042" are the same)
+   */
+  static sharesReference(line: Pick<StatementItem, 'description' | 'reference'>, narration: string): boolean {
+    const narrationReferences = BankMatcher.references(narration);
+    const normalizedNarration = narration.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    const reference = (line.reference ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+    if (reference.length >= 4 && normalizedNarration.includes(reference)) {
+      return true;
+    }
+    return BankMatcher.references(`${line.reference ?? ''} ${line.description ?? ''}`)
+      .some(candidate => narrationReferences.includes(candidate));
+  }
+
+  private static references(text: string): string[] {
+    return text
+      .split(/\s+/)
+      .map(word => word.toUpperCase().replace(/[^A-Z0-9]/g, ''))
+      .filter(word => word.length >= 4 && /\d/.test(word));
+  }
+
+  private static day(date: Date | string): number {
+    return Math.round(new Date(date).getTime() / DAY_MS);
+  }
+
+  // The candidate closest in date, or null when there is none or two are equally close
+  private static closest(candidates: Candidate[], day: number): Candidate | null {
+    const sorted = [...candidates].sort((a, b) => Math.abs(a.day - day) - Math.abs(b.day - day));
+    const [first, second] = sorted;
+    if (!first || (second && Math.abs(second.day - day) === Math.abs(first.day - day))) {
+      return null;
+    }
+    return first;
+  }
+
+  /**
+   * IDs of the only combination of 2 to MAX_GROUP_SIZE candidates adding up to the target
+   * Only candidates with the target's sign and a smaller amount can be part of it
+   */
+  private static uniqueGroup(target: Candidate, candidates: Candidate[]): string[] | null {
+    const sign = Math.sign(target.amount);
+    const total = Math.abs(target.amount);
+    const pool = candidates
+      .filter(candidate => Math.sign(candidate.amount) === sign && Math.abs(candidate.amount) < total)
+      .sort((a, b) => Math.abs(a.day - target.day) - Math.abs(b.day - target.day))
+      .slice(0, MAX_GROUP_CANDIDATES)
+      .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
+
+    const found: string[][] = [];
+    const search = (start: number, remaining: number, chosen: Candidate[]): void => {
+      if (found.length > 1) {
+        return;
+      }
+      if (remaining === 0) {
+        if (chosen.length >= 2) {
+          found.push(chosen.map(candidate => candidate.id));
+        }
+        return;
+      }
+      if (chosen.length === MAX_GROUP_SIZE) {
+        return;
+      }
+
+      for (let index = start; index < pool.length; index++) {
+        const amount = Math.abs(pool[index]!.amount);
+        if (amount <= remaining) {
+          search(index + 1, remaining - amount, [...chosen, pool[index]!]);
+        }
+      }
+    };
+    search(0, total, []);
+
+    return found.length === 1 ? found[0]! : null;
+  }
+}
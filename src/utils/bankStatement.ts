@@ -0,0 +1,442 @@
+import crypto from 'crypto';
+import { Csv } from './csv.js';
+import { Money } from './money.js';
+import {
+  BankStatementCsvMapping,
+  BankStatementDateFormat,
+  BankStatementFormat,
+  ParsedBankStatement,
+  ParsedBankStatementLine,
+  ValidationError
+} from '../models/types.js';
+
+// Mapping used for columns a CSV import does not map; optional columns are only read when present
+export const DEFAULT_CSV_MAPPING: BankStatementCsvMapping = {
+  date: 'date',
+  amount: 'amount',
+  description: 'description',
+  reference: 'reference',
+  id: 'transaction_id',
+  value_date: 'value_date',
+  balance: 'balance',
+  date_format: 'YYYY-MM-DD',
+  decimal_separator: '.',
+  delimiter: ',',
+};
+
+const XML_ENTITIES: Readonly<Record<string, string>> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+};
+
+/**
+ * Bank statement parsers
+ * Every format is read into the same shape: signed amounts in minor units (money in is
+ * positive), ISO dates and a bank transaction ID per line. Lines without an ID in the
+ * file get one derived from their contents, so importing the same file again (or an
+ * overlapping one) yields the same IDs.
+ */
+export class BankStatements {
+  /**
+   * Guess the format of a statement file from its content
+   */
+  static detectFormat(content: string): BankStatementFormat {
+    const head = content.slice(0, 4096);
+    if (/OFXHEADER|<OFX>/i.test(head)) {
+      return 'ofx';
+    }
+    if (/camt\.053|<(\w+:)?BkToCstmrStmt[\s>]/.test(head)) {
+      return 'camt053';
+    }
+    return 'csv';
+  }
+
+  /**
+   * Parse a statement file
+   * @param content - File content
+   * @param format - File format
+   * @param currency - Currency of amounts when the file does not state one
+   * @param mapping - Column mapping of CSV files (default: DEFAULT_CSV_MAPPING)
+   * @throws ValidationError if the file can not be read
+   */
+  static parse(
+    content: string,
+    format: BankStatementFormat,
+    currency: string,
+    mapping: Partial<BankStatementCsvMapping> = {}
+  ): ParsedBankStatement {
+    switch (format) {
+      case 'csv':
+        return BankStatements.parseCsv(content, currency, mapping);
+      case 'ofx':
+        return BankStatements.parseOfx(content, currency);
+      case 'camt053':
+        return BankStatements.parseCamt053(content, currency);
+    }
+  }
+
+  /**
+   * Parse a CSV statement; mapped columns must exist in the header
+   */
+  static parseCsv(
+    content: string,
+    currency: string,
+    mapping: Partial<BankStatementCsvMapping> = {}
+  ): ParsedBankStatement {
+    const columns: BankStatementCsvMapping = { ...DEFAULT_CSV_MAPPING, ...mapping };
+    // Separate debit and credit columns replace the default amount column
+    if (!mapping.amount && (mapping.debit || mapping.credit)) {
+      delete columns.amount;
+    }
+
+    const records = Csv.parseRecords(content, columns.delimiter);
+    const header = new Set(Object.keys(records[0] ?? {}));
+    const column = (key: keyof BankStatementCsvMapping): string | undefined => {
+      const name = columns[key]?.trim().toLowerCase();
+      return name && header.has(name) ? name : undefined;
+    };
+
+    // Explicitly mapped columns must be there; the defaults of optional ones may be missing
+    const required: (keyof BankStatementCsvMapping)[] = [
+      'date',
+      ...(columns.amount ? ['amount' as const] : ['debit' as const, 'credit' as const]),
+      ...(['description', 'reference', 'id', 'value_date', 'balance'] as const).filter(key => mapping[key]),
+    ];
+    const missing = required.filter(key => columns[key] && !column(key)).map(key => columns[key]!);
+    if (records.length > 0 && missing.length > 0) {
+      throw new ValidationError(`CSV statement has no column named ${missing.map(name => `'${name}'`).join(', ')}`);
+    }
+
+    const rows = records.map((record, index) => {
+      const row = index + 2;
+      const value = (key: keyof BankStatementCsvMapping): string => {
+        const name = column(key);
+        return name ? record[name] ?? '' : '';
+      };
+
+      let amount: number;
+      if (columns.amount) {
+        amount = BankStatements.parseAmount(value('amount'), currency, columns.decimal_separator, `row ${row}`);
+      } else {
+        const debit = value('debit');
+        const credit = value('credit');
+        amount = (credit ? Math.abs(BankStatements.parseAmount(credit, currency, columns.decimal_separator, `row ${row}`)) : 0)
+          - (debit ? Math.abs(BankStatements.parseAmount(debit, currency, columns.decimal_separator, `row ${row}`)) : 0);
+      }
+
+      const valueDate = value('value_date');
+      const balance = value('balance');
+      return {
+        id: value('id') || null,
+        booking_date: BankStatements.parseDate(value('date'), columns.date_format, `row ${row}`),
+        value_date: valueDate ? BankStatements.parseDate(valueDate, columns.date_format, `row ${row}`) : null,
+        amount_cents: amount,
+        description: value('description') || null,
+        reference: value('reference') || null,
+        balance: balance ? BankStatements.parseAmount(balance, currency, columns.decimal_separator, `row ${row}`) : null,
+      };
+    });
+
+    // Banks often export newest first; balances are read in date order
+    const first = rows[0];
+    const last = rows[rows.length - 1];
+    if (first && last && first.booking_date > last.booking_date) {
+      rows.reverse();
+    }
+
+    const firstRow = rows[0];
+    const lastRow = rows[rows.length - 1];
+    const hasBalances = firstRow?.balance != null && lastRow?.balance != null;
+
+    return {
+      statement_ref: null,
+      currency: null,
+      period_start: firstRow?.booking_date ?? null,
+      period_end: lastRow?.booking_date ?? null,
+      opening_balance_cents: hasBalances ? firstRow!.balance! - firstRow!.amount_cents : null,
+      closing_balance_cents: hasBalances ? lastRow!.balance! : null,
+      lines: BankStatements.assignIds(rows),
+    };
+  }
+
+  /**
+   * Parse an OFX statement (SGML OFX 1.x or XML OFX 2.x)
+   * OFX only states the ledger balance at the end, so the opening balance is derived from the lines
+   */
+  static parseOfx(content: string, defaultCurrency: string): ParsedBankStatement {
+    const statements = BankStatements.elements(content, 'STMTRS').concat(BankStatements.elements(content, 'CCSTMTRS'));
+    if (statements.length !== 1) {
+      throw new ValidationError(
+        statements.length === 0
+          ? 'OFX file contains no bank statement'
+          : `OFX file contains ${statements.length} statements; import them one at a time`
+      );
+    }
+
+    const statement = statements[0]!;
+    const currency = BankStatements.sgmlValue(statement, 'CURDEF') ?? defaultCurrency;
+    const transactionList = BankStatements.elements(statement, 'BANKTRANLIST')[0] ?? '';
+
+    const rows = BankStatements.elements(transactionList, 'STMTTRN').map((transaction, index) => {
+      const context = `transaction ${index + 1}`;
+      const posted = BankStatements.sgmlValue(transaction, 'DTPOSTED');
+      const user = BankStatements.sgmlValue(transaction, 'DTUSER');
+      const name = BankStatements.sgmlValue(transaction, 'NAME');
+      const memo = BankStatements.sgmlValue(transaction, 'MEMO');
+
+      return {
+        id: BankStatements.sgmlValue(transaction, 'FITID'),
+        booking_date: BankStatements.parseOfxDate(posted ?? '', context),
+        value_date: user ? BankStatements.parseOfxDate(user, context) : null,
+        amount_cents: BankStatements.parseAmount(BankStatements.sgmlValue(transaction, 'TRNAMT') ?? '', currency, '.', context),
+        description: [name, memo].filter(Boolean).join(' - ') || null,
+        reference: BankStatements.sgmlValue(transaction, 'REFNUM') ?? BankStatements.sgmlValue(transaction, 'CHECKNUM'),
+      };
+    });
+
+    const ledgerBalance = BankStatements.elements(statement, 'LEDGERBAL')[0];
+    const balanceAmount = ledgerBalance ? BankStatements.sgmlValue(ledgerBalance, 'BALAMT') : null;
+    const closing = balanceAmount ? BankStatements.parseAmount(balanceAmount, currency, '.', 'ledger balance') : null;
+    const total = rows.reduce((sum, row) => sum + row.amount_cents, 0);
+
+    const start = BankStatements.sgmlValue(transactionList, 'DTSTART');
+    const end = BankStatements.sgmlValue(transactionList, 'DTEND')
+      ?? (ledgerBalance ? BankStatements.sgmlValue(ledgerBalance, 'DTASOF') : null);
+
+    return {
+      statement_ref: null,
+      currency,
+      period_start: start ? BankStatements.parseOfxDate(start, 'DTSTART') : null,
+      period_end: end ? BankStatements.parseOfxDate(end, 'DTEND') : null,
+      opening_balance_cents: closing === null ? null : closing - total,
+      closing_balance_cents: closing,
+      lines: BankStatements.assignIds(rows),
+    };
+  }
+
+  /**
+   * Parse an ISO 20022 CAMT.053 bank-to-customer statement
+   * Only booked entries are read; pending ones are not part of the booked balances
+   */
+  static parseCamt053(content: string, defaultCurrency: string): ParsedBankStatement {
+    const statements = BankStatements.elements(content, 'Stmt');
+    if (statements.length !== 1) {
+      throw new ValidationError(
+        statements.length === 0
+          ? 'CAMT.053 file contains no statement'
+          : `CAMT.053 file contains ${statements.length} statements; import them one at a time`
+      );
+    }
+
+    const statement = statements[0]!;
+    const account = BankStatements.elements(statement, 'Acct')[0] ?? '';
+    const currency = BankStatements.xmlValue(account, 'Ccy')
+      ?? BankStatements.xmlAttribute(statement, 'Amt', 'Ccy')
+      ?? defaultCurrency;
+
+    const signedAmount = (element: string, context: string): number => {
+      const amount = BankStatements.parseAmount(BankStatements.xmlValue(element, 'Amt') ?? '', currency, '.', context);
+      return BankStatements.xmlValue(element, 'CdtDbtInd') === 'DBIT' ? -amount : amount;
+    };
+    const elementDate = (element: string | undefined, context: string): string | null => {
+      const value = element && (BankStatements.xmlValue(element, 'Dt') ?? BankStatements.xmlValue(element, 'DtTm'));
+      return value ? BankStatements.parseDate(value.slice(0, 10), 'YYYY-MM-DD', context) : null;
+    };
+
+    // Opening booked balance, or the previous statement's closing balance
+    const balances = new Map<string, { amount: number; date: string | null }>();
+    for (const balance of BankStatements.elements(statement, 'Bal')) {
+      const type = BankStatements.xmlValue(BankStatements.elements(balance, 'Tp')[0] ?? '', 'Cd');
+      if (type && !balances.has(type)) {
+        balances.set(type, { amount: signedAmount(balance, `${type} balance`), date: elementDate(balance, `${type} balance`) });
+      }
+    }
+    const opening = balances.get('OPBD') ?? balances.get('PRCD');
+    const closing = balances.get('CLBD');
+
+    const rows = BankStatements.elements(statement, 'Ntry').flatMap((entry, index) => {
+      const context = `entry ${index + 1}`;
+      const status = BankStatements.elements(entry, 'Sts')[0];
+      const statusCode = status === undefined
+        ? 'BOOK'
+        : BankStatements.xmlValue(status, 'Cd') ?? BankStatements.decodeEntities(status).trim();
+      if (statusCode !== 'BOOK') {
+        return [];
+      }
+
+      const bookingDate = elementDate(BankStatements.elements(entry, 'BookgDt')[0], context);
+      if (!bookingDate) {
+        throw new ValidationError(`CAMT.053 ${context} has no booking date`);
+      }
+
+      const endToEndId = BankStatements.xmlValue(entry, 'EndToEndId');
+      const remittance = BankStatements.xmlValues(entry, 'Ustrd').join(' ');
+      return [{
+        id: BankStatements.xmlValue(entry, 'AcctSvcrRef') ?? BankStatements.xmlValue(entry, 'NtryRef'),
+        booking_date: bookingDate,
+        value_date: elementDate(BankStatements.elements(entry, 'ValDt')[0], context),
+        amount_cents: signedAmount(entry, context),
+        description: remittance || BankStatements.xmlValue(entry, 'AddtlNtryInf'),
+        reference: endToEndId && endToEndId !== 'NOTPROVIDED'
+          ? endToEndId
+          : BankStatements.xmlValue(entry, 'InstrId'),
+      }];
+    });
+
+    const period = BankStatements.elements(statement, 'FrToDt')[0];
+    const from = period && BankStatements.xmlValue(period, 'FrDtTm');
+    const to = period && BankStatements.xmlValue(period, 'ToDtTm');
+
+    return {
+      statement_ref: BankStatements.xmlValue(statement, 'Id'),
+      currency,
+      period_start: from
+        ? BankStatements.parseDate(from.slice(0, 10), 'YYYY-MM-DD', 'FrDtTm')
+        : balances.get('OPBD')?.date ?? null,
+      period_end: to ? BankStatements.parseDate(to.slice(0, 10), 'YYYY-MM-DD', 'ToDtTm') : closing?.date ?? null,
+      opening_balance_cents: opening?.amount ?? null,
+      closing_balance_cents: closing?.amount ?? null,
+      lines: BankStatements.assignIds(rows),
+    };
+  }
+
+  /**
+   * Parse a signed decimal amount into minor units
+   * Accepts a leading or trailing sign, parentheses for negatives and thousands separators
+   * @param value - Amount text (e.g. "-1,234.50", "1.234,50-", "(12.00)")
+   * @param currency - Currency of the amount
+   * @param decimalSeparator - Decimal separator; the other of '.' and ',' is a thousands separator
+   * @param context - Where the amount was found, for error messages
+   * @throws ValidationError if the text is not an amount in the currency
+   */
+  static parseAmount(value: string, currency: string, decimalSeparator: '.' | ',' = '.', context: string = 'amount'): number {
+    let text = value.trim().replace(/[\s']/g, '');
+    let negative = false;
+
+    if (/^\(.*\)$/.test(text)) {
+      negative = true;
+      text = text.slice(1, -1);
+    }
+    if (/^[+-]/.test(text)) {
+      negative = negative !== text.startsWith('-');
+      text = text.slice(1);
+    } else if (/[+-]$/.test(text)) {
+      negative = negative !== text.endsWith('-');
+      text = text.slice(0, -1);
+    }
+
+    text = text.split(decimalSeparator === '.' ? ',' : '.').join('');
+    if (decimalSeparator === ',') {
+      text = text.replace(',', '.');
+    }
+
+    try {
+      const cents = Money.parseDecimal(text, currency);
+      return negative ? -cents : cents;
+    } catch (error) {
+      if (error instanceof RangeError) {
+        throw new ValidationError(`Invalid amount '${value}' in ${context}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Parse a date in the given format into an ISO date (YYYY-MM-DD)
+   * @throws ValidationError if the text is not a valid date in that format
+   */
+  static parseDate(value: string, format: BankStatementDateFormat, context: string = 'date'): string {
+    const text = value.trim();
+    const patterns: Record<BankStatementDateFormat, { pattern: RegExp; order: [number, number, number] }> = {
+      'YYYY-MM-DD': { pattern: /^(\d{4})-(\d{1,2})-(\d{1,2})$/, order: [1, 2, 3] },
+      'DD/MM/YYYY': { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, order: [3, 2, 1] },
+      'MM/DD/YYYY': { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, order: [3, 1, 2] },
+      'DD.MM.YYYY': { pattern: /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/, order: [3, 2, 1] },
+      'YYYYMMDD': { pattern: /^(\d{4})(\d{2})(\d{2})$/, order: [1, 2, 3] },
+    };
+
+    const { pattern, order } = patterns[format];
+    const match = pattern.exec(text);
+    if (match) {
+      const [year, month, day] = order.map(group => Number(match[group]));
+      const date = new Date(Date.UTC(year!, month! - 1, day!));
+      if (date.getUTCFullYear() === year && date.getUTCMonth() === month! - 1 && date.getUTCDate() === day) {
+        return date.toISOString().split('T')[0]!;
+      }
+    }
+
+    throw new ValidationError(`Invalid date '${value}' in ${context}; expected ${format}`);
+  }
+
+  // OFX dates are YYYYMMDD optionally followed by a time and time zone
+  private static parseOfxDate(value: string, context: string): string {
+    return BankStatements.parseDate(value.trim().slice(0, 8), 'YYYYMMDD', context);
+  }
+
+  /**
+   * Give every line its bank transaction ID
+   * Lines without one get a hash of their contents; identical lines are told apart by
+   * how many came before them in the file
+   */
+  private static assignIds(
+    rows: (Omit<ParsedBankStatementLine, 'bank_transaction_id'> & { id: string | null })[]
+  ): ParsedBankStatementLine[] {
+    const occurrences = new Map<string, number>();
+
+    return rows.map(({ id, booking_date, value_date, amount_cents, description, reference }) => {
+      let bankTransactionId = id;
+      if (!bankTransactionId) {
+        const contents = [booking_date, amount_cents, description ?? '', reference ?? ''].join('|');
+        const occurrence = (occurrences.get(contents) ?? 0) + 1;
+        occurrences.set(contents, occurrence);
+        bankTransactionId = 'gen_' + crypto.createHash('sha256')
+          .update(`${contents}|${occurrence}`)
+          .digest('hex')
+          .slice(0, 32);
+      }
+
+      return { bank_transaction_id: bankTransactionId, booking_date, value_date, amount_cents, description, reference };
+    });
+  }
+
+  // Contents of every element with the given name (namespace prefixes allowed; same-name elements must not nest)
+  private static elements(content: string, name: string): string[] {
+    const pattern = new RegExp(`<(?:\\w+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${name}>`, 'g');
+    return [...content.matchAll(pattern)].map(match => match[1]!);
+  }
+
+  // Text of every leaf element with the given name
+  private static xmlValues(content: string, name: string): string[] {
+    const pattern = new RegExp(`<(?:\\w+:)?${name}(?:\\s[^>]*)?>([^<]*)</(?:\\w+:)?${name}>`, 'g');
+    return [...content.matchAll(pattern)]
+      .map(match => BankStatements.decodeEntities(match[1]!).trim())
+      .filter(value => value !== '');
+  }
+
+  private static xmlValue(content: string, name: string): string | null {
+    return BankStatements.xmlValues(content, name)[0] ?? null;
+  }
+
+  private static xmlAttribute(content: string, name: string, attribute: string): string | null {
+    const pattern = new RegExp(`<(?:\\w+:)?${name}\\s[^>]*\\b${attribute}="([^"]*)"`);
+    return pattern.exec(content)?.[1] ?? null;
+  }
+
+  // OFX 1.x leaves have no end tag; the value runs up to the next tag
+  private static sgmlValue(content: string, name: string): string | null {
+    const match = new RegExp(`<${name}>([^<\\r\\n]*)`).exec(content);
+    const value = match ? BankStatements.decodeEntities(match[1]!).trim() : '';
+    return value || null;
+  }
+
+  private static decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+      if (code.startsWith('#x') || code.startsWith('#X')) {
+        return String.fromCodePoint(parseInt(code.slice(2), 16));
+      }
+      if (code.startsWith('#')) {
+        return String.fromCodePoint(parseInt(code.slice(1), 10));
+      }
+      return XML_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Minimal RFC 4180 CSV helpers
+ * Supports quoted fields, escaped quotes ("") and CRLF/LF line endings
+ */
+
+export class Csv {
+  /**
+   * Parse CSV text into rows of raw string fields
+   * Blank lines are skipped
+   * @param text - CSV document
+   * @param delimiter - Field delimiter (default: comma)
+   * @returns Array of rows, each an array of fields
+   */
+  static parse(text: string, delimiter: string = ','): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    // Strip a UTF-8 byte order mark if present
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    const endRow = (): void => {
+      row.push(field);
+      if (row.length > 1 || row[0]!.trim().length > 0) {
+        rows.push(row);
+      }
+      row = [];
+      field = '';
+    };
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i]!;
+
+      if (inQuotes) {
+        if (char === '"') {
+          if (input[i + 1] === '"') {
+            field += '"';
+            i++;
+          } else {
+            inQuotes = false;
+          }
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n') {
+        endRow();
+      } else if (char === '\r') {
+        if (input[i + 1] === '\n') {
+          i++;
+        }
+        endRow();
+      } else {
+        field += char;
+      }
+    }
+
+    if (inQuotes) {
+      throw new Error('Unterminated quoted field in CSV input');
+    }
+
+    if (field.length > 0 || row.length > 0) {
+      endRow();
+    }
+
+    return rows;
+  }
+
+  /**
+   * Parse CSV text with a header row into records keyed by column name
+   * Header names are trimmed and lower-cased
+   * @param text - CSV document
+   * @param delimiter - Field delimiter (default: comma)
+   * @returns Array of records
+   */
+  static parseRecords(text: string, delimiter: string = ','): Record<string, string>[] {
+    const [header, ...rows] = Csv.parse(text, delimiter);
+    if (!header) {
+      return [];
+    }
+
+    const columns = header.map(column => column.trim().toLowerCase());
+    return rows.map(row => {
+      const record: Record<string, string> = {};
+      columns.forEach((column, index) => {
+        record[column] = (row[index] ?? '').trim();
+      });
+      return record;
+    });
+  }
+
+  /**
+   * Serialize rows into CSV text, quoting fields where needed
+   * @param rows - Rows of field values (null/undefined become empty fields)
+   * @returns CSV document terminated by a newline
+   */
+  static stringify(rows: (string | number | boolean | null | undefined)[][]): string {
+    return rows
+      .map(row => row.map(value => Csv.escapeField(value)).join(','))
+      .join('\n') + '\n';
+  }
+
+  private static escapeField(value: string | number | boolean | null | undefined): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    const text = String(value);
+    if (/[",\r\n]/.test(text)) {
+      return `"${text.replace(/"/g, '""')}"`;
+    }
+    return text;
+  }
+}
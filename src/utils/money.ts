@@ -1,26 +1,148 @@
+import { ENV } from '../config/env.js';
+
 /**
  * Money utility functions for handling currency with integer precision
- * All amounts are stored as integer minor units (cents/paise)
+ * All amounts are stored as integer minor units (cents/paise/fils); the number
+ * of minor units per major unit follows the currency's ISO 4217 exponent
  */
 
+// ISO 4217 currencies whose exponent is not 2
+export const CURRENCY_EXPONENTS: Readonly<Record<string, number>> = {
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0,
+  PYG: 0, RWF: 0, UGX: 0, UYI: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3,
+  CLF: 4, UYW: 4,
+};
+
+// Non-negative decimal amount as a string, e.g. "12345678.90"
+export const DECIMAL_AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+
 export class Money {
   /**
-   * Convert decimal amount to integer cents
-   * @param amount - Decimal amount (e.g., 100.50)
-   * @returns Integer cents (e.g., 10050)
+   * Number of decimal places (ISO 4217 exponent) of a currency
+   * @param currency - Currency code (default: base currency)
+   * @returns Exponent, 2 for currencies not listed in the table
    */
-  static toCents(amount: number): number {
+  static getExponent(currency: string = ENV.DEFAULT_CURRENCY): number {
+    return CURRENCY_EXPONENTS[currency] ?? 2;
+  }
+
+  /**
+   * Convert decimal amount to integer minor units
+   * @param amount - Decimal amount (e.g., 100.50) or exact decimal string (e.g., "100.50")
+   * @param currency - Currency code (default: base currency)
+   * @returns Integer minor units (e.g., 10050 for INR, 100500 for KWD)
+   */
+  static toCents(amount: number | string, currency: string = ENV.DEFAULT_CURRENCY): number {
+    if (typeof amount === 'string') {
+      return Money.parseDecimal(amount, currency);
+    }
+
     // Round to avoid floating point precision issues
-    return Math.round(amount * 100);
+    return Math.round(amount * Math.pow(10, Money.getExponent(currency)));
+  }
+
+  /**
+   * Parse a decimal string into integer minor units without going through floats
+   * @param value - Decimal string (e.g., "12345678.90")
+   * @param currency - Currency code (default: base currency)
+   * @returns Integer minor units (e.g., 1234567890)
+   * @throws RangeError if the string is not a plain decimal, is more precise than
+   *         the currency allows or does not fit in a safe integer
+   */
+  static parseDecimal(value: string, currency: string = ENV.DEFAULT_CURRENCY): number {
+    if (!DECIMAL_AMOUNT_PATTERN.test(value)) {
+      throw new RangeError(`'${value}' is not a valid decimal amount`);
+    }
+
+    const exponent = Money.getExponent(currency);
+    const [whole, fraction = ''] = value.split('.') as [string, string?];
+    if (/[^0]/.test(fraction.slice(exponent))) {
+      throw new RangeError(`'${value}' has more decimal places than ${currency} allows (${exponent})`);
+    }
+
+    const cents = BigInt(whole + fraction.slice(0, exponent).padEnd(exponent, '0'));
+    if (cents > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new RangeError(`'${value}' is too large`);
+    }
+
+    return Number(cents);
+  }
+
+  /**
+   * Convert integer minor units to decimal amount
+   * @param cents - Integer minor units (e.g., 10050)
+   * @param currency - Currency code (default: base currency)
+   * @returns Decimal amount (e.g., 100.50 for INR)
+   */
+  static fromCents(cents: number, currency: string = ENV.DEFAULT_CURRENCY): number {
+    return cents / Math.pow(10, Money.getExponent(currency));
+  }
+
+  /**
+   * Convert integer minor units to an exact decimal string
+   * @param cents - Integer minor units (e.g., 1234567890)
+   * @param currency - Currency code (default: base currency)
+   * @returns Decimal string (e.g., "12345678.90" for INR)
+   */
+  static toDecimalString(cents: number, currency: string = ENV.DEFAULT_CURRENCY): string {
+    const exponent = Money.getExponent(currency);
+    const digits = Math.abs(cents).toString().padStart(exponent + 1, '0');
+    const sign = cents < 0 ? '-' : '';
+
+    if (exponent === 0) {
+      return sign + digits;
+    }
+    return `${sign}${digits.slice(0, -exponent)}.${digits.slice(-exponent)}`;
+  }
+
+  /**
+   * Convert integer minor units to a response amount
+   * @param cents - Integer minor units
+   * @param asString - Return an exact decimal string instead of a number
+   * @param currency - Currency code (default: base currency)
+   * @returns Decimal amount or decimal string
+   */
+  static toAmount(cents: number, asString: boolean = false, currency: string = ENV.DEFAULT_CURRENCY): number | string {
+    return asString ? Money.toDecimalString(cents, currency) : Money.fromCents(cents, currency);
   }
 
   /**
-   * Convert integer cents to decimal amount
-   * @param cents - Integer cents (e.g., 10050)
-   * @returns Decimal amount (e.g., 100.50)
+   * Convert an amount in minor units to another currency at the given rate
+   * @param cents - Amount in minor units of the source currency
+   * @param rate - Target currency units per source currency unit
+   * @param fromCurrency - Source currency (default: base currency)
+   * @param toCurrency - Target currency (default: base currency)
+   * @returns Integer minor units of the target currency, rounded half up
    */
-  static fromCents(cents: number): number {
-    return cents / 100;
+  static convert(
+    cents: number,
+    rate: number,
+    fromCurrency: string = ENV.DEFAULT_CURRENCY,
+    toCurrency: string = ENV.DEFAULT_CURRENCY
+  ): number {
+    const shift = Money.getExponent(toCurrency) - Money.getExponent(fromCurrency);
+    const converted = cents * rate;
+
+    // Divide rather than multiply by a fraction to keep the result exact where possible
+    return Math.round(shift >= 0 ? converted * Math.pow(10, shift) : converted / Math.pow(10, -shift));
+  }
+
+  /**
+   * Check that an amount has no more decimal places than the currency allows
+   * @param amount - Decimal amount or decimal string
+   * @param currency - Currency code (default: base currency)
+   * @returns True if the amount is a whole number of minor units
+   */
+  static hasValidPrecision(amount: number | string, currency: string = ENV.DEFAULT_CURRENCY): boolean {
+    const exponent = Money.getExponent(currency);
+
+    if (typeof amount === 'string') {
+      const fraction = amount.split('.')[1] ?? '';
+      return DECIMAL_AMOUNT_PATTERN.test(amount) && !/[^0]/.test(fraction.slice(exponent));
+    }
+
+    return Number(amount.toFixed(exponent)) === amount;
   }
 
   /**
@@ -72,17 +194,18 @@ export class Money {
 
   /**
    * Format amount for display
-   * @param cents - Amount in cents
-   * @param currency - Currency code (default: INR)
+   * @param cents - Amount in minor units
+   * @param currency - Currency code (default: base currency)
    * @returns Formatted string
    */
-  static format(cents: number, currency: string = 'INR'): string {
-    const amount = Money.fromCents(cents);
+  static format(cents: number, currency: string = ENV.DEFAULT_CURRENCY): string {
+    const exponent = Money.getExponent(currency);
+    const amount = Money.fromCents(cents, currency);
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
       currency,
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
+      minimumFractionDigits: exponent,
+      maximumFractionDigits: exponent,
     }).format(amount);
   }
 
@@ -1,6 +1,46 @@
 import Joi from 'joi';
 import { ValidationError } from '../models/types.js';
-import { AccountType, CreateAccountRequest, CreateJournalEntryRequest } from '../models/types.js';
+import {
+  AccountImportRow,
+  AccountType,
+  ApiKeyScope,
+  AuditEventFilter,
+  CreateAccountRequest,
+  CreateApiKeyRequest,
+  CreateFiscalPeriodRequest,
+  CreateFxRateRequest,
+  CreateIntercompanyEntryRequest,
+  CreateJournalEntryBatchRequest,
+  CreateJournalEntryRequest,
+  CreateLedgerRequest,
+  RotateApiKeyRequest,
+  UpdateAccountRequest,
+  UpdateFxRateRequest,
+  CreateWebhookEndpointRequest,
+  FeedQuery,
+  ImportBankStatementRequest,
+  AutoMatchRequest,
+  CreateBankMatchRequest,
+  CreateBankLineEntryRequest,
+  WebhookDeliveryStatus,
+  WebhookEventType
+} from '../models/types.js';
+import { ENV } from '../config/env.js';
+import { Money, DECIMAL_AMOUNT_PATTERN } from './money.js';
+
+// ISO 4217 alphabetic currency code
+const currencyCodeSchema = Joi.string()
+  .pattern(/^[A-Z]{3}$/)
+  .messages({
+    'string.pattern.base': '{{#label}} must be a 3-letter ISO 4217 currency code (e.g. USD)',
+  });
+
+// Line amount: a non-negative number or an exact decimal string such as "12345678.90"
+const amountSchema = Joi.alternatives()
+  .try(Joi.string().pattern(DECIMAL_AMOUNT_PATTERN), Joi.number().min(0))
+  .messages({
+    'alternatives.match': '{{#label}} must be a non-negative number or a decimal string (e.g. "1234.50")',
+  });
 
 // Account validation schemas
 export const accountSchema = Joi.object<CreateAccountRequest>({
@@ -28,6 +68,136 @@ export const accountSchema = Joi.object<CreateAccountRequest>({
     .messages({
       'any.only': 'Account type must be one of: Asset, Liability, Equity, Revenue, Expense',
     }),
+  currency: currencyCodeSchema
+    .optional()
+    .custom((value, helpers) => {
+      // Only monetary items (assets and liabilities) can be held in a foreign currency
+      const { type } = helpers.state.ancestors[0];
+      if (value !== ENV.DEFAULT_CURRENCY && type !== 'Asset' && type !== 'Liability') {
+        return helpers.error('custom.foreignCurrencyType');
+      }
+      return value;
+    }, 'account currency validation')
+    .messages({
+      'custom.foreignCurrencyType': `Only Asset and Liability accounts can use a currency other than ${ENV.DEFAULT_CURRENCY}`,
+    }),
+  parent_code: Joi.string()
+    .alphanum()
+    .min(1)
+    .max(20)
+    .optional()
+    .messages({
+      'string.alphanum': 'Parent account code must contain only alphanumeric characters',
+      'string.max': 'Parent account code must not exceed 20 characters',
+    }),
+});
+
+// Imported rows may also carry is_active, so an exported chart keeps its inactive accounts
+export const accountImportSchema = (accountSchema as Joi.ObjectSchema).keys({
+  is_active: Joi.boolean()
+    .default(true)
+    .messages({
+      'boolean.base': 'is_active must be true or false',
+    }),
+}) as Joi.ObjectSchema<AccountImportRow>;
+
+export const accountUpdateSchema = Joi.object<UpdateAccountRequest>({
+  name: Joi.string()
+    .min(1)
+    .max(100)
+    .optional()
+    .messages({
+      'string.min': 'Account name must be at least 1 character long',
+      'string.max': 'Account name must not exceed 100 characters',
+    }),
+  parent_code: Joi.string()
+    .alphanum()
+    .min(1)
+    .max(20)
+    .allow(null)
+    .optional()
+    .messages({
+      'string.alphanum': 'Parent account code must contain only alphanumeric characters',
+      'string.max': 'Parent account code must not exceed 20 characters',
+    }),
+}).min(1).messages({
+  'object.min': 'At least one of name or parent_code must be provided',
+});
+
+// Ledger validation schemas
+export const ledgerSchema = Joi.object<CreateLedgerRequest>({
+  code: Joi.string()
+    .alphanum()
+    .uppercase()
+    .min(1)
+    .max(20)
+    .required()
+    .messages({
+      'string.alphanum': 'Ledger code must contain only alphanumeric characters',
+      'string.min': 'Ledger code must be at least 1 character long',
+      'string.max': 'Ledger code must not exceed 20 characters',
+    }),
+  name: Joi.string()
+    .min(1)
+    .max(100)
+    .required()
+    .messages({
+      'string.min': 'Ledger name must be at least 1 character long',
+      'string.max': 'Ledger name must not exceed 100 characters',
+    }),
+});
+
+// API key validation schemas
+export const API_KEY_SCOPES: readonly ApiKeyScope[] = [
+  'accounts:write',
+  'journal:post',
+  'journal:approve',
+  'journal:reverse',
+  'periods:write',
+  'rates:write',
+  'reports:read',
+  'bank:write',
+  'admin',
+];
+
+export const apiKeySchema = Joi.object<CreateApiKeyRequest>({
+  name: Joi.string()
+    .min(1)
+    .max(100)
+    .required()
+    .messages({
+      'string.min': 'API key name must be at least 1 character long',
+      'string.max': 'API key name must not exceed 100 characters',
+    }),
+  scopes: Joi.array()
+    .items(Joi.string().valid(...API_KEY_SCOPES))
+    .min(1)
+    .unique()
+    .required()
+    .messages({
+      'any.only': `Scopes must be one of: ${API_KEY_SCOPES.join(', ')}`,
+      'array.min': 'API key must have at least one scope',
+    }),
+  ledger_ids: Joi.array()
+    .items(Joi.string().uuid())
+    .min(1)
+    .unique()
+    .optional()
+    .messages({
+      'array.min': 'ledger_ids must name at least one ledger',
+    }),
+});
+
+export const MAX_API_KEY_GRACE_PERIOD_HOURS = 24 * 30;
+
+export const apiKeyRotationSchema = Joi.object<RotateApiKeyRequest>({
+  grace_period_hours: Joi.number()
+    .min(0)
+    .max(MAX_API_KEY_GRACE_PERIOD_HOURS)
+    .default(24)
+    .messages({
+      'number.max': `grace_period_hours must not exceed ${MAX_API_KEY_GRACE_PERIOD_HOURS}`,
+    }),
 });
 
 // Journal entry validation schemas
@@ -37,25 +207,42 @@ export const journalLineSchema = Joi.object({
     .min(1)
     .max(20)
     .required(),
-  debit: Joi.number()
-    .min(0)
-    .precision(2)
+  debit: amountSchema
     .optional()
     .default(0),
-  credit: Joi.number()
-    .min(0)
-    .precision(2)
+  credit: amountSchema
     .optional()
     .default(0),
+  currency: currencyCodeSchema.optional(),
+  exchange_rate: Joi.number()
+    .positive()
+    .optional()
+    .messages({
+      'number.positive': 'exchange_rate must be greater than zero',
+    }),
 }).custom((value, helpers) => {
   const { debit = 0, credit = 0 } = value;
+
+  // Amounts are in the line currency and must be a whole number of its minor units
+  const currency = value.currency || ENV.DEFAULT_CURRENCY;
+  for (const amount of [debit, credit]) {
+    if (!Money.hasValidPrecision(amount, currency)) {
+      return helpers.error('custom.tooPrecise', { amount, currency, decimals: Money.getExponent(currency) });
+    }
+    if (!Number.isSafeInteger(Money.toCents(amount, currency))) {
+      return helpers.error('custom.tooLarge', { amount });
+    }
+  }
+
+  const debitCents = Money.toCents(debit, currency);
+  const creditCents = Money.toCents(credit, currency);
   
   // Exactly one of debit or credit must be > 0
-  if (debit > 0 && credit > 0) {
+  if (debitCents > 0 && creditCents > 0) {
     return helpers.error('custom.bothDebitCredit');
   }
   
-  if (debit === 0 && credit === 0) {
+  if (debitCents === 0 && creditCents === 0) {
     return helpers.error('custom.neitherDebitCredit');
   }
   
@@ -63,6 +250,8 @@ export const journalLineSchema = Joi.object({
 }, 'debit-credit validation').messages({
   'custom.bothDebitCredit': 'A line cannot have both debit and credit amounts',
   'custom.neitherDebitCredit': 'A line must have either a debit or credit amount',
+  'custom.tooPrecise': 'Amount {{#amount}} has more decimal places than {{#currency}} allows ({{#decimals}})',
+  'custom.tooLarge': 'Amount {{#amount}} is too large',
 });
 
 export const journalEntrySchema = Joi.object<CreateJournalEntryRequest>({
@@ -96,13 +285,19 @@ export const journalEntrySchema = Joi.object<CreateJournalEntryRequest>({
     .min(2)
     .required()
     .custom((lines, helpers) => {
-      // Calculate total debits and credits in cents
+      // Entries with foreign-currency lines are balanced in the base currency
+      // once exchange rates are known (see JournalService)
+      if (lines.some((line: { currency?: string }) => line.currency && line.currency !== ENV.DEFAULT_CURRENCY)) {
+        return lines;
+      }
+
+      // Calculate total debits and credits in minor units
       let totalDebits = 0;
       let totalCredits = 0;
       
       for (const line of lines) {
-        const debitCents = Math.round((line.debit || 0) * 100);
-        const creditCents = Math.round((line.credit || 0) * 100);
+        const debitCents = Money.toCents(line.debit || 0);
+        const creditCents = Money.toCents(line.credit || 0);
         
         totalDebits += debitCents;
         totalCredits += creditCents;
@@ -111,8 +306,8 @@ export const journalEntrySchema = Joi.object<CreateJournalEntryRequest>({
       // Check if debits equal credits
       if (totalDebits !== totalCredits) {
         return helpers.error('custom.unbalanced', { 
-          totalDebits: totalDebits / 100, 
-          totalCredits: totalCredits / 100 
+          totalDebits: Money.fromCents(totalDebits), 
+          totalCredits: Money.fromCents(totalCredits) 
         });
       }
       
@@ -134,6 +329,277 @@ export const journalEntrySchema = Joi.object<CreateJournalEntryRequest>({
     .messages({
       'string.uuid': 'Reverses entry ID must be a valid UUID',
     }),
+  draft: Joi.boolean()
+    .optional()
+    .messages({
+      'boolean.base': 'draft must be true or false',
+    }),
+  adjusting: Joi.boolean()
+    .optional()
+    .messages({
+      'boolean.base': 'adjusting must be true or false',
+    }),
+});
+
+// Intercompany entries: one amount in the base currency plus the other lines of each side
+export const intercompanyEntrySchema = Joi.object<CreateIntercompanyEntryRequest>({
+  date: journalEntrySchema.extract('date'),
+  narration: journalEntrySchema.extract('narration'),
+  counterparty_ledger_id: Joi.string()
+    .uuid()
+    .required()
+    .messages({
+      'string.uuid': 'counterparty_ledger_id must be a valid UUID',
+    }),
+  amount: amountSchema
+    .required()
+    .custom((value, helpers) => {
+      if (!Money.hasValidPrecision(value)) {
+        return helpers.error('custom.tooPrecise', { decimals: Money.getExponent() });
+      }
+      const cents = Money.toCents(value);
+      if (!Number.isSafeInteger(cents)) {
+        return helpers.error('custom.tooLarge');
+      }
+      if (cents === 0) {
+        return helpers.error('custom.zeroAmount');
+      }
+      return value;
+    }, 'intercompany amount validation')
+    .messages({
+      'custom.tooPrecise': 'amount has more decimal places than the base currency allows ({{#decimals}})',
+      'custom.tooLarge': 'amount is too large',
+      'custom.zeroAmount': 'amount must be greater than zero',
+    }),
+  lines: Joi.array()
+    .items(journalLineSchema)
+    .min(1)
+    .required(),
+  counterparty_lines: Joi.array()
+    .items(journalLineSchema)
+    .min(1)
+    .required(),
+});
+
+export const journalEntryRejectionSchema = Joi.object({
+  reason: Joi.string()
+    .min(1)
+    .max(500)
+    .required()
+    .messages({
+      'any.required': 'A reason is required when rejecting a journal entry',
+      'string.max': 'Reason must not exceed 500 characters',
+    }),
+});
+
+export const journalEntryStatusFilterSchema = Joi.object({
+  status: Joi.string()
+    .valid('draft', 'submitted', 'approved', 'rejected', 'posted')
+    .optional()
+    .messages({
+      'any.only': 'status must be one of: draft, submitted, approved, rejected, posted',
+    }),
+});
+
+// Change feed query schema
+export const MAX_FEED_PAGE_SIZE = 1000;
+export const MAX_FEED_WAIT_SECONDS = 30;
+
+export const feedQuerySchema = Joi.object<FeedQuery>({
+  after: Joi.number()
+    .integer()
+    .min(0)
+    .default(0)
+    .messages({
+      'number.base': 'after must be a sequence number (0 or more)',
+      'number.integer': 'after must be a sequence number (0 or more)',
+      'number.min': 'after must be a sequence number (0 or more)',
+    }),
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(MAX_FEED_PAGE_SIZE)
+    .default(100)
+    .messages({
+      'number.base': `limit must be a number between 1 and ${MAX_FEED_PAGE_SIZE}`,
+      'number.integer': `limit must be a number between 1 and ${MAX_FEED_PAGE_SIZE}`,
+      'number.min': `limit must be a number between 1 and ${MAX_FEED_PAGE_SIZE}`,
+      'number.max': `limit must be a number between 1 and ${MAX_FEED_PAGE_SIZE}`,
+    }),
+  wait: Joi.number()
+    .integer()
+    .min(0)
+    .max(MAX_FEED_WAIT_SECONDS)
+    .default(0)
+    .messages({
+      'number.base': `wait must be a number of seconds between 0 and ${MAX_FEED_WAIT_SECONDS}`,
+      'number.integer': `wait must be a number of seconds between 0 and ${MAX_FEED_WAIT_SECONDS}`,
+      'number.min': `wait must be a number of seconds between 0 and ${MAX_FEED_WAIT_SECONDS}`,
+      'number.max': `wait must be a number of seconds between 0 and ${MAX_FEED_WAIT_SECONDS}`,
+    }),
+});
+
+export const MAX_JOURNAL_BATCH_SIZE = 10000;
+
+// Individual entries are validated one by one with journalEntrySchema so that
+// errors can be reported per batch index
+export const journalEntryBatchSchema = Joi.object<CreateJournalEntryBatchRequest>({
+  entries: Joi.array()
+    .items(Joi.object().unknown(true))
+    .min(1)
+    .max(MAX_JOURNAL_BATCH_SIZE)
+    .required()
+    .messages({
+      'array.base': 'entries must be an array of journal entries',
+      'array.min': 'A batch must contain at least 1 journal entry',
+      'array.max': `A batch must not exceed ${MAX_JOURNAL_BATCH_SIZE} journal entries`,
+      'object.base': 'Each batch item must be a journal entry object',
+    }),
+});
+
+// Fiscal period validation schemas
+export const fiscalPeriodSchema = Joi.object<CreateFiscalPeriodRequest>({
+  name: Joi.string()
+    .min(1)
+    .max(100)
+    .required()
+    .messages({
+      'string.min': 'Period name must be at least 1 character long',
+      'string.max': 'Period name must not exceed 100 characters',
+    }),
+  start_date: Joi.string()
+    .isoDate()
+    .required()
+    .messages({
+      'string.isoDate': 'start_date must be a valid ISO date (YYYY-MM-DD)',
+    }),
+  end_date: Joi.string()
+    .isoDate()
+    .required()
+    .custom((value, helpers) => {
+      const { start_date } = helpers.state.ancestors[0];
+      if (start_date && new Date(value) < new Date(start_date)) {
+        return helpers.error('custom.invalidDateRange');
+      }
+      return value;
+    }, 'date range validation')
+    .messages({
+      'string.isoDate': 'end_date must be a valid ISO date (YYYY-MM-DD)',
+      'custom.invalidDateRange': 'end_date must be greater than or equal to start_date',
+    }),
+});
+
+export const fiscalPeriodActionSchema = Joi.object({
+  reason: Joi.string()
+    .max(500)
+    .optional()
+    .messages({
+      'string.max': 'Reason must not exceed 500 characters',
+    }),
+});
+
+export const fiscalPeriodStatusFilterSchema = Joi.object({
+  status: Joi.string()
+    .valid('open', 'soft_closed', 'closed')
+    .optional()
+    .messages({
+      'any.only': 'status must be one of: open, soft_closed, closed',
+    }),
+});
+
+export const fiscalYearSchema = Joi.object({
+  year: Joi.number()
+    .integer()
+    .min(1900)
+    .max(9999)
+    .required()
+    .messages({
+      'number.base': 'Fiscal year must be a 4-digit year',
+      'number.integer': 'Fiscal year must be a 4-digit year',
+      'number.min': 'Fiscal year must be a 4-digit year',
+      'number.max': 'Fiscal year must be a 4-digit year',
+    }),
+});
+
+// FX rate validation schemas
+export const fxRateSchema = Joi.object<CreateFxRateRequest>({
+  from_currency: currencyCodeSchema.required(),
+  to_currency: currencyCodeSchema
+    .required()
+    .invalid(Joi.ref('from_currency'))
+    .messages({
+      'any.invalid': 'to_currency must be different from from_currency',
+    }),
+  rate: Joi.number()
+    .positive()
+    .required()
+    .messages({
+      'number.positive': 'rate must be greater than zero',
+    }),
+  rate_date: Joi.string()
+    .isoDate()
+    .required()
+    .messages({
+      'string.isoDate': 'rate_date must be a valid ISO date (YYYY-MM-DD)',
+    }),
+});
+
+export const fxRateUpdateSchema = Joi.object<UpdateFxRateRequest>({
+  rate: Joi.number()
+    .positive()
+    .required()
+    .messages({
+      'number.positive': 'rate must be greater than zero',
+    }),
+});
+
+export const fxRateFilterSchema = Joi.object({
+  from_currency: currencyCodeSchema.optional(),
+  to_currency: currencyCodeSchema.optional(),
+  from: Joi.string()
+    .isoDate()
+    .optional()
+    .messages({
+      'string.isoDate': 'from must be a valid ISO date (YYYY-MM-DD)',
+    }),
+  to: Joi.string()
+    .isoDate()
+    .optional()
+    .messages({
+      'string.isoDate': 'to must be a valid ISO date (YYYY-MM-DD)',
+    }),
+});
+
+export const fxRateLookupSchema = Joi.object({
+  from_currency: currencyCodeSchema.required(),
+  to_currency: currencyCodeSchema.required(),
+  date: Joi.string()
+    .isoDate()
+    .required()
+    .messages({
+      'string.isoDate': 'date must be a valid ISO date (YYYY-MM-DD)',
+    }),
+});
+
+export const fxRevaluationSchema = Joi.object({
+  as_of: Joi.string()
+    .isoDate()
+    .required()
+    .custom((value, helpers) => {
+      const today = new Date();
+      today.setHours(23, 59, 59, 999); // End of today
+
+      if (new Date(value) > today) {
+        return helpers.error('custom.futureDate');
+      }
+
+      return value;
+    }, 'future date validation')
+    .messages({
+      'string.isoDate': 'as_of must be a valid ISO date (YYYY-MM-DD)',
+      'any.required': 'as_of is required',
+      'custom.futureDate': 'as_of cannot be in the future',
+    }),
 });
 
 // Query parameter validation
@@ -169,6 +635,58 @@ export const trialBalanceQuerySchema = Joi.object({
     }),
 });
 
+export const incomeStatementQuerySchema = trialBalanceQuerySchema.keys({
+  compare_from: Joi.string()
+    .isoDate()
+    .optional()
+    .messages({
+      'string.isoDate': 'compare_from must be a valid ISO date (YYYY-MM-DD)',
+    }),
+  compare_to: Joi.string()
+    .isoDate()
+    .optional()
+    .custom((value, helpers) => {
+      const { compare_from } = helpers.state.ancestors[0];
+      if (compare_from && new Date(value) < new Date(compare_from)) {
+        return helpers.error('custom.invalidDateRange');
+      }
+      return value;
+    }, 'date range validation')
+    .messages({
+      'string.isoDate': 'compare_to must be a valid ISO date (YYYY-MM-DD)',
+      'custom.invalidDateRange': 'compare_to date must be greater than or equal to compare_from date',
+    }),
+}).and('compare_from', 'compare_to').messages({
+  'object.and': 'compare_from and compare_to must be provided together',
+});
+
+export const MAX_LEDGER_PAGE_SIZE = 500;
+
+export const accountLedgerQuerySchema = trialBalanceQuerySchema.keys({
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(MAX_LEDGER_PAGE_SIZE)
+    .optional()
+    .default(100)
+    .messages({
+      'number.base': `limit must be a number between 1 and ${MAX_LEDGER_PAGE_SIZE}`,
+      'number.integer': `limit must be a number between 1 and ${MAX_LEDGER_PAGE_SIZE}`,
+      'number.min': `limit must be a number between 1 and ${MAX_LEDGER_PAGE_SIZE}`,
+      'number.max': `limit must be a number between 1 and ${MAX_LEDGER_PAGE_SIZE}`,
+    }),
+  offset: Joi.number()
+    .integer()
+    .min(0)
+    .optional()
+    .default(0)
+    .messages({
+      'number.base': 'offset must be a non-negative number',
+      'number.integer': 'offset must be a non-negative number',
+      'number.min': 'offset must be a non-negative number',
+    }),
+});
+
 export const accountTypeFilterSchema = Joi.object({
   type: Joi.string()
     .valid('Asset', 'Liability', 'Equity', 'Revenue', 'Expense')
@@ -178,6 +696,241 @@ export const accountTypeFilterSchema = Joi.object({
     }),
 });
 
+// Audit event query schema
+export const MAX_AUDIT_PAGE_SIZE = 500;
+
+export const auditEventQuerySchema = Joi.object<AuditEventFilter>({
+  api_key_id: Joi.string().uuid().optional(),
+  ledger_id: Joi.string().uuid().optional(),
+  action: Joi.string().max(200).optional(),
+  resource_type: Joi.string().max(50).optional(),
+  resource_id: Joi.string().max(255).optional(),
+  request_id: Joi.string().max(100).optional(),
+  outcome: Joi.string()
+    .valid('success', 'failure')
+    .optional()
+    .messages({
+      'any.only': 'outcome must be one of: success, failure',
+    }),
+  from: Joi.string()
+    .isoDate()
+    .optional()
+    .messages({
+      'string.isoDate': 'from must be a valid ISO date (YYYY-MM-DD)',
+    }),
+  to: Joi.string()
+    .isoDate()
+    .optional()
+    .messages({
+      'string.isoDate': 'to must be a valid ISO date (YYYY-MM-DD)',
+    }),
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(MAX_AUDIT_PAGE_SIZE)
+    .default(100)
+    .messages({
+      'number.base': `limit must be a number between 1 and ${MAX_AUDIT_PAGE_SIZE}`,
+      'number.integer': `limit must be a number between 1 and ${MAX_AUDIT_PAGE_SIZE}`,
+      'number.min': `limit must be a number between 1 and ${MAX_AUDIT_PAGE_SIZE}`,
+      'number.max': `limit must be a number between 1 and ${MAX_AUDIT_PAGE_SIZE}`,
+    }),
+  offset: Joi.number()
+    .integer()
+    .min(0)
+    .default(0)
+    .messages({
+      'number.base': 'offset must be a non-negative number',
+      'number.integer': 'offset must be a non-negative number',
+      'number.min': 'offset must be a non-negative number',
+    }),
+});
+
+// Webhook validation schemas
+export const WEBHOOK_EVENT_TYPES: readonly WebhookEventType[] = [
+  'journal_entry.posted',
+  'journal_entry.reversed',
+  'account.created',
+  'account.updated',
+  'account.deleted',
+];
+
+export const webhookEndpointSchema = Joi.object<CreateWebhookEndpointRequest>({
+  url: Joi.string()
+    .uri({ scheme: ['http', 'https'] })
+    .max(2000)
+    .required()
+    .messages({
+      'string.uri': 'url must be a valid http or https URL',
+      'string.uriCustomScheme': 'url must be a valid http or https URL',
+    }),
+  event_types: Joi.array()
+    .items(Joi.string().valid(...WEBHOOK_EVENT_TYPES))
+    .unique()
+    .default([])
+    .messages({
+      'any.only': `Event types must be one of: ${WEBHOOK_EVENT_TYPES.join(', ')}`,
+    }),
+});
+
+export const webhookDeliveryQuerySchema = Joi.object<{ status?: WebhookDeliveryStatus; limit: number }>({
+  status: Joi.string()
+    .valid('pending', 'delivered', 'dead')
+    .optional()
+    .messages({
+      'any.only': 'status must be one of: pending, delivered, dead',
+    }),
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(MAX_AUDIT_PAGE_SIZE)
+    .default(100)
+    .messages({
+      'number.base': `limit must be a number between 1 and ${MAX_AUDIT_PAGE_SIZE}`,
+      'number.integer': `limit must be a number between 1 and ${MAX_AUDIT_PAGE_SIZE}`,
+      'number.min': `limit must be a number between 1 and ${MAX_AUDIT_PAGE_SIZE}`,
+      'number.max': `limit must be a number between 1 and ${MAX_AUDIT_PAGE_SIZE}`,
+    }),
+});
+
+// Bank statement validation schemas
+const csvColumnSchema = Joi.string().trim().min(1).max(100);
+
+export const bankStatementImportSchema = Joi.object<ImportBankStatementRequest>({
+  account_code: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'account_code of the bank account is required',
+    }),
+  format: Joi.string()
+    .valid('csv', 'ofx', 'camt053')
+    .optional()
+    .messages({
+      'any.only': 'format must be one of: csv, ofx, camt053',
+    }),
+  content: Joi.string()
+    .trim()
+    .min(1)
+    .required()
+    .messages({
+      'any.required': 'Statement content is required (send the file as text/plain or in content)',
+      'string.empty': 'Statement file is empty',
+    }),
+  mapping: Joi.object({
+    date: csvColumnSchema,
+    amount: csvColumnSchema,
+    debit: csvColumnSchema,
+    credit: csvColumnSchema,
+    description: csvColumnSchema,
+    reference: csvColumnSchema,
+    id: csvColumnSchema,
+    value_date: csvColumnSchema,
+    balance: csvColumnSchema,
+    date_format: Joi.string()
+      .valid('YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD.MM.YYYY', 'YYYYMMDD')
+      .messages({
+        'any.only': 'mapping.date_format must be one of: YYYY-MM-DD, DD/MM/YYYY, MM/DD/YYYY, DD.MM.YYYY, YYYYMMDD',
+      }),
+    decimal_separator: Joi.string()
+      .valid('.', ',')
+      .messages({
+        'any.only': "mapping.decimal_separator must be '.' or ','",
+      }),
+    delimiter: Joi.string()
+      .valid(',', ';', '\t', '|')
+      .messages({
+        'any.only': "mapping.delimiter must be one of: ',', ';', tab, '|'",
+      }),
+  })
+    .oxor('amount', 'debit')
+    .oxor('amount', 'credit')
+    .and('debit', 'credit')
+    .optional()
+    .messages({
+      'object.oxor': 'Map either mapping.amount or mapping.debit and mapping.credit, not both',
+      'object.and': 'mapping.debit and mapping.credit must be mapped together',
+    }),
+  opening_balance: Joi.string()
+    .pattern(/^-?\d+(\.\d+)?$/)
+    .optional()
+    .messages({
+      'string.pattern.base': 'opening_balance must be a decimal amount (e.g. "-1250.00")',
+    }),
+  closing_balance: Joi.string()
+    .pattern(/^-?\d+(\.\d+)?$/)
+    .optional()
+    .messages({
+      'string.pattern.base': 'closing_balance must be a decimal amount (e.g. "-1250.00")',
+    }),
+});
+
+export const bankStatementFilterSchema = Joi.object<{ account_code?: string }>({
+  account_code: Joi.string().optional(),
+});
+
+// Bank reconciliation validation schemas
+export const MAX_AUTO_MATCH_WINDOW_DAYS = 31;
+export const MAX_MATCH_LINES = 100;
+
+export const autoMatchSchema = Joi.object<AutoMatchRequest>({
+  account_code: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'account_code of the bank account is required',
+    }),
+  statement_id: Joi.string()
+    .uuid()
+    .optional()
+    .messages({
+      'string.guid': 'statement_id must be a valid UUID',
+    }),
+  date_window_days: Joi.number()
+    .integer()
+    .min(0)
+    .max(MAX_AUTO_MATCH_WINDOW_DAYS)
+    .default(3)
+    .messages({
+      'number.base': `date_window_days must be a number of days between 0 and ${MAX_AUTO_MATCH_WINDOW_DAYS}`,
+      'number.integer': `date_window_days must be a number of days between 0 and ${MAX_AUTO_MATCH_WINDOW_DAYS}`,
+      'number.min': `date_window_days must be a number of days between 0 and ${MAX_AUTO_MATCH_WINDOW_DAYS}`,
+      'number.max': `date_window_days must be a number of days between 0 and ${MAX_AUTO_MATCH_WINDOW_DAYS}`,
+    }),
+  dry_run: Joi.boolean().default(false),
+});
+
+const matchLineIdsSchema = (label: string): Joi.ArraySchema => Joi.array()
+  .items(Joi.string().uuid())
+  .min(1)
+  .max(MAX_MATCH_LINES)
+  .unique()
+  .required()
+  .messages({
+    'any.required': `${label} is required`,
+    'array.min': `${label} must contain at least one line`,
+    'array.max': `${label} must not contain more than ${MAX_MATCH_LINES} lines`,
+    'array.unique': `${label} must not contain the same line twice`,
+    'string.guid': `${label} must contain valid UUIDs`,
+  });
+
+export const bankMatchSchema = Joi.object<CreateBankMatchRequest>({
+  statement_line_ids: matchLineIdsSchema('statement_line_ids'),
+  journal_line_ids: matchLineIdsSchema('journal_line_ids'),
+});
+
+export const bankLineEntrySchema = Joi.object<CreateBankLineEntryRequest>({
+  account_code: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'account_code to book the statement line against is required',
+    }),
+  narration: journalEntrySchema.extract('narration').optional(),
+});
+
+export const unmatchedBankItemsQuerySchema = Joi.object<{ account_code: string; statement_id?: string }>({
+  account_code: autoMatchSchema.extract('account_code'),
+  statement_id: autoMatchSchema.extract('statement_id'),
+});
+
 // Utility function to validate and sanitize input
 export function validateInput<T>(schema: Joi.ObjectSchema<T>, data: unknown): T {
   const { error, value } = schema.validate(data, { 
@@ -0,0 +1,55 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Webhook helpers
+ * Every delivery is signed with the endpoint's secret: the X-Webhook-Signature header is
+ * sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">, with the timestamp (Unix seconds)
+ * sent in X-Webhook-Timestamp so that receivers can reject old deliveries.
+ */
+
+const SIGNATURE_PATTERN = /^sha256=([0-9a-f]{64})$/;
+
+// Delay before the first retry; doubles with every failed attempt up to the maximum
+const BASE_RETRY_DELAY_SECONDS = 30;
+const MAX_RETRY_DELAY_SECONDS = 6 * 60 * 60;
+
+export class Webhooks {
+  /**
+   * Generate a new signing secret
+   * @returns Secret of the form whsec_<43 base64url characters>
+   */
+  static generateSecret(): string {
+    return `whsec_${randomBytes(32).toString('base64url')}`;
+  }
+
+  /**
+   * Sign a delivery body
+   * @param timestamp - Unix seconds, sent alongside the signature
+   * @returns Value of the X-Webhook-Signature header
+   */
+  static sign(secret: string, timestamp: number, body: string): string {
+    const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `sha256=${digest}`;
+  }
+
+  /**
+   * Check a signature in constant time (as a receiver would)
+   */
+  static verify(secret: string, timestamp: number, body: string, signature: string): boolean {
+    const match = SIGNATURE_PATTERN.exec(signature);
+    if (!match) {
+      return false;
+    }
+
+    const expected = Buffer.from(Webhooks.sign(secret, timestamp, body).slice('sha256='.length), 'hex');
+    return timingSafeEqual(expected, Buffer.from(match[1]!, 'hex'));
+  }
+
+  /**
+   * Delay before the next attempt (exponential backoff)
+   * @param attempts - Attempts made so far, at least 1
+   */
+  static retryDelaySeconds(attempts: number): number {
+    return Math.min(BASE_RETRY_DELAY_SECONDS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_SECONDS);
+  }
+}